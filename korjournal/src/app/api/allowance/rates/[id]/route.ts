@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateMileageRate, deleteMileageRate } from '@/lib/database';
+import { parseMileageRate } from '@/lib/allowance';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const rateId = parseInt(resolvedParams.id);
+    
+    if (isNaN(rateId)) {
+      return NextResponse.json({ error: 'Ogiltigt sats-ID' }, { status: 400 });
+    }
+    
+    const rate = parseMileageRate(await request.json());
+    if (typeof rate === 'string') {
+      return NextResponse.json({ error: rate }, { status: 400 });
+    }
+
+    const success = await updateMileageRate(rateId, rate);
+
+    if (success) {
+      return NextResponse.json({ message: 'Ersättningssats uppdaterad' });
+    } else {
+      return NextResponse.json({ error: 'Ersättningssatsen finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update mileage rate error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera ersättningssats' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const rateId = parseInt(resolvedParams.id);
+
+    if (isNaN(rateId)) {
+      return NextResponse.json({ error: 'Ogiltigt sats-ID' }, { status: 400 });
+    }
+
+    const success = await deleteMileageRate(rateId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Ersättningssats borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Ersättningssatsen finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Delete mileage rate error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort ersättningssats' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMileageRates, insertMileageRate } from '@/lib/database';
+import { parseMileageRate } from '@/lib/allowance';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const rates = await getMileageRates();
+    
+    return NextResponse.json({ rates });
+  } catch (error) {
+    console.error('Mileage rates GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta ersättningssatser' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const rate = parseMileageRate(await request.json());
+    if (typeof rate === 'string') {
+      return NextResponse.json({ error: rate }, { status: 400 });
+    }
+    
+    const result = await insertMileageRate(rate);
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Ersättningssats skapad', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte skapa ersättningssats' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Mileage rates POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa ersättningssats' }, { status: 500 });
+  }
+}
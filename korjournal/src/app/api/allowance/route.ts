@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllTrips, getVehicles, getMileageRates, getCategories } from '@/lib/database';
+import { calculateAllowance } from '@/lib/allowance';
+import { requireUser } from '@/lib/auth';
+
+// Tax-free mileage allowance for the business trips in a period
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const dateFrom = searchParams.get('dateFrom') || '';
+    const dateTo = searchParams.get('dateTo') || '';
+    const vehicleId = parseInt(searchParams.get('vehicleId') || '') || null;
+    const driverId = parseInt(searchParams.get('driverId') || '') || null;
+    
+    const [trips, vehicles, rates, categories] = await Promise.all([
+      getAllTrips({ vehicleId, driverId, dateFrom, dateTo }),
+      getVehicles(),
+      getMileageRates(),
+      getCategories()
+    ]);
+    const businessCategories = categories.filter(c => c.isBusiness).map(c => c.name);
+    
+    return NextResponse.json({
+      dateFrom,
+      dateTo,
+      allowance: calculateAllowance(trips, vehicles, rates, businessCategories)
+    });
+  } catch (error) {
+    console.error('Allowance error:', error);
+    return NextResponse.json({ error: 'Kunde inte beräkna milersättning' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserCredentials } from '@/lib/database';
+import { verifyPassword, startSession } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+    
+    if (!username || !password) {
+      return NextResponse.json({ error: 'Användarnamn och lösenord måste anges' }, { status: 400 });
+    }
+    
+    const user = await getUserCredentials(String(username).trim().toLowerCase());
+    
+    if (!user || !(await verifyPassword(String(password), user.passwordHash))) {
+      return NextResponse.json({ error: 'Fel användarnamn eller lösenord' }, { status: 401 });
+    }
+    
+    const response = NextResponse.json({ 
+      message: 'Inloggad',
+      user: { id: user.id, username: user.username, role: user.role, driverId: user.driverId }
+    });
+    await startSession(request, response, user.id!);
+    
+    return response;
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json({ error: 'Inloggningen misslyckades' }, { status: 500 });
+  }
+}
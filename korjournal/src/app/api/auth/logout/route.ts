@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endSession } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const response = NextResponse.json({ message: 'Utloggad' });
+    await endSession(request, response);
+    
+    return response;
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json({ error: 'Utloggningen misslyckades' }, { status: 500 });
+  }
+}
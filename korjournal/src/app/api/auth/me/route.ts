@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('Current user error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta användare' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { countUsers, insertFirstOwner, getSetupCode, clearSetupCode } from '@/lib/database';
+import { hashPassword, startSession, MIN_PASSWORD_LENGTH } from '@/lib/auth';
+
+// The first account is created from the login page and is always an owner.
+// Once any account exists this route refuses to do anything. After a
+// database recovery that lost the accounts it also needs the setup code
+// printed on the server's console.
+export async function GET() {
+  try {
+    const needsSetup = (await countUsers()) === 0;
+    
+    return NextResponse.json({ needsSetup, needsSetupCode: needsSetup && getSetupCode() !== null });
+  } catch (error) {
+    console.error('Setup status error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta status' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if ((await countUsers()) > 0) {
+      return NextResponse.json({ error: 'Det finns redan ett ägarkonto' }, { status: 403 });
+    }
+    
+    const { username, password, setupCode } = await request.json();
+    
+    const expectedCode = getSetupCode();
+    if (expectedCode !== null) {
+      const given = Buffer.from(String(setupCode || '').trim());
+      const expected = Buffer.from(expectedCode);
+      if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+        return NextResponse.json({ error: 'Fel återställningskod' }, { status: 403 });
+      }
+    }
+    
+    if (!username || !password) {
+      return NextResponse.json({ error: 'Användarnamn och lösenord måste anges' }, { status: 400 });
+    }
+    
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json({ error: `Lösenordet måste vara minst ${MIN_PASSWORD_LENGTH} tecken` }, { status: 400 });
+    }
+    
+    // Checked again as the account is created, since another setup may have
+    // got there first. The setup code is spent with the first account.
+    const userId = await insertFirstOwner(String(username).trim().toLowerCase(), await hashPassword(String(password)));
+    if (userId === null) {
+      return NextResponse.json({ error: 'Det finns redan ett ägarkonto' }, { status: 403 });
+    }
+    clearSetupCode();
+    
+    const response = NextResponse.json({ message: 'Ägarkonto skapat' }, { status: 201 });
+    await startSession(request, response, userId);
+    
+    return response;
+  } catch (error) {
+    console.error('Setup error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa konto' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateCategory, deleteCategory } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const categoryId = parseInt(resolvedParams.id);
+    
+    if (isNaN(categoryId)) {
+      return NextResponse.json({ error: 'Ogiltigt kategori-ID' }, { status: 400 });
+    }
+    
+    const body = await request.json();
+    const { name, color, pdfDescription, isBusiness } = body;
+    
+    if (!name || !String(name).trim()) {
+      return NextResponse.json({ error: 'Namn måste anges' }, { status: 400 });
+    }
+
+    const success = await updateCategory(categoryId, {
+      name: String(name).trim(),
+      color: color || '#86868b',
+      pdfDescription: pdfDescription || '',
+      isBusiness: !!isBusiness
+    }, user);
+
+    if (success) {
+      return NextResponse.json({ message: 'Kategori uppdaterad' });
+    } else {
+      return NextResponse.json({ error: 'Kategori inte funnen eller namnet används redan' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update category error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera kategori' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const categoryId = parseInt(resolvedParams.id);
+
+    if (isNaN(categoryId)) {
+      return NextResponse.json({ error: 'Ogiltigt kategori-ID' }, { status: 400 });
+    }
+
+    const success = await deleteCategory(categoryId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Kategori borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Kategorin används av resor eller regler och kan inte tas bort' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Delete category error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort kategori' }, { status: 500 });
+  }
+}
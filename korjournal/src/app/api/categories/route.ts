@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCategories, insertCategory } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const categories = await getCategories();
+    
+    return NextResponse.json({ categories });
+  } catch (error) {
+    console.error('Categories GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta kategorier' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const body = await request.json();
+    const { name, color, pdfDescription, isBusiness } = body;
+    
+    if (!name || !String(name).trim()) {
+      return NextResponse.json({ error: 'Namn måste anges' }, { status: 400 });
+    }
+    
+    const result = await insertCategory({
+      name: String(name).trim(),
+      color: color || '#86868b',
+      pdfDescription: pdfDescription || '',
+      isBusiness: !!isBusiness
+    });
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Kategori skapad', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'En kategori med detta namn finns redan' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Categories POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa kategori' }, { status: 500 });
+  }
+}
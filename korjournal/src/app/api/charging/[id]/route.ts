@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateChargingSession, deleteChargingSession, getVehicles } from '@/lib/database';
+import { parseChargingSession } from '@/lib/charging';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const sessionId = parseInt(resolvedParams.id);
+    
+    if (isNaN(sessionId)) {
+      return NextResponse.json({ error: 'Ogiltigt laddnings-ID' }, { status: 400 });
+    }
+    
+    const session = parseChargingSession(await request.json(), await getVehicles());
+    if (typeof session === 'string') {
+      return NextResponse.json({ error: session }, { status: 400 });
+    }
+
+    const success = await updateChargingSession(sessionId, session);
+
+    if (success) {
+      return NextResponse.json({ message: 'Laddning uppdaterad' });
+    } else {
+      return NextResponse.json({ error: 'Laddningen finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update charging session error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera laddning' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const sessionId = parseInt(resolvedParams.id);
+
+    if (isNaN(sessionId)) {
+      return NextResponse.json({ error: 'Ogiltigt laddnings-ID' }, { status: 400 });
+    }
+
+    const success = await deleteChargingSession(sessionId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Laddning borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Laddningen finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Delete charging session error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort laddning' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChargingSessions, insertChargingSession, getVehicles } from '@/lib/database';
+import { parseChargingSession } from '@/lib/charging';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const sessions = await getChargingSessions({
+      vehicleId: parseInt(searchParams.get('vehicleId') || '') || null,
+      dateFrom: searchParams.get('dateFrom') || '',
+      dateTo: searchParams.get('dateTo') || ''
+    });
+    
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Charging sessions GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta laddningar' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const session = parseChargingSession(await request.json(), await getVehicles());
+    if (typeof session === 'string') {
+      return NextResponse.json({ error: session }, { status: 400 });
+    }
+    
+    const result = await insertChargingSession(session);
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Laddning sparad', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte spara laddning' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Charging sessions POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte spara laddning' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateCustomer, deleteCustomer } from '@/lib/database';
+import { parseCustomer } from '@/lib/customers';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const customerId = parseInt(resolvedParams.id);
+    
+    if (isNaN(customerId)) {
+      return NextResponse.json({ error: 'Ogiltigt kund-ID' }, { status: 400 });
+    }
+    
+    const customer = parseCustomer(await request.json());
+    if (typeof customer === 'string') {
+      return NextResponse.json({ error: customer }, { status: 400 });
+    }
+
+    const success = await updateCustomer(customerId, customer);
+
+    if (success) {
+      return NextResponse.json({ message: 'Kund uppdaterad' });
+    } else {
+      return NextResponse.json({ error: 'Kund inte funnen eller namnet används redan' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update customer error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera kund' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const customerId = parseInt(resolvedParams.id);
+
+    if (isNaN(customerId)) {
+      return NextResponse.json({ error: 'Ogiltigt kund-ID' }, { status: 400 });
+    }
+
+    const success = await deleteCustomer(customerId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Kund borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Kunden används av resor eller regler och kan inte tas bort' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Delete customer error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort kund' }, { status: 500 });
+  }
+}
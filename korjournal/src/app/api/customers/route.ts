@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCustomers, insertCustomer } from '@/lib/database';
+import { parseCustomer } from '@/lib/customers';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const customers = await getCustomers();
+    
+    return NextResponse.json({ customers });
+  } catch (error) {
+    console.error('Customers GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta kunder' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const customer = parseCustomer(await request.json());
+    if (typeof customer === 'string') {
+      return NextResponse.json({ error: customer }, { status: 400 });
+    }
+    
+    const result = await insertCustomer(customer);
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Kund skapad', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'En kund med detta namn finns redan' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Customers POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa kund' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateDriver, deleteDriver } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const driverId = parseInt(resolvedParams.id);
+    
+    if (isNaN(driverId)) {
+      return NextResponse.json({ error: 'Ogiltigt förar-ID' }, { status: 400 });
+    }
+    
+    const body = await request.json();
+    const { name, personNumber } = body;
+    
+    if (!name) {
+      return NextResponse.json({ error: 'Namn måste anges' }, { status: 400 });
+    }
+
+    const success = await updateDriver(driverId, { name, personNumber: personNumber || '' });
+
+    if (success) {
+      return NextResponse.json({ message: 'Förare uppdaterad' });
+    } else {
+      return NextResponse.json({ error: 'Förare inte funnen' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update driver error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera förare' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const driverId = parseInt(resolvedParams.id);
+
+    if (isNaN(driverId)) {
+      return NextResponse.json({ error: 'Ogiltigt förar-ID' }, { status: 400 });
+    }
+
+    const success = await deleteDriver(driverId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Förare borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Föraren har resor och kan inte tas bort' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Delete driver error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort förare' }, { status: 500 });
+  }
+}
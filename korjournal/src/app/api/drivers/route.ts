@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDrivers, insertDriver } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const drivers = await getDrivers();
+    
+    return NextResponse.json({ drivers });
+  } catch (error) {
+    console.error('Drivers GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta förare' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const body = await request.json();
+    const { name, personNumber } = body;
+    
+    if (!name) {
+      return NextResponse.json({ error: 'Namn måste anges' }, { status: 400 });
+    }
+    
+    const result = await insertDriver({ name, personNumber: personNumber || '' });
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Förare skapad', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte skapa förare' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Drivers POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa förare' }, { status: 500 });
+  }
+}
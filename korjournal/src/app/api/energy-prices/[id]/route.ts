@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateEnergyPrice, deleteEnergyPrice, getVehicles } from '@/lib/database';
+import { parseEnergyPrice } from '@/lib/energyPrices';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const priceId = parseInt(resolvedParams.id);
+    
+    if (isNaN(priceId)) {
+      return NextResponse.json({ error: 'Ogiltigt pris-ID' }, { status: 400 });
+    }
+    
+    const price = parseEnergyPrice(await request.json(), await getVehicles());
+    if (typeof price === 'string') {
+      return NextResponse.json({ error: price }, { status: 400 });
+    }
+
+    const success = await updateEnergyPrice(priceId, price);
+
+    if (success) {
+      return NextResponse.json({ message: 'Pris uppdaterat' });
+    } else {
+      return NextResponse.json({ error: 'Priset finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update energy price error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera pris' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const priceId = parseInt(resolvedParams.id);
+
+    if (isNaN(priceId)) {
+      return NextResponse.json({ error: 'Ogiltigt pris-ID' }, { status: 400 });
+    }
+
+    const success = await deleteEnergyPrice(priceId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Pris borttaget' });
+    } else {
+      return NextResponse.json({ error: 'Priset finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Delete energy price error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort pris' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEnergyPrices, insertEnergyPrice, getVehicles } from '@/lib/database';
+import { parseEnergyPrice } from '@/lib/energyPrices';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const prices = await getEnergyPrices();
+    
+    return NextResponse.json({ prices });
+  } catch (error) {
+    console.error('Energy prices GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta priser' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const price = parseEnergyPrice(await request.json(), await getVehicles());
+    if (typeof price === 'string') {
+      return NextResponse.json({ error: price }, { status: 400 });
+    }
+    
+    const result = await insertEnergyPrice(price);
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Pris sparat', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte spara pris' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Energy prices POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte spara pris' }, { status: 500 });
+  }
+}
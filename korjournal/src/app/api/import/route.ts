@@ -1,18 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parseCSVData } from '@/lib/csvParser';
-import { insertTrip, getSetting, DatabaseCorruptionError } from '@/lib/database';
+import { ImportPreviewRow } from '@/lib/csvParser';
+import { readImportFile, importRows } from '@/lib/csvImport';
+import { getVehicle, getExistingTripKeys, tripKey, findImportByHash, DatabaseCorruptionError } from '@/lib/database';
 import fs from 'fs';
 import path from 'path';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
 
+const DUPLICATE_REASONS = {
+  active: 'Resan finns redan',
+  deleted: 'Resan finns redan som borttagen',
+  superseded: 'Resan finns redan, delad eller sammanslagen'
+};
+
+// With dryRun set nothing is saved: every row of the file comes back marked
+// as new, duplicate or rejected, for the user to confirm before importing
 export async function POST(request: NextRequest) {
   try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    const vehicleId = parseInt(String(formData.get('vehicleId') || '')) || null;
+    const dryRun = formData.get('dryRun') === 'true';
     
     if (!file) {
       return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
     }
 
+    if (!vehicleId || !(await getVehicle(vehicleId))) {
+      return NextResponse.json({ error: 'Välj vilket fordon resorna tillhör' }, { status: 400 });
+    }
+
     // Read as ArrayBuffer first to handle encoding properly
     const arrayBuffer = await file.arrayBuffer();
     
@@ -36,98 +55,93 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Ogiltigt filnamn' }, { status: 400 });
     }
     
-    // Ensure uploads directory exists
-    if (!fs.existsSync(uploadsDir)) {
-      fs.mkdirSync(uploadsDir, { recursive: true });
-    }
-    
-    // Save original file content
-    const fileBuffer = Buffer.from(arrayBuffer);
-    fs.writeFileSync(filePath, fileBuffer);
-    
-    const uint8Array = new Uint8Array(arrayBuffer);
-    
-    // Check for BOM and decode accordingly
-    let csvContent: string;
-    if (uint8Array[0] === 0xFF && uint8Array[1] === 0xFE) {
-      // UTF-16 LE with BOM - this is what the volvo.csv file uses
-      console.log('Detected UTF-16 LE encoding with BOM');
-      csvContent = new TextDecoder('utf-16le').decode(uint8Array.slice(2));
-    } else if (uint8Array[0] === 0xFE && uint8Array[1] === 0xFF) {
-      // UTF-16 BE with BOM
-      console.log('Detected UTF-16 BE encoding with BOM');
-      csvContent = new TextDecoder('utf-16be').decode(uint8Array.slice(2));
-    } else if (uint8Array[0] === 0xEF && uint8Array[1] === 0xBB && uint8Array[2] === 0xBF) {
-      // UTF-8 with BOM
-      console.log('Detected UTF-8 encoding with BOM');
-      csvContent = new TextDecoder('utf-8').decode(uint8Array.slice(3));
-    } else {
-      // Try UTF-8 first, then fallback to other encodings
-      console.log('No BOM detected, trying UTF-8');
-      try {
-        csvContent = new TextDecoder('utf-8', { fatal: true }).decode(uint8Array);
-      } catch {
-        console.log('UTF-8 failed, trying ISO-8859-1');
-        try {
-          csvContent = new TextDecoder('iso-8859-1').decode(uint8Array);
-        } catch {
-          console.log('ISO-8859-1 failed, trying Windows-1252');
-          csvContent = new TextDecoder('windows-1252').decode(uint8Array);
-        }
+    if (!dryRun) {
+      // Ensure uploads directory exists
+      if (!fs.existsSync(uploadsDir)) {
+        fs.mkdirSync(uploadsDir, { recursive: true });
       }
+      
+      // Save original file content
+      fs.writeFileSync(filePath, Buffer.from(arrayBuffer));
     }
     
-    console.log('Decoded CSV content sample:', csvContent.substring(0, 200));
-    
-    // Get the auto-mapping setting
-    const mapOkategoriseratToPrivat = (await getSetting('mapOkategoriseratToPrivat')) === 'true';
-    console.log('Auto-mapping enabled:', mapOkategoriseratToPrivat);
-    
-    const trips = await parseCSVData(csvContent, mapOkategoriseratToPrivat);
-    
-    let imported = 0;
-    let duplicates = 0;
-    let errors = 0;
+    const importFile = await readImportFile(new Uint8Array(arrayBuffer));
+    const { rows, rules, categoryNames } = importFile;
+    
+    if (dryRun) {
+      const trips = rows.flatMap(row => row.trip && !row.error ? [row.trip] : []);
+      const existing = await getExistingTripKeys(trips);
+      const seen = new Set<string>();
+      const preview: ImportPreviewRow[] = rows.map(row => {
+        const trip = row.trip;
+        const key = trip && !row.error ? tripKey(trip) : null;
+        const existingState = key ? existing.get(key) : undefined;
+        const status = row.error ? 'rejected' : (existingState || (key && seen.has(key))) ? 'duplicate' : 'new';
+        if (key) seen.add(key);
+        
+        return {
+          line: row.line,
+          status,
+          reason: row.error || (existingState ? DUPLICATE_REASONS[existingState] : status === 'duplicate' ? 'Raden finns två gånger i filen' : null),
+          startDate: trip?.startDate || '',
+          startPosition: trip?.startPosition || '',
+          endDestination: trip?.endDestination || '',
+          odometerStart: trip && !isNaN(trip.odometerStart) ? trip.odometerStart : null,
+          odometerEnd: trip && !isNaN(trip.odometerEnd) ? trip.odometerEnd : null,
+          distance: trip && !isNaN(trip.distance) ? trip.distance : null,
+          category: trip?.category || '',
+          originalCategory: row.originalCategory,
+          categorizedBy: row.categorizedBy,
+          ruleName: trip?.ruleId ? rules.find(rule => rule.id === trip.ruleId)?.name || null : null
+        };
+      });
+      
+      const newCategories = [...new Set(preview
+        .filter(row => row.status === 'new' && row.category && !categoryNames.includes(row.category))
+        .map(row => row.category))];
+      
+      return NextResponse.json({
+        rows: preview,
+        new: preview.filter(row => row.status === 'new').length,
+        duplicates: preview.filter(row => row.status === 'duplicate').length,
+        rejected: preview.filter(row => row.status === 'rejected').length,
+        newCategories,
+        // The same file imported before, so the user isn't surprised by the duplicates
+        previousImport: await findImportByHash(importFile.hash)
+      });
+    }
     
-    for (const trip of trips) {
-      try {
-        const result = await insertTrip(trip);
-        if (result !== false) {
-          imported++;
-        } else {
-          duplicates++;
-        }
-      } catch (error) {
-        console.error('Error processing trip:', error);
-        errors++;
-      }
+    const result = await importRows(importFile, { fileName: filename, originalName: file.name, importedAt: now.toISOString() }, vehicleId, user);
+    if (!result) {
+      return NextResponse.json({ error: 'Import misslyckades' }, { status: 500 });
     }
+    const { imported, duplicates, rejected, errors, totalAttempted } = result;
     
     let message = `Import slutförd: ${imported} nya resor importerade`;
     if (duplicates > 0) {
       message += `, ${duplicates} dubbletter hoppades över`;
     }
+    if (rejected > 0) {
+      message += `, ${rejected} rader avvisades`;
+    }
     if (errors > 0) {
       message += `, ${errors} fel uppstod`;
     }
     
     // Calculate import statistics
-    const totalAttempted = trips.length;
     const successRate = totalAttempted > 0 ? ((imported / totalAttempted) * 100).toFixed(1) : '0';
     
     console.log(`Import Statistics:
     - Total trips in CSV: ${totalAttempted}
     - Successfully imported: ${imported}
     - Duplicates skipped: ${duplicates}
+    - Rejected rows: ${rejected}
     - Errors: ${errors}
     - Success rate: ${successRate}%`);
     
     return NextResponse.json({ 
       message,
-      imported,
-      duplicates,
-      errors,
-      totalAttempted,
+      ...result,
       successRate: parseFloat(successRate)
     });
   } catch (error) {
@@ -142,4 +156,4 @@ export async function POST(request: NextRequest) {
     
     return NextResponse.json({ error: 'Import misslyckades' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { undoImport } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+// Undoes the import: its trips that haven't been edited are deleted
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+
+    const resolvedParams = await params;
+    const importId = parseInt(resolvedParams.id);
+
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: 'Ogiltigt import-ID' }, { status: 400 });
+    }
+
+    const result = await undoImport(importId, user);
+    if (!result) {
+      return NextResponse.json({ error: 'Importen finns inte eller är redan ångrad' }, { status: 404 });
+    }
+
+    let message = `Importen har ångrats, ${result.removed} resor togs bort`;
+    if (result.kept > 0) {
+      message += `. ${result.kept} ändrade resor behölls`;
+    }
+    return NextResponse.json({ message, ...result });
+  } catch (error) {
+    console.error('Undo import error:', error);
+    return NextResponse.json({ error: 'Kunde inte ångra importen' }, { status: 500 });
+  }
+}
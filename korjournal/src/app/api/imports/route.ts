@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImports } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+
+    const imports = await getImports();
+    return NextResponse.json({ imports });
+  } catch (error) {
+    console.error('Get imports error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta importer' }, { status: 500 });
+  }
+}
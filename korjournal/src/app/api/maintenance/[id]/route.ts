@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateMaintenance, deleteMaintenance, getVehicles } from '@/lib/database';
+import { parseMaintenance } from '@/lib/maintenance';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const maintenanceId = parseInt(resolvedParams.id);
+    
+    if (isNaN(maintenanceId)) {
+      return NextResponse.json({ error: 'Ogiltigt underhålls-ID' }, { status: 400 });
+    }
+    
+    const maintenance = parseMaintenance(await request.json(), await getVehicles());
+    if (typeof maintenance === 'string') {
+      return NextResponse.json({ error: maintenance }, { status: 400 });
+    }
+
+    const success = await updateMaintenance(maintenanceId, maintenance);
+
+    if (success) {
+      return NextResponse.json({ message: 'Underhåll uppdaterat' });
+    } else {
+      return NextResponse.json({ error: 'Underhållet finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update maintenance error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera underhåll' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const maintenanceId = parseInt(resolvedParams.id);
+
+    if (isNaN(maintenanceId)) {
+      return NextResponse.json({ error: 'Ogiltigt underhålls-ID' }, { status: 400 });
+    }
+
+    const success = await deleteMaintenance(maintenanceId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Underhåll borttaget' });
+    } else {
+      return NextResponse.json({ error: 'Underhållet finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Delete maintenance error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort underhåll' }, { status: 500 });
+  }
+}
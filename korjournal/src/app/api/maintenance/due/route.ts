@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMaintenance, getMaintenanceIntervals, getLatestOdometers, getVehicles } from '@/lib/database';
+import { checkMaintenanceDue } from '@/lib/maintenance';
+import { requireUser } from '@/lib/auth';
+
+// Where every recurring maintenance stands, for one vehicle or all of them
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const vehicleId = parseInt(searchParams.get('vehicleId') || '') || null;
+    
+    const [intervals, maintenance, odometers, vehicles] = await Promise.all([
+      getMaintenanceIntervals(vehicleId),
+      getMaintenance({ vehicleId }),
+      getLatestOdometers(),
+      getVehicles()
+    ]);
+    const today = new Date().toISOString().split('T')[0];
+    
+    return NextResponse.json({ due: checkMaintenanceDue(intervals, maintenance, odometers, vehicles, today) });
+  } catch (error) {
+    console.error('Maintenance due error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta kommande underhåll' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteMaintenanceInterval } from '@/lib/database';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const intervalId = parseInt(resolvedParams.id);
+
+    if (isNaN(intervalId)) {
+      return NextResponse.json({ error: 'Ogiltigt intervall-ID' }, { status: 400 });
+    }
+
+    const success = await deleteMaintenanceInterval(intervalId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Serviceintervall borttaget' });
+    } else {
+      return NextResponse.json({ error: 'Serviceintervallet finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Delete maintenance interval error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort serviceintervall' }, { status: 500 });
+  }
+}
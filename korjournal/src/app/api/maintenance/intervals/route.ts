@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMaintenanceIntervals, saveMaintenanceInterval, getVehicles } from '@/lib/database';
+import { parseMaintenanceInterval } from '@/lib/maintenance';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const intervals = await getMaintenanceIntervals(parseInt(searchParams.get('vehicleId') || '') || null);
+    
+    return NextResponse.json({ intervals });
+  } catch (error) {
+    console.error('Maintenance intervals GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta serviceintervall' }, { status: 500 });
+  }
+}
+
+// Creates the vehicle's interval for the type, or replaces it
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const interval = parseMaintenanceInterval(await request.json(), await getVehicles());
+    if (typeof interval === 'string') {
+      return NextResponse.json({ error: interval }, { status: 400 });
+    }
+    
+    if (await saveMaintenanceInterval(interval)) {
+      return NextResponse.json({ message: 'Serviceintervall sparat' });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte spara serviceintervall' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Maintenance intervals POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte spara serviceintervall' }, { status: 500 });
+  }
+}
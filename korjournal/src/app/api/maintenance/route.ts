@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMaintenance, insertMaintenance, getVehicles } from '@/lib/database';
+import { parseMaintenance } from '@/lib/maintenance';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const maintenance = await getMaintenance({
+      vehicleId: parseInt(searchParams.get('vehicleId') || '') || null,
+      dateFrom: searchParams.get('dateFrom') || '',
+      dateTo: searchParams.get('dateTo') || ''
+    });
+    
+    return NextResponse.json({ maintenance });
+  } catch (error) {
+    console.error('Maintenance GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta underhåll' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const maintenance = parseMaintenance(await request.json(), await getVehicles());
+    if (typeof maintenance === 'string') {
+      return NextResponse.json({ error: maintenance }, { status: 400 });
+    }
+    
+    const result = await insertMaintenance(maintenance);
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Underhåll sparat', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte spara underhåll' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Maintenance POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte spara underhåll' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updatePlace, deletePlace } from '@/lib/database';
+import { parsePlace } from '@/lib/places';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const placeId = parseInt(resolvedParams.id);
+    
+    if (isNaN(placeId)) {
+      return NextResponse.json({ error: 'Ogiltigt plats-ID' }, { status: 400 });
+    }
+    
+    const place = parsePlace(await request.json());
+    if (typeof place === 'string') {
+      return NextResponse.json({ error: place }, { status: 400 });
+    }
+
+    const success = await updatePlace(placeId, place);
+
+    if (success) {
+      return NextResponse.json({ message: 'Plats uppdaterad' });
+    } else {
+      return NextResponse.json({ error: 'Plats inte funnen eller namnet används redan' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update place error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera plats' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const placeId = parseInt(resolvedParams.id);
+
+    if (isNaN(placeId)) {
+      return NextResponse.json({ error: 'Ogiltigt plats-ID' }, { status: 400 });
+    }
+
+    const success = await deletePlace(placeId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Plats borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Plats inte funnen' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Delete place error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort plats' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlaces, insertPlace } from '@/lib/database';
+import { parsePlace } from '@/lib/places';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const places = await getPlaces();
+    
+    return NextResponse.json({ places });
+  } catch (error) {
+    console.error('Places GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta platser' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const place = parsePlace(await request.json());
+    if (typeof place === 'string') {
+      return NextResponse.json({ error: place }, { status: 400 });
+    }
+    
+    const result = await insertPlace(place);
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Plats skapad', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'En plats med detta namn finns redan' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Places POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa plats' }, { status: 500 });
+  }
+}
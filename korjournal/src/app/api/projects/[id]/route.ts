@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateProject, deleteProject } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const projectId = parseInt(resolvedParams.id);
+    
+    if (isNaN(projectId)) {
+      return NextResponse.json({ error: 'Ogiltigt projekt-ID' }, { status: 400 });
+    }
+    
+    const body = await request.json();
+    const name = String(body.name || '').trim();
+    if (!name) {
+      return NextResponse.json({ error: 'Namn måste anges' }, { status: 400 });
+    }
+
+    const success = await updateProject(projectId, { name, code: String(body.code || '').trim() });
+
+    if (success) {
+      return NextResponse.json({ message: 'Projekt uppdaterat' });
+    } else {
+      return NextResponse.json({ error: 'Projekt inte funnet eller namnet används redan' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update project error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera projekt' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const projectId = parseInt(resolvedParams.id);
+
+    if (isNaN(projectId)) {
+      return NextResponse.json({ error: 'Ogiltigt projekt-ID' }, { status: 400 });
+    }
+
+    const success = await deleteProject(projectId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Projekt borttaget' });
+    } else {
+      return NextResponse.json({ error: 'Projektet används av resor eller regler och kan inte tas bort' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Delete project error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort projekt' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCustomers, getProjects, insertProject } from '@/lib/database';
+import { parseProject } from '@/lib/customers';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const projects = await getProjects();
+    
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error('Projects GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta projekt' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const project = parseProject(await request.json(), await getCustomers());
+    if (typeof project === 'string') {
+      return NextResponse.json({ error: project }, { status: 400 });
+    }
+    
+    const result = await insertProject(project);
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Projekt skapat', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Kunden har redan ett projekt med detta namn' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Projects POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa projekt' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRecovery, saveRecovery, listArchivedUploads, rebuildFromUploads } from '@/lib/recovery';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+// What the last recovery from a damaged database salvaged, and the archived
+// uploads it can rebuild the imported trips from
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+
+    const recovery = await getRecovery();
+    return NextResponse.json({
+      recovery,
+      uploads: recovery ? await listArchivedUploads() : []
+    });
+  } catch (error) {
+    console.error('Get recovery error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta återställningen' }, { status: 500 });
+  }
+}
+
+// Rebuilds the trips that couldn't be salvaged from the archived uploads.
+// vehicleId is used for files whose vehicle isn't known.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json().catch(() => ({}));
+    const vehicleId = parseInt(String(body.vehicleId || '')) || null;
+
+    if (!(await getRecovery())) {
+      return NextResponse.json({ error: 'Databasen har inte återställts' }, { status: 404 });
+    }
+
+    const files = await rebuildFromUploads(vehicleId, user);
+    if (typeof files === 'string') {
+      return NextResponse.json({ error: files }, { status: 400 });
+    }
+
+    const imported = files.reduce((sum, file) => sum + file.imported, 0);
+    const failed = files.filter(file => file.status === 'failed').length;
+    const restoredFrom = files.filter(file => file.imported > 0);
+    const currentRules = restoredFrom.filter(file => file.currentRules).length;
+
+    let message = `${imported} resor återskapades från ${restoredFrom.length} filer`;
+    if (failed > 0) {
+      message += `, ${failed} filer kunde inte importeras`;
+    }
+    if (currentRules > 0) {
+      message += `. ${currentRules} filer kategoriserades med dagens regler, eftersom reglerna de importerades med inte är kända, så kategorierna kan skilja sig från förut`;
+    }
+    return NextResponse.json({ message, imported, failed, files });
+  } catch (error) {
+    console.error('Rebuild from uploads error:', error);
+    return NextResponse.json({ error: 'Kunde inte återskapa resorna' }, { status: 500 });
+  }
+}
+
+// Hides the recovery notice
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+
+    const recovery = await getRecovery();
+    if (!recovery) {
+      return NextResponse.json({ error: 'Databasen har inte återställts' }, { status: 404 });
+    }
+
+    await saveRecovery({ ...recovery, dismissedAt: new Date().toISOString() });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Dismiss recovery error:', error);
+    return NextResponse.json({ error: 'Kunde inte dölja återställningen' }, { status: 500 });
+  }
+}
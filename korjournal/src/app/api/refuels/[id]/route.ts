@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateRefuel, deleteRefuel, getVehicles } from '@/lib/database';
+import { parseRefuel } from '@/lib/refuels';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const refuelId = parseInt(resolvedParams.id);
+    
+    if (isNaN(refuelId)) {
+      return NextResponse.json({ error: 'Ogiltigt tanknings-ID' }, { status: 400 });
+    }
+    
+    const refuel = parseRefuel(await request.json(), await getVehicles());
+    if (typeof refuel === 'string') {
+      return NextResponse.json({ error: refuel }, { status: 400 });
+    }
+
+    const success = await updateRefuel(refuelId, refuel);
+
+    if (success) {
+      return NextResponse.json({ message: 'Tankning uppdaterad' });
+    } else {
+      return NextResponse.json({ error: 'Tankningen finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update refuel error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera tankning' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const refuelId = parseInt(resolvedParams.id);
+
+    if (isNaN(refuelId)) {
+      return NextResponse.json({ error: 'Ogiltigt tanknings-ID' }, { status: 400 });
+    }
+
+    const success = await deleteRefuel(refuelId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Tankning borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Tankningen finns inte' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Delete refuel error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort tankning' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRefuels, insertRefuel, getVehicles } from '@/lib/database';
+import { parseRefuel } from '@/lib/refuels';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const refuels = await getRefuels({
+      vehicleId: parseInt(searchParams.get('vehicleId') || '') || null,
+      dateFrom: searchParams.get('dateFrom') || '',
+      dateTo: searchParams.get('dateTo') || ''
+    });
+    
+    return NextResponse.json({ refuels });
+  } catch (error) {
+    console.error('Refuels GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta tankningar' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const refuel = parseRefuel(await request.json(), await getVehicles());
+    if (typeof refuel === 'string') {
+      return NextResponse.json({ error: refuel }, { status: 400 });
+    }
+    
+    const result = await insertRefuel(refuel);
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Tankning sparad', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte spara tankning' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Refuels POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte spara tankning' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllTrips, getCustomers, getProjects } from '@/lib/database';
+import { requireUser } from '@/lib/auth';
+
+const roundKr = (amount: number) => Math.round(amount * 100) / 100;
+
+// Distance and cost per customer and project for a period, with the trips
+// behind them, so travel can be re-invoiced. Cost is distance times the
+// customer's rate per km and is null for customers without a rate.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const dateFrom = searchParams.get('dateFrom') || '';
+    const dateTo = searchParams.get('dateTo') || '';
+    const vehicleId = parseInt(searchParams.get('vehicleId') || '') || null;
+    const customerId = parseInt(searchParams.get('customerId') || '') || null;
+    
+    const [trips, customers, projects] = await Promise.all([
+      getAllTrips({ vehicleId, customerId, dateFrom, dateTo }),
+      getCustomers(),
+      getProjects()
+    ]);
+    
+    const report = customers
+      .map(customer => {
+        const customerTrips = trips.filter(trip => trip.customerId === customer.id);
+        const cost = (distance: number) => customer.ratePerKm === null ? null : roundKr(distance * customer.ratePerKm);
+        const distanceOf = (list: typeof trips) => list.reduce((sum, trip) => sum + trip.distance, 0);
+        
+        const projectIds = [...new Set(customerTrips.map(trip => trip.projectId ?? null))];
+        const projectRows = projectIds.map(projectId => {
+          const projectTrips = customerTrips.filter(trip => (trip.projectId ?? null) === projectId);
+          const project = projects.find(p => p.id === projectId);
+          const distance = distanceOf(projectTrips);
+          return {
+            projectId,
+            name: project?.name || '',
+            code: project?.code || '',
+            tripCount: projectTrips.length,
+            distance,
+            cost: cost(distance)
+          };
+        });
+        
+        const distance = distanceOf(customerTrips);
+        return {
+          customerId: customer.id!,
+          name: customer.name,
+          orgNumber: customer.orgNumber,
+          ratePerKm: customer.ratePerKm,
+          tripCount: customerTrips.length,
+          distance,
+          cost: cost(distance),
+          projects: projectRows,
+          trips: customerTrips.map(trip => ({
+            id: trip.id!,
+            startDate: trip.startDate,
+            endDate: trip.endDate,
+            startPosition: trip.startPlaceName || trip.startPosition,
+            endDestination: trip.endPlaceName || trip.endDestination,
+            distance: trip.distance,
+            category: trip.category,
+            notes: trip.notes,
+            projectName: trip.projectName || '',
+            cost: cost(trip.distance)
+          }))
+        };
+      })
+      .filter(row => row.tripCount > 0);
+    
+    return NextResponse.json({
+      dateFrom,
+      dateTo,
+      customers: report,
+      totalDistance: report.reduce((sum, row) => sum + row.distance, 0),
+      totalCost: roundKr(report.reduce((sum, row) => sum + (row.cost || 0), 0))
+    });
+  } catch (error) {
+    console.error('Customer report error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta kundrapport' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllTrips, getVehicles, getCategories } from '@/lib/database';
+import { isBenefitCar, summarizePrivateUse } from '@/lib/benefitCar';
+import { requireUser } from '@/lib/auth';
+
+// A benefit car's private driving for one calendar year, per month and
+// against the vehicle's limits
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const vehicleId = parseInt(searchParams.get('vehicleId') || '');
+    const year = parseInt(searchParams.get('year') || '') || new Date().getFullYear();
+    
+    if (isNaN(vehicleId)) {
+      return NextResponse.json({ error: 'Ogiltigt fordons-ID' }, { status: 400 });
+    }
+    
+    const [vehicles, categories] = await Promise.all([getVehicles(), getCategories()]);
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    
+    if (!vehicle) {
+      return NextResponse.json({ error: 'Fordon inte funnet' }, { status: 404 });
+    }
+    if (!isBenefitCar(vehicle)) {
+      return NextResponse.json({ error: 'Fordonet är inte en förmånsbil' }, { status: 400 });
+    }
+    
+    const trips = await getAllTrips({ vehicleId, dateFrom: `${year}-01-01`, dateTo: `${year}-12-31` });
+    const businessCategories = categories.filter(c => c.isBusiness).map(c => c.name);
+    
+    return NextResponse.json({ summary: summarizePrivateUse(trips, vehicle, businessCategories, year) });
+  } catch (error) {
+    console.error('Private use report error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta privatkörning' }, { status: 500 });
+  }
+}
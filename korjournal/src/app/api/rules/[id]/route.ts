@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateRule, deleteRule, getCategories, getCustomers, getProjects } from '@/lib/database';
+import { parseRule } from '@/lib/rules';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const ruleId = parseInt(resolvedParams.id);
+    
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Ogiltigt regel-ID' }, { status: 400 });
+    }
+    
+    const categoryNames = (await getCategories()).map(c => c.name);
+    const rule = parseRule(await request.json(), categoryNames, await getCustomers(), await getProjects());
+    if (typeof rule === 'string') {
+      return NextResponse.json({ error: rule }, { status: 400 });
+    }
+
+    const success = await updateRule(ruleId, rule);
+
+    if (success) {
+      return NextResponse.json({ message: 'Regel uppdaterad' });
+    } else {
+      return NextResponse.json({ error: 'Regel inte funnen' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update rule error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera regel' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const ruleId = parseInt(resolvedParams.id);
+
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Ogiltigt regel-ID' }, { status: 400 });
+    }
+
+    const success = await deleteRule(ruleId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Regel borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Regel inte funnen' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Delete rule error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort regel' }, { status: 500 });
+  }
+}
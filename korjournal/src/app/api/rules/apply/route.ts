@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllTrips, getRules, applyRuleResults, RuleResult } from '@/lib/database';
+import { categorizeTrip } from '@/lib/rules';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+// Runs the rules on already logged trips. With dryRun the changes are only
+// returned, so they can be previewed before anything is written.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const body = await request.json();
+    const { dryRun, dateFrom, dateTo, onlyUncategorized } = body;
+    const vehicleId = parseInt(String(body.vehicleId || '')) || null;
+    
+    const rules = await getRules();
+    const trips = await getAllTrips({ vehicleId, dateFrom, dateTo });
+    
+    const changes = [];
+    for (const trip of trips) {
+      if (onlyUncategorized && trip.category !== 'Okategoriserat') continue;
+      
+      // Trips the rule would leave as they are keep their manual categorization
+      const result = categorizeTrip(trip, rules);
+      if (!result || (result.category === trip.category && result.notes === trip.notes &&
+          result.customerId === (trip.customerId ?? null) && result.projectId === (trip.projectId ?? null))) {
+        continue;
+      }
+      
+      changes.push({
+        tripId: trip.id!,
+        startDate: trip.startDate,
+        startPosition: trip.startPosition,
+        endDestination: trip.endDestination,
+        distance: trip.distance,
+        oldCategory: trip.category,
+        oldNotes: trip.notes,
+        ruleName: rules.find(rule => rule.id === result.ruleId)?.name || '',
+        ...result
+      });
+    }
+    
+    if (dryRun) {
+      return NextResponse.json({ changes });
+    }
+    
+    const results: RuleResult[] = changes.map(({ tripId, ruleId, category, notes, customerId, projectId }) => ({
+      tripId, ruleId, category, notes, customerId, projectId
+    }));
+    const updated = await applyRuleResults(results, user);
+    
+    return NextResponse.json({ 
+      message: `Reglerna ändrade ${updated} resor`,
+      changes,
+      updated
+    });
+  } catch (error) {
+    console.error('Apply rules error:', error);
+    return NextResponse.json({ error: 'Kunde inte köra reglerna' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRules, insertRule, getCategories, getCustomers, getProjects } from '@/lib/database';
+import { parseRule } from '@/lib/rules';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const rules = await getRules();
+    
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Rules GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta regler' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const categoryNames = (await getCategories()).map(c => c.name);
+    const rule = parseRule(await request.json(), categoryNames, await getCustomers(), await getProjects());
+    if (typeof rule === 'string') {
+      return NextResponse.json({ error: rule }, { status: 400 });
+    }
+    
+    const result = await insertRule(rule);
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Regel skapad', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte skapa regel' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Rules POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa regel' }, { status: 500 });
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMultipleSettings, setSetting } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
     const { searchParams } = new URL(request.url);
     const keys = searchParams.get('keys')?.split(',') || [];
     
@@ -23,6 +27,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
     const { settings } = await request.json();
     
     if (!settings || typeof settings !== 'object') {
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSetting, setSetting } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
     const { searchParams } = new URL(request.url);
     const key = searchParams.get('key');
     
@@ -21,6 +25,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
     const body = await request.json();
     const { key, value } = body;
     
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSettings, setUserSettings } from '@/lib/database';
+import { requireUser } from '@/lib/auth';
+
+// What each user picks for themselves. Anything else is a shared setting
+// that only owners may change.
+const USER_SETTING_KEYS = ['activeVehicleId', 'exportDriverId', 'exportIncludeHistory'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+
+    const { searchParams } = new URL(request.url);
+    const keys = searchParams.get('keys')?.split(',').filter(key => USER_SETTING_KEYS.includes(key)) || [];
+
+    if (keys.length === 0) {
+      return NextResponse.json({ error: 'No keys provided' }, { status: 400 });
+    }
+
+    return NextResponse.json({ settings: await getUserSettings(user.id!, keys) });
+  } catch (error) {
+    console.error('Get user settings error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta inställningarna' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+
+    const { settings } = await request.json();
+
+    if (!settings || typeof settings !== 'object') {
+      return NextResponse.json({ error: 'Invalid settings object' }, { status: 400 });
+    }
+    if (Object.keys(settings).some(key => !USER_SETTING_KEYS.includes(key))) {
+      return NextResponse.json({ error: 'Okänd inställning' }, { status: 400 });
+    }
+
+    const success = await setUserSettings(user.id!, Object.fromEntries(
+      Object.entries(settings).map(([key, value]) => [key, String(value)])
+    ));
+
+    if (success) {
+      return NextResponse.json({ success: true });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte spara inställningarna' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Save user settings error:', error);
+    return NextResponse.json({ error: 'Kunde inte spara inställningarna' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSpotPriceCoverage, saveSpotPrices } from '@/lib/database';
+import { parseSpotPriceFile, SPOT_PRICE_AREAS } from '@/lib/spotPrices';
+import path from 'path';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const coverage = await getSpotPriceCoverage();
+    
+    return NextResponse.json({ coverage });
+  } catch (error) {
+    console.error('Spot prices GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta spotpriser' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    const area = String(formData.get('area') || '') || null;
+    
+    if (!file) {
+      return NextResponse.json({ error: 'Ingen fil uppladdad' }, { status: 400 });
+    }
+    if (!['.csv', '.json'].includes(path.extname(file.name).toLowerCase())) {
+      return NextResponse.json({ error: 'Endast CSV- och JSON-filer är tillåtna' }, { status: 400 });
+    }
+    if (area !== null && !SPOT_PRICE_AREAS.includes(area)) {
+      return NextResponse.json({ error: 'Ogiltigt elområde' }, { status: 400 });
+    }
+    
+    const prices = parseSpotPriceFile(await file.text(), file.name, area);
+    if (typeof prices === 'string') {
+      return NextResponse.json({ error: prices }, { status: 400 });
+    }
+    
+    if (!(await saveSpotPrices(prices))) {
+      return NextResponse.json({ error: 'Kunde inte spara spotpriser' }, { status: 500 });
+    }
+    
+    const areas = [...new Set(prices.map(price => price.area))].sort();
+    const hours = prices.map(price => price.hour).sort();
+    return NextResponse.json({ 
+      message: `${prices.length} timpriser importerade för ${areas.join(', ')}, ${hours[0].slice(0, 10)} – ${hours[hours.length - 1].slice(0, 10)}`,
+      imported: prices.length
+    });
+  } catch (error) {
+    console.error('Spot prices POST error:', error);
+    return NextResponse.json({ error: 'Import av spotpriser misslyckades' }, { status: 500 });
+  }
+}
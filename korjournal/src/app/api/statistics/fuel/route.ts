@@ -1,16 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getFuelStatistics } from '@/lib/database';
+import { getFuelStatistics, getMonthlyTripEnergy, getRefuels, getChargingSessions, getSetting, getSpotPrices, ChargingSession } from '@/lib/database';
+import { summarizeRefuels } from '@/lib/refuels';
+import { summarizeCharging, isSpotPriced } from '@/lib/charging';
+import { indexSpotPrices, SPOT_PRICE_AREA_SETTING } from '@/lib/spotPrices';
+import { costTripEnergy } from '@/lib/energyPrices';
+import { requireUser } from '@/lib/auth';
+
+// Spot prices for the whole months the spot priced sessions fall in, so
+// monthly averages can be compared with what was paid
+async function loadSpotPrices(sessions: ChargingSession[]) {
+  const area = await getSetting(SPOT_PRICE_AREA_SETTING);
+  const spotSessions = sessions.filter(isSpotPriced);
+  if (!area || spotSessions.length === 0) {
+    return undefined;
+  }
+  
+  const from = spotSessions.map(session => session.startedAt).sort()[0].slice(0, 7);
+  const lastEnd = spotSessions.map(session => session.endedAt || session.startedAt).sort().reverse()[0];
+  const to = new Date(`${lastEnd.slice(0, 7)}-01T00:00:00Z`);
+  to.setUTCMonth(to.getUTCMonth() + 1);
+  
+  return indexSpotPrices(await getSpotPrices(area, `${from}-01 00:00`, `${to.toISOString().slice(0, 10)} 00:00`));
+}
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
     const { searchParams } = new URL(request.url);
     const category = searchParams.get('category') || '';
     const dateFrom = searchParams.get('dateFrom') || '';
     const dateTo = searchParams.get('dateTo') || '';
+    const vehicleId = parseInt(searchParams.get('vehicleId') || '') || null;
+    
+    const [statistics, monthlyEnergy, refuels, chargingSessions] = await Promise.all([
+      getFuelStatistics({ vehicleId, category, dateFrom, dateTo }),
+      getMonthlyTripEnergy({ vehicleId, category, dateFrom, dateTo }),
+      getRefuels({ vehicleId, dateFrom, dateTo }),
+      getChargingSessions({ vehicleId, dateFrom, dateTo })
+    ]);
+    const spot = await loadSpotPrices(chargingSessions);
     
-    const statistics = await getFuelStatistics(category, dateFrom, dateTo);
+    // Trips are costed at what was paid for fuel and charging in their month,
+    // or the price history where nothing was logged. The totals and the
+    // monthly table come from the same costs.
+    const costs = costTripEnergy(monthlyEnergy, refuels, chargingSessions, spot);
+    const monthlyCosts = [...costs.values()];
     
-    return NextResponse.json({ statistics });
+    // Refuels and charging are not categorized, so they always cover every trip in the period
+    return NextResponse.json({
+      statistics: {
+        ...statistics,
+        totalFuelCost: monthlyCosts.reduce((sum, cost) => sum + cost.fuelCost, 0),
+        totalElectricCost: monthlyCosts.reduce((sum, cost) => sum + cost.electricCost, 0),
+        monthlyStats: statistics.monthlyStats.map(stat => ({ ...stat, ...costs.get(stat.month) }))
+      },
+      refuels: summarizeRefuels(refuels),
+      charging: summarizeCharging(chargingSessions, spot)
+    });
   } catch (error) {
     console.error('Get fuel statistics error:', error);
     return NextResponse.json({ 
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteTravelDeductionRate } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const year = parseInt(resolvedParams.year);
+
+    if (isNaN(year)) {
+      return NextResponse.json({ error: 'Ogiltigt år' }, { status: 400 });
+    }
+
+    const success = await deleteTravelDeductionRate(year);
+
+    if (success) {
+      return NextResponse.json({ message: 'Sats för reseavdrag borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Det finns ingen sats för året' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Delete travel deduction rate error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort sats för reseavdrag' }, { status: 500 });
+  }
+}
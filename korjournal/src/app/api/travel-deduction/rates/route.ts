@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTravelDeductionRates, saveTravelDeductionRate } from '@/lib/database';
+import { parseTravelDeductionRate } from '@/lib/travelDeduction';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const rates = await getTravelDeductionRates();
+    
+    return NextResponse.json({ rates });
+  } catch (error) {
+    console.error('Travel deduction rates GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta satser för reseavdrag' }, { status: 500 });
+  }
+}
+
+// Sets the rate and threshold for a year, replacing any earlier ones
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const rate = parseTravelDeductionRate(await request.json());
+    if (typeof rate === 'string') {
+      return NextResponse.json({ error: rate }, { status: 400 });
+    }
+    
+    const success = await saveTravelDeductionRate(rate);
+    
+    if (success) {
+      return NextResponse.json({ message: 'Sats för reseavdrag sparad' });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte spara sats för reseavdrag' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Travel deduction rates POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte spara sats för reseavdrag' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllTrips, getVehicles, getTravelDeductionRates, getPlaces, getSetting } from '@/lib/database';
+import {
+  calculateTravelDeduction,
+  formatTravelDeductionSummary,
+  HOME_PLACE_SETTING,
+  WORK_PLACE_SETTING
+} from '@/lib/travelDeduction';
+import { requireUser } from '@/lib/auth';
+
+// Reseavdrag for commuting between the saved home and work places in one year
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || '') || new Date().getFullYear();
+    const driverId = parseInt(searchParams.get('driverId') || '') || null;
+    
+    const [homeSetting, workSetting, places] = await Promise.all([
+      getSetting(HOME_PLACE_SETTING),
+      getSetting(WORK_PLACE_SETTING),
+      getPlaces()
+    ]);
+    const home = places.find(p => p.id === Number(homeSetting));
+    const work = places.find(p => p.id === Number(workSetting));
+    
+    if (!home || !work) {
+      return NextResponse.json({ error: 'Välj hem och arbetsplats bland de sparade platserna' }, { status: 400 });
+    }
+    if (home.id === work.id) {
+      return NextResponse.json({ error: 'Hem och arbetsplats måste vara olika platser' }, { status: 400 });
+    }
+    
+    const [trips, vehicles, rates] = await Promise.all([
+      getAllTrips({ driverId, dateFrom: `${year}-01-01`, dateTo: `${year}-12-31` }),
+      getVehicles(),
+      getTravelDeductionRates()
+    ]);
+    const rate = rates.find(r => r.year === year) || null;
+    const report = calculateTravelDeduction(trips, vehicles, rate, home.id!, work.id!, year);
+    
+    return NextResponse.json({
+      report,
+      summary: formatTravelDeductionSummary(report, home.name, work.name)
+    });
+  } catch (error) {
+    console.error('Travel deduction error:', error);
+    return NextResponse.json({ error: 'Kunde inte beräkna reseavdrag' }, { status: 500 });
+  }
+}
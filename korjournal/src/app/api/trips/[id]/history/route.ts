@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripHistory, verifyTripHistory, countTripHistoryBreaks } from '@/lib/database';
+import { requireUser } from '@/lib/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const tripId = parseInt(resolvedParams.id);
+
+    if (isNaN(tripId)) {
+      return NextResponse.json({ error: 'Ogiltigt resa-ID' }, { status: 400 });
+    }
+
+    const history = await getTripHistory(tripId);
+    const brokenAt = await verifyTripHistory();
+    
+    const recoveredBreaks = await countTripHistoryBreaks();
+    
+    return NextResponse.json({ history, intact: brokenAt === null, recoveredBreaks });
+  } catch (error) {
+    console.error('Trip history error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta ändringshistorik' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrip, getMergedTrips, unmergeTrip } from '@/lib/database';
+import { requireUser, canEditTrip, EDITOR_ROLES } from '@/lib/auth';
+
+// The trips a merged trip was made from
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const tripId = parseInt(resolvedParams.id);
+
+    if (isNaN(tripId)) {
+      return NextResponse.json({ error: 'Ogiltigt resa-ID' }, { status: 400 });
+    }
+
+    const trips = await getMergedTrips(tripId);
+    return NextResponse.json({ trips });
+  } catch (error) {
+    console.error('Get merged trips error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta sammanslagna resor' }, { status: 500 });
+  }
+}
+
+// Undoes the merge
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const tripId = parseInt(resolvedParams.id);
+
+    if (isNaN(tripId)) {
+      return NextResponse.json({ error: 'Ogiltigt resa-ID' }, { status: 400 });
+    }
+
+    const trip = await getTrip(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Resa inte funnen' }, { status: 404 });
+    }
+    if (!canEditTrip(user, trip)) {
+      return NextResponse.json({ error: 'Du kan bara ändra dina egna resor' }, { status: 403 });
+    }
+
+    const success = await unmergeTrip(tripId, user);
+
+    if (success) {
+      return NextResponse.json({ message: 'Sammanslagningen har ångrats' });
+    } else {
+      return NextResponse.json({ error: 'Resan är inte sammanslagen' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Unmerge trip error:', error);
+    return NextResponse.json({ error: 'Kunde inte ångra sammanslagningen' }, { status: 500 });
+  }
+}
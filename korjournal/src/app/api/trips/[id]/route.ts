@@ -1,23 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { updateTrip, deleteTrip } from '@/lib/database';
+import { getTrip, updateTrip, deleteTrip, getCategories, getCustomers, getProjects } from '@/lib/database';
+import { resolveCustomerProject } from '@/lib/customers';
+import { requireUser, canEditTrip, EDITOR_ROLES } from '@/lib/auth';
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
     const resolvedParams = await params;
     const tripId = parseInt(resolvedParams.id);
+
+    if (isNaN(tripId)) {
+      return NextResponse.json({ error: 'Ogiltigt resa-ID' }, { status: 400 });
+    }
+
+    const trip = await getTrip(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Resa inte funnen' }, { status: 404 });
+    }
+    if (!canEditTrip(user, trip)) {
+      return NextResponse.json({ error: 'Du kan bara ändra dina egna resor' }, { status: 403 });
+    }
+
     const body = await request.json();
-    const { category, notes, startPosition, endDestination, duration } = body;
+    const { category, notes, startPosition, endDestination, durationMinutes, driverId } = body;
+
+    if (category !== undefined && !(await getCategories()).some(c => c.name === category)) {
+      return NextResponse.json({ error: 'Okänd kategori' }, { status: 400 });
+    }
+
+    const newDurationMinutes = durationMinutes === undefined || durationMinutes === null || durationMinutes === ''
+      ? (durationMinutes === undefined ? undefined : null)
+      : Number(durationMinutes);
+    if (Number.isNaN(newDurationMinutes)) {
+      return NextResponse.json({ error: 'Varaktigheten måste anges i minuter' }, { status: 400 });
+    }
+
+    let newDriverId = driverId === undefined ? undefined : (driverId ? Number(driverId) : null);
+    if (user.role === 'driver') {
+      newDriverId = undefined;
+    }
+
+    // Customer and project are changed together, or not at all
+    let customerProject: { customerId?: number | null; projectId?: number | null } = {};
+    if (body.customerId !== undefined || body.projectId !== undefined) {
+      const resolved = resolveCustomerProject(body, await getCustomers(), await getProjects());
+      if (typeof resolved === 'string') {
+        return NextResponse.json({ error: resolved }, { status: 400 });
+      }
+      customerProject = resolved;
+    }
 
     const success = await updateTrip(tripId, { 
       category, 
       notes, 
       startPosition, 
       endDestination, 
-      duration 
-    });
+      durationMinutes: newDurationMinutes,
+      driverId: newDriverId,
+      ...customerProject
+    }, user);
 
     if (success) {
       return NextResponse.json({ message: 'Resa uppdaterad' });
@@ -35,6 +81,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
     const resolvedParams = await params;
     const tripId = parseInt(resolvedParams.id);
 
@@ -42,7 +91,12 @@ export async function DELETE(
       return NextResponse.json({ error: 'Ogiltigt resa-ID' }, { status: 400 });
     }
 
-    const success = await deleteTrip(tripId);
+    const trip = await getTrip(tripId);
+    if (trip && !canEditTrip(user, trip)) {
+      return NextResponse.json({ error: 'Du kan bara ta bort dina egna resor' }, { status: 403 });
+    }
+
+    const success = await deleteTrip(tripId, user);
 
     if (success) {
       return NextResponse.json({ message: 'Resa borttagen' });
@@ -53,4 +107,4 @@ export async function DELETE(
     console.error('Delete trip error:', error);
     return NextResponse.json({ error: 'Kunde inte ta bort resa' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrip, getCategories, splitTrip, Trip, TripSegment } from '@/lib/database';
+import { requireUser, canEditTrip, EDITOR_ROLES } from '@/lib/auth';
+
+// Checks that the parts line up end to end inside the original trip and
+// together cover its whole distance, which must also agree with the odometer.
+// The odometer counts whole km, so it may be up to 1 km off the distance.
+// Returns an error message or null.
+function validateSegments(trip: Trip, segments: TripSegment[], categoryNames: string[]): string | null {
+  if (segments.length < 2) {
+    return 'En resa måste delas i minst två delar';
+  }
+
+  let odometer = trip.odometerStart;
+  let date = trip.startDate;
+  let totalDistance = 0;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const isLast = i === segments.length - 1;
+
+    if (!categoryNames.includes(segment.category)) {
+      return `Del ${i + 1} har en okänd kategori`;
+    }
+    if (!(segment.distance > 0)) {
+      return `Del ${i + 1} måste ha ett avstånd större än noll`;
+    }
+    totalDistance += segment.distance;
+
+    if (isLast) break;
+
+    // Every part must cover some of the odometer, or its key would clash
+    // with the trip it was split from or with the part before it
+    if (!Number.isInteger(segment.odometerEnd) || segment.odometerEnd <= odometer || segment.odometerEnd >= trip.odometerEnd) {
+      return `Mätarställningen efter del ${i + 1} måste vara större än ${odometer} och mindre än ${trip.odometerEnd} km`;
+    }
+    if (!segment.endDate || segment.endDate < date || segment.endDate > trip.endDate) {
+      return `Tiden efter del ${i + 1} måste ligga inom resans tid`;
+    }
+    if (!segment.endDestination?.trim()) {
+      return `Ange var del ${i + 1} slutade`;
+    }
+    odometer = segment.odometerEnd;
+    date = segment.endDate;
+  }
+
+  if (Math.abs(totalDistance - trip.distance) > 0.05) {
+    return `Delarnas avstånd (${totalDistance.toFixed(1)} km) måste bli resans avstånd (${trip.distance.toFixed(1)} km)`;
+  }
+
+  const odometerDistance = trip.odometerEnd - trip.odometerStart;
+  if (Math.abs(totalDistance - odometerDistance) >= 1) {
+    return `Delarnas avstånd (${totalDistance.toFixed(1)} km) stämmer inte med mätarställningarna ${trip.odometerStart}–${trip.odometerEnd} km (${odometerDistance} km)`;
+  }
+
+  return null;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const tripId = parseInt(resolvedParams.id);
+
+    if (isNaN(tripId)) {
+      return NextResponse.json({ error: 'Ogiltigt resa-ID' }, { status: 400 });
+    }
+
+    const trip = await getTrip(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Resa inte funnen' }, { status: 404 });
+    }
+    if (!canEditTrip(user, trip)) {
+      return NextResponse.json({ error: 'Du kan bara ändra dina egna resor' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const segments: TripSegment[] = Array.isArray(body.segments)
+      ? body.segments.map((segment: Record<string, unknown>) => ({
+          category: String(segment.category || ''),
+          notes: String(segment.notes || ''),
+          odometerEnd: Number(segment.odometerEnd),
+          endDate: String(segment.endDate || ''),
+          endDestination: String(segment.endDestination || ''),
+          distance: Number(segment.distance)
+        }))
+      : [];
+
+    const categoryNames = (await getCategories()).map(c => c.name);
+    const validationError = validateSegments(trip, segments, categoryNames);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const partIds = await splitTrip(tripId, segments, user);
+
+    if (partIds) {
+      return NextResponse.json({ message: 'Resan har delats', tripIds: partIds });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte dela resan' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Split trip error:', error);
+    return NextResponse.json({ error: 'Kunde inte dela resan' }, { status: 500 });
+  }
+}
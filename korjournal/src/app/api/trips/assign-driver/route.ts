@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { assignDriver } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const body = await request.json();
+    const { tripIds, driverId } = body;
+    
+    if (!Array.isArray(tripIds) || tripIds.length === 0) {
+      return NextResponse.json({ error: 'Inga resor angivna' }, { status: 400 });
+    }
+    
+    const updated = await assignDriver(
+      tripIds.map(Number).filter(id => !isNaN(id)),
+      driverId ? Number(driverId) : null,
+      user
+    );
+    
+    return NextResponse.json({ 
+      message: `Förare tilldelad ${updated} resor`,
+      updated
+    });
+  } catch (error) {
+    console.error('Assign driver error:', error);
+    return NextResponse.json({ error: 'Kunde inte tilldela förare' }, { status: 500 });
+  }
+}
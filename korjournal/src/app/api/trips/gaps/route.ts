@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllTrips, getCategories, insertManualTrips, DatabaseCorruptionError, Trip } from '@/lib/database';
+import { findOdometerIssues, parseGapTrip } from '@/lib/gaps';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+// Gaps, overlaps and odometer regressions across all of a vehicle's trips,
+// whatever page or filter the trip list shows
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+
+    const { searchParams } = new URL(request.url);
+    const vehicleId = parseInt(searchParams.get('vehicleId') || '') || null;
+
+    const trips = await getAllTrips({ vehicleId });
+    return NextResponse.json({ issues: findOdometerIssues(trips) });
+  } catch (error) {
+    console.error('Trip gaps API error:', error);
+
+    if (error instanceof DatabaseCorruptionError) {
+      return NextResponse.json({
+        error: 'Databasen är skadad och har återställts. Resorna kan återskapas från de sparade CSV-filerna.',
+        isCorruption: true
+      }, { status: 500 });
+    }
+
+    return NextResponse.json({ error: 'Kunde inte analysera mätarställningar' }, { status: 500 });
+  }
+}
+
+// Fills gaps with manual trips, all of them or none
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+
+    const body = await request.json();
+    if (!Array.isArray(body.trips) || body.trips.length === 0) {
+      return NextResponse.json({ error: 'Inga luckor valda' }, { status: 400 });
+    }
+
+    const gaps = findOdometerIssues(await getAllTrips());
+    const categoryNames = (await getCategories()).map(c => c.name);
+    const trips: Omit<Trip, 'id'>[] = [];
+    for (const tripBody of body.trips) {
+      const trip = parseGapTrip(tripBody, gaps, categoryNames);
+      if (typeof trip === 'string') {
+        return NextResponse.json({ error: trip }, { status: 400 });
+      }
+      if (trips.some(t => t.vehicleId === trip.vehicleId && t.odometerStart === trip.odometerStart)) {
+        return NextResponse.json({ error: `Luckan ${trip.odometerStart}–${trip.odometerEnd} km finns med två gånger` }, { status: 400 });
+      }
+      // Drivers can only log trips for themselves
+      trips.push({ ...trip, driverId: user.role === 'driver' ? user.driverId ?? null : null });
+    }
+
+    const ids = await insertManualTrips(trips);
+    if (!ids) {
+      return NextResponse.json({ error: 'En av resorna finns redan, inga resor skapades' }, { status: 409 });
+    }
+
+    return NextResponse.json({ message: `${ids.length} resor skapade`, ids }, { status: 201 });
+  } catch (error) {
+    console.error('Fill trip gaps error:', error);
+
+    if (error instanceof DatabaseCorruptionError) {
+      return NextResponse.json({
+        error: 'Databasen är skadad och har återställts. Försök igen.',
+        isCorruption: true
+      }, { status: 500 });
+    }
+
+    return NextResponse.json({ error: 'Kunde inte skapa resorna' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripHistoryForFilter, verifyTripHistory, countTripHistoryBreaks } from '@/lib/database';
+import { requireUser } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const { searchParams } = new URL(request.url);
+    const category = searchParams.get('category') || '';
+    const dateFrom = searchParams.get('dateFrom') || '';
+    const dateTo = searchParams.get('dateTo') || '';
+    const vehicleId = parseInt(searchParams.get('vehicleId') || '') || null;
+    const driverId = parseInt(searchParams.get('driverId') || '') || null;
+    
+    const history = await getTripHistoryForFilter({ vehicleId, driverId, category, dateFrom, dateTo });
+    const brokenAt = await verifyTripHistory();
+    
+    // Breaks from a database recovery don't make the log unverified, but
+    // the entries before them are gone
+    const recoveredBreaks = await countTripHistoryBreaks();
+    
+    return NextResponse.json({ history, intact: brokenAt === null, recoveredBreaks });
+  } catch (error) {
+    console.error('Trip history error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta ändringshistorik' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrip, getCategories, mergeTrips, Trip } from '@/lib/database';
+import { requireUser, canEditTrip, EDITOR_ROLES } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const body = await request.json();
+    const { tripIds, category, notes } = body;
+    
+    const ids = Array.isArray(tripIds) ? [...new Set(tripIds.map(Number))] : [];
+    if (ids.length < 2) {
+      return NextResponse.json({ error: 'Välj minst två resor att slå ihop' }, { status: 400 });
+    }
+    
+    const trips: Trip[] = [];
+    for (const id of ids) {
+      const trip = isNaN(id) ? null : await getTrip(id);
+      if (!trip) {
+        return NextResponse.json({ error: 'Resa inte funnen' }, { status: 404 });
+      }
+      if (!canEditTrip(user, trip)) {
+        return NextResponse.json({ error: 'Du kan bara ändra dina egna resor' }, { status: 403 });
+      }
+      trips.push(trip);
+    }
+    
+    // Only trips that follow directly after each other on the same car can be merged
+    trips.sort((a, b) => a.startDate.localeCompare(b.startDate) || a.odometerStart - b.odometerStart);
+    for (let i = 1; i < trips.length; i++) {
+      if (trips[i].vehicleId !== trips[0].vehicleId) {
+        return NextResponse.json({ error: 'Resorna måste vara gjorda med samma fordon' }, { status: 400 });
+      }
+      if (trips[i].odometerStart !== trips[i - 1].odometerEnd) {
+        return NextResponse.json({ 
+          error: `Resorna hänger inte ihop: mätaren slutar på ${trips[i - 1].odometerEnd} km men nästa resa börjar på ${trips[i].odometerStart} km` 
+        }, { status: 400 });
+      }
+    }
+    
+    const categoryNames = (await getCategories()).map(c => c.name);
+    const mergedCategory = category || trips[0].category;
+    if (!categoryNames.includes(mergedCategory)) {
+      return NextResponse.json({ error: 'Okänd kategori' }, { status: 400 });
+    }
+    
+    const mergedId = await mergeTrips(
+      trips.map(trip => trip.id!),
+      { 
+        category: mergedCategory, 
+        notes: typeof notes === 'string' ? notes : trips.map(trip => trip.notes).filter(Boolean).join('; ')
+      },
+      user
+    );
+    
+    if (mergedId) {
+      return NextResponse.json({ message: `${trips.length} resor sammanslagna`, id: mergedId });
+    } else {
+      return NextResponse.json({ error: 'Kunde inte slå ihop resorna' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Merge trips error:', error);
+    return NextResponse.json({ error: 'Kunde inte slå ihop resorna' }, { status: 500 });
+  }
+}
@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getTrips, insertTrip, DatabaseCorruptionError } from '@/lib/database';
+import { getTrips, insertTrip, getCategories, getCustomers, getProjects, DatabaseCorruptionError } from '@/lib/database';
+import { resolveCustomerProject } from '@/lib/customers';
+import { requireUser, EDITOR_ROLES } from '@/lib/auth';
+
+// Empty values mean "not measured" and are stored as NULL
+function optionalNumber(value: unknown): number | null {
+  return value === undefined || value === null || value === '' ? null : Number(value);
+}
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '20');
@@ -10,8 +20,10 @@ export async function GET(request: NextRequest) {
     const dateFrom = searchParams.get('dateFrom') || '';
     const dateTo = searchParams.get('dateTo') || '';
     const sort = searchParams.get('sort') || 'desc';
+    const vehicleId = parseInt(searchParams.get('vehicleId') || '') || null;
+    const driverId = parseInt(searchParams.get('driverId') || '') || null;
     
-    const result = await getTrips(page, limit, category, dateFrom, dateTo, sort);
+    const result = await getTrips(page, limit, { vehicleId, driverId, category, dateFrom, dateTo }, sort);
     
     return NextResponse.json(result);
   } catch (error) {
@@ -19,7 +31,7 @@ export async function GET(request: NextRequest) {
     
     if (error instanceof DatabaseCorruptionError) {
       return NextResponse.json({ 
-        error: 'Databasen är skadad och har återställts. Var vänlig importera dina CSV-filer igen.',
+        error: 'Databasen är skadad och har återställts. Resorna kan återskapas från de sparade CSV-filerna.',
         isCorruption: true 
       }, { status: 500 });
     }
@@ -30,6 +42,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await requireUser(request, EDITOR_ROLES);
+    if (user instanceof NextResponse) return user;
+    
     const body = await request.json();
     const {
       category,
@@ -39,13 +54,15 @@ export async function POST(request: NextRequest) {
       endDate,
       odometerEnd,
       endDestination,
-      duration,
+      durationMinutes,
       distance,
-      fuelConsumption,
+      fuelLiters,
       title,
-      batteryConsumption,
-      batteryRegeneration,
-      notes
+      batteryKwh,
+      regenerationKwh,
+      notes,
+      vehicleId,
+      driverId
     } = body;
 
     // Validate required fields
@@ -57,6 +74,20 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Mätarställningar måste anges' }, { status: 400 });
     }
 
+    if (!(await getCategories()).some(c => c.name === category)) {
+      return NextResponse.json({ error: 'Okänd kategori' }, { status: 400 });
+    }
+
+    const measurements = [durationMinutes, fuelLiters, batteryKwh, regenerationKwh].map(optionalNumber);
+    if (measurements.some(value => Number.isNaN(value))) {
+      return NextResponse.json({ error: 'Tid, bränsle och el måste anges som tal' }, { status: 400 });
+    }
+
+    const customerProject = resolveCustomerProject(body, await getCustomers(), await getProjects());
+    if (typeof customerProject === 'string') {
+      return NextResponse.json({ error: customerProject }, { status: 400 });
+    }
+
     // Calculate distance if not provided
     const calculatedDistance = distance !== undefined ? distance : Math.max(0, odometerEnd - odometerStart);
 
@@ -68,13 +99,17 @@ export async function POST(request: NextRequest) {
       endDate,
       odometerEnd: Number(odometerEnd),
       endDestination,
-      duration: duration || '',
+      durationMinutes: measurements[0],
       distance: Number(calculatedDistance),
-      fuelConsumption: fuelConsumption || '',
+      fuelLiters: measurements[1],
       title: title || '',
-      batteryConsumption: batteryConsumption || '',
-      batteryRegeneration: batteryRegeneration || '',
-      notes: notes || ''
+      batteryKwh: measurements[2],
+      regenerationKwh: measurements[3],
+      notes: notes || '',
+      vehicleId: vehicleId ? Number(vehicleId) : null,
+      // Drivers can only log trips for themselves
+      driverId: user.role === 'driver' ? user.driverId ?? null : (driverId ? Number(driverId) : null),
+      ...customerProject
     };
 
     const result = await insertTrip(trip, true); // isManual = true
@@ -1,54 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDatabase, DatabaseCorruptionError } from '@/lib/database';
+import { getDatabase, buildTripFilter, DatabaseCorruptionError } from '@/lib/database';
+import { requireUser } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
     const { searchParams } = new URL(request.url);
     const category = searchParams.get('category') || '';
     const dateFrom = searchParams.get('dateFrom') || '';
     const dateTo = searchParams.get('dateTo') || '';
+    const vehicleId = parseInt(searchParams.get('vehicleId') || '') || null;
+    const driverId = parseInt(searchParams.get('driverId') || '') || null;
     
     const database = await getDatabase();
-    
-    // Build WHERE clause
-    const conditions = [];
-    const params = [];
-    
-    if (category) {
-      conditions.push('category = ?');
-      params.push(category);
-    }
-    
-    if (dateFrom) {
-      conditions.push('startDate >= ?');
-      params.push(dateFrom);
-    }
-    
-    if (dateTo) {
-      conditions.push('startDate < ?');
-      // Add one day to include the entire selected date
-      const nextDay = new Date(dateTo);
-      nextDay.setDate(nextDay.getDate() + 1);
-      params.push(nextDay.toISOString().split('T')[0]);
-    }
-    
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { whereClause, params } = buildTripFilter({ vehicleId, driverId, category, dateFrom, dateTo });
     
     // Get aggregated summary data with single query
     const summary = await database.get(`
       SELECT 
         COUNT(*) as totalTrips,
         COALESCE(SUM(distance), 0) as totalDistance,
-        COALESCE(SUM(
-          CASE WHEN duration LIKE '%h%' 
-          THEN CAST(substr(duration, 1, instr(duration, 'h') - 1) AS INTEGER) * 60 
-          ELSE 0 END +
-          CASE WHEN duration LIKE '%m%'
-          THEN CAST(substr(duration, instr(duration, 'h') + 2, instr(duration, 'm') - instr(duration, 'h') - 2) AS INTEGER)
-          WHEN duration LIKE '%m%' AND duration NOT LIKE '%h%'
-          THEN CAST(substr(duration, 1, instr(duration, 'm') - 1) AS INTEGER)
-          ELSE 0 END
-        ), 0) as totalMinutes
+        COALESCE(SUM(durationMinutes), 0) as totalMinutes
       FROM trips
       ${whereClause}
     `, params);
@@ -68,7 +42,7 @@ export async function GET(request: NextRequest) {
     
     if (error instanceof DatabaseCorruptionError) {
       return NextResponse.json({ 
-        error: 'Databasen är skadad och har återställts. Var vänlig importera dina CSV-filer igen.',
+        error: 'Databasen är skadad och har återställts. Resorna kan återskapas från de sparade CSV-filerna.',
         isCorruption: true 
       }, { status: 500 });
     }
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateUser, deleteUser, UserRole } from '@/lib/database';
+import { requireUser, getSessionHash, hashPassword, OWNER_ROLES, USER_ROLES, MIN_PASSWORD_LENGTH } from '@/lib/auth';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const userId = parseInt(resolvedParams.id);
+    
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Ogiltigt användar-ID' }, { status: 400 });
+    }
+    
+    const { username, password, role, driverId } = await request.json();
+    
+    if (!username || !USER_ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Användarnamn och roll måste anges' }, { status: 400 });
+    }
+    
+    // Leaving the password empty keeps the current one
+    if (password && String(password).length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json({ error: `Lösenordet måste vara minst ${MIN_PASSWORD_LENGTH} tecken` }, { status: 400 });
+    }
+    
+    if (role === 'driver' && !driverId) {
+      return NextResponse.json({ error: 'Ett förarkonto måste kopplas till en förare' }, { status: 400 });
+    }
+    
+    if (userId === user.id && role !== 'owner') {
+      return NextResponse.json({ error: 'Du kan inte ta bort din egen ägarroll' }, { status: 400 });
+    }
+
+    const success = await updateUser(userId, {
+      username: String(username).trim().toLowerCase(),
+      role: role as UserRole,
+      driverId: role === 'driver' ? Number(driverId) : null
+    }, password ? await hashPassword(String(password)) : undefined, getSessionHash(request));
+
+    if (success) {
+      return NextResponse.json({ message: 'Användare uppdaterad' });
+    } else {
+      return NextResponse.json({ error: 'Användare inte funnen eller användarnamnet används redan' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update user error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera användare' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const userId = parseInt(resolvedParams.id);
+
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Ogiltigt användar-ID' }, { status: 400 });
+    }
+    
+    if (userId === user.id) {
+      return NextResponse.json({ error: 'Du kan inte ta bort ditt eget konto' }, { status: 400 });
+    }
+
+    const success = await deleteUser(userId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Användare borttagen' });
+    } else {
+      return NextResponse.json({ error: 'Användare inte funnen eller sista ägaren' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Delete user error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort användare' }, { status: 500 });
+  }
+}
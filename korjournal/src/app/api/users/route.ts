@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsers, insertUser, UserRole } from '@/lib/database';
+import { requireUser, hashPassword, OWNER_ROLES, USER_ROLES, MIN_PASSWORD_LENGTH } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const users = await getUsers();
+    
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Users GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta användare' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const { username, password, role, driverId } = await request.json();
+    
+    if (!username || !password || !USER_ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Användarnamn, lösenord och roll måste anges' }, { status: 400 });
+    }
+    
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json({ error: `Lösenordet måste vara minst ${MIN_PASSWORD_LENGTH} tecken` }, { status: 400 });
+    }
+    
+    if (role === 'driver' && !driverId) {
+      return NextResponse.json({ error: 'Ett förarkonto måste kopplas till en förare' }, { status: 400 });
+    }
+    
+    const result = await insertUser({
+      username: String(username).trim().toLowerCase(),
+      role: role as UserRole,
+      driverId: role === 'driver' ? Number(driverId) : null
+    }, await hashPassword(String(password)));
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Användare skapad', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Användarnamnet används redan' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Users POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa användare' }, { status: 500 });
+  }
+}
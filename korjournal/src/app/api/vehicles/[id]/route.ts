@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateVehicle, deleteVehicle } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+import { isAllowanceType } from '@/lib/allowance';
+import { parsePrivateUseLimits } from '@/lib/benefitCar';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const vehicleId = parseInt(resolvedParams.id);
+    
+    if (isNaN(vehicleId)) {
+      return NextResponse.json({ error: 'Ogiltigt fordons-ID' }, { status: 400 });
+    }
+    
+    const body = await request.json();
+    const { regNumber, model, fuelType, owner, allowanceType } = body;
+    
+    if (!regNumber || !model) {
+      return NextResponse.json({ error: 'Registreringsnummer och modell måste anges' }, { status: 400 });
+    }
+
+    if (allowanceType && !isAllowanceType(allowanceType)) {
+      return NextResponse.json({ error: 'Ogiltig typ för milersättning' }, { status: 400 });
+    }
+
+    const limits = parsePrivateUseLimits(body);
+    if (typeof limits === 'string') {
+      return NextResponse.json({ error: limits }, { status: 400 });
+    }
+
+    const success = await updateVehicle(vehicleId, {
+      regNumber: String(regNumber).toUpperCase().replace(/\s+/g, ''),
+      model,
+      fuelType: fuelType || '',
+      owner: owner || '',
+      allowanceType: allowanceType || 'private',
+      ...limits
+    });
+
+    if (success) {
+      return NextResponse.json({ message: 'Fordon uppdaterat' });
+    } else {
+      return NextResponse.json({ error: 'Fordon inte funnet eller registreringsnumret används redan' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Update vehicle error:', error);
+    return NextResponse.json({ error: 'Kunde inte uppdatera fordon' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const resolvedParams = await params;
+    const vehicleId = parseInt(resolvedParams.id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json({ error: 'Ogiltigt fordons-ID' }, { status: 400 });
+    }
+
+    const success = await deleteVehicle(vehicleId);
+
+    if (success) {
+      return NextResponse.json({ message: 'Fordon borttaget' });
+    } else {
+      return NextResponse.json({ error: 'Fordonet har resor, tankningar, laddningar eller underhåll och kan inte tas bort' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Delete vehicle error:', error);
+    return NextResponse.json({ error: 'Kunde inte ta bort fordon' }, { status: 500 });
+  }
+}
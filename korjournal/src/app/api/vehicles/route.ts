@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVehicles, insertVehicle } from '@/lib/database';
+import { requireUser, OWNER_ROLES } from '@/lib/auth';
+import { isAllowanceType } from '@/lib/allowance';
+import { parsePrivateUseLimits } from '@/lib/benefitCar';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) return user;
+    
+    const vehicles = await getVehicles();
+    
+    return NextResponse.json({ vehicles });
+  } catch (error) {
+    console.error('Vehicles GET error:', error);
+    return NextResponse.json({ error: 'Kunde inte hämta fordon' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, OWNER_ROLES);
+    if (user instanceof NextResponse) return user;
+    
+    const body = await request.json();
+    const { regNumber, model, fuelType, owner, allowanceType } = body;
+    
+    if (!regNumber || !model) {
+      return NextResponse.json({ error: 'Registreringsnummer och modell måste anges' }, { status: 400 });
+    }
+
+    if (allowanceType && !isAllowanceType(allowanceType)) {
+      return NextResponse.json({ error: 'Ogiltig typ för milersättning' }, { status: 400 });
+    }
+
+    const limits = parsePrivateUseLimits(body);
+    if (typeof limits === 'string') {
+      return NextResponse.json({ error: limits }, { status: 400 });
+    }
+    
+    const result = await insertVehicle({
+      regNumber: String(regNumber).toUpperCase().replace(/\s+/g, ''),
+      model,
+      fuelType: fuelType || '',
+      owner: owner || '',
+      allowanceType: allowanceType || 'private',
+      ...limits
+    });
+    
+    if (result !== false) {
+      return NextResponse.json({ 
+        message: 'Fordon skapat', 
+        id: result 
+      }, { status: 201 });
+    } else {
+      return NextResponse.json({ error: 'Ett fordon med detta registreringsnummer finns redan' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Vehicles POST error:', error);
+    return NextResponse.json({ error: 'Kunde inte skapa fordon' }, { status: 500 });
+  }
+}
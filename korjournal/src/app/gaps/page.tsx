@@ -0,0 +1,16 @@
+'use client';
+
+import { useState } from 'react';
+import NavBar from '@/components/NavBar';
+import OdometerGaps from '@/components/OdometerGaps';
+
+export default function GapsPage() {
+  const [vehicleId, setVehicleId] = useState<number | null>(null);
+
+  return (
+    <>
+      <NavBar onVehicleChange={setVehicleId} />
+      <OdometerGaps vehicleId={vehicleId} />
+    </>
+  );
+}
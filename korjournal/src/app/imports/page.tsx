@@ -0,0 +1,13 @@
+'use client';
+
+import NavBar from '@/components/NavBar';
+import ImportHistory from '@/components/ImportHistory';
+
+export default function ImportsPage() {
+  return (
+    <>
+      <NavBar />
+      <ImportHistory />
+    </>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Container, Form } from 'react-bootstrap';
+import { useRouter } from 'next/navigation';
+
+export default function LoginPage() {
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null);
+  const [needsSetupCode, setNeedsSetupCode] = useState(false);
+  const [setupCode, setSetupCode] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  // With no accounts yet the page creates the first owner instead of logging in
+  useEffect(() => {
+    const checkSetup = async () => {
+      try {
+        const response = await fetch('/api/auth/setup');
+        const data = await response.json();
+        setNeedsSetup(!!data.needsSetup);
+        setNeedsSetupCode(!!data.needsSetupCode);
+      } catch (error) {
+        console.error('Error checking setup:', error);
+        setNeedsSetup(false);
+      }
+    };
+
+    checkSetup();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!username || !password) {
+      setError('Användarnamn och lösenord måste anges');
+      return;
+    }
+
+    if (needsSetup && password !== confirmPassword) {
+      setError('Lösenorden matchar inte');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(needsSetup ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(needsSetup ? { username, password, setupCode } : { username, password }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        router.replace('/');
+      } else {
+        setError(result.error || 'Inloggningen misslyckades');
+      }
+    } catch {
+      setError('Ett fel uppstod vid inloggning');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (needsSetup === null) {
+    return null;
+  }
+
+  return (
+    <Container className="py-5" style={{ maxWidth: '420px' }}>
+      <div className="text-center mb-4">
+        <div style={{ fontSize: '3rem' }}>🚗</div>
+        <h4 className="fw-semibold">Körjournal</h4>
+      </div>
+      <div className="apple-card">
+        <div className="apple-card-header">
+          <h5 className="mb-0 fw-semibold">{needsSetup ? 'Skapa ägarkonto' : 'Logga in'}</h5>
+        </div>
+        <div className="apple-card-body">
+          {needsSetup && (
+            <div className="text-muted small mb-3">
+              Det finns inga konton ännu. Det första kontot blir ägare och kan sedan bjuda in förare och revisorer.
+            </div>
+          )}
+          {needsSetupCode && (
+            <div className="text-muted small mb-3">
+              Databasen har återställts och kontona gick inte att rädda. Ange återställningskoden som skrevs ut
+              i serverns logg och finns i data/setup-code.txt.
+            </div>
+          )}
+          <Form onSubmit={handleSubmit}>
+            <div className="mb-3">
+              <label className="form-label fw-medium">Användarnamn</label>
+              <Form.Control
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="form-control-apple"
+                autoComplete="username"
+                autoFocus
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="mb-3">
+              <label className="form-label fw-medium">Lösenord</label>
+              <Form.Control
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="form-control-apple"
+                autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                placeholder={needsSetup ? 'Minst 8 tecken' : ''}
+                disabled={isSubmitting}
+              />
+            </div>
+            {needsSetup && (
+              <div className="mb-3">
+                <label className="form-label fw-medium">Bekräfta lösenord</label>
+                <Form.Control
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="form-control-apple"
+                  autoComplete="new-password"
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+
+            {needsSetupCode && (
+              <div className="mb-3">
+                <label className="form-label fw-medium">Återställningskod</label>
+                <Form.Control
+                  type="text"
+                  value={setupCode}
+                  onChange={(e) => setSetupCode(e.target.value)}
+                  className="form-control-apple"
+                  autoComplete="off"
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+
+            {error && (
+              <div className="alert-apple alert-danger mb-3">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              className="btn btn-apple-primary w-100"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Vänta...' : needsSetup ? 'Skapa konto' : 'Logga in'}
+            </button>
+          </Form>
+        </div>
+      </div>
+    </Container>
+  );
+}
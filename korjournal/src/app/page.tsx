@@ -7,6 +7,7 @@ import TripList from '@/components/TripList';
 
 export default function Home() {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [vehicleId, setVehicleId] = useState<number | null>(null);
 
   const handleImportComplete = () => {
     setRefreshTrigger(prev => prev + 1);
@@ -18,14 +19,24 @@ export default function Home() {
 
   return (
     <>
-      <NavBar onImportComplete={handleImportComplete} onTripAdded={handleTripAdded} />
+      <NavBar 
+        onImportComplete={handleImportComplete} 
+        onTripAdded={handleTripAdded} 
+        onVehicleChange={setVehicleId}
+        onDriversChanged={handleTripAdded}
+        onCategoriesChanged={handleTripAdded}
+        onPlacesChanged={handleTripAdded}
+        onRulesApplied={handleTripAdded}
+        onCustomersChanged={handleTripAdded}
+        onMaintenanceChanged={handleTripAdded}
+      />
       
       <Container className="py-4">
         <div className="d-flex justify-content-between align-items-center mb-4">
           <h1 className="h2 mb-0 fw-semibold">Resor</h1>
         </div>
         
-        <TripList refresh={refreshTrigger} />
+        <TripList refresh={refreshTrigger} vehicleId={vehicleId} />
       </Container>
     </>
   );
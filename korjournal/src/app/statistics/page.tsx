@@ -1,11 +1,18 @@
+'use client';
+
+import { useState } from 'react';
 import FuelStatistics from '@/components/FuelStatistics';
 import NavBar from '@/components/NavBar';
+import TravelDeduction from '@/components/TravelDeduction';
 
 export default function StatisticsPage() {
+  const [vehicleId, setVehicleId] = useState<number | null>(null);
+
   return (
     <>
-      <NavBar />
-      <FuelStatistics />
+      <NavBar onVehicleChange={setVehicleId} />
+      <FuelStatistics vehicleId={vehicleId} />
+      <TravelDeduction />
     </>
   );
-}
\ No newline at end of file
+}
@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { Modal, Form, Row, Col } from 'react-bootstrap';
+import { Vehicle, Driver, Category, Customer, Project } from '@/lib/database';
+import { parseDuration } from '@/lib/units';
+import CustomerProjectSelect from './CustomerProjectSelect';
 
 interface AddTripModalProps {
   show: boolean;
@@ -11,10 +14,20 @@ interface AddTripModalProps {
     odometerStart?: number;
     odometerEnd?: number;
   } | null;
+  vehicleId?: number | null;
 }
 
-export default function AddTripModal({ show, onHide, onSave, preset }: AddTripModalProps) {
+export default function AddTripModal({ show, onHide, onSave, preset, vehicleId }: AddTripModalProps) {
   const [category, setCategory] = useState('Privat');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<number | ''>('');
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [driverId, setDriverId] = useState<number | ''>('');
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [customerId, setCustomerId] = useState<number | null>(null);
+  const [projectId, setProjectId] = useState<number | null>(null);
   const [startDate, setStartDate] = useState(() => new Date().toISOString().split('T')[0]);
   const [startTime, setStartTime] = useState(() => {
     const now = new Date();
@@ -41,9 +54,44 @@ export default function AddTripModal({ show, onHide, onSave, preset }: AddTripMo
       }
     }
   }, [show, preset]);
+
+  // Load vehicles, drivers, categories and customers when modal opens, defaulting to the vehicle selected in the menu
+  useEffect(() => {
+    if (!show) return;
+
+    const loadVehiclesAndDrivers = async () => {
+      try {
+        const [vehiclesResponse, driversResponse, categoriesResponse, customersResponse, projectsResponse] = await Promise.all([
+          fetch('/api/vehicles'),
+          fetch('/api/drivers'),
+          fetch('/api/categories'),
+          fetch('/api/customers'),
+          fetch('/api/projects')
+        ]);
+        const vehiclesData = await vehiclesResponse.json();
+        const driversData = await driversResponse.json();
+        const categoriesData = await categoriesResponse.json();
+        const customersData = await customersResponse.json();
+        const projectsData = await projectsResponse.json();
+        const vehicleList: Vehicle[] = vehiclesData.vehicles || [];
+        const categoryList: Category[] = categoriesData.categories || [];
+        setVehicles(vehicleList);
+        setSelectedVehicleId(vehicleId || vehicleList[0]?.id || '');
+        setDrivers(driversData.drivers || []);
+        setCategories(categoryList);
+        setCustomers(customersData.customers || []);
+        setProjects(projectsData.projects || []);
+        setCategory(current => categoryList.some(c => c.name === current) ? current : categoryList[0]?.name || '');
+      } catch (error) {
+        console.error('Error loading vehicles and drivers:', error);
+      }
+    };
+
+    loadVehiclesAndDrivers();
+  }, [show, vehicleId]);
   const [duration, setDuration] = useState('');
-  const [fuelConsumption, setFuelConsumption] = useState('');
-  const [batteryConsumption, setBatteryConsumption] = useState('');
+  const [fuelLiters, setFuelLiters] = useState<number | ''>('');
+  const [batteryKwh, setBatteryKwh] = useState<number | ''>('');
   const [notes, setNotes] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<{
@@ -58,7 +106,7 @@ export default function AddTripModal({ show, onHide, onSave, preset }: AddTripMo
 
   const handleSave = async () => {
     // Validate required fields
-    if (!category || !startDate || !startTime || !startPosition || !endDate || !endTime || !endDestination || 
+    if (!category || !selectedVehicleId || !startDate || !startTime || !startPosition || !endDate || !endTime || !endDestination || 
         odometerStart === '' || odometerEnd === '') {
       setSaveStatus({
         type: 'danger',
@@ -67,6 +115,15 @@ export default function AddTripModal({ show, onHide, onSave, preset }: AddTripMo
       return;
     }
 
+    const durationMinutes = parseDuration(duration);
+    if (duration.trim() && durationMinutes === null) {
+      setSaveStatus({
+        type: 'danger',
+        message: 'Ange varaktigheten som t.ex. 1h 30m eller 45m'
+      });
+      return;
+    }
+
     if (Number(odometerEnd) < Number(odometerStart)) {
       setSaveStatus({
         type: 'danger',
@@ -91,13 +148,17 @@ export default function AddTripModal({ show, onHide, onSave, preset }: AddTripMo
         endDate: endDateTime,
         odometerEnd: Number(odometerEnd),
         endDestination,
-        duration,
+        durationMinutes,
         distance: calculatedDistance,
-        fuelConsumption,
+        fuelLiters: fuelLiters === '' ? null : Number(fuelLiters),
         title: '',
-        batteryConsumption,
-        batteryRegeneration: '',
-        notes
+        batteryKwh: batteryKwh === '' ? null : Number(batteryKwh),
+        regenerationKwh: null,
+        notes,
+        vehicleId: selectedVehicleId,
+        driverId: driverId || null,
+        customerId,
+        projectId
       };
 
       const response = await fetch('/api/trips', {
@@ -120,9 +181,11 @@ export default function AddTripModal({ show, onHide, onSave, preset }: AddTripMo
         setOdometerStart('');
         setOdometerEnd('');
         setDuration('');
-        setFuelConsumption('');
-        setBatteryConsumption('');
+        setFuelLiters('');
+        setBatteryKwh('');
         setNotes('');
+        setCustomerId(null);
+        setProjectId(null);
         const now = new Date();
         setStartDate(now.toISOString().split('T')[0]);
         setStartTime(`${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:${now.getSeconds().toString().padStart(2, '0')}`);
@@ -175,13 +238,57 @@ export default function AddTripModal({ show, onHide, onSave, preset }: AddTripMo
                 className="form-control-apple"
                 disabled={isSaving}
               >
-                <option value="Privat">Privat</option>
-                <option value="Arbete">Arbete</option>
-                <option value="Okategoriserat">Okategoriserat</option>
+                {categories.map(c => (
+                  <option key={c.id} value={c.name}>{c.name}</option>
+                ))}
+              </Form.Select>
+            </Col>
+
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Fordon *</label>
+              <Form.Select
+                value={selectedVehicleId}
+                onChange={(e) => setSelectedVehicleId(e.target.value ? Number(e.target.value) : '')}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                {vehicles.length === 0 && <option value="">Inga fordon registrerade</option>}
+                {vehicles.map(v => (
+                  <option key={v.id} value={v.id}>{v.regNumber} – {v.model}</option>
+                ))}
+              </Form.Select>
+            </Col>
+          </Row>
+
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Förare</label>
+              <Form.Select
+                value={driverId}
+                onChange={(e) => setDriverId(e.target.value ? Number(e.target.value) : '')}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                <option value="">Ingen förare angiven</option>
+                {drivers.map(d => (
+                  <option key={d.id} value={d.id}>{d.name}</option>
+                ))}
               </Form.Select>
             </Col>
           </Row>
 
+          <CustomerProjectSelect
+            customers={customers}
+            projects={projects}
+            customerId={customerId}
+            projectId={projectId}
+            onChange={(newCustomerId, newProjectId) => {
+              setCustomerId(newCustomerId);
+              setProjectId(newProjectId);
+            }}
+            disabled={isSaving}
+          />
+
           <Row>
             <Col md={6} className="mb-3">
               <label className="form-label fw-medium">Startdatum *</label>
@@ -309,26 +416,30 @@ export default function AddTripModal({ show, onHide, onSave, preset }: AddTripMo
             </Col>
             
             <Col md={6} className="mb-3">
-              <label className="form-label fw-medium">Bränsleförbrukning</label>
+              <label className="form-label fw-medium">Bränsleförbrukning (l)</label>
               <Form.Control
-                type="text"
-                value={fuelConsumption}
-                onChange={(e) => setFuelConsumption(e.target.value)}
+                type="number"
+                step="0.01"
+                min="0"
+                value={fuelLiters}
+                onChange={(e) => setFuelLiters(e.target.value ? Number(e.target.value) : '')}
                 className="form-control-apple"
-                placeholder="t.ex. 8.5 l"
+                placeholder="t.ex. 8.5"
                 disabled={isSaving}
               />
             </Col>
           </Row>
 
           <div className="mb-3">
-            <label className="form-label fw-medium">Batterianvändning</label>
+            <label className="form-label fw-medium">Batterianvändning (kWh)</label>
             <Form.Control
-              type="text"
-              value={batteryConsumption}
-              onChange={(e) => setBatteryConsumption(e.target.value)}
+              type="number"
+              step="0.01"
+              min="0"
+              value={batteryKwh}
+              onChange={(e) => setBatteryKwh(e.target.value ? Number(e.target.value) : '')}
               className="form-control-apple"
-              placeholder="t.ex. 12.5 kWh"
+              placeholder="t.ex. 12.5"
               disabled={isSaving}
             />
           </div>
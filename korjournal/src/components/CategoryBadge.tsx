@@ -0,0 +1,20 @@
+import { Category } from '@/lib/database';
+
+interface CategoryBadgeProps {
+  name: string;
+  categories: Category[];
+}
+
+// Categories without a colour (e.g. ones removed since) fall back to gray
+export default function CategoryBadge({ name, categories }: CategoryBadgeProps) {
+  const color = categories.find(c => c.name === name)?.color || '#86868b';
+
+  return (
+    <span 
+      className="badge-apple"
+      style={{ backgroundColor: `${color}1a`, color }}
+    >
+      {name}
+    </span>
+  );
+}
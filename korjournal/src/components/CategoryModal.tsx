@@ -0,0 +1,259 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { Category } from '@/lib/database';
+import CategoryBadge from './CategoryBadge';
+
+interface CategoryModalProps {
+  show: boolean;
+  onHide: () => void;
+  onCategoriesChanged?: () => void;
+}
+
+const emptyCategory: Omit<Category, 'id'> = {
+  name: '',
+  color: '#007aff',
+  pdfDescription: '',
+  isBusiness: false
+};
+
+export default function CategoryModal({ show, onHide, onCategoriesChanged }: CategoryModalProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<Omit<Category, 'id'>>(emptyCategory);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const loadCategories = async () => {
+    try {
+      const response = await fetch('/api/categories');
+      const data = await response.json();
+      setCategories(data.categories || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (show) {
+      loadCategories();
+      setEditingId(null);
+      setForm(emptyCategory);
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show]);
+
+  const handleEdit = (category: Category) => {
+    setEditingId(category.id!);
+    setForm({
+      name: category.name,
+      color: category.color,
+      pdfDescription: category.pdfDescription,
+      isBusiness: category.isBusiness
+    });
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyCategory);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setSaveStatus({ type: 'danger', message: 'Namn måste anges' });
+      return;
+    }
+
+    const original = categories.find(c => c.id === editingId);
+    if (original && original.name !== form.name.trim()) {
+      const confirmRename = window.confirm(
+        `Alla resor i ${original.name} byter kategori till ${form.name.trim()}. Ändringen loggas i resornas historik. Fortsätta?`
+      );
+      if (!confirmRename) {
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(editingId ? `/api/categories/${editingId}` : '/api/categories', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setEditingId(null);
+        setForm(emptyCategory);
+        await loadCategories();
+        onCategoriesChanged?.();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara kategori' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    const confirmDelete = window.confirm(`Är du säker på att du vill ta bort ${category.name}?`);
+
+    if (!confirmDelete) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/categories/${category.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        await loadCategories();
+        onCategoriesChanged?.();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort kategori' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av kategori' });
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Kategorier</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <div className="table-responsive mb-4">
+          <Table hover className="mb-0 apple-table">
+            <thead>
+              <tr>
+                <th>Kategori</th>
+                <th className="d-none d-sm-table-cell">Beskrivning i PDF</th>
+                <th>Tjänst</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map(category => (
+                <tr key={category.id} onClick={() => handleEdit(category)} style={{ cursor: 'pointer' }}>
+                  <td><CategoryBadge name={category.name} categories={categories} /></td>
+                  <td className="d-none d-sm-table-cell text-muted small">{category.pdfDescription}</td>
+                  <td className="small">{category.isBusiness ? 'Ja' : 'Nej'}</td>
+                  <td style={{ textAlign: 'right' }}>
+                    <button
+                      className="btn btn-sm text-danger p-0"
+                      style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                      title="Ta bort kategori"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(category);
+                      }}
+                    >
+                      🗑️
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        </div>
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera kategori' : 'Lägg till kategori'}
+        </h6>
+        <Form>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Namn *</label>
+              <Form.Control
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. Kundbesök"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Färg</label>
+              <Form.Control
+                type="color"
+                value={form.color}
+                onChange={(e) => setForm({ ...form, color: e.target.value })}
+                className="form-control-apple"
+                style={{ height: '42px' }}
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <div className="mb-3">
+            <label className="form-label fw-medium">Beskrivning i PDF</label>
+            <Form.Control
+              type="text"
+              value={form.pdfDescription}
+              onChange={(e) => setForm({ ...form, pdfDescription: e.target.value })}
+              className="form-control-apple"
+              placeholder="t.ex. Tjänsteresor"
+              disabled={isSaving}
+            />
+          </div>
+          <Form.Check
+            type="checkbox"
+            id="category-is-business"
+            label="Räknas som tjänsteresa"
+            checked={form.isBusiness}
+            onChange={(e) => setForm({ ...form, isBusiness: e.target.checked })}
+            className="mb-3"
+            disabled={isSaving}
+          />
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        {editingId && (
+          <button
+            className="btn btn-apple-secondary me-2"
+            onClick={handleCancelEdit}
+            disabled={isSaving}
+          >
+            Avbryt redigering
+          </button>
+        )}
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? 'Sparar...' : editingId ? 'Spara kategori' : 'Lägg till kategori'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
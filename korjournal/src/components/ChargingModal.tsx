@@ -0,0 +1,392 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { ChargingSession, ChargingLocation, Vehicle } from '@/lib/database';
+import { CHARGING_LOCATIONS, chargingCost, isSpotPriced } from '@/lib/charging';
+import { formatDate } from '@/lib/pdfExport';
+
+interface ChargingModalProps {
+  show: boolean;
+  onHide: () => void;
+  vehicleId?: number | null;
+}
+
+// The form keeps numbers as typed. A session ending earlier in the day than
+// it started is taken to end the next day, like charging overnight.
+interface ChargingForm {
+  vehicleId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  kwh: string;
+  location: ChargingLocation;
+  pricePerKwh: string;
+  totalPrice: string;
+  lossPercent: string;
+  notes: string;
+}
+
+const emptySession = (vehicleId: number | null | undefined): ChargingForm => ({
+  vehicleId: vehicleId ? vehicleId.toString() : '',
+  date: new Date().toISOString().split('T')[0],
+  startTime: '',
+  endTime: '',
+  kwh: '',
+  location: 'home',
+  pricePerKwh: '',
+  totalPrice: '',
+  lossPercent: '10',
+  notes: ''
+});
+
+const formatNumber = (num: number, decimals: number = 1) =>
+  num.toLocaleString('sv-SE', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+function toSession(form: ChargingForm) {
+  const startedAt = form.startTime ? `${form.date} ${form.startTime}` : form.date;
+  let endedAt: string | null = null;
+  if (form.startTime && form.endTime) {
+    const endDate = new Date(`${form.date}T00:00:00Z`);
+    if (form.endTime < form.startTime) {
+      endDate.setUTCDate(endDate.getUTCDate() + 1);
+    }
+    endedAt = `${endDate.toISOString().split('T')[0]} ${form.endTime}`;
+  }
+  return { ...form, startedAt, endedAt };
+}
+
+export default function ChargingModal({ show, onHide, vehicleId }: ChargingModalProps) {
+  const [sessions, setSessions] = useState<ChargingSession[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<ChargingForm>(emptySession(vehicleId));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        ...(vehicleId && { vehicleId: vehicleId.toString() })
+      });
+      const [sessionsResponse, vehiclesResponse] = await Promise.all([
+        fetch(`/api/charging?${params}`),
+        fetch('/api/vehicles')
+      ]);
+      const sessionsData = await sessionsResponse.json();
+      const vehiclesData = await vehiclesResponse.json();
+      // Newest first, the way the trip list shows trips
+      setSessions((sessionsData.sessions || []).reverse());
+      setVehicles(vehiclesData.vehicles || []);
+    } catch (error) {
+      console.error('Error loading charging sessions:', error);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    if (show) {
+      loadSessions();
+      setEditingId(null);
+      setForm(emptySession(vehicleId));
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show, vehicleId, loadSessions]);
+
+  const handleEdit = (session: ChargingSession) => {
+    setEditingId(session.id!);
+    setForm({
+      vehicleId: session.vehicleId.toString(),
+      date: session.startedAt.slice(0, 10),
+      startTime: session.startedAt.slice(11, 16),
+      endTime: session.endedAt?.slice(11, 16) || '',
+      kwh: session.kwh.toString(),
+      location: session.location,
+      pricePerKwh: session.pricePerKwh?.toString() || '',
+      totalPrice: session.totalPrice?.toString() || '',
+      lossPercent: session.lossPercent.toString(),
+      notes: session.notes
+    });
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptySession(vehicleId));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(editingId ? `/api/charging/${editingId}` : '/api/charging', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toSession(form)),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setEditingId(null);
+        setForm(emptySession(vehicleId));
+        await loadSessions();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara laddning' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (session: ChargingSession) => {
+    const confirmDelete = window.confirm(`Är du säker på att du vill ta bort laddningen ${formatDate(session.startedAt)}?`);
+    if (!confirmDelete) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/charging/${session.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        await loadSessions();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort laddning' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av laddning' });
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Laddningar</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {sessions.length === 0 ? (
+          <div className="text-center text-muted mb-4">
+            Inga laddningar loggade ännu. Elkostnaden räknas då med priserna i statistikens prishistorik.
+          </div>
+        ) : (
+          <div className="table-responsive mb-4" style={{ maxHeight: '320px', overflowY: 'auto' }}>
+            <Table hover className="mb-0 apple-table">
+              <thead>
+                <tr>
+                  <th>Datum</th>
+                  {!vehicleId && <th>Fordon</th>}
+                  <th>Plats</th>
+                  <th>Energi</th>
+                  <th>Kostnad</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map(session => (
+                  <tr key={session.id} onClick={() => handleEdit(session)} style={{ cursor: 'pointer' }}>
+                    <td>
+                      {formatDate(session.startedAt)}
+                      {session.startedAt.length > 10 && (
+                        <div className="small text-muted">
+                          {session.startedAt.slice(11, 16)}{session.endedAt && `–${session.endedAt.slice(11, 16)}`}
+                        </div>
+                      )}
+                    </td>
+                    {!vehicleId && (
+                      <td className="small">{vehicles.find(v => v.id === session.vehicleId)?.regNumber || '–'}</td>
+                    )}
+                    <td className="small">{CHARGING_LOCATIONS[session.location]}</td>
+                    <td>{formatNumber(session.kwh)} kWh</td>
+                    <td>{isSpotPriced(session) ? 'Spotpris' : `${formatNumber(chargingCost(session) ?? 0, 2)} kr`}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        className="btn btn-sm text-danger p-0"
+                        style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                        title="Ta bort laddning"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(session);
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera laddning' : 'Logga laddning'}
+        </h6>
+        <Form>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Fordon *</label>
+              <Form.Select
+                value={form.vehicleId}
+                onChange={(e) => setForm({ ...form, vehicleId: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                <option value="">Välj fordon</option>
+                {vehicles.map(v => (
+                  <option key={v.id} value={v.id}>{v.regNumber} – {v.model}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Plats *</label>
+              <Form.Select
+                value={form.location}
+                onChange={(e) => setForm({ ...form, location: e.target.value as ChargingLocation })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                {Object.entries(CHARGING_LOCATIONS).map(([location, label]) => (
+                  <option key={location} value={location}>{label}</option>
+                ))}
+              </Form.Select>
+            </Col>
+          </Row>
+          <Row>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Datum *</label>
+              <Form.Control
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Start</label>
+              <Form.Control
+                type="time"
+                value={form.startTime}
+                onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Slut</label>
+              <Form.Control
+                type="time"
+                value={form.endTime}
+                onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving || !form.startTime}
+              />
+            </Col>
+          </Row>
+          <Row>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">Laddat (kWh) *</label>
+              <Form.Control
+                type="text"
+                value={form.kwh}
+                onChange={(e) => setForm({ ...form, kwh: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 32,5"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">Pris per kWh</label>
+              <Form.Control
+                type="text"
+                value={form.pricePerKwh}
+                onChange={(e) => setForm({ ...form, pricePerKwh: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 1,80"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">eller totalpris</label>
+              <Form.Control
+                type="text"
+                value={form.totalPrice}
+                onChange={(e) => setForm({ ...form, totalPrice: e.target.value })}
+                className="form-control-apple"
+                placeholder="kr"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">Laddförlust (%)</label>
+              <Form.Control
+                type="text"
+                value={form.lossPercent}
+                onChange={(e) => setForm({ ...form, lossPercent: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <div className="mb-3">
+            <label className="form-label fw-medium">Anteckning</label>
+            <Form.Control
+              type="text"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="form-control-apple"
+              placeholder="t.ex. Ionity Jönköping"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="small text-muted mb-3">
+            Ange energin som kom in i batteriet. Med pris per kWh betalas även laddförlusten.
+            Ett totalpris används som det är. Hemmaladdning med start- och sluttid men utan pris
+            räknas med de importerade spotpriserna för timmarna den pågick.
+          </div>
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        {editingId && (
+          <button
+            className="btn btn-apple-secondary me-2"
+            onClick={handleCancelEdit}
+            disabled={isSaving}
+          >
+            Avbryt redigering
+          </button>
+        )}
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? 'Sparar...' : editingId ? 'Spara laddning' : 'Logga laddning'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -0,0 +1,510 @@
+'use client';
+
+import { useState, useEffect, Fragment } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { Customer, Project } from '@/lib/database';
+
+interface CustomerModalProps {
+  show: boolean;
+  onHide: () => void;
+  onCustomersChanged?: () => void;
+  vehicleId?: number | null;
+}
+
+// The rate is kept as typed until the customer is saved
+interface CustomerForm {
+  name: string;
+  orgNumber: string;
+  ratePerKm: string;
+}
+
+interface ProjectForm {
+  name: string;
+  code: string;
+}
+
+interface CustomerReportRow {
+  customerId: number;
+  name: string;
+  tripCount: number;
+  distance: number;
+  cost: number | null;
+  projects: {
+    projectId: number | null;
+    name: string;
+    code: string;
+    tripCount: number;
+    distance: number;
+    cost: number | null;
+  }[];
+}
+
+const emptyCustomer: CustomerForm = { name: '', orgNumber: '', ratePerKm: '' };
+const emptyProject: ProjectForm = { name: '', code: '' };
+
+const formatKr = (amount: number | null) =>
+  amount === null ? '–' : `${amount.toLocaleString('sv-SE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} kr`;
+
+export default function CustomerModal({ show, onHide, onCustomersChanged, vehicleId }: CustomerModalProps) {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<CustomerForm>(emptyCustomer);
+  const [editingProjectId, setEditingProjectId] = useState<number | null>(null);
+  const [projectForm, setProjectForm] = useState<ProjectForm>(emptyProject);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  // Distance and cost per customer for re-invoicing
+  const [reportDateFrom, setReportDateFrom] = useState(() => {
+    const today = new Date();
+    return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-01`;
+  });
+  const [reportDateTo, setReportDateTo] = useState(() => new Date().toISOString().split('T')[0]);
+  const [report, setReport] = useState<{ customers: CustomerReportRow[]; totalDistance: number; totalCost: number } | null>(null);
+
+  const loadCustomers = async () => {
+    try {
+      const [customersResponse, projectsResponse] = await Promise.all([
+        fetch('/api/customers'),
+        fetch('/api/projects')
+      ]);
+      const customersData = await customersResponse.json();
+      const projectsData = await projectsResponse.json();
+      setCustomers(customersData.customers || []);
+      setProjects(projectsData.projects || []);
+    } catch (error) {
+      console.error('Error loading customers:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (show) {
+      loadCustomers();
+      setEditingId(null);
+      setForm(emptyCustomer);
+      setEditingProjectId(null);
+      setProjectForm(emptyProject);
+      setReport(null);
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show]);
+
+  const handleEdit = (customer: Customer) => {
+    setEditingId(customer.id!);
+    setForm({
+      name: customer.name,
+      orgNumber: customer.orgNumber,
+      ratePerKm: customer.ratePerKm?.toString() || ''
+    });
+    setEditingProjectId(null);
+    setProjectForm(emptyProject);
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyCustomer);
+    setEditingProjectId(null);
+    setProjectForm(emptyProject);
+  };
+
+  // Sends a change to the API and reloads the register when it succeeds
+  const send = async (url: string, method: string, body?: object): Promise<boolean> => {
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setReport(null);
+        await loadCustomers();
+        onCustomersChanged?.();
+        return true;
+      }
+
+      setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara ändringen' });
+      return false;
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setSaveStatus({ type: 'danger', message: 'Namn måste anges' });
+      return;
+    }
+
+    const saved = await send(editingId ? `/api/customers/${editingId}` : '/api/customers', editingId ? 'PUT' : 'POST', form);
+    if (saved && !editingId) {
+      setForm(emptyCustomer);
+    }
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    if (!window.confirm(`Är du säker på att du vill ta bort ${customer.name} och kundens projekt?`)) {
+      return;
+    }
+
+    if (await send(`/api/customers/${customer.id}`, 'DELETE') && editingId === customer.id) {
+      handleCancelEdit();
+    }
+  };
+
+  const handleSaveProject = async () => {
+    if (!projectForm.name.trim()) {
+      setSaveStatus({ type: 'danger', message: 'Projektet måste ha ett namn' });
+      return;
+    }
+
+    const saved = editingProjectId
+      ? await send(`/api/projects/${editingProjectId}`, 'PUT', projectForm)
+      : await send('/api/projects', 'POST', { ...projectForm, customerId: editingId });
+    if (saved) {
+      setEditingProjectId(null);
+      setProjectForm(emptyProject);
+    }
+  };
+
+  const handleDeleteProject = async (project: Project) => {
+    if (window.confirm(`Är du säker på att du vill ta bort projektet ${project.name}?`)) {
+      await send(`/api/projects/${project.id}`, 'DELETE');
+    }
+  };
+
+  const loadReport = async () => {
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const params = new URLSearchParams({
+        dateFrom: reportDateFrom,
+        dateTo: reportDateTo,
+        ...(vehicleId && { vehicleId: vehicleId.toString() })
+      });
+      const response = await fetch(`/api/reports/customers?${params}`);
+      const result = await response.json();
+
+      if (response.ok) {
+        setReport(result);
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte hämta kundrapport' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod när rapporten hämtades' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  const customerProjects = projects.filter(p => p.customerId === editingId);
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Kunder och projekt</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {customers.length === 0 ? (
+          <div className="text-center text-muted mb-4">
+            Inga kunder registrerade ännu. Tjänsteresor kan kopplas till en kund och ett projekt.
+          </div>
+        ) : (
+          <div className="table-responsive mb-4">
+            <Table hover className="mb-0 apple-table">
+              <thead>
+                <tr>
+                  <th>Namn</th>
+                  <th className="d-none d-sm-table-cell">Org.nr</th>
+                  <th>Kr/km</th>
+                  <th className="d-none d-sm-table-cell">Projekt</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {customers.map(customer => (
+                  <tr
+                    key={customer.id}
+                    onClick={() => handleEdit(customer)}
+                    style={{ cursor: 'pointer' }}
+                    className={customer.id === editingId ? 'table-active' : ''}
+                  >
+                    <td className="fw-medium">{customer.name}</td>
+                    <td className="d-none d-sm-table-cell text-muted small">{customer.orgNumber || '–'}</td>
+                    <td className="small">{customer.ratePerKm ?? '–'}</td>
+                    <td className="d-none d-sm-table-cell text-muted small">
+                      {projects.filter(p => p.customerId === customer.id).length}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        className="btn btn-sm text-danger p-0"
+                        style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                        title="Ta bort kund"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(customer);
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera kund' : 'Lägg till kund'}
+        </h6>
+        <Form>
+          <Row>
+            <Col md={5} className="mb-3">
+              <label className="form-label fw-medium">Namn *</label>
+              <Form.Control
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. Kund AB"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Organisationsnummer</label>
+              <Form.Control
+                type="text"
+                value={form.orgNumber}
+                onChange={(e) => setForm({ ...form, orgNumber: e.target.value })}
+                className="form-control-apple"
+                placeholder="556677-8899"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">Kr per km</label>
+              <Form.Control
+                type="text"
+                value={form.ratePerKm}
+                onChange={(e) => setForm({ ...form, ratePerKm: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 2,50"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <div className="d-flex justify-content-end mb-4">
+            {editingId && (
+              <button
+                type="button"
+                className="btn btn-apple-secondary me-2"
+                onClick={handleCancelEdit}
+                disabled={isSaving}
+              >
+                Avbryt redigering
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn btn-apple-primary"
+              onClick={handleSave}
+              disabled={isSaving}
+            >
+              {editingId ? 'Spara kund' : 'Lägg till kund'}
+            </button>
+          </div>
+
+          {editingId && (
+            <div className="mb-4">
+              <h6 className="fw-medium mb-2" style={{ color: 'var(--apple-gray-6)' }}>Projekt för {form.name}</h6>
+              {customerProjects.length === 0 ? (
+                <div className="small text-muted mb-2">Kunden har inga projekt.</div>
+              ) : (
+                <div className="small mb-2">
+                  {customerProjects.map(project => (
+                    <div
+                      key={project.id}
+                      className="py-1 d-flex justify-content-between"
+                      style={{ borderBottom: '1px solid var(--apple-gray-2)', cursor: 'pointer' }}
+                      onClick={() => {
+                        setEditingProjectId(project.id!);
+                        setProjectForm({ name: project.name, code: project.code });
+                      }}
+                    >
+                      <span>
+                        {project.code && <span className="text-muted">{project.code} </span>}
+                        {project.name}
+                      </span>
+                      <button
+                        type="button"
+                        className="btn btn-sm text-danger p-0"
+                        style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                        title="Ta bort projekt"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteProject(project);
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Row className="align-items-end">
+                <Col md={3} className="mb-2">
+                  <Form.Control
+                    type="text"
+                    value={projectForm.code}
+                    onChange={(e) => setProjectForm({ ...projectForm, code: e.target.value })}
+                    className="form-control-apple"
+                    placeholder="Kod"
+                    disabled={isSaving}
+                  />
+                </Col>
+                <Col md={6} className="mb-2">
+                  <Form.Control
+                    type="text"
+                    value={projectForm.name}
+                    onChange={(e) => setProjectForm({ ...projectForm, name: e.target.value })}
+                    className="form-control-apple"
+                    placeholder="Projektnamn"
+                    disabled={isSaving}
+                  />
+                </Col>
+                <Col md={3} className="mb-2">
+                  <button
+                    type="button"
+                    className="btn btn-apple-secondary w-100"
+                    onClick={handleSaveProject}
+                    disabled={isSaving}
+                  >
+                    {editingProjectId ? 'Spara projekt' : 'Lägg till'}
+                  </button>
+                </Col>
+              </Row>
+            </div>
+          )}
+
+          <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>Kundrapport</h6>
+          <Row className="align-items-end">
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Från datum</label>
+              <Form.Control
+                type="date"
+                value={reportDateFrom}
+                onChange={(e) => setReportDateFrom(e.target.value)}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Till datum</label>
+              <Form.Control
+                type="date"
+                value={reportDateTo}
+                onChange={(e) => setReportDateTo(e.target.value)}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <button
+                type="button"
+                className="btn btn-apple-secondary w-100"
+                onClick={loadReport}
+                disabled={isSaving}
+              >
+                Visa rapport
+              </button>
+            </Col>
+          </Row>
+
+          {report && (
+            report.customers.length === 0 ? (
+              <div className="small text-muted mb-3">Inga resor kopplade till kunder i perioden.</div>
+            ) : (
+              <div className="table-responsive mb-3">
+                <Table size="sm" className="mb-0 apple-table small">
+                  <thead>
+                    <tr>
+                      <th>Kund / projekt</th>
+                      <th style={{ textAlign: 'right' }}>Resor</th>
+                      <th style={{ textAlign: 'right' }}>Km</th>
+                      <th style={{ textAlign: 'right' }}>Belopp</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.customers.map(row => (
+                      <Fragment key={row.customerId}>
+                        <tr className="fw-medium">
+                          <td>{row.name}</td>
+                          <td style={{ textAlign: 'right' }}>{row.tripCount}</td>
+                          <td style={{ textAlign: 'right' }}>{row.distance.toFixed(1)}</td>
+                          <td style={{ textAlign: 'right' }}>{formatKr(row.cost)}</td>
+                        </tr>
+                        {row.projects.map(project => (
+                          <tr key={`${row.customerId}-${project.projectId}`} className="text-muted">
+                            <td className="ps-4">{project.name || 'Utan projekt'}</td>
+                            <td style={{ textAlign: 'right' }}>{project.tripCount}</td>
+                            <td style={{ textAlign: 'right' }}>{project.distance.toFixed(1)}</td>
+                            <td style={{ textAlign: 'right' }}>{formatKr(project.cost)}</td>
+                          </tr>
+                        ))}
+                      </Fragment>
+                    ))}
+                    <tr className="fw-semibold">
+                      <td>Totalt</td>
+                      <td></td>
+                      <td style={{ textAlign: 'right' }}>{report.totalDistance.toFixed(1)}</td>
+                      <td style={{ textAlign: 'right' }}>{formatKr(report.totalCost)}</td>
+                    </tr>
+                  </tbody>
+                </Table>
+              </div>
+            )
+          )}
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        <button
+          className="btn btn-apple-secondary"
+          onClick={handleClose}
+          disabled={isSaving}
+        >
+          Stäng
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -0,0 +1,63 @@
+import { Form, Row, Col } from 'react-bootstrap';
+import { Customer, Project } from '@/lib/database';
+
+interface CustomerProjectSelectProps {
+  customers: Customer[];
+  projects: Project[];
+  customerId: number | null;
+  projectId: number | null;
+  onChange: (customerId: number | null, projectId: number | null) => void;
+  disabled?: boolean;
+}
+
+// Only the chosen customer's projects are offered, and changing the customer
+// clears a project that belongs to another one
+export default function CustomerProjectSelect({
+  customers,
+  projects,
+  customerId,
+  projectId,
+  onChange,
+  disabled
+}: CustomerProjectSelectProps) {
+  const customerProjects = projects.filter(p => p.customerId === customerId);
+
+  const handleCustomerChange = (value: string) => {
+    const newCustomerId = value ? Number(value) : null;
+    const keepProject = projects.some(p => p.id === projectId && p.customerId === newCustomerId);
+    onChange(newCustomerId, keepProject ? projectId : null);
+  };
+
+  return (
+    <Row>
+      <Col sm={6} className="mb-3">
+        <label className="form-label fw-medium">Kund</label>
+        <Form.Select
+          value={customerId ?? ''}
+          onChange={(e) => handleCustomerChange(e.target.value)}
+          className="form-control-apple"
+          disabled={disabled}
+        >
+          <option value="">Ingen kund</option>
+          {customers.map(c => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </Form.Select>
+      </Col>
+      <Col sm={6} className="mb-3">
+        <label className="form-label fw-medium">Projekt</label>
+        <Form.Select
+          value={projectId ?? ''}
+          onChange={(e) => onChange(customerId, e.target.value ? Number(e.target.value) : null)}
+          className="form-control-apple"
+          disabled={disabled || customerProjects.length === 0}
+        >
+          <option value="">Inget projekt</option>
+          {customerProjects.map(p => (
+            <option key={p.id} value={p.id}>{p.code ? `${p.code} ${p.name}` : p.name}</option>
+          ))}
+        </Form.Select>
+      </Col>
+    </Row>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Alert, Button, Form } from 'react-bootstrap';
+import { Vehicle, DatabaseRecovery } from '@/lib/database';
+import { ArchivedUpload } from '@/lib/recovery';
+
+interface DatabaseRecoveryAlertProps {
+  // Checked again when this changes, since a recovery can happen while the app is used
+  refresh: unknown;
+  onRebuilt: () => void;
+}
+
+const SALVAGED_LABELS: Record<string, string> = {
+  trips: 'resor',
+  users: 'användare',
+  user_settings: 'användarinställningar',
+  trip_history: 'ändringar i ändringsloggen',
+  vehicles: 'fordon',
+  drivers: 'förare',
+  categories: 'kategorier',
+  places: 'platser',
+  categorization_rules: 'regler',
+  customers: 'kunder',
+  refuels: 'tankningar',
+  charging_sessions: 'laddningar',
+  maintenance: 'underhåll',
+  settings: 'inställningar'
+};
+
+// Shown to owners after the database was found damaged and replaced: what
+// could be salvaged from the damaged file, and a button that rebuilds the
+// trips that couldn't be read from the archived uploads
+export default function DatabaseRecoveryAlert({ refresh, onRebuilt }: DatabaseRecoveryAlertProps) {
+  const [recovery, setRecovery] = useState<DatabaseRecovery | null>(null);
+  const [uploads, setUploads] = useState<ArchivedUpload[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [vehicleId, setVehicleId] = useState<number | ''>('');
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [status, setStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const loadRecovery = useCallback(async () => {
+    try {
+      const response = await fetch('/api/recovery');
+      // Only owners may rebuild, so the notice isn't shown to anyone else
+      if (!response.ok) return;
+      const data = await response.json();
+      setRecovery(data.recovery);
+      setUploads(data.uploads || []);
+
+      if (data.recovery && !data.recovery.dismissedAt) {
+        const vehicleList: Vehicle[] = (await (await fetch('/api/vehicles')).json()).vehicles || [];
+        setVehicles(vehicleList);
+        if (vehicleList.length === 1) setVehicleId(vehicleList[0].id!);
+      }
+    } catch (error) {
+      console.error('Error loading database recovery:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRecovery();
+  }, [refresh, loadRecovery]);
+
+  if (!recovery || recovery.dismissedAt) return null;
+
+  const replayed = uploads.filter(upload => !upload.undone);
+  const unknownVehicle = replayed.some(upload => !vehicles.some(v => v.id === upload.vehicleId));
+  const salvaged = Object.entries(recovery.salvaged)
+    .filter(([table, count]) => count > 0 && SALVAGED_LABELS[table])
+    .map(([table, count]) => `${count} ${SALVAGED_LABELS[table]}`);
+
+  const handleRebuild = async () => {
+    setIsRebuilding(true);
+    setStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch('/api/recovery', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ vehicleId: vehicleId || null }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setStatus({ type: result.failed > 0 ? 'danger' : 'success', message: result.message });
+        await loadRecovery();
+        onRebuilt();
+      } else {
+        setStatus({ type: 'danger', message: result.error || 'Kunde inte återskapa resorna' });
+      }
+    } catch {
+      setStatus({ type: 'danger', message: 'Ett fel uppstod när resorna återskapades' });
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    try {
+      await fetch('/api/recovery', { method: 'DELETE' });
+      setRecovery(null);
+    } catch (error) {
+      console.error('Error dismissing database recovery:', error);
+    }
+  };
+
+  return (
+    <Alert variant="warning" className="alert-apple mb-4">
+      <div className="d-flex align-items-start">
+        <div className="me-3" style={{ fontSize: '1.5rem' }}>🛠️</div>
+        <div className="flex-grow-1">
+          <strong>Databasen har återställts</strong>
+          <p className="mb-2">
+            Databasen var skadad och ersattes {recovery.recoveredAt.slice(0, 10)}.
+            {salvaged.length > 0
+              ? ` Från den skadade filen räddades ${salvaged.join(', ')}.`
+              : ' Inget kunde räddas från den skadade filen.'}
+            {recovery.backupFile && ` Den skadade filen finns kvar som data/${recovery.backupFile}.`}
+          </p>
+          {(recovery.historyBreaks > 0 || !!recovery.historyLost) && (
+            <p className="mb-2">
+              {recovery.historyLost ? `${recovery.historyLost} ändringar i ändringsloggen gick inte att läsa. ` : ''}
+              {recovery.historyBreaks > 0 && 'Luckorna är markerade i loggen, som i övrigt fortfarande kontrolleras.'}
+            </p>
+          )}
+
+          {recovery.rebuiltAt ? (
+            <p className="mb-2">Resorna som saknades återskapades {recovery.rebuiltAt.slice(0, 10)} från de sparade filerna.</p>
+          ) : replayed.length === 0 ? (
+            <p className="mb-2">Det finns inga sparade CSV-filer i uploads-mappen att återskapa resor från.</p>
+          ) : (
+            <>
+              <p className="mb-2">
+                Importerade resor som inte gick att läsa kan återskapas från {replayed.length} sparade CSV-filer,
+                som läses igen i den ordning de laddades upp med de regler de importerades med, eller dagens regler
+                om de inte är kända. Resor som räddades behålls som de är.
+              </p>
+              {unknownVehicle && (
+                <Form.Group className="mb-2" style={{ maxWidth: '320px' }}>
+                  <Form.Label className="small fw-medium">Fordon för filer där det inte är känt</Form.Label>
+                  <Form.Select
+                    size="sm"
+                    value={vehicleId}
+                    onChange={(e) => setVehicleId(e.target.value ? Number(e.target.value) : '')}
+                    className="form-control-apple"
+                  >
+                    <option value="">Välj fordon...</option>
+                    {vehicles.map(v => (
+                      <option key={v.id} value={v.id}>{v.regNumber}</option>
+                    ))}
+                  </Form.Select>
+                </Form.Group>
+              )}
+              <button
+                className="btn btn-apple-primary btn-sm"
+                onClick={handleRebuild}
+                disabled={isRebuilding || (unknownVehicle && !vehicleId)}
+              >
+                {isRebuilding ? 'Återskapar...' : 'Återskapa från uppladdningar'}
+              </button>
+            </>
+          )}
+
+          {status.type && (
+            <div className={`alert-apple alert-${status.type} mt-2 mb-0`}>
+              {status.message}
+            </div>
+          )}
+        </div>
+        <Button
+          variant="outline-secondary"
+          size="sm"
+          className="ms-3"
+          onClick={handleDismiss}
+          disabled={isRebuilding}
+        >
+          ✕
+        </Button>
+      </div>
+    </Alert>
+  );
+}
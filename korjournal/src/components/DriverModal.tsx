@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { Driver } from '@/lib/database';
+
+interface DriverModalProps {
+  show: boolean;
+  onHide: () => void;
+  onDriversChanged?: () => void;
+}
+
+const emptyDriver: Omit<Driver, 'id'> = {
+  name: '',
+  personNumber: ''
+};
+
+export default function DriverModal({ show, onHide, onDriversChanged }: DriverModalProps) {
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<Omit<Driver, 'id'>>(emptyDriver);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const loadDrivers = async () => {
+    try {
+      const response = await fetch('/api/drivers');
+      const data = await response.json();
+      setDrivers(data.drivers || []);
+    } catch (error) {
+      console.error('Error loading drivers:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (show) {
+      loadDrivers();
+      setEditingId(null);
+      setForm(emptyDriver);
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show]);
+
+  const handleEdit = (driver: Driver) => {
+    setEditingId(driver.id!);
+    setForm({ name: driver.name, personNumber: driver.personNumber });
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyDriver);
+  };
+
+  const handleSave = async () => {
+    if (!form.name) {
+      setSaveStatus({ type: 'danger', message: 'Namn måste anges' });
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(editingId ? `/api/drivers/${editingId}` : '/api/drivers', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setEditingId(null);
+        setForm(emptyDriver);
+        await loadDrivers();
+        onDriversChanged?.();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara förare' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (driver: Driver) => {
+    const confirmDelete = window.confirm(`Är du säker på att du vill ta bort ${driver.name}?`);
+
+    if (!confirmDelete) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/drivers/${driver.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        await loadDrivers();
+        onDriversChanged?.();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort förare' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av förare' });
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Förare</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {drivers.length === 0 ? (
+          <div className="text-muted small mb-4">Inga förare registrerade ännu.</div>
+        ) : (
+          <div className="table-responsive mb-4">
+            <Table hover className="mb-0 apple-table">
+              <thead>
+                <tr>
+                  <th>Namn</th>
+                  <th>Personnummer</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {drivers.map(driver => (
+                  <tr key={driver.id} onClick={() => handleEdit(driver)} style={{ cursor: 'pointer' }}>
+                    <td className="fw-medium">{driver.name}</td>
+                    <td className="text-muted small">{driver.personNumber}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        className="btn btn-sm text-danger p-0"
+                        style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                        title="Ta bort förare"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(driver);
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera förare' : 'Lägg till förare'}
+        </h6>
+        <Form>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Namn *</label>
+              <Form.Control
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="form-control-apple"
+                placeholder="Förnamn Efternamn"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Personnummer</label>
+              <Form.Control
+                type="text"
+                value={form.personNumber}
+                onChange={(e) => setForm({ ...form, personNumber: e.target.value })}
+                className="form-control-apple"
+                placeholder="YYYYMMDD-XXXX"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        {editingId && (
+          <button
+            className="btn btn-apple-secondary me-2"
+            onClick={handleCancelEdit}
+            disabled={isSaving}
+          >
+            Avbryt redigering
+          </button>
+        )}
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? 'Sparar...' : editingId ? 'Spara förare' : 'Lägg till förare'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -2,21 +2,38 @@
 
 import { useState, useEffect } from 'react';
 import { Modal, Form } from 'react-bootstrap';
-import { Trip } from '@/lib/database';
+import { Trip, Driver, Category, Customer, Project, TripHistoryEntry } from '@/lib/database';
+import { formatHistoryField, formatHistoryValue, formatHistoryTime } from '@/lib/tripHistory';
+import { formatDuration, parseDuration } from '@/lib/units';
+import { formatDate } from '@/lib/pdfExport';
+import CustomerProjectSelect from './CustomerProjectSelect';
 
 interface EditTripModalProps {
   show: boolean;
   onHide: () => void;
   trip: Trip | null;
   onSave: (updatedTrip: Trip) => void;
+  onSplit?: (trip: Trip) => void;
+  onUnmerge?: () => void;
 }
 
-export default function EditTripModal({ show, onHide, trip, onSave }: EditTripModalProps) {
+export default function EditTripModal({ show, onHide, trip, onSave, onSplit, onUnmerge }: EditTripModalProps) {
   const [category, setCategory] = useState('');
   const [notes, setNotes] = useState('');
   const [startPosition, setStartPosition] = useState('');
   const [endDestination, setEndDestination] = useState('');
   const [duration, setDuration] = useState('');
+  const [driverId, setDriverId] = useState<number | ''>('');
+  const [customerId, setCustomerId] = useState<number | null>(null);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [history, setHistory] = useState<TripHistoryEntry[]>([]);
+  const [historyIntact, setHistoryIntact] = useState(true);
+  const [historyRecovered, setHistoryRecovered] = useState(false);
+  const [mergedTrips, setMergedTrips] = useState<Trip[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<{
     type: 'success' | 'danger' | null;
@@ -29,14 +46,73 @@ export default function EditTripModal({ show, onHide, trip, onSave }: EditTripMo
       setNotes(trip.notes || '');
       setStartPosition(trip.startPosition || '');
       setEndDestination(trip.endDestination || '');
-      setDuration(trip.duration || '');
+      setDuration(formatDuration(trip.durationMinutes));
+      setDriverId(trip.driverId || '');
+      setCustomerId(trip.customerId ?? null);
+      setProjectId(trip.projectId ?? null);
       setSaveStatus({ type: null, message: '' });
     }
   }, [trip]);
 
+  useEffect(() => {
+    if (!show) return;
+
+    const loadChoices = async () => {
+      try {
+        const [driversResponse, categoriesResponse, customersResponse, projectsResponse] = await Promise.all([
+          fetch('/api/drivers'),
+          fetch('/api/categories'),
+          fetch('/api/customers'),
+          fetch('/api/projects')
+        ]);
+        const driversData = await driversResponse.json();
+        const categoriesData = await categoriesResponse.json();
+        const customersData = await customersResponse.json();
+        const projectsData = await projectsResponse.json();
+        setDrivers(driversData.drivers || []);
+        setCategories(categoriesData.categories || []);
+        setCustomers(customersData.customers || []);
+        setProjects(projectsData.projects || []);
+      } catch (error) {
+        console.error('Error loading drivers, categories and customers:', error);
+      }
+    };
+
+    loadChoices();
+  }, [show]);
+
+  useEffect(() => {
+    if (!show || !trip?.id) return;
+
+    const loadHistory = async () => {
+      try {
+        const [historyResponse, mergeResponse] = await Promise.all([
+          fetch(`/api/trips/${trip.id}/history`),
+          fetch(`/api/trips/${trip.id}/merge`)
+        ]);
+        const data = await historyResponse.json();
+        const mergeData = await mergeResponse.json();
+        setHistory(data.history || []);
+        setHistoryIntact(data.intact !== false);
+        setHistoryRecovered(data.recoveredBreaks > 0);
+        setMergedTrips(mergeData.trips || []);
+      } catch (error) {
+        console.error('Error loading trip history:', error);
+      }
+    };
+
+    loadHistory();
+  }, [show, trip?.id]);
+
   const handleSave = async () => {
     if (!trip) return;
 
+    const durationMinutes = parseDuration(duration);
+    if (duration.trim() && durationMinutes === null) {
+      setSaveStatus({ type: 'danger', message: 'Ange varaktigheten som t.ex. 1h 30m eller 45m' });
+      return;
+    }
+
     setIsSaving(true);
     setSaveStatus({ type: null, message: '' });
 
@@ -47,7 +123,12 @@ export default function EditTripModal({ show, onHide, trip, onSave }: EditTripMo
         notes,
         startPosition,
         endDestination,
-        duration
+        durationMinutes,
+        driverId: driverId || null,
+        customerId,
+        projectId,
+        customerName: customers.find(c => c.id === customerId)?.name || null,
+        projectName: projects.find(p => p.id === projectId)?.name || null
       };
 
       const response = await fetch(`/api/trips/${trip.id}`, {
@@ -60,10 +141,15 @@ export default function EditTripModal({ show, onHide, trip, onSave }: EditTripMo
           notes,
           startPosition,
           endDestination,
-          duration
+          durationMinutes,
+          driverId: driverId || null,
+          customerId,
+          projectId
         }),
       });
 
+      const result = await response.json();
+
       if (response.ok) {
         setSaveStatus({ 
           type: 'success', 
@@ -76,7 +162,7 @@ export default function EditTripModal({ show, onHide, trip, onSave }: EditTripMo
       } else {
         setSaveStatus({ 
           type: 'danger', 
-          message: 'Kunde inte spara ändringar' 
+          message: result.error || 'Kunde inte spara ändringar' 
         });
       }
     } catch {
@@ -89,6 +175,29 @@ export default function EditTripModal({ show, onHide, trip, onSave }: EditTripMo
     }
   };
 
+  const handleUnmerge = async () => {
+    if (!trip || !window.confirm(`Vill du dela upp resan i de ${mergedTrips.length} ursprungliga resorna igen?`)) return;
+
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(`/api/trips/${trip.id}/merge`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (response.ok) {
+        onUnmerge?.();
+        onHide();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ångra sammanslagningen' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod när sammanslagningen skulle ångras' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleClose = () => {
     if (!isSaving) {
       onHide();
@@ -117,6 +226,16 @@ export default function EditTripModal({ show, onHide, trip, onSave }: EditTripMo
                 <strong>Mätare slut:</strong> {trip.odometerEnd} km
               </div>
             </div>
+            {(trip.startPlaceName || trip.endPlaceName) && (
+              <div className="mt-1">
+                <strong>Platser:</strong> {trip.startPlaceName || '–'} → {trip.endPlaceName || '–'}
+              </div>
+            )}
+            {trip.ruleName && (
+              <div className="mt-1 text-muted">
+                Kategoriserad av regeln {trip.ruleName}
+              </div>
+            )}
           </div>
         </div>
 
@@ -166,9 +285,36 @@ export default function EditTripModal({ show, onHide, trip, onSave }: EditTripMo
               className="form-control-apple"
               disabled={isSaving}
             >
-              <option value="Privat">Privat</option>
-              <option value="Arbete">Arbete</option>
-              <option value="Okategoriserat">Okategoriserat</option>
+              {categories.map(c => (
+                <option key={c.id} value={c.name}>{c.name}</option>
+              ))}
+            </Form.Select>
+          </div>
+
+          <CustomerProjectSelect
+            customers={customers}
+            projects={projects}
+            customerId={customerId}
+            projectId={projectId}
+            onChange={(newCustomerId, newProjectId) => {
+              setCustomerId(newCustomerId);
+              setProjectId(newProjectId);
+            }}
+            disabled={isSaving}
+          />
+
+          <div className="mb-3">
+            <label className="form-label fw-medium">Förare</label>
+            <Form.Select
+              value={driverId}
+              onChange={(e) => setDriverId(e.target.value ? Number(e.target.value) : '')}
+              className="form-control-apple"
+              disabled={isSaving}
+            >
+              <option value="">Ingen förare angiven</option>
+              {drivers.map(d => (
+                <option key={d.id} value={d.id}>{d.name}</option>
+              ))}
             </Form.Select>
           </div>
 
@@ -191,8 +337,78 @@ export default function EditTripModal({ show, onHide, trip, onSave }: EditTripMo
             </div>
           )}
         </Form>
+
+        {mergedTrips.length > 0 && (
+          <div className="mt-4">
+            <div className="d-flex justify-content-between align-items-center mb-2">
+              <h6 className="fw-medium mb-0" style={{ color: 'var(--apple-gray-6)' }}>
+                Sammanslagen av {mergedTrips.length} resor
+              </h6>
+              {onUnmerge && (
+                <button
+                  className="btn btn-sm btn-apple-secondary"
+                  onClick={handleUnmerge}
+                  disabled={isSaving}
+                >
+                  Ångra sammanslagning
+                </button>
+              )}
+            </div>
+            <div className="small">
+              {mergedTrips.map(merged => (
+                <div key={merged.id} className="py-1" style={{ borderBottom: '1px solid var(--apple-gray-2)' }}>
+                  {formatDate(merged.startDate)} · {merged.startPosition} → {merged.endDestination}
+                  <span className="text-muted"> · {merged.distance.toFixed(1)} km</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Change history - read-only, every saved change is logged */}
+        <div className="mt-4">
+          <h6 className="fw-medium mb-2" style={{ color: 'var(--apple-gray-6)' }}>Ändringshistorik</h6>
+          {!historyIntact && (
+            <div className="alert-apple alert-danger mb-2">
+              Ändringsloggen har manipulerats utanför appen och kan inte verifieras.
+            </div>
+          )}
+          {historyIntact && historyRecovered && (
+            <div className="alert-apple alert-info mb-2">
+              Ändringsloggen återställdes efter ett databasfel. Poster som inte gick att läsa saknas, resten är kontrollerad.
+            </div>
+          )}
+          {history.length === 0 ? (
+            <div className="small text-muted">Resan har inte ändrats sedan den registrerades.</div>
+          ) : (
+            <div className="small">
+              {history.map(entry => (
+                <div key={entry.id} className="py-2" style={{ borderBottom: '1px solid var(--apple-gray-2)' }}>
+                  <div className="text-muted">
+                    {formatHistoryTime(entry.changedAt)} · {entry.username}
+                  </div>
+                  <div>
+                    <strong>{formatHistoryField(entry)}</strong>
+                    {entry.action === 'update' && (
+                      <>: {formatHistoryValue(entry, entry.oldValue, drivers, customers, projects)} → {formatHistoryValue(entry, entry.newValue, drivers, customers, projects)}</>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </Modal.Body>
       <Modal.Footer>
+        {onSplit && (
+          <button 
+            className="btn btn-apple-secondary me-auto"
+            onClick={() => onSplit(trip)}
+            disabled={isSaving}
+          >
+            Dela resa
+          </button>
+        )}
         <button 
           className="btn btn-apple-secondary me-2"
           onClick={handleClose}
@@ -2,12 +2,22 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { Container, Card, Row, Col, Spinner, Alert, Table, Collapse, Form } from 'react-bootstrap';
+import { Category, User, MileageRate, AllowanceType, EnergyPrice, EnergyType, Vehicle, SpotPriceCoverage } from '@/lib/database';
+import { ALLOWANCE_TYPES, AllowanceSummary } from '@/lib/allowance';
+import { RefuelSummary } from '@/lib/refuels';
+import { ChargingSummary, CHARGING_LOCATIONS } from '@/lib/charging';
+import { ENERGY_TYPES } from '@/lib/energyPrices';
+import { SPOT_PRICE_AREAS, SPOT_PRICE_AREA_SETTING } from '@/lib/spotPrices';
+import CategoryBadge from './CategoryBadge';
 
 interface FuelStatistics {
   totalTrips: number;
   totalDistance: number;
   totalFuelConsumption: number;
   totalElectricConsumption: number;
+  totalFuelCost: number;
+  totalElectricCost: number;
+  businessDistance: number;
   averageFuelPer100km: number;
   averageElectricPer100km: number;
   categoryStats: Array<{
@@ -23,19 +33,33 @@ interface FuelStatistics {
     distance: number;
     fuelConsumption: number;
     electricConsumption: number;
+    fuelCost: number;
+    electricCost: number;
   }>;
 }
 
+const emptyRate = { vehicleType: 'private' as AllowanceType, validFrom: '', validTo: '', ratePerMil: '' };
+const emptyPrice = { energyType: 'fuel' as EnergyType, vehicleId: '', validFrom: '', price: '' };
+
 interface FuelStatisticsProps {
   className?: string;
+  vehicleId?: number | null;
 }
 
-export default function FuelStatistics({ className }: FuelStatisticsProps) {
+export default function FuelStatistics({ className, vehicleId }: FuelStatisticsProps) {
   const [statistics, setStatistics] = useState<FuelStatistics | null>(null);
+  const [refuels, setRefuels] = useState<RefuelSummary | null>(null);
+  const [charging, setCharging] = useState<ChargingSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [showPriceConfig, setShowPriceConfig] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [allowance, setAllowance] = useState<AllowanceSummary | null>(null);
+  const [showRateConfig, setShowRateConfig] = useState(false);
+  const [rates, setRates] = useState<MileageRate[]>([]);
+  const [rateForm, setRateForm] = useState(emptyRate);
+  const [rateError, setRateError] = useState<string | null>(null);
 
   // Filter states
   const [categoryFilter, setCategoryFilter] = useState('');
@@ -48,42 +72,72 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
     return today.toISOString().split('T')[0];
   });
 
-  // Price configuration states
-  const [fuelPricePerLiter, setFuelPricePerLiter] = useState('16.50');
-  const [electricityPricePerKwh, setElectricityPricePerKwh] = useState('2.50');
+  // Price history states
+  const [prices, setPrices] = useState<EnergyPrice[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [priceForm, setPriceForm] = useState(emptyPrice);
+  const [priceError, setPriceError] = useState<string | null>(null);
+
+  // Spot price states
+  const [showSpotConfig, setShowSpotConfig] = useState(false);
+  const [spotArea, setSpotArea] = useState('');
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [spotCoverage, setSpotCoverage] = useState<SpotPriceCoverage[]>([]);
+  const [spotFile, setSpotFile] = useState<File | null>(null);
+  const [isImportingSpot, setIsImportingSpot] = useState(false);
+  const [spotStatus, setSpotStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
 
-  const loadPriceSettings = async () => {
+  const loadPrices = async () => {
     try {
-      const response = await fetch('/api/settings/multiple?keys=fuelPricePerLiter,electricityPricePerKwh');
-      const data = await response.json();
-      
-      if (data.settings.fuelPricePerLiter) {
-        setFuelPricePerLiter(data.settings.fuelPricePerLiter);
-      }
-      if (data.settings.electricityPricePerKwh) {
-        setElectricityPricePerKwh(data.settings.electricityPricePerKwh);
+      const [pricesResponse, vehiclesResponse] = await Promise.all([
+        fetch('/api/energy-prices'),
+        fetch('/api/vehicles')
+      ]);
+      setPrices((await pricesResponse.json()).prices || []);
+      setVehicles((await vehiclesResponse.json()).vehicles || []);
+    } catch (error) {
+      console.error('Error loading energy prices:', error);
+    }
+  };
+
+  // The price area is shared by everyone, so only owners may change it
+  const loadSpotPrices = async () => {
+    try {
+      const [coverageResponse, settingsResponse, userResponse] = await Promise.all([
+        fetch('/api/spot-prices'),
+        fetch(`/api/settings/multiple?keys=${SPOT_PRICE_AREA_SETTING}`),
+        fetch('/api/auth/me')
+      ]);
+      setSpotCoverage((await coverageResponse.json()).coverage || []);
+      setSpotArea((await settingsResponse.json()).settings?.[SPOT_PRICE_AREA_SETTING] || '');
+      if (userResponse.ok) {
+        setCurrentUser((await userResponse.json()).user);
       }
     } catch (error) {
-      console.error('Error loading price settings:', error);
+      console.error('Error loading spot prices:', error);
     }
   };
 
-  const savePriceSettings = async () => {
+  const loadCategories = async () => {
     try {
-      await fetch('/api/settings/multiple', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          settings: {
-            fuelPricePerLiter,
-            electricityPricePerKwh
-          }
-        }),
-      });
+      const response = await fetch('/api/categories');
+      const data = await response.json();
+      setCategories(data.categories || []);
     } catch (error) {
-      console.error('Error saving price settings:', error);
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  const loadRates = async () => {
+    try {
+      const response = await fetch('/api/allowance/rates');
+      const data = await response.json();
+      setRates(data.rates || []);
+    } catch (error) {
+      console.error('Error loading mileage rates:', error);
     }
   };
 
@@ -91,6 +145,7 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
     setLoading(true);
     try {
       const params = new URLSearchParams({
+        ...(vehicleId && { vehicleId: vehicleId.toString() }),
         ...(categoryFilter && { category: categoryFilter }),
         ...(dateFromFilter && { dateFrom: dateFromFilter }),
         ...(dateToFilter && { dateTo: dateToFilter })
@@ -101,18 +156,40 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
       
       const data = await response.json();
       setStatistics(data.statistics);
+      setRefuels(data.refuels || null);
+      setCharging(data.charging || null);
+
+      // The allowance follows the date and vehicle filters but always counts
+      // the business trips, whatever category is picked
+      const allowanceParams = new URLSearchParams({
+        ...(vehicleId && { vehicleId: vehicleId.toString() }),
+        ...(dateFromFilter && { dateFrom: dateFromFilter }),
+        ...(dateToFilter && { dateTo: dateToFilter })
+      });
+      const allowanceResponse = await fetch(`/api/allowance?${allowanceParams}`);
+      if (allowanceResponse.ok) {
+        setAllowance((await allowanceResponse.json()).allowance);
+      }
     } catch (err) {
       setError('Kunde inte hämta bränslestatistik');
       console.error('Error fetching statistics:', err);
     } finally {
       setLoading(false);
     }
-  }, [categoryFilter, dateFromFilter, dateToFilter]);
+  }, [vehicleId, categoryFilter, dateFromFilter, dateToFilter]);
+
+  // Prices, rates and categories don't depend on the filters, so they're
+  // loaded once and again only when edited here
+  useEffect(() => {
+    loadPrices();
+    loadSpotPrices();
+    loadCategories();
+    loadRates();
+  }, []);
 
   useEffect(() => {
-    loadPriceSettings();
     fetchStatistics();
-  }, [categoryFilter, dateFromFilter, dateToFilter, fetchStatistics]);
+  }, [fetchStatistics]);
 
   const formatNumber = (num: number, decimals: number = 1) => {
     return num.toLocaleString('sv-SE', { 
@@ -126,23 +203,13 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
     return date.toLocaleDateString('sv-SE', { year: 'numeric', month: 'long' });
   };
 
-  const getCategoryBadge = (category: string) => {
-    const variants: { [key: string]: string } = {
-      'Privat': 'badge-apple badge-apple-blue',
-      'Arbete': 'badge-apple badge-apple-green',
-      'Okategoriserat': 'badge-apple badge-apple-gray'
-    };
-    return variants[category] || 'badge-apple badge-apple-gray';
-  };
-
   const calculateCosts = () => {
     if (!statistics) return { fuelCost: 0, electricityCost: 0, totalCost: 0, fuelCostPer100km: 0, electricityCostPer100km: 0, totalCostPer100km: 0 };
     
-    const fuelPrice = parseFloat(fuelPricePerLiter.replace(',', '.'));
-    const electricityPrice = parseFloat(electricityPricePerKwh.replace(',', '.'));
-    
-    const fuelCost = statistics.totalFuelConsumption * fuelPrice;
-    const electricityCost = statistics.totalElectricConsumption * electricityPrice;
+    // At what was paid for fuel and charging in each trip's month, or the
+    // price history where nothing was logged, like the monthly table
+    const fuelCost = statistics.totalFuelCost;
+    const electricityCost = statistics.totalElectricCost;
     const totalCost = fuelCost + electricityCost;
     
     const fuelCostPer100km = statistics.totalDistance > 0 ? (fuelCost / statistics.totalDistance) * 100 : 0;
@@ -152,6 +219,149 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
     return { fuelCost, electricityCost, totalCost, fuelCostPer100km, electricityCostPer100km, totalCostPer100km };
   };
 
+  const handleAddRate = async () => {
+    setRateError(null);
+    try {
+      const response = await fetch('/api/allowance/rates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(rateForm),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setRateError(data.error || 'Kunde inte spara ersättningssatsen');
+        return;
+      }
+      setRateForm(emptyRate);
+      await loadRates();
+      fetchStatistics();
+    } catch (error) {
+      console.error('Error saving mileage rate:', error);
+      setRateError('Kunde inte spara ersättningssatsen');
+    }
+  };
+
+  const handleDeleteRate = async (id: number) => {
+    if (!confirm('Ta bort ersättningssatsen?')) return;
+    setRateError(null);
+    try {
+      const response = await fetch(`/api/allowance/rates/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setRateError(data.error || 'Kunde inte ta bort ersättningssatsen');
+        return;
+      }
+      await loadRates();
+      fetchStatistics();
+    } catch (error) {
+      console.error('Error deleting mileage rate:', error);
+      setRateError('Kunde inte ta bort ersättningssatsen');
+    }
+  };
+
+  const handleAddPrice = async () => {
+    setPriceError(null);
+    try {
+      const response = await fetch('/api/energy-prices', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(priceForm),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setPriceError(data.error || 'Kunde inte spara priset');
+        return;
+      }
+      setPriceForm(emptyPrice);
+      await loadPrices();
+      fetchStatistics();
+    } catch (error) {
+      console.error('Error saving energy price:', error);
+      setPriceError('Kunde inte spara priset');
+    }
+  };
+
+  const handleDeletePrice = async (id: number) => {
+    if (!confirm('Ta bort priset?')) return;
+    setPriceError(null);
+    try {
+      const response = await fetch(`/api/energy-prices/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setPriceError(data.error || 'Kunde inte ta bort priset');
+        return;
+      }
+      await loadPrices();
+      fetchStatistics();
+    } catch (error) {
+      console.error('Error deleting energy price:', error);
+      setPriceError('Kunde inte ta bort priset');
+    }
+  };
+
+  const saveSpotArea = async (area: string) => {
+    const previousArea = spotArea;
+    setSpotArea(area);
+    setSpotStatus({ type: null, message: '' });
+    try {
+      const response = await fetch('/api/settings/multiple', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ settings: { [SPOT_PRICE_AREA_SETTING]: area } }),
+      });
+      if (!response.ok) {
+        setSpotArea(previousArea);
+        setSpotStatus({
+          type: 'danger',
+          message: response.status === 403 ? 'Bara ägare kan byta elområde' : 'Elområdet kunde inte sparas'
+        });
+        return;
+      }
+      fetchStatistics();
+    } catch (error) {
+      console.error('Error saving spot price area:', error);
+      setSpotArea(previousArea);
+      setSpotStatus({ type: 'danger', message: 'Elområdet kunde inte sparas' });
+    }
+  };
+
+  const handleImportSpotPrices = async () => {
+    if (!spotFile) return;
+    setIsImportingSpot(true);
+    setSpotStatus({ type: null, message: '' });
+    try {
+      const formData = new FormData();
+      formData.append('file', spotFile);
+      formData.append('area', spotArea);
+      const response = await fetch('/api/spot-prices', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setSpotStatus({ type: 'danger', message: data.error || 'Import av spotpriser misslyckades' });
+        return;
+      }
+      setSpotStatus({ type: 'success', message: data.message });
+      setSpotFile(null);
+      const fileInput = document.getElementById('spotPriceFile') as HTMLInputElement;
+      if (fileInput) fileInput.value = '';
+      await loadSpotPrices();
+      fetchStatistics();
+    } catch (error) {
+      console.error('Error importing spot prices:', error);
+      setSpotStatus({ type: 'danger', message: 'Import av spotpriser misslyckades' });
+    } finally {
+      setIsImportingSpot(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return amount.toLocaleString('sv-SE', { 
       style: 'currency', 
@@ -247,9 +457,9 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
                       }}
                     >
                       <option value="">Alla kategorier</option>
-                      <option value="Privat">Privat</option>
-                      <option value="Arbete">Arbete</option>
-                      <option value="Okategoriserat">Okategoriserat</option>
+                      {categories.map(c => (
+                        <option key={c.id} value={c.name}>{c.name}</option>
+                      ))}
                     </Form.Select>
                   </Form.Group>
                 </Col>
@@ -295,7 +505,7 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
         </Collapse>
       </Card>
 
-      {/* Price Configuration Card */}
+      {/* Price History Card */}
       <Card 
         className="mb-3 mb-sm-4"
         style={{
@@ -316,7 +526,7 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
           }}
         >
           <div className="d-flex justify-content-between align-items-center">
-            <h6 className="mb-0 fw-semibold" style={{ color: 'var(--apple-gray-6)' }}>Priskonfiguration</h6>
+            <h6 className="mb-0 fw-semibold" style={{ color: 'var(--apple-gray-6)' }}>Prishistorik</h6>
             <span style={{ color: 'var(--apple-blue)', fontSize: '14px' }}>
               {showPriceConfig ? '↑' : '↓'}
             </span>
@@ -325,18 +535,109 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
         <Collapse in={showPriceConfig}>
           <div>
             <Card.Body style={{ padding: '20px' }}>
-              <Row>
-                <Col xs={12} sm={6} md={4} className="mb-3 mb-md-0">
+              <Table size="sm" className="apple-table mb-3">
+                <thead>
+                  <tr>
+                    <th>Typ</th>
+                    <th>Fordon</th>
+                    <th>Gäller från</th>
+                    <th>Pris</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {prices.map(price => (
+                    <tr key={price.id}>
+                      <td>{ENERGY_TYPES[price.energyType].label}</td>
+                      <td>{price.vehicleId ? vehicles.find(v => v.id === price.vehicleId)?.regNumber || '–' : 'Alla fordon'}</td>
+                      <td>{price.validFrom}</td>
+                      <td>{formatNumber(price.price, 2)} {ENERGY_TYPES[price.energyType].unit}</td>
+                      <td style={{ textAlign: 'right' }}>
+                        <button
+                          className="btn btn-sm text-danger p-0"
+                          style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                          title="Ta bort pris"
+                          onClick={() => handleDeletePrice(price.id!)}
+                        >
+                          🗑️
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+              <Row className="align-items-end">
+                <Col xs={6} md={2} className="mb-3">
+                  <Form.Group>
+                    <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                      Typ
+                    </Form.Label>
+                    <Form.Select
+                      value={priceForm.energyType}
+                      onChange={(e) => setPriceForm({ ...priceForm, energyType: e.target.value as EnergyType })}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        padding: '10px 12px',
+                        fontSize: '0.9rem'
+                      }}
+                    >
+                      {Object.entries(ENERGY_TYPES).map(([type, { label }]) => (
+                        <option key={type} value={type}>{label}</option>
+                      ))}
+                    </Form.Select>
+                  </Form.Group>
+                </Col>
+                <Col xs={6} md={3} className="mb-3">
+                  <Form.Group>
+                    <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                      Fordon
+                    </Form.Label>
+                    <Form.Select
+                      value={priceForm.vehicleId}
+                      onChange={(e) => setPriceForm({ ...priceForm, vehicleId: e.target.value })}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        padding: '10px 12px',
+                        fontSize: '0.9rem'
+                      }}
+                    >
+                      <option value="">Alla fordon</option>
+                      {vehicles.map(v => (
+                        <option key={v.id} value={v.id}>{v.regNumber}</option>
+                      ))}
+                    </Form.Select>
+                  </Form.Group>
+                </Col>
+                <Col xs={6} md={3} className="mb-3">
                   <Form.Group>
                     <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
-                      Pris per liter bränsle (kr)
+                      Gäller från
+                    </Form.Label>
+                    <Form.Control
+                      type="date"
+                      value={priceForm.validFrom}
+                      onChange={(e) => setPriceForm({ ...priceForm, validFrom: e.target.value })}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        padding: '10px 12px',
+                        fontSize: '0.9rem'
+                      }}
+                    />
+                  </Form.Group>
+                </Col>
+                <Col xs={6} md={2} className="mb-3">
+                  <Form.Group>
+                    <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                      {ENERGY_TYPES[priceForm.energyType].unit}
                     </Form.Label>
                     <Form.Control
                       type="text"
-                      value={fuelPricePerLiter}
-                      onChange={(e) => setFuelPricePerLiter(e.target.value)}
-                      onBlur={savePriceSettings}
-                      placeholder="16,50"
+                      value={priceForm.price}
+                      onChange={(e) => setPriceForm({ ...priceForm, price: e.target.value })}
+                      placeholder={priceForm.energyType === 'fuel' ? '16,50' : '2,50'}
                       style={{
                         border: '1px solid var(--apple-gray-3)',
                         borderRadius: '8px',
@@ -346,17 +647,273 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
                     />
                   </Form.Group>
                 </Col>
-                <Col xs={12} sm={6} md={4}>
+                <Col xs={12} md={2} className="mb-3">
+                  <button className="btn btn-apple-primary w-100" onClick={handleAddPrice}>
+                    Lägg till
+                  </button>
+                </Col>
+              </Row>
+              {priceError && (
+                <div className="alert-apple alert-danger mb-3">{priceError}</div>
+              )}
+              <div className="small text-muted">
+                Varje resa kostas med det senaste priset som gällde när den kördes. Ett pris för ett visst fordon
+                går före ett pris för alla fordon från samma dag. Tankningar och laddningar i resans månad används
+                i stället när de finns.
+              </div>
+            </Card.Body>
+          </div>
+        </Collapse>
+      </Card>
+
+      {/* Spot Price Card */}
+      <Card 
+        className="mb-3 mb-sm-4"
+        style={{
+          border: '1px solid var(--apple-gray-2)',
+          borderRadius: '12px',
+          boxShadow: 'var(--apple-shadow)',
+          overflow: 'hidden'
+        }}
+      >
+        <Card.Header 
+          onClick={() => setShowSpotConfig(!showSpotConfig)}
+          style={{ 
+            cursor: 'pointer',
+            backgroundColor: 'white',
+            borderBottom: showSpotConfig ? '1px solid var(--apple-gray-2)' : 'none',
+            borderRadius: showSpotConfig ? '12px 12px 0 0' : '12px',
+            padding: '16px 20px'
+          }}
+        >
+          <div className="d-flex justify-content-between align-items-center">
+            <h6 className="mb-0 fw-semibold" style={{ color: 'var(--apple-gray-6)' }}>Spotpriser</h6>
+            <span style={{ color: 'var(--apple-blue)', fontSize: '14px' }}>
+              {showSpotConfig ? '↑' : '↓'}
+            </span>
+          </div>
+        </Card.Header>
+        <Collapse in={showSpotConfig}>
+          <div>
+            <Card.Body style={{ padding: '20px' }}>
+              {spotCoverage.length > 0 && (
+                <Table size="sm" className="apple-table mb-3">
+                  <thead>
+                    <tr>
+                      <th>Elområde</th>
+                      <th>Timmar</th>
+                      <th>Från</th>
+                      <th>Till</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {spotCoverage.map(coverage => (
+                      <tr key={coverage.area}>
+                        <td>{coverage.area}</td>
+                        <td>{formatNumber(coverage.hours, 0)}</td>
+                        <td>{coverage.firstHour.slice(0, 10)}</td>
+                        <td>{coverage.lastHour.slice(0, 10)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+              <Row className="align-items-end">
+                <Col xs={12} sm={4} md={3} className="mb-3">
+                  <Form.Group>
+                    <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                      Elområde
+                    </Form.Label>
+                    <Form.Select
+                      value={spotArea}
+                      onChange={(e) => saveSpotArea(e.target.value)}
+                      disabled={currentUser?.role !== 'owner'}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        padding: '10px 12px',
+                        fontSize: '0.9rem'
+                      }}
+                    >
+                      <option value="">Inget spotpris</option>
+                      {SPOT_PRICE_AREAS.map(area => (
+                        <option key={area} value={area}>{area}</option>
+                      ))}
+                    </Form.Select>
+                  </Form.Group>
+                </Col>
+                <Col xs={12} sm={8} md={6} className="mb-3">
                   <Form.Group>
                     <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
-                      Pris per kWh el (kr)
+                      Fil med timpriser (CSV eller JSON)
+                    </Form.Label>
+                    <Form.Control
+                      id="spotPriceFile"
+                      type="file"
+                      accept=".csv,.json"
+                      onChange={(e) => setSpotFile((e.target as HTMLInputElement).files?.[0] || null)}
+                      disabled={isImportingSpot}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        padding: '10px 12px',
+                        fontSize: '0.9rem'
+                      }}
+                    />
+                  </Form.Group>
+                </Col>
+                <Col xs={12} md={3} className="mb-3">
+                  <button
+                    className="btn btn-apple-primary w-100"
+                    onClick={handleImportSpotPrices}
+                    disabled={!spotFile || isImportingSpot}
+                  >
+                    {isImportingSpot ? 'Importerar...' : 'Importera'}
+                  </button>
+                </Col>
+              </Row>
+              {spotStatus.type && (
+                <div className={`alert-apple alert-${spotStatus.type} mb-3`}>{spotStatus.message}</div>
+              )}
+              <div className="small text-muted">
+                Nord Pools exporter med en kolumn per elområde och filer med tid och pris för ett område fungerar,
+                i SEK per MWh, öre per kWh eller kr per kWh. Kvartspriser slås ihop till timpriser. Hemmaladdning
+                med start- och sluttid men utan pris räknas med timpriserna i det valda elområdet.
+              </div>
+            </Card.Body>
+          </div>
+        </Collapse>
+      </Card>
+
+      {/* Mileage Rate Configuration Card */}
+      <Card 
+        className="mb-3 mb-sm-4"
+        style={{
+          border: '1px solid var(--apple-gray-2)',
+          borderRadius: '12px',
+          boxShadow: 'var(--apple-shadow)',
+          overflow: 'hidden'
+        }}
+      >
+        <Card.Header 
+          onClick={() => setShowRateConfig(!showRateConfig)}
+          style={{ 
+            cursor: 'pointer',
+            backgroundColor: 'white',
+            borderBottom: showRateConfig ? '1px solid var(--apple-gray-2)' : 'none',
+            borderRadius: showRateConfig ? '12px 12px 0 0' : '12px',
+            padding: '16px 20px'
+          }}
+        >
+          <div className="d-flex justify-content-between align-items-center">
+            <h6 className="mb-0 fw-semibold" style={{ color: 'var(--apple-gray-6)' }}>Ersättningssatser</h6>
+            <span style={{ color: 'var(--apple-blue)', fontSize: '14px' }}>
+              {showRateConfig ? '↑' : '↓'}
+            </span>
+          </div>
+        </Card.Header>
+        <Collapse in={showRateConfig}>
+          <div>
+            <Card.Body style={{ padding: '20px' }}>
+              <Table size="sm" className="apple-table mb-3">
+                <thead>
+                  <tr>
+                    <th>Fordonstyp</th>
+                    <th>Gäller från</th>
+                    <th>Gäller till</th>
+                    <th>Kr per mil</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rates.map(rate => (
+                    <tr key={rate.id}>
+                      <td>{ALLOWANCE_TYPES[rate.vehicleType]}</td>
+                      <td>{rate.validFrom}</td>
+                      <td>{rate.validTo || 'Tills vidare'}</td>
+                      <td>{formatNumber(rate.ratePerMil, 2)}</td>
+                      <td style={{ textAlign: 'right' }}>
+                        <button
+                          className="btn btn-sm text-danger p-0"
+                          style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                          title="Ta bort ersättningssats"
+                          onClick={() => handleDeleteRate(rate.id!)}
+                        >
+                          🗑️
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+              <Row className="align-items-end">
+                <Col xs={12} sm={6} md={3} className="mb-3">
+                  <Form.Group>
+                    <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                      Fordonstyp
+                    </Form.Label>
+                    <Form.Select
+                      value={rateForm.vehicleType}
+                      onChange={(e) => setRateForm({ ...rateForm, vehicleType: e.target.value as AllowanceType })}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        padding: '10px 12px',
+                        fontSize: '0.9rem'
+                      }}
+                    >
+                      {Object.entries(ALLOWANCE_TYPES).map(([type, label]) => (
+                        <option key={type} value={type}>{label}</option>
+                      ))}
+                    </Form.Select>
+                  </Form.Group>
+                </Col>
+                <Col xs={6} md={3} className="mb-3">
+                  <Form.Group>
+                    <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                      Gäller från
+                    </Form.Label>
+                    <Form.Control
+                      type="date"
+                      value={rateForm.validFrom}
+                      onChange={(e) => setRateForm({ ...rateForm, validFrom: e.target.value })}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        padding: '10px 12px',
+                        fontSize: '0.9rem'
+                      }}
+                    />
+                  </Form.Group>
+                </Col>
+                <Col xs={6} md={2} className="mb-3">
+                  <Form.Group>
+                    <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                      Gäller till
+                    </Form.Label>
+                    <Form.Control
+                      type="date"
+                      value={rateForm.validTo}
+                      onChange={(e) => setRateForm({ ...rateForm, validTo: e.target.value })}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        padding: '10px 12px',
+                        fontSize: '0.9rem'
+                      }}
+                    />
+                  </Form.Group>
+                </Col>
+                <Col xs={6} md={2} className="mb-3">
+                  <Form.Group>
+                    <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                      Kr per mil
                     </Form.Label>
                     <Form.Control
                       type="text"
-                      value={electricityPricePerKwh}
-                      onChange={(e) => setElectricityPricePerKwh(e.target.value)}
-                      onBlur={savePriceSettings}
-                      placeholder="2,50"
+                      value={rateForm.ratePerMil}
+                      onChange={(e) => setRateForm({ ...rateForm, ratePerMil: e.target.value })}
+                      placeholder="25,00"
                       style={{
                         border: '1px solid var(--apple-gray-3)',
                         borderRadius: '8px',
@@ -366,7 +923,15 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
                     />
                   </Form.Group>
                 </Col>
+                <Col xs={6} md={2} className="mb-3">
+                  <button className="btn btn-apple-primary w-100" onClick={handleAddRate}>
+                    Lägg till
+                  </button>
+                </Col>
               </Row>
+              {rateError && (
+                <div className="alert-apple alert-danger mb-0">{rateError}</div>
+              )}
             </Card.Body>
           </div>
         </Collapse>
@@ -394,6 +959,112 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
         </Col>
       </Row>
 
+      {/* Refuels: measured consumption and real prices */}
+      {refuels && refuels.refuelCount > 0 && (
+        <Row className="mb-3 mb-sm-4 g-3 g-sm-4">
+          <Col xs={12} sm={6} md={4}>
+            <Card className="apple-card text-center h-100">
+              <Card.Body>
+                <div style={{ fontSize: '2rem', marginBottom: '8px' }}>🧪</div>
+                <h3 className="text-success mb-1">
+                  {refuels.measuredPer100km !== null ? `${formatNumber(refuels.measuredPer100km)} l/100km` : '–'}
+                </h3>
+                <p className="text-muted mb-0 small">Uppmätt förbrukning, tank till tank</p>
+                <p className="text-muted mb-0 small">
+                  Bilen anger {formatNumber(statistics.averageFuelPer100km)} l/100km
+                  {refuels.measuredPer100km !== null && statistics.averageFuelPer100km > 0 &&
+                    ` (${formatNumber((refuels.measuredPer100km / statistics.averageFuelPer100km - 1) * 100, 0)} %)`}
+                </p>
+              </Card.Body>
+            </Card>
+          </Col>
+          <Col xs={12} sm={6} md={4}>
+            <Card className="apple-card text-center h-100">
+              <Card.Body>
+                <div style={{ fontSize: '2rem', marginBottom: '8px' }}>⛽</div>
+                <h3 className="text-primary mb-1">{formatCurrency(refuels.totalPrice)}</h3>
+                <p className="text-muted mb-0 small">
+                  Tankat {formatNumber(refuels.liters)} l vid {formatNumber(refuels.refuelCount, 0)} tillfällen
+                </p>
+              </Card.Body>
+            </Card>
+          </Col>
+          <Col xs={12} sm={6} md={4}>
+            <Card className="apple-card text-center h-100">
+              <Card.Body>
+                <div style={{ fontSize: '2rem', marginBottom: '8px' }}>🏷️</div>
+                <h3 className="text-primary mb-1">
+                  {refuels.averagePricePerLiter !== null ? `${formatNumber(refuels.averagePricePerLiter, 2)} kr/l` : '–'}
+                </h3>
+                <p className="text-muted mb-0 small">Genomsnittligt literpris</p>
+              </Card.Body>
+            </Card>
+          </Col>
+        </Row>
+      )}
+
+      {/* Charging sessions per location */}
+      {charging && charging.sessionCount > 0 && (
+        <Card className="apple-card mb-3 mb-sm-4">
+          <div className="apple-card-header">
+            <h5 className="mb-0 fw-semibold">Laddning</h5>
+          </div>
+          <Card.Body className="p-0">
+            <div className="table-responsive">
+              <Table className="mb-0 apple-table">
+                <thead>
+                  <tr>
+                    <th>Plats</th>
+                    <th className="d-none d-sm-table-cell">Laddningar</th>
+                    <th>Energi</th>
+                    <th>Kostnad</th>
+                    <th>kr/kWh</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {charging.locations.map(location => (
+                    <tr key={location.location}>
+                      <td className="fw-medium">{CHARGING_LOCATIONS[location.location]}</td>
+                      <td className="d-none d-sm-table-cell">{formatNumber(location.sessions, 0)}</td>
+                      <td>{formatNumber(location.kwh)} kWh</td>
+                      <td>{formatCurrency(location.cost)}</td>
+                      <td>{location.kwh > 0 ? formatNumber(location.cost / location.kwh, 2) : '–'}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="fw-semibold">Totalt</td>
+                    <td className="d-none d-sm-table-cell">{formatNumber(charging.sessionCount, 0)}</td>
+                    <td>
+                      {formatNumber(charging.kwh)} kWh
+                      <div className="small text-muted">{formatNumber(charging.purchasedKwh)} kWh köpt inkl. förluster</div>
+                    </td>
+                    <td>{formatCurrency(charging.totalCost)}</td>
+                    <td>{charging.costPerKwh !== null ? formatNumber(charging.costPerKwh, 2) : '–'}</td>
+                  </tr>
+                </tbody>
+              </Table>
+            </div>
+            {(charging.spotSessions > 0 || charging.unpricedSessions > 0) && (
+              <div className="p-3 small">
+                {charging.spotSessions > 0 && (
+                  <div className={charging.spotSavings >= 0 ? 'text-success' : 'text-danger'}>
+                    {charging.spotSavings >= 0 ? 'Smart laddning sparade' : 'Laddning på dyra timmar kostade'}{' '}
+                    {formatCurrency(Math.abs(charging.spotSavings))} jämfört med månadens snittpris
+                    ({formatNumber(charging.spotSessions, 0)} laddningar på spotpris)
+                  </div>
+                )}
+                {charging.unpricedSessions > 0 && (
+                  <div className="text-muted">
+                    {formatNumber(charging.unpricedSessions, 0)} laddningar saknar spotpris för alla timmar och ingår inte i kostnaden.
+                    Välj elområde och importera spotpriser för perioden.
+                  </div>
+                )}
+              </div>
+            )}
+          </Card.Body>
+        </Card>
+      )}
+
       {/* Detailed Cost Breakdown */}
       <Row className="mb-3 mb-sm-4 g-3 g-sm-4">
         <Col xs={12} sm={6} md={6}>
@@ -478,6 +1149,7 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
               <div style={{ fontSize: '2rem', marginBottom: '8px' }}>📏</div>
               <h3 className="text-primary mb-1">{formatNumber(statistics.totalDistance)} km</h3>
               <p className="text-muted mb-0 small">Total körsträcka</p>
+              <p className="text-muted mb-0 small">varav {formatNumber(statistics.businessDistance)} km i tjänsten</p>
             </Card.Body>
           </Card>
         </Col>
@@ -501,6 +1173,62 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
         </Col>
       </Row>
 
+      {/* Mileage Allowance */}
+      {allowance && (
+        <Card className="apple-card mb-4">
+          <div className="apple-card-header">
+            <h5 className="mb-0 fw-semibold">Milersättning</h5>
+          </div>
+          <Card.Body>
+            <Row className="g-3 mb-3">
+              <Col xs={12} sm={6}>
+                <div className="text-center">
+                  <div style={{ fontSize: '2rem', marginBottom: '8px' }}>🧾</div>
+                  <h3 className="text-success mb-1">{formatCurrency(allowance.totalAmount)}</h3>
+                  <p className="text-muted mb-0 small">Skattefri milersättning</p>
+                </div>
+              </Col>
+              <Col xs={12} sm={6}>
+                <div className="text-center">
+                  <div style={{ fontSize: '2rem', marginBottom: '8px' }}>💼</div>
+                  <h3 className="text-primary mb-1">{formatNumber(allowance.totalDistance)} km</h3>
+                  <p className="text-muted mb-0 small">Körsträcka i tjänsten</p>
+                </div>
+              </Col>
+            </Row>
+            {allowance.unratedDistance > 0 && (
+              <div className="alert-apple alert-info mb-3">
+                {formatNumber(allowance.unratedDistance)} km i tjänsten saknar ersättningssats för sitt datum och ger ingen ersättning.
+              </div>
+            )}
+            {allowance.months.length > 0 && (
+              <div className="table-responsive">
+                <Table className="mb-0 apple-table">
+                  <thead>
+                    <tr>
+                      <th>Månad</th>
+                      <th className="d-none d-sm-table-cell">Resor</th>
+                      <th>Avstånd</th>
+                      <th>Ersättning</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {allowance.months.map(month => (
+                      <tr key={month.month}>
+                        <td className="fw-medium">{formatMonth(month.month)}</td>
+                        <td className="d-none d-sm-table-cell">{formatNumber(month.trips, 0)}</td>
+                        <td>{formatNumber(month.distance)} km</td>
+                        <td className="text-success fw-medium">{formatNumber(month.amount, 2)} kr</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              </div>
+            )}
+          </Card.Body>
+        </Card>
+      )}
+
       {/* Category Statistics */}
       <Card className="apple-card mb-4">
         <div className="apple-card-header">
@@ -524,9 +1252,10 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
                 {statistics.categoryStats.map((stat, index) => (
                   <tr key={index}>
                     <td>
-                      <span className={getCategoryBadge(stat.category)}>
-                        {stat.category}
-                      </span>
+                      <CategoryBadge name={stat.category} categories={categories} />
+                      {categories.find(c => c.name === stat.category)?.isBusiness && (
+                        <span className="small text-muted ms-2">Tjänst</span>
+                      )}
                       <div className="d-sm-none small text-muted mt-1">
                         {formatNumber(stat.trips, 0)} resor
                       </div>
@@ -566,6 +1295,7 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
                   <th className="d-none d-md-table-cell">El</th>
                   <th>l/100km</th>
                   <th className="d-none d-lg-table-cell">kWh/100km</th>
+                  <th>Kostnad</th>
                 </tr>
               </thead>
               <tbody>
@@ -587,6 +1317,7 @@ export default function FuelStatistics({ className }: FuelStatisticsProps) {
                     <td className="text-info fw-medium d-none d-lg-table-cell">
                       {stat.distance > 0 ? formatNumber((stat.electricConsumption / stat.distance) * 100) : '0,0'}
                     </td>
+                    <td>{formatCurrency(stat.fuelCost + stat.electricCost)}</td>
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,353 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { Vehicle, Category } from '@/lib/database';
+import { OdometerIssue, proposeGapTimes } from '@/lib/gaps';
+
+interface GapFillModalProps {
+  show: boolean;
+  onHide: () => void;
+  gaps: OdometerIssue[];
+  vehicles: Vehicle[];
+  onSave: () => void;
+}
+
+interface GapDraft {
+  gap: OdometerIssue;
+  // Null until the gap has been accepted or skipped
+  decision: 'accept' | 'skip' | null;
+  startDate: string;
+  startTime: string;
+  endDate: string;
+  endTime: string;
+  startPosition: string;
+  endDestination: string;
+  category: string;
+  notes: string;
+}
+
+const toDraft = (gap: OdometerIssue, category: string): GapDraft => {
+  const { startDate, endDate } = proposeGapTimes(gap);
+  return {
+    gap,
+    decision: null,
+    startDate: startDate.slice(0, 10),
+    startTime: startDate.slice(11, 16),
+    endDate: endDate.slice(0, 10),
+    endTime: endDate.slice(11, 16),
+    startPosition: gap.previous.endDestination,
+    endDestination: gap.next.startPosition,
+    category,
+    notes: 'Saknad resa, ifylld från lucka i mätarställningen'
+  };
+};
+
+// Walks through the gaps one at a time with proposed times and places,
+// then creates the accepted ones as manual trips in one go
+export default function GapFillModal({ show, onHide, gaps, vehicles, onSave }: GapFillModalProps) {
+  const [drafts, setDrafts] = useState<GapDraft[]>([]);
+  const [step, setStep] = useState(0);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  useEffect(() => {
+    if (!show) return;
+
+    setStep(0);
+    setSaveStatus({ type: null, message: '' });
+
+    const loadCategories = async () => {
+      try {
+        const response = await fetch('/api/categories');
+        const data = await response.json();
+        const categoryList: Category[] = data.categories || [];
+        const defaultCategory = categoryList.find(c => c.name === 'Privat')?.name || categoryList[0]?.name || '';
+        setCategories(categoryList);
+        setDrafts(gaps.map(gap => toDraft(gap, defaultCategory)));
+      } catch (error) {
+        console.error('Error loading categories:', error);
+      }
+    };
+
+    loadCategories();
+  }, [show, gaps]);
+
+  const draft = drafts[step] as GapDraft | undefined;
+  const accepted = drafts.filter(d => d.decision === 'accept');
+  const skipped = drafts.filter(d => d.decision === 'skip').length;
+  const isSummary = drafts.length > 0 && step >= drafts.length;
+
+  const updateDraft = (changes: Partial<GapDraft>) => {
+    setDrafts(drafts.map((d, i) => i === step ? { ...d, ...changes } : d));
+  };
+
+  const decide = (decision: 'accept' | 'skip') => {
+    if (!draft) return;
+
+    if (decision === 'accept') {
+      if (!draft.startDate || !draft.startTime || !draft.endDate || !draft.endTime ||
+          !draft.startPosition.trim() || !draft.endDestination.trim() || !draft.category) {
+        setSaveStatus({ type: 'danger', message: 'Vänligen fyll i alla obligatoriska fält' });
+        return;
+      }
+      if (`${draft.endDate} ${draft.endTime}` < `${draft.startDate} ${draft.startTime}`) {
+        setSaveStatus({ type: 'danger', message: 'Sluttiden kan inte vara före starttiden' });
+        return;
+      }
+    }
+
+    // The next gap not yet decided gets the category just chosen, since
+    // missed trips in a row are often of the same kind
+    setDrafts(drafts.map((d, i) => {
+      if (i === step) return { ...d, decision };
+      if (i === step + 1 && decision === 'accept' && d.decision === null) return { ...d, category: draft.category };
+      return d;
+    }));
+    setSaveStatus({ type: null, message: '' });
+    setStep(step + 1);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch('/api/trips/gaps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          trips: accepted.map(d => ({
+            vehicleId: d.gap.vehicleId,
+            odometerStart: d.gap.previous.odometerEnd,
+            odometerEnd: d.gap.next.odometerStart,
+            startDate: `${d.startDate} ${d.startTime}`,
+            endDate: `${d.endDate} ${d.endTime}`,
+            startPosition: d.startPosition,
+            endDestination: d.endDestination,
+            category: d.category,
+            notes: d.notes
+          }))
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        // Reloading the gaps restarts the wizard, so wait until it is closed
+        setTimeout(() => {
+          onHide();
+          onSave();
+        }, 1500);
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte skapa resorna' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod när resorna skapades' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  const regNumber = (vehicleId: number | null) =>
+    vehicleId ? vehicles.find(v => v.id === vehicleId)?.regNumber || '–' : 'Okänt fordon';
+
+  return (
+    <Modal show={show} onHide={handleClose} centered size="lg" className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>
+          {isSummary ? 'Sammanfattning' : `Lucka ${step + 1} av ${drafts.length}`}
+        </Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {draft && !isSummary && (
+          <>
+            <div className="mb-4 small">
+              <div className="fw-medium mb-1" style={{ color: 'var(--apple-gray-6)' }}>
+                {regNumber(draft.gap.vehicleId)} · {draft.gap.km.toLocaleString('sv-SE')} km saknas
+                ({draft.gap.previous.odometerEnd}–{draft.gap.next.odometerStart} km)
+                {draft.decision && (
+                  <span className={draft.decision === 'accept' ? 'text-success' : 'text-muted'}>
+                    {' '}· {draft.decision === 'accept' ? 'tas med' : 'hoppas över'}
+                  </span>
+                )}
+              </div>
+              <div className="text-muted">
+                Föregående resa slutade {draft.gap.from} i {draft.gap.previous.endDestination}.
+                Nästa resa började {draft.gap.to} i {draft.gap.next.startPosition}.
+              </div>
+            </div>
+
+            <Form>
+              <Row>
+                <Col xs={6} md={3} className="mb-3">
+                  <label className="form-label fw-medium">Startdatum</label>
+                  <Form.Control
+                    type="date"
+                    value={draft.startDate}
+                    onChange={(e) => updateDraft({ startDate: e.target.value })}
+                    className="form-control-apple"
+                  />
+                </Col>
+                <Col xs={6} md={3} className="mb-3">
+                  <label className="form-label fw-medium">Starttid</label>
+                  <Form.Control
+                    type="time"
+                    value={draft.startTime}
+                    onChange={(e) => updateDraft({ startTime: e.target.value })}
+                    className="form-control-apple"
+                  />
+                </Col>
+                <Col xs={6} md={3} className="mb-3">
+                  <label className="form-label fw-medium">Slutdatum</label>
+                  <Form.Control
+                    type="date"
+                    value={draft.endDate}
+                    onChange={(e) => updateDraft({ endDate: e.target.value })}
+                    className="form-control-apple"
+                  />
+                </Col>
+                <Col xs={6} md={3} className="mb-3">
+                  <label className="form-label fw-medium">Sluttid</label>
+                  <Form.Control
+                    type="time"
+                    value={draft.endTime}
+                    onChange={(e) => updateDraft({ endTime: e.target.value })}
+                    className="form-control-apple"
+                  />
+                </Col>
+              </Row>
+              <Row>
+                <Col md={6} className="mb-3">
+                  <label className="form-label fw-medium">Start</label>
+                  <Form.Control
+                    type="text"
+                    value={draft.startPosition}
+                    onChange={(e) => updateDraft({ startPosition: e.target.value })}
+                    className="form-control-apple"
+                  />
+                </Col>
+                <Col md={6} className="mb-3">
+                  <label className="form-label fw-medium">Mål</label>
+                  <Form.Control
+                    type="text"
+                    value={draft.endDestination}
+                    onChange={(e) => updateDraft({ endDestination: e.target.value })}
+                    className="form-control-apple"
+                  />
+                </Col>
+              </Row>
+              <Row>
+                <Col md={6} className="mb-3">
+                  <label className="form-label fw-medium">Kategori</label>
+                  <Form.Select
+                    value={draft.category}
+                    onChange={(e) => updateDraft({ category: e.target.value })}
+                    className="form-control-apple"
+                  >
+                    {categories.map(c => (
+                      <option key={c.id} value={c.name}>{c.name}</option>
+                    ))}
+                  </Form.Select>
+                </Col>
+                <Col md={6} className="mb-3">
+                  <label className="form-label fw-medium">Anteckningar</label>
+                  <Form.Control
+                    type="text"
+                    value={draft.notes}
+                    onChange={(e) => updateDraft({ notes: e.target.value })}
+                    className="form-control-apple"
+                  />
+                </Col>
+              </Row>
+            </Form>
+          </>
+        )}
+
+        {isSummary && (
+          <>
+            <p className="small text-muted">
+              {accepted.length} luckor tas med och {skipped} hoppas över.
+              Resorna skapas som manuella resor och kan ändras eller tas bort i efterhand.
+            </p>
+            {accepted.length > 0 && (
+              <div className="table-responsive mb-3">
+                <Table className="mb-0 apple-table">
+                  <thead>
+                    <tr>
+                      <th>Tid</th>
+                      <th>Resa</th>
+                      <th>Avstånd</th>
+                      <th>Kategori</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {accepted.map(d => (
+                      <tr key={`${d.gap.vehicleId}-${d.gap.previous.odometerEnd}`} onClick={() => setStep(drafts.indexOf(d))} style={{ cursor: 'pointer' }}>
+                        <td>{d.startDate} {d.startTime}–{d.endTime}</td>
+                        <td>{d.startPosition} → {d.endDestination}</td>
+                        <td>{d.gap.km.toLocaleString('sv-SE')} km</td>
+                        <td>{d.category}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+
+        {saveStatus.type && (
+          <div className={`alert-apple alert-${saveStatus.type} mb-0`}>
+            {saveStatus.message}
+          </div>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        {step > 0 && (
+          <button
+            className="btn btn-apple-secondary me-auto"
+            onClick={() => { setSaveStatus({ type: null, message: '' }); setStep(step - 1); }}
+            disabled={isSaving}
+          >
+            Föregående
+          </button>
+        )}
+        {isSummary ? (
+          <button
+            className="btn btn-apple-primary"
+            onClick={handleSave}
+            disabled={isSaving || accepted.length === 0}
+          >
+            {isSaving ? 'Skapar...' : `Skapa ${accepted.length} resor`}
+          </button>
+        ) : (
+          <>
+            <button className="btn btn-apple-secondary" onClick={() => setStep(drafts.length)}>
+              Till sammanfattning
+            </button>
+            <button className="btn btn-apple-secondary" onClick={() => decide('skip')}>
+              Hoppa över
+            </button>
+            <button className="btn btn-apple-primary" onClick={() => decide('accept')}>
+              Ta med
+            </button>
+          </>
+        )}
+      </Modal.Footer>
+    </Modal>
+  );
+}
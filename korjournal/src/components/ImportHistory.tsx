@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { Container, Card, Table, Spinner } from 'react-bootstrap';
+import { ImportBatch, Vehicle } from '@/lib/database';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('sv-SE', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+// Every uploaded file with what it imported. A batch can be undone, which
+// deletes its trips that nobody has edited since.
+export default function ImportHistory() {
+  const [imports, setImports] = useState<ImportBatch[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [undoingId, setUndoingId] = useState<number | null>(null);
+  const [status, setStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const fetchImports = useCallback(async () => {
+    try {
+      const [importsResponse, vehiclesResponse] = await Promise.all([
+        fetch('/api/imports'),
+        fetch('/api/vehicles')
+      ]);
+      const data = await importsResponse.json();
+      if (importsResponse.ok) {
+        setImports(data.imports || []);
+      } else {
+        setStatus({ type: 'danger', message: data.error || 'Kunde inte hämta importer' });
+      }
+      setVehicles((await vehiclesResponse.json()).vehicles || []);
+    } catch (error) {
+      console.error('Error fetching imports:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchImports();
+  }, [fetchImports]);
+
+  const handleUndo = async (batch: ImportBatch) => {
+    const kept = (batch.remaining || 0) - (batch.undoable || 0);
+    const confirmUndo = window.confirm(
+      `Ångra importen av ${batch.originalName}? ${batch.undoable} resor tas bort.` +
+      (kept > 0 ? ` ${kept} resor har ändrats och behålls.` : '')
+    );
+    if (!confirmUndo) return;
+
+    setUndoingId(batch.id!);
+    setStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(`/api/imports/${batch.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (response.ok) {
+        setStatus({ type: 'success', message: result.message });
+        fetchImports();
+      } else {
+        setStatus({ type: 'danger', message: result.error || 'Kunde inte ångra importen' });
+      }
+    } catch {
+      setStatus({ type: 'danger', message: 'Ett fel uppstod när importen skulle ångras' });
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  return (
+    <Container className="pb-4">
+      <Card className="apple-card">
+        <div className="apple-card-header">
+          <h5 className="mb-0 fw-semibold">Importhistorik</h5>
+        </div>
+        <Card.Body>
+          {status.type && (
+            <div className={`alert-apple alert-${status.type} mb-3`}>
+              {status.message}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-4">
+              <Spinner animation="border" />
+            </div>
+          ) : imports.length === 0 ? (
+            <p className="text-muted mb-0">Inga importer ännu.</p>
+          ) : (
+            <div className="table-responsive">
+              <Table className="mb-0 apple-table">
+                <thead>
+                  <tr>
+                    <th>Importerad</th>
+                    <th>Fil</th>
+                    <th>Fordon</th>
+                    <th className="text-end">Nya</th>
+                    <th className="text-end">Dubbletter</th>
+                    <th className="text-end">Avvisade</th>
+                    <th className="text-end">Kvar</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {imports.map(batch => (
+                    <tr key={batch.id} className={batch.undoneAt ? 'text-muted' : ''}>
+                      <td>
+                        <div>{formatDateTime(batch.importedAt)}</div>
+                        <div className="small text-muted">{batch.username}</div>
+                      </td>
+                      <td>
+                        <div>{batch.originalName}</div>
+                        <div className="small text-muted" title={`SHA-256 ${batch.hash}`}>{batch.fileName}</div>
+                      </td>
+                      <td>{vehicles.find(v => v.id === batch.vehicleId)?.regNumber || '–'}</td>
+                      <td className="text-end">{batch.imported}</td>
+                      <td className="text-end">{batch.duplicates}</td>
+                      <td className="text-end">{batch.rejected}</td>
+                      <td className="text-end">{batch.remaining}</td>
+                      <td className="text-end">
+                        {batch.undoneAt ? (
+                          <span className="small">Ångrad {formatDateTime(batch.undoneAt)}</span>
+                        ) : (
+                          <button
+                            className="btn btn-sm btn-apple-secondary"
+                            onClick={() => handleUndo(batch)}
+                            disabled={!batch.undoable || undoingId !== null}
+                            title={batch.undoable ? 'Ta bort resorna som inte har ändrats' : 'Alla resor från importen har ändrats eller tagits bort'}
+                          >
+                            {undoingId === batch.id ? 'Ångrar...' : 'Ångra'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </div>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
@@ -1,30 +1,91 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Modal, Form } from 'react-bootstrap';
+import { Modal, Form, Table } from 'react-bootstrap';
+import { Vehicle, Driver, ImportBatch } from '@/lib/database';
+import { ImportPreviewRow, ImportRowStatus } from '@/lib/csvParser';
 
 interface ImportModalProps {
   show: boolean;
   onHide: () => void;
   onImportComplete: () => void;
+  vehicleId?: number | null;
 }
 
-export default function ImportModal({ show, onHide, onImportComplete }: ImportModalProps) {
+interface ImportPreview {
+  rows: ImportPreviewRow[];
+  new: number;
+  duplicates: number;
+  rejected: number;
+  newCategories: string[];
+  previousImport: ImportBatch | null;
+}
+
+const STATUS_LABELS: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: 'Ny', className: 'text-success' },
+  duplicate: { label: 'Dubblett', className: 'text-muted' },
+  rejected: { label: 'Avvisad', className: 'text-danger' }
+};
+
+export default function ImportModal({ show, onHide, onImportComplete, vehicleId }: ImportModalProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<number | ''>('');
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [importedTripIds, setImportedTripIds] = useState<number[]>([]);
+  const [assignDriverId, setAssignDriverId] = useState<number | ''>('');
+  const [isAssigning, setIsAssigning] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [mapOkategoriseratToPrivat, setMapOkategoriseratToPrivat] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewFilter, setPreviewFilter] = useState<ImportRowStatus | ''>('');
   const [uploadStatus, setUploadStatus] = useState<{
     type: 'success' | 'danger' | 'info' | null;
     message: string;
   }>({ type: null, message: '' });
 
-  // Load the setting when modal opens
+  // Load the setting and the vehicles when modal opens
   useEffect(() => {
     if (show) {
       loadSetting();
+      loadVehicles();
+      loadDrivers();
+      setImportedTripIds([]);
+      setPreview(null);
     }
   }, [show]);
 
+  // Default to the vehicle selected in the menu
+  useEffect(() => {
+    if (show && vehicleId) {
+      setSelectedVehicleId(vehicleId);
+    }
+  }, [show, vehicleId]);
+
+  const loadDrivers = async () => {
+    try {
+      const response = await fetch('/api/drivers');
+      const data = await response.json();
+      const driverList: Driver[] = data.drivers || [];
+      setDrivers(driverList);
+      setAssignDriverId(driverList[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading drivers:', error);
+    }
+  };
+
+  const loadVehicles = async () => {
+    try {
+      const response = await fetch('/api/vehicles');
+      const data = await response.json();
+      const vehicleList: Vehicle[] = data.vehicles || [];
+      setVehicles(vehicleList);
+      setSelectedVehicleId(current => current || vehicleList[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading vehicles:', error);
+    }
+  };
+
   const loadSetting = async () => {
     try {
       const response = await fetch('/api/settings?key=mapOkategoriseratToPrivat');
@@ -54,6 +115,7 @@ export default function ImportModal({ show, onHide, onImportComplete }: ImportMo
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    setPreview(null);
     if (file && file.type === 'text/csv') {
       setSelectedFile(file);
       setUploadStatus({ type: null, message: '' });
@@ -68,26 +130,90 @@ export default function ImportModal({ show, onHide, onImportComplete }: ImportMo
 
   const handleToggleChange = async (checked: boolean) => {
     setMapOkategoriseratToPrivat(checked);
+    // The preview's categories depend on the setting
+    setPreview(null);
     await saveSetting(checked);
   };
 
-  const handleSubmit = async (event: React.FormEvent) => {
-    event.preventDefault();
-    
+  const validateSelection = () => {
     if (!selectedFile) {
       setUploadStatus({ 
         type: 'danger', 
         message: 'Vänligen välj en CSV-fil först.' 
       });
+      return null;
+    }
+
+    if (!selectedVehicleId) {
+      setUploadStatus({ 
+        type: 'danger', 
+        message: 'Vänligen välj vilket fordon resorna tillhör.' 
+      });
+      return null;
+    }
+
+    return { file: selectedFile, vehicleId: selectedVehicleId };
+  };
+
+  // Dry run of the import: shows what each row would become without saving anything
+  const handlePreview = async () => {
+    const selection = validateSelection();
+    if (!selection) return;
+
+    setIsUploading(true);
+    setUploadStatus({ type: 'info', message: 'Läser filen...' });
+
+    try {
+      const formData = new FormData();
+      formData.append('file', selection.file);
+      formData.append('vehicleId', selection.vehicleId.toString());
+      formData.append('dryRun', 'true');
+
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setPreview(result);
+        setPreviewFilter('');
+        setUploadStatus({ type: null, message: '' });
+      } else {
+        setUploadStatus({ 
+          type: 'danger', 
+          message: result.error || 'Kunde inte läsa filen' 
+        });
+      }
+    } catch {
+      setUploadStatus({ 
+        type: 'danger', 
+        message: 'Ett fel uppstod vid läsning av filen.' 
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    
+    if (!preview) {
+      await handlePreview();
       return;
     }
 
+    const selection = validateSelection();
+    if (!selection) return;
+
     setIsUploading(true);
     setUploadStatus({ type: 'info', message: 'Importerar data...' });
 
     try {
       const formData = new FormData();
-      formData.append('file', selectedFile);
+      formData.append('file', selection.file);
+      formData.append('vehicleId', selection.vehicleId.toString());
 
       const response = await fetch('/api/import', {
         method: 'POST',
@@ -102,16 +228,22 @@ export default function ImportModal({ show, onHide, onImportComplete }: ImportMo
           message: result.message 
         });
         setSelectedFile(null);
+        setPreview(null);
         onImportComplete();
         
         // Reset form
         const fileInput = document.getElementById('csvFileModal') as HTMLInputElement;
         if (fileInput) fileInput.value = '';
         
-        // Close modal after successful import
-        setTimeout(() => {
-          onHide();
-        }, 2000);
+        if (drivers.length > 0 && result.importedIds?.length > 0) {
+          // Let the user attribute the new trips to a driver before closing
+          setImportedTripIds(result.importedIds);
+        } else {
+          // Close modal after successful import
+          setTimeout(() => {
+            onHide();
+          }, 2000);
+        }
       } else {
         setUploadStatus({ 
           type: 'danger', 
@@ -128,9 +260,46 @@ export default function ImportModal({ show, onHide, onImportComplete }: ImportMo
     }
   };
 
+  const handleAssignDriver = async () => {
+    if (!assignDriverId) return;
+
+    setIsAssigning(true);
+
+    try {
+      const response = await fetch('/api/trips/assign-driver', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          tripIds: importedTripIds,
+          driverId: assignDriverId
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setUploadStatus({ type: 'success', message: result.message });
+        setImportedTripIds([]);
+        onImportComplete();
+        setTimeout(() => {
+          onHide();
+        }, 1500);
+      } else {
+        setUploadStatus({ type: 'danger', message: result.error || 'Kunde inte tilldela förare' });
+      }
+    } catch {
+      setUploadStatus({ type: 'danger', message: 'Ett fel uppstod vid tilldelning av förare' });
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
   const handleClose = () => {
-    if (!isUploading) {
+    if (!isUploading && !isAssigning) {
       setSelectedFile(null);
+      setPreview(null);
       setUploadStatus({ type: null, message: '' });
       const fileInput = document.getElementById('csvFileModal') as HTMLInputElement;
       if (fileInput) fileInput.value = '';
@@ -139,7 +308,7 @@ export default function ImportModal({ show, onHide, onImportComplete }: ImportMo
   };
 
   return (
-    <Modal show={show} onHide={handleClose} centered className="modal-apple">
+    <Modal show={show} onHide={handleClose} centered size={preview ? 'lg' : undefined} className="modal-apple">
       <Modal.Header closeButton={!isUploading}>
         <Modal.Title>Importera CSV-fil</Modal.Title>
       </Modal.Header>
@@ -160,6 +329,24 @@ export default function ImportModal({ show, onHide, onImportComplete }: ImportMo
             </div>
           </div>
 
+          <div className="mb-3">
+            <label className="form-label fw-medium">Fordon</label>
+            <Form.Select
+              value={selectedVehicleId}
+              onChange={(e) => { setSelectedVehicleId(e.target.value ? Number(e.target.value) : ''); setPreview(null); }}
+              className="form-control-apple"
+              disabled={isUploading}
+            >
+              {vehicles.length === 0 && <option value="">Inga fordon registrerade</option>}
+              {vehicles.map(v => (
+                <option key={v.id} value={v.id}>{v.regNumber} – {v.model}</option>
+              ))}
+            </Form.Select>
+            <div className="form-text text-muted">
+              Alla resor i filen kopplas till det valda fordonet.
+            </div>
+          </div>
+
           <div className="mb-3">
             <div className="form-check">
               <input
@@ -175,16 +362,122 @@ export default function ImportModal({ show, onHide, onImportComplete }: ImportMo
               </label>
             </div>
             <div className="form-text text-muted">
-              När aktiverad kommer alla resor märkta som &quot;Okategoriserat&quot; att ändras till &quot;Privat&quot; vid import.
+              Okategoriserade resor kategoriseras först med reglerna. När aktiverad ändras de som ingen regel passar till &quot;Privat&quot; vid import.
             </div>
           </div>
 
+          {preview && (
+            <div className="mb-3">
+              <div className="d-flex justify-content-between align-items-end gap-2 mb-2">
+                <div className="small">
+                  <span className="text-success fw-medium">{preview.new} nya</span>
+                  {' · '}{preview.duplicates} dubbletter
+                  {' · '}<span className={preview.rejected > 0 ? 'text-danger' : ''}>{preview.rejected} avvisade</span>
+                </div>
+                <Form.Select
+                  size="sm"
+                  value={previewFilter}
+                  onChange={(e) => setPreviewFilter(e.target.value as ImportRowStatus | '')}
+                  style={{ width: 'auto' }}
+                  aria-label="Visa rader"
+                >
+                  <option value="">Alla rader</option>
+                  {Object.entries(STATUS_LABELS).map(([status, { label }]) => (
+                    <option key={status} value={status}>{label}</option>
+                  ))}
+                </Form.Select>
+              </div>
+              {preview.previousImport && (
+                <div className="small text-muted mb-2">
+                  Samma fil importerades {new Date(preview.previousImport.importedAt).toLocaleString('sv-SE')} av {preview.previousImport.username}.
+                </div>
+              )}
+              {preview.newCategories.length > 0 && (
+                <div className="small text-muted mb-2">
+                  Nya kategorier skapas: {preview.newCategories.join(', ')}
+                </div>
+              )}
+              <div className="table-responsive" style={{ maxHeight: '400px', overflowY: 'auto' }}>
+                <Table size="sm" className="mb-0 apple-table small">
+                  <thead>
+                    <tr>
+                      <th>Rad</th>
+                      <th>Status</th>
+                      <th>Datum</th>
+                      <th>Resa</th>
+                      <th>Kategori</th>
+                      <th>Orsak</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows
+                      .filter(row => !previewFilter || row.status === previewFilter)
+                      .map(row => (
+                        <tr key={row.line}>
+                          <td className="text-muted">{row.line}</td>
+                          <td className={`fw-medium ${STATUS_LABELS[row.status].className}`}>{STATUS_LABELS[row.status].label}</td>
+                          <td style={{ whiteSpace: 'nowrap' }}>{row.startDate}</td>
+                          <td>
+                            <div>{row.startPosition} → {row.endDestination}</div>
+                            <div className="text-muted">
+                              {row.odometerStart ?? '–'}–{row.odometerEnd ?? '–'} km
+                              {row.distance !== null && ` · ${row.distance} km`}
+                            </div>
+                          </td>
+                          <td>
+                            <div>{row.category}</div>
+                            {row.originalCategory && (
+                              <div className="text-muted">
+                                från {row.originalCategory} ({row.categorizedBy === 'rule' ? `regel ${row.ruleName || ''}`.trim() : 'automatisk ändring'})
+                              </div>
+                            )}
+                          </td>
+                          <td className={row.status === 'rejected' ? 'text-danger' : 'text-muted'}>{row.reason}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </Table>
+              </div>
+            </div>
+          )}
+
           {uploadStatus.type && (
             <div className={`alert-apple alert-${uploadStatus.type} mb-3`}>
               {uploadStatus.message}
             </div>
           )}
 
+          {importedTripIds.length > 0 && (
+            <div className="mb-3">
+              <label className="form-label fw-medium">
+                Tilldela förare till de {importedTripIds.length} importerade resorna
+              </label>
+              <div className="d-flex gap-2">
+                <Form.Select
+                  value={assignDriverId}
+                  onChange={(e) => setAssignDriverId(e.target.value ? Number(e.target.value) : '')}
+                  className="form-control-apple"
+                  disabled={isAssigning}
+                >
+                  {drivers.map(d => (
+                    <option key={d.id} value={d.id}>{d.name}</option>
+                  ))}
+                </Form.Select>
+                <button
+                  type="button"
+                  className="btn btn-apple-primary"
+                  onClick={handleAssignDriver}
+                  disabled={!assignDriverId || isAssigning}
+                >
+                  {isAssigning ? 'Tilldelar...' : 'Tilldela'}
+                </button>
+              </div>
+              <div className="form-text text-muted">
+                Du kan också stänga och ange förare per resa senare.
+              </div>
+            </div>
+          )}
+
           {isUploading && (
             <div className="progress-apple mb-3">
               <div className="progress-bar" style={{width: '100%'}}></div>
@@ -196,16 +489,18 @@ export default function ImportModal({ show, onHide, onImportComplete }: ImportMo
         <button 
           className="btn btn-apple-secondary me-2"
           onClick={handleClose}
-          disabled={isUploading}
+          disabled={isUploading || isAssigning}
         >
-          Avbryt
+          {importedTripIds.length > 0 ? 'Stäng' : 'Avbryt'}
         </button>
         <button 
           className="btn btn-apple-primary"
           onClick={handleSubmit}
-          disabled={!selectedFile || isUploading}
+          disabled={!selectedFile || !selectedVehicleId || isUploading || importedTripIds.length > 0 || preview?.new === 0}
         >
-          {isUploading ? 'Importerar...' : 'Importera CSV'}
+          {isUploading
+            ? (preview ? 'Importerar...' : 'Läser...')
+            : preview ? `Importera ${preview.new} resor` : 'Förhandsgranska'}
         </button>
       </Modal.Footer>
     </Modal>
@@ -0,0 +1,482 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { Maintenance, MaintenanceInterval, MaintenanceType, Vehicle } from '@/lib/database';
+import { MAINTENANCE_TYPES, MaintenanceDue } from '@/lib/maintenance';
+import { formatDate } from '@/lib/pdfExport';
+
+interface MaintenanceModalProps {
+  show: boolean;
+  onHide: () => void;
+  vehicleId?: number | null;
+  onChanged?: () => void;
+}
+
+// The form keeps numbers as typed
+interface MaintenanceForm {
+  vehicleId: string;
+  date: string;
+  odometer: string;
+  type: MaintenanceType;
+  cost: string;
+  workshop: string;
+  notes: string;
+}
+
+const emptyMaintenance = (vehicleId: number | null | undefined): MaintenanceForm => ({
+  vehicleId: vehicleId ? vehicleId.toString() : '',
+  date: new Date().toISOString().split('T')[0],
+  odometer: '',
+  type: 'service',
+  cost: '',
+  workshop: '',
+  notes: ''
+});
+
+const emptyInterval = { type: 'service' as MaintenanceType, intervalKm: '', intervalMonths: '' };
+
+const formatNumber = (num: number, decimals: number = 1) =>
+  num.toLocaleString('sv-SE', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+export default function MaintenanceModal({ show, onHide, vehicleId, onChanged }: MaintenanceModalProps) {
+  const [records, setRecords] = useState<Maintenance[]>([]);
+  const [intervals, setIntervals] = useState<MaintenanceInterval[]>([]);
+  const [due, setDue] = useState<MaintenanceDue[]>([]);
+  const [intervalForm, setIntervalForm] = useState(emptyInterval);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<MaintenanceForm>(emptyMaintenance(vehicleId));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const loadMaintenance = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        ...(vehicleId && { vehicleId: vehicleId.toString() })
+      });
+      const [maintenanceResponse, intervalsResponse, dueResponse, vehiclesResponse] = await Promise.all([
+        fetch(`/api/maintenance?${params}`),
+        fetch(`/api/maintenance/intervals?${params}`),
+        fetch(`/api/maintenance/due?${params}`),
+        fetch('/api/vehicles')
+      ]);
+      // Newest first, the way the trip list shows trips
+      setRecords(((await maintenanceResponse.json()).maintenance || []).reverse());
+      setIntervals((await intervalsResponse.json()).intervals || []);
+      setDue((await dueResponse.json()).due || []);
+      setVehicles((await vehiclesResponse.json()).vehicles || []);
+    } catch (error) {
+      console.error('Error loading maintenance:', error);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    if (show) {
+      loadMaintenance();
+      setEditingId(null);
+      setForm(emptyMaintenance(vehicleId));
+      setIntervalForm(emptyInterval);
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show, vehicleId, loadMaintenance]);
+
+  const handleEdit = (record: Maintenance) => {
+    setEditingId(record.id!);
+    setForm({
+      vehicleId: record.vehicleId.toString(),
+      date: record.date,
+      odometer: record.odometer.toString(),
+      type: record.type,
+      cost: record.cost?.toString() || '',
+      workshop: record.workshop,
+      notes: record.notes
+    });
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyMaintenance(vehicleId));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(editingId ? `/api/maintenance/${editingId}` : '/api/maintenance', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setEditingId(null);
+        setForm(emptyMaintenance(vehicleId));
+        await loadMaintenance();
+        onChanged?.();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara underhåll' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (record: Maintenance) => {
+    const confirmDelete = window.confirm(`Är du säker på att du vill ta bort ${MAINTENANCE_TYPES[record.type].toLowerCase()} ${formatDate(record.date)}?`);
+    if (!confirmDelete) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/maintenance/${record.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        await loadMaintenance();
+        onChanged?.();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort underhåll' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av underhåll' });
+    }
+  };
+
+  // Intervals belong to the vehicle picked in the form
+  const handleSaveInterval = async () => {
+    setSaveStatus({ type: null, message: '' });
+    try {
+      const response = await fetch('/api/maintenance/intervals', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...intervalForm, vehicleId: form.vehicleId }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setIntervalForm(emptyInterval);
+        await loadMaintenance();
+        onChanged?.();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara serviceintervall' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande av serviceintervall' });
+    }
+  };
+
+  const handleDeleteInterval = async (interval: MaintenanceInterval) => {
+    if (!window.confirm(`Ta bort serviceintervallet för ${MAINTENANCE_TYPES[interval.type].toLowerCase()}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/maintenance/intervals/${interval.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        await loadMaintenance();
+        onChanged?.();
+      } else {
+        const result = await response.json();
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort serviceintervall' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av serviceintervall' });
+    }
+  };
+
+  const formIntervals = intervals.filter(interval => interval.vehicleId.toString() === form.vehicleId);
+  const formVehicle = vehicles.find(v => v.id?.toString() === form.vehicleId);
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Underhåll</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {records.length === 0 ? (
+          <div className="text-center text-muted mb-4">
+            Inget underhåll registrerat ännu.
+          </div>
+        ) : (
+          <div className="table-responsive mb-4" style={{ maxHeight: '320px', overflowY: 'auto' }}>
+            <Table hover className="mb-0 apple-table">
+              <thead>
+                <tr>
+                  <th>Datum</th>
+                  {!vehicleId && <th>Fordon</th>}
+                  <th>Typ</th>
+                  <th className="d-none d-sm-table-cell">Mätarställning</th>
+                  <th>Kostnad</th>
+                  <th className="d-none d-md-table-cell">Verkstad</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {records.map(record => (
+                  <tr key={record.id} onClick={() => handleEdit(record)} style={{ cursor: 'pointer' }}>
+                    <td>{formatDate(record.date)}</td>
+                    {!vehicleId && (
+                      <td className="small">{vehicles.find(v => v.id === record.vehicleId)?.regNumber || '–'}</td>
+                    )}
+                    <td>
+                      {MAINTENANCE_TYPES[record.type]}
+                      {record.notes && <div className="small text-muted">{record.notes}</div>}
+                    </td>
+                    <td className="d-none d-sm-table-cell">{formatNumber(record.odometer, 0)} km</td>
+                    <td>{record.cost !== null ? `${formatNumber(record.cost, 0)} kr` : '–'}</td>
+                    <td className="d-none d-md-table-cell text-muted small">{record.workshop || '–'}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        className="btn btn-sm text-danger p-0"
+                        style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                        title="Ta bort underhåll"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(record);
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera underhåll' : 'Registrera underhåll'}
+        </h6>
+        <Form>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Fordon *</label>
+              <Form.Select
+                value={form.vehicleId}
+                onChange={(e) => setForm({ ...form, vehicleId: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                <option value="">Välj fordon</option>
+                {vehicles.map(v => (
+                  <option key={v.id} value={v.id}>{v.regNumber} – {v.model}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Typ *</label>
+              <Form.Select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as MaintenanceType })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                {Object.entries(MAINTENANCE_TYPES).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </Form.Select>
+            </Col>
+          </Row>
+          <Row>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Datum *</label>
+              <Form.Control
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Mätarställning (km) *</label>
+              <Form.Control
+                type="text"
+                value={form.odometer}
+                onChange={(e) => setForm({ ...form, odometer: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 45210"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Kostnad (kr)</label>
+              <Form.Control
+                type="text"
+                value={form.cost}
+                onChange={(e) => setForm({ ...form, cost: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 3450"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Verkstad</label>
+              <Form.Control
+                type="text"
+                value={form.workshop}
+                onChange={(e) => setForm({ ...form, workshop: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. Bilia Mölndal"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Anteckning</label>
+              <Form.Control
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. Bytt bromsklossar fram"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+
+          {formVehicle && (
+            <>
+              <h6 className="fw-medium mb-3 mt-2" style={{ color: 'var(--apple-gray-6)' }}>
+                Serviceintervall för {formVehicle.regNumber}
+              </h6>
+              {formIntervals.length > 0 && (
+                <Table size="sm" className="apple-table mb-3">
+                  <thead>
+                    <tr>
+                      <th>Typ</th>
+                      <th>Intervall</th>
+                      <th>Nästa</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {formIntervals.map(interval => {
+                      const status = due.find(d => d.vehicleId === interval.vehicleId && d.type === interval.type);
+                      return (
+                        <tr key={interval.id}>
+                          <td>{MAINTENANCE_TYPES[interval.type]}</td>
+                          <td className="small">
+                            {[
+                              interval.intervalKm !== null && `${formatNumber(interval.intervalKm, 0)} km`,
+                              interval.intervalMonths !== null && `${interval.intervalMonths} mån`
+                            ].filter(Boolean).join(' eller ')}
+                          </td>
+                          <td className={`small ${status?.level === 'due' ? 'text-danger' : status?.level === 'soon' ? 'text-warning' : 'text-muted'}`}>
+                            {status?.description || '–'}
+                          </td>
+                          <td style={{ textAlign: 'right' }}>
+                            <button
+                              type="button"
+                              className="btn btn-sm text-danger p-0"
+                              style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                              title="Ta bort serviceintervall"
+                              onClick={() => handleDeleteInterval(interval)}
+                            >
+                              🗑️
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </Table>
+              )}
+              <Row className="align-items-end">
+                <Col md={4} className="mb-3">
+                  <label className="form-label fw-medium">Typ</label>
+                  <Form.Select
+                    value={intervalForm.type}
+                    onChange={(e) => setIntervalForm({ ...intervalForm, type: e.target.value as MaintenanceType })}
+                    className="form-control-apple"
+                  >
+                    {Object.entries(MAINTENANCE_TYPES).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </Form.Select>
+                </Col>
+                <Col xs={6} md={3} className="mb-3">
+                  <label className="form-label fw-medium">Var … km</label>
+                  <Form.Control
+                    type="text"
+                    value={intervalForm.intervalKm}
+                    onChange={(e) => setIntervalForm({ ...intervalForm, intervalKm: e.target.value })}
+                    className="form-control-apple"
+                    placeholder="t.ex. 30000"
+                  />
+                </Col>
+                <Col xs={6} md={2} className="mb-3">
+                  <label className="form-label fw-medium">Månader</label>
+                  <Form.Control
+                    type="text"
+                    value={intervalForm.intervalMonths}
+                    onChange={(e) => setIntervalForm({ ...intervalForm, intervalMonths: e.target.value })}
+                    className="form-control-apple"
+                    placeholder="t.ex. 12"
+                  />
+                </Col>
+                <Col md={3} className="mb-3">
+                  <button type="button" className="btn btn-apple-secondary w-100" onClick={handleSaveInterval}>
+                    Spara intervall
+                  </button>
+                </Col>
+              </Row>
+              <div className="small text-muted mb-3">
+                Nästa tillfälle räknas från senast registrerade underhåll av samma typ och jämförs med bilens senaste mätarställning.
+              </div>
+            </>
+          )}
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        {editingId && (
+          <button
+            className="btn btn-apple-secondary me-2"
+            onClick={handleCancelEdit}
+            disabled={isSaving}
+          >
+            Avbryt redigering
+          </button>
+        )}
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? 'Sparar...' : editingId ? 'Spara underhåll' : 'Registrera underhåll'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Form } from 'react-bootstrap';
+import { Trip, Category } from '@/lib/database';
+import { formatDate } from '@/lib/pdfExport';
+import { formatDuration } from '@/lib/units';
+
+interface MergeTripsModalProps {
+  show: boolean;
+  onHide: () => void;
+  trips: Trip[];
+  onMerge: () => void;
+}
+
+// Trips are shown and sent in driving order, whatever order they were ticked in
+const inDrivingOrder = (trips: Trip[]) => [...trips].sort((a, b) =>
+  a.startDate.localeCompare(b.startDate) || a.odometerStart - b.odometerStart
+);
+
+export default function MergeTripsModal({ show, onHide, trips, onMerge }: MergeTripsModalProps) {
+  const [category, setCategory] = useState('');
+  const [notes, setNotes] = useState('');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const orderedTrips = inDrivingOrder(trips);
+
+  useEffect(() => {
+    if (!show) return;
+
+    const ordered = inDrivingOrder(trips);
+    setCategory(ordered[0]?.category || '');
+    setNotes(ordered.map(trip => trip.notes).filter(Boolean).join('; '));
+    setSaveStatus({ type: null, message: '' });
+
+    const loadCategories = async () => {
+      try {
+        const response = await fetch('/api/categories');
+        const data = await response.json();
+        setCategories(data.categories || []);
+      } catch (error) {
+        console.error('Error loading categories:', error);
+      }
+    };
+
+    loadCategories();
+  }, [show, trips]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch('/api/trips/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          tripIds: orderedTrips.map(trip => trip.id),
+          category,
+          notes
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        onMerge();
+        setTimeout(() => {
+          onHide();
+        }, 1500);
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte slå ihop resorna' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sammanslagning' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  const totalDistance = orderedTrips.reduce((sum, trip) => sum + trip.distance, 0);
+  const totalMinutes = orderedTrips.reduce((sum, trip) => sum + (trip.durationMinutes || 0), 0);
+
+  return (
+    <Modal show={show} onHide={handleClose} centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Slå ihop resor</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <div className="mb-4">
+          <h6 className="fw-medium mb-2" style={{ color: 'var(--apple-gray-6)' }}>
+            {orderedTrips.length} resor blir en
+          </h6>
+          <div className="small">
+            {orderedTrips.map(trip => (
+              <div key={trip.id} className="py-1" style={{ borderBottom: '1px solid var(--apple-gray-2)' }}>
+                {formatDate(trip.startDate)} · {trip.startPosition} → {trip.endDestination}
+                <span className="text-muted"> · {trip.odometerStart}–{trip.odometerEnd} km</span>
+              </div>
+            ))}
+          </div>
+          <div className="small text-muted mt-2">
+            Totalt {totalDistance.toFixed(1)} km, {formatDuration(totalMinutes)}.
+            Resorna sparas och sammanslagningen kan ångras.
+          </div>
+        </div>
+
+        <Form>
+          <div className="mb-3">
+            <label className="form-label fw-medium">Kategori</label>
+            <Form.Select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="form-control-apple"
+              disabled={isSaving}
+            >
+              {categories.map(c => (
+                <option key={c.id} value={c.name}>{c.name}</option>
+              ))}
+            </Form.Select>
+          </div>
+
+          <div className="mb-3">
+            <label className="form-label fw-medium">Anteckningar</label>
+            <Form.Control
+              as="textarea"
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="form-control-apple"
+              placeholder="Lägg till anteckningar..."
+              disabled={isSaving}
+            />
+          </div>
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        <button
+          className="btn btn-apple-secondary me-2"
+          onClick={handleClose}
+          disabled={isSaving}
+        >
+          Avbryt
+        </button>
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving || orderedTrips.length < 2}
+        >
+          {isSaving ? 'Slår ihop...' : 'Slå ihop'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -1,22 +1,141 @@
 'use client';
 
-import { useState } from 'react';
-import { Container, Navbar, Nav } from 'react-bootstrap';
+import { useState, useEffect, useCallback } from 'react';
+import { Container, Navbar, Nav, Form } from 'react-bootstrap';
 import { useRouter, usePathname } from 'next/navigation';
+import { Vehicle, User } from '@/lib/database';
 import ImportModal from '@/components/ImportModal';
 import AddTripModal from '@/components/AddTripModal';
+import VehicleModal from '@/components/VehicleModal';
+import DriverModal from '@/components/DriverModal';
+import UserModal from '@/components/UserModal';
+import CategoryModal from '@/components/CategoryModal';
+import PlaceModal from '@/components/PlaceModal';
+import RuleModal from '@/components/RuleModal';
+import CustomerModal from '@/components/CustomerModal';
+import RefuelModal from '@/components/RefuelModal';
+import ChargingModal from '@/components/ChargingModal';
+import MaintenanceModal from '@/components/MaintenanceModal';
 
 interface NavBarProps {
   onImportComplete?: () => void;
   onTripAdded?: () => void;
+  onVehicleChange?: (vehicleId: number | null) => void;
+  onDriversChanged?: () => void;
+  onCategoriesChanged?: () => void;
+  onPlacesChanged?: () => void;
+  onRulesApplied?: () => void;
+  onCustomersChanged?: () => void;
+  onMaintenanceChanged?: () => void;
 }
 
-export default function NavBar({ onImportComplete, onTripAdded }: NavBarProps) {
+export default function NavBar({ onImportComplete, onTripAdded, onVehicleChange, onDriversChanged, onCategoriesChanged, onPlacesChanged, onRulesApplied, onCustomersChanged, onMaintenanceChanged }: NavBarProps) {
   const [showImportModal, setShowImportModal] = useState(false);
   const [showAddTripModal, setShowAddTripModal] = useState(false);
+  const [showVehicleModal, setShowVehicleModal] = useState(false);
+  const [showDriverModal, setShowDriverModal] = useState(false);
+  const [showUserModal, setShowUserModal] = useState(false);
+  const [showCategoryModal, setShowCategoryModal] = useState(false);
+  const [showPlaceModal, setShowPlaceModal] = useState(false);
+  const [showRuleModal, setShowRuleModal] = useState(false);
+  const [showCustomerModal, setShowCustomerModal] = useState(false);
+  const [showRefuelModal, setShowRefuelModal] = useState(false);
+  const [showChargingModal, setShowChargingModal] = useState(false);
+  const [showMaintenanceModal, setShowMaintenanceModal] = useState(false);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [activeVehicleId, setActiveVehicleId] = useState<number | null>(null);
+  const [vehicleError, setVehicleError] = useState<string | null>(null);
   const router = useRouter();
   const pathname = usePathname();
 
+  // The selected vehicle is stored for each user so it survives page changes
+  // without switching it for anyone else
+  const loadVehicles = useCallback(async () => {
+    try {
+      const [vehiclesResponse, settingResponse] = await Promise.all([
+        fetch('/api/vehicles'),
+        fetch('/api/settings/user?keys=activeVehicleId')
+      ]);
+      const vehiclesData = await vehiclesResponse.json();
+      const savedVehicle = (await settingResponse.json()).settings?.activeVehicleId;
+      const vehicleList: Vehicle[] = vehiclesData.vehicles || [];
+
+      // 'all' means every vehicle; a missing or stale setting defaults to the first vehicle
+      let selectedId: number | null = vehicleList[0]?.id ?? null;
+      if (savedVehicle === 'all') {
+        selectedId = null;
+      } else if (vehicleList.some(v => v.id === Number(savedVehicle))) {
+        selectedId = Number(savedVehicle);
+      }
+
+      setVehicles(vehicleList);
+      setActiveVehicleId(selectedId);
+      onVehicleChange?.(selectedId);
+    } catch (error) {
+      console.error('Error loading vehicles:', error);
+    }
+  }, [onVehicleChange]);
+
+  useEffect(() => {
+    loadVehicles();
+  }, [loadVehicles]);
+
+  useEffect(() => {
+    const loadCurrentUser = async () => {
+      try {
+        const response = await fetch('/api/auth/me');
+        if (response.status === 401) {
+          router.replace('/login');
+          return;
+        }
+        const data = await response.json();
+        setCurrentUser(data.user || null);
+      } catch (error) {
+        console.error('Error loading current user:', error);
+      }
+    };
+
+    loadCurrentUser();
+  }, [router]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
+    router.replace('/login');
+  };
+
+  const isOwner = currentUser?.role === 'owner';
+  const canAddTrips = currentUser?.role === 'owner' || currentUser?.role === 'driver';
+
+  const handleVehicleChange = async (value: string) => {
+    const selectedId = value ? Number(value) : null;
+    setActiveVehicleId(selectedId);
+    onVehicleChange?.(selectedId);
+    setVehicleError(null);
+
+    try {
+      const response = await fetch('/api/settings/user', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          settings: { activeVehicleId: selectedId ? selectedId.toString() : 'all' }
+        }),
+      });
+      if (!response.ok) {
+        setVehicleError('Fordonsvalet kunde inte sparas');
+      }
+    } catch (error) {
+      console.error('Error saving active vehicle:', error);
+      setVehicleError('Fordonsvalet kunde inte sparas');
+    }
+  };
+
   const handleImportComplete = () => {
     if (onImportComplete) {
       onImportComplete();
@@ -53,21 +172,131 @@ export default function NavBar({ onImportComplete, onTripAdded }: NavBarProps) {
               >
                 Statistik
               </Nav.Link>
+              <Nav.Link 
+                href="/gaps" 
+                className={pathname === '/gaps' ? 'active' : ''}
+                onClick={(e) => { e.preventDefault(); router.push('/gaps'); }}
+              >
+                Luckor
+              </Nav.Link>
+              {isOwner && (
+                <Nav.Link 
+                  href="/imports" 
+                  className={pathname === '/imports' ? 'active' : ''}
+                  onClick={(e) => { e.preventDefault(); router.push('/imports'); }}
+                >
+                  Importer
+                </Nav.Link>
+              )}
             </Nav>
             <Nav className="ms-auto">
-              <div className="d-flex gap-2">
-                <button 
-                  className="btn btn-apple-secondary"
-                  onClick={() => setShowAddTripModal(true)}
-                >
-                  Lägg till resa
-                </button>
-                <button 
-                  className="btn btn-apple-primary"
-                  onClick={() => setShowImportModal(true)}
+              <div className="d-flex gap-2 flex-wrap">
+                <Form.Select
+                  size="sm"
+                  value={activeVehicleId ?? ''}
+                  onChange={(e) => handleVehicleChange(e.target.value)}
+                  aria-label="Välj fordon"
+                  style={{ width: 'auto', borderRadius: '8px' }}
                 >
-                  Importera CSV
-                </button>
+                  <option value="">Alla fordon</option>
+                  {vehicles.map(v => (
+                    <option key={v.id} value={v.id}>{v.regNumber} – {v.model}</option>
+                  ))}
+                </Form.Select>
+                {vehicleError && (
+                  <span className="text-danger small align-self-center">{vehicleError}</span>
+                )}
+                {isOwner && (
+                  <>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowVehicleModal(true)}
+                    >
+                      Fordon
+                    </button>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowDriverModal(true)}
+                    >
+                      Förare
+                    </button>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowCategoryModal(true)}
+                    >
+                      Kategorier
+                    </button>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowPlaceModal(true)}
+                    >
+                      Platser
+                    </button>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowRuleModal(true)}
+                    >
+                      Regler
+                    </button>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowCustomerModal(true)}
+                    >
+                      Kunder
+                    </button>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowUserModal(true)}
+                    >
+                      Användare
+                    </button>
+                  </>
+                )}
+                {canAddTrips && (
+                  <>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowRefuelModal(true)}
+                    >
+                      Tankningar
+                    </button>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowChargingModal(true)}
+                    >
+                      Laddningar
+                    </button>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowMaintenanceModal(true)}
+                    >
+                      Underhåll
+                    </button>
+                    <button 
+                      className="btn btn-apple-secondary"
+                      onClick={() => setShowAddTripModal(true)}
+                    >
+                      Lägg till resa
+                    </button>
+                  </>
+                )}
+                {isOwner && (
+                  <button 
+                    className="btn btn-apple-primary"
+                    onClick={() => setShowImportModal(true)}
+                  >
+                    Importera CSV
+                  </button>
+                )}
+                {currentUser && (
+                  <button 
+                    className="btn btn-apple-secondary"
+                    onClick={handleLogout}
+                    title={`Inloggad som ${currentUser.username}`}
+                  >
+                    Logga ut ({currentUser.username})
+                  </button>
+                )}
               </div>
             </Nav>
           </Navbar.Collapse>
@@ -78,12 +307,76 @@ export default function NavBar({ onImportComplete, onTripAdded }: NavBarProps) {
         show={showImportModal}
         onHide={() => setShowImportModal(false)}
         onImportComplete={handleImportComplete}
+        vehicleId={activeVehicleId}
       />
 
       <AddTripModal
         show={showAddTripModal}
         onHide={() => setShowAddTripModal(false)}
         onSave={handleTripAdded}
+        vehicleId={activeVehicleId}
+      />
+
+      <VehicleModal
+        show={showVehicleModal}
+        onHide={() => setShowVehicleModal(false)}
+        onVehiclesChanged={loadVehicles}
+      />
+
+      <DriverModal
+        show={showDriverModal}
+        onHide={() => setShowDriverModal(false)}
+        onDriversChanged={onDriversChanged}
+      />
+
+      <UserModal
+        show={showUserModal}
+        onHide={() => setShowUserModal(false)}
+      />
+
+      <CategoryModal
+        show={showCategoryModal}
+        onHide={() => setShowCategoryModal(false)}
+        onCategoriesChanged={onCategoriesChanged}
+      />
+
+      <PlaceModal
+        show={showPlaceModal}
+        onHide={() => setShowPlaceModal(false)}
+        onPlacesChanged={onPlacesChanged}
+      />
+
+      <RuleModal
+        show={showRuleModal}
+        onHide={() => setShowRuleModal(false)}
+        onRulesApplied={onRulesApplied}
+        vehicleId={activeVehicleId}
+      />
+
+      <CustomerModal
+        show={showCustomerModal}
+        onHide={() => setShowCustomerModal(false)}
+        onCustomersChanged={onCustomersChanged}
+        vehicleId={activeVehicleId}
+      />
+
+      <RefuelModal
+        show={showRefuelModal}
+        onHide={() => setShowRefuelModal(false)}
+        vehicleId={activeVehicleId}
+      />
+
+      <ChargingModal
+        show={showChargingModal}
+        onHide={() => setShowChargingModal(false)}
+        vehicleId={activeVehicleId}
+      />
+
+      <MaintenanceModal
+        show={showMaintenanceModal}
+        onHide={() => setShowMaintenanceModal(false)}
+        vehicleId={activeVehicleId}
+        onChanged={onMaintenanceChanged}
       />
     </>
   );
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { Container, Card, Row, Col, Table, Form, Spinner } from 'react-bootstrap';
+import { Vehicle, User } from '@/lib/database';
+import { OdometerIssue, OdometerIssueTrip, OdometerIssueType, ODOMETER_ISSUE_TYPES } from '@/lib/gaps';
+import GapFillModal from './GapFillModal';
+
+interface OdometerGapsProps {
+  vehicleId: number | null;
+}
+
+const inputStyle = {
+  border: '1px solid var(--apple-gray-3)',
+  borderRadius: '8px',
+  padding: '10px 12px',
+  fontSize: '0.9rem'
+};
+
+const typeClass: Record<OdometerIssueType, string> = {
+  gap: 'text-warning',
+  overlap: 'text-danger',
+  regression: 'text-danger'
+};
+
+const formatKm = (km: number) => `${km.toLocaleString('sv-SE')} km`;
+
+function TripCell({ trip, side }: { trip: OdometerIssueTrip; side: 'previous' | 'next' }) {
+  return (
+    <>
+      <div>{side === 'previous' ? trip.endDestination : trip.startPosition}</div>
+      <div className="small text-muted">
+        {trip.startDate} · {formatKm(trip.odometerStart)} → {formatKm(trip.odometerEnd)}
+      </div>
+    </>
+  );
+}
+
+// Every gap, overlap and odometer regression in the journal, for all trips
+// rather than the page the trip list happens to show
+export default function OdometerGaps({ vehicleId }: OdometerGapsProps) {
+  const [issues, setIssues] = useState<OdometerIssue[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [typeFilter, setTypeFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [showFillModal, setShowFillModal] = useState(false);
+
+  const fetchIssues = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        ...(vehicleId && { vehicleId: vehicleId.toString() })
+      });
+      const [issuesResponse, vehiclesResponse] = await Promise.all([
+        fetch(`/api/trips/gaps?${params}`),
+        fetch('/api/vehicles')
+      ]);
+      const data = await issuesResponse.json();
+      if (!issuesResponse.ok) {
+        setError(data.error || 'Kunde inte analysera mätarställningar');
+        setIssues([]);
+      } else {
+        setIssues(data.issues || []);
+      }
+      setVehicles((await vehiclesResponse.json()).vehicles || []);
+    } catch (error) {
+      console.error('Error fetching odometer issues:', error);
+      setError('Kunde inte analysera mätarställningar');
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    fetchIssues();
+  }, [fetchIssues]);
+
+  useEffect(() => {
+    const loadCurrentUser = async () => {
+      try {
+        const response = await fetch('/api/auth/me');
+        if (response.ok) {
+          setCurrentUser((await response.json()).user);
+        }
+      } catch (error) {
+        console.error('Error loading current user:', error);
+      }
+    };
+
+    loadCurrentUser();
+  }, []);
+
+  const gaps = useMemo(() => issues.filter(issue => issue.type === 'gap'), [issues]);
+  const canAddTrips = currentUser?.role === 'owner' || currentUser?.role === 'driver';
+
+  const shown = typeFilter ? issues.filter(issue => issue.type === typeFilter) : issues;
+  const totals = (Object.keys(ODOMETER_ISSUE_TYPES) as OdometerIssueType[]).map(type => {
+    const ofType = issues.filter(issue => issue.type === type);
+    return { type, count: ofType.length, km: ofType.reduce((sum, issue) => sum + issue.km, 0) };
+  });
+
+  return (
+    <Container className="pb-4">
+      <Card className="apple-card">
+        <div className="apple-card-header">
+          <h5 className="mb-0 fw-semibold">Luckor i mätarställningen</h5>
+        </div>
+        <Card.Body>
+          <p className="text-muted small">
+            Alla resor för {vehicleId ? 'fordonet' : 'varje fordon'} jämförs i mätarordning, oavsett filter i reselistan.
+            En lucka är körda km utan resa, ett överlapp är km som finns i två resor och att mätaren backar betyder
+            att en resa längre fram på mätaren har ett tidigare datum.
+          </p>
+
+          <Row className="g-3 mb-3 text-center">
+            {totals.map(total => (
+              <Col xs={4} key={total.type}>
+                <h3 className={`mb-1 ${total.count > 0 ? typeClass[total.type] : 'text-success'}`}>{total.count}</h3>
+                <p className="text-muted mb-0 small">
+                  {ODOMETER_ISSUE_TYPES[total.type]}{total.count > 0 && ` · ${formatKm(Math.round(total.km))}`}
+                </p>
+              </Col>
+            ))}
+          </Row>
+
+          <Row className="align-items-end">
+            <Col xs={12} md={4} className="mb-3">
+              <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>Visa</Form.Label>
+              <Form.Select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} style={inputStyle}>
+                <option value="">Alla avvikelser</option>
+                {Object.entries(ODOMETER_ISSUE_TYPES).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            {canAddTrips && gaps.length > 0 && (
+              <Col xs={12} md={4} className="mb-3">
+                <button className="btn btn-apple-primary" onClick={() => setShowFillModal(true)}>
+                  Fyll {gaps.length} luckor
+                </button>
+              </Col>
+            )}
+          </Row>
+
+          {error && <div className="alert-apple alert-danger mb-3">{error}</div>}
+
+          {loading ? (
+            <div className="text-center py-4">
+              <Spinner animation="border" />
+            </div>
+          ) : shown.length === 0 ? (
+            !error && <div className="alert-apple alert-success mb-0">Inga avvikelser hittades, mätarställningarna hänger ihop.</div>
+          ) : (
+            <div className="table-responsive">
+              <Table className="mb-0 apple-table">
+                <thead>
+                  <tr>
+                    <th>Typ</th>
+                    {!vehicleId && <th>Fordon</th>}
+                    <th>Storlek</th>
+                    <th>Tidsfönster</th>
+                    <th>Föregående resa slutar</th>
+                    <th>Nästa resa börjar</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map(issue => (
+                    <tr key={`${issue.type}-${issue.previous.id}-${issue.next.id}`}>
+                      <td className={`fw-medium ${typeClass[issue.type]}`}>{ODOMETER_ISSUE_TYPES[issue.type]}</td>
+                      {!vehicleId && (
+                        <td>{issue.vehicleId ? vehicles.find(v => v.id === issue.vehicleId)?.regNumber || '–' : 'Okänt fordon'}</td>
+                      )}
+                      <td>{formatKm(issue.km)}</td>
+                      <td>
+                        <div>{issue.from}</div>
+                        <div>{issue.to}</div>
+                      </td>
+                      <td><TripCell trip={issue.previous} side="previous" /></td>
+                      <td><TripCell trip={issue.next} side="next" /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </div>
+          )}
+        </Card.Body>
+      </Card>
+
+      <GapFillModal
+        show={showFillModal}
+        onHide={() => setShowFillModal(false)}
+        gaps={gaps}
+        vehicles={vehicles}
+        onSave={fetchIssues}
+      />
+    </Container>
+  );
+}
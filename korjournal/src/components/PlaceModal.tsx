@@ -0,0 +1,295 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { Place } from '@/lib/database';
+
+interface PlaceModalProps {
+  show: boolean;
+  onHide: () => void;
+  onPlacesChanged?: () => void;
+}
+
+// The form keeps patterns as one per line and numbers as typed
+interface PlaceForm {
+  name: string;
+  patterns: string;
+  latitude: string;
+  longitude: string;
+  radiusMeters: string;
+}
+
+const emptyPlace: PlaceForm = {
+  name: '',
+  patterns: '',
+  latitude: '',
+  longitude: '',
+  radiusMeters: ''
+};
+
+export default function PlaceModal({ show, onHide, onPlacesChanged }: PlaceModalProps) {
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<PlaceForm>(emptyPlace);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const loadPlaces = async () => {
+    try {
+      const response = await fetch('/api/places');
+      const data = await response.json();
+      setPlaces(data.places || []);
+    } catch (error) {
+      console.error('Error loading places:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (show) {
+      loadPlaces();
+      setEditingId(null);
+      setForm(emptyPlace);
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show]);
+
+  const handleEdit = (place: Place) => {
+    setEditingId(place.id!);
+    setForm({
+      name: place.name,
+      patterns: place.patterns.join('\n'),
+      latitude: place.latitude?.toString() || '',
+      longitude: place.longitude?.toString() || '',
+      radiusMeters: place.radiusMeters?.toString() || ''
+    });
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyPlace);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setSaveStatus({ type: 'danger', message: 'Namn måste anges' });
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(editingId ? `/api/places/${editingId}` : '/api/places', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          patterns: form.patterns.split('\n'),
+          latitude: form.latitude.replace(',', '.'),
+          longitude: form.longitude.replace(',', '.'),
+          radiusMeters: form.radiusMeters
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setEditingId(null);
+        setForm(emptyPlace);
+        await loadPlaces();
+        onPlacesChanged?.();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara plats' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (place: Place) => {
+    const confirmDelete = window.confirm(`Är du säker på att du vill ta bort ${place.name}? Resorna behåller sina adresser.`);
+
+    if (!confirmDelete) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/places/${place.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        await loadPlaces();
+        onPlacesChanged?.();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort plats' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av plats' });
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Platser</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {places.length === 0 ? (
+          <div className="text-center text-muted mb-4">
+            Inga platser sparade ännu. Resornas adresser visas som de är tills de matchar en plats.
+          </div>
+        ) : (
+          <div className="table-responsive mb-4">
+            <Table hover className="mb-0 apple-table">
+              <thead>
+                <tr>
+                  <th>Namn</th>
+                  <th className="d-none d-sm-table-cell">Adresser</th>
+                  <th className="d-none d-sm-table-cell">Radie</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {places.map(place => (
+                  <tr key={place.id} onClick={() => handleEdit(place)} style={{ cursor: 'pointer' }}>
+                    <td className="fw-medium">{place.name}</td>
+                    <td className="d-none d-sm-table-cell text-muted small">{place.patterns.join(' · ') || '–'}</td>
+                    <td className="d-none d-sm-table-cell text-muted small">
+                      {place.radiusMeters ? `${place.radiusMeters} m` : '–'}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        className="btn btn-sm text-danger p-0"
+                        style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                        title="Ta bort plats"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(place);
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera plats' : 'Lägg till plats'}
+        </h6>
+        <Form>
+          <div className="mb-3">
+            <label className="form-label fw-medium">Namn *</label>
+            <Form.Control
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="form-control-apple"
+              placeholder="t.ex. Hemma, Kontoret, Kund AB"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="mb-3">
+            <label className="form-label fw-medium">Adresser</label>
+            <Form.Control
+              as="textarea"
+              rows={3}
+              value={form.patterns}
+              onChange={(e) => setForm({ ...form, patterns: e.target.value })}
+              className="form-control-apple"
+              placeholder={'En per rad, t.ex.\nStorgatan 1, Göteborg\nStorg. 1'}
+              disabled={isSaving}
+            />
+            <Form.Text className="text-muted">
+              En resa hör till platsen om adressen innehåller någon av raderna som hela ord, så Storgatan 1
+              passar inte Storgatan 15. Stora och små bokstäver, skiljetecken och förkortningar som g. och v.
+              spelar ingen roll.
+            </Form.Text>
+          </div>
+          <Row>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Latitud</label>
+              <Form.Control
+                type="text"
+                value={form.latitude}
+                onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 57.7089"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Longitud</label>
+              <Form.Control
+                type="text"
+                value={form.longitude}
+                onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 11.9746"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Radie (m)</label>
+              <Form.Control
+                type="number"
+                value={form.radiusMeters}
+                onChange={(e) => setForm({ ...form, radiusMeters: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 200"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <div className="small text-muted mb-3">
+            Koordinater och radie används för resor där bilen bara har sparat en position utan adress.
+          </div>
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        {editingId && (
+          <button
+            className="btn btn-apple-secondary me-2"
+            onClick={handleCancelEdit}
+            disabled={isSaving}
+          >
+            Avbryt redigering
+          </button>
+        )}
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? 'Sparar...' : editingId ? 'Spara plats' : 'Lägg till plats'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
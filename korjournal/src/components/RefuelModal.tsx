@@ -0,0 +1,334 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { Refuel, Vehicle } from '@/lib/database';
+import { formatDate } from '@/lib/pdfExport';
+
+interface RefuelModalProps {
+  show: boolean;
+  onHide: () => void;
+  vehicleId?: number | null;
+}
+
+// The form keeps numbers as typed
+interface RefuelForm {
+  vehicleId: string;
+  date: string;
+  odometer: string;
+  liters: string;
+  totalPrice: string;
+  station: string;
+  fullTank: boolean;
+}
+
+const emptyRefuel = (vehicleId: number | null | undefined): RefuelForm => ({
+  vehicleId: vehicleId ? vehicleId.toString() : '',
+  date: new Date().toISOString().split('T')[0],
+  odometer: '',
+  liters: '',
+  totalPrice: '',
+  station: '',
+  fullTank: true
+});
+
+const formatNumber = (num: number, decimals: number = 1) =>
+  num.toLocaleString('sv-SE', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+export default function RefuelModal({ show, onHide, vehicleId }: RefuelModalProps) {
+  const [refuels, setRefuels] = useState<Refuel[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<RefuelForm>(emptyRefuel(vehicleId));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const loadRefuels = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        ...(vehicleId && { vehicleId: vehicleId.toString() })
+      });
+      const [refuelsResponse, vehiclesResponse] = await Promise.all([
+        fetch(`/api/refuels?${params}`),
+        fetch('/api/vehicles')
+      ]);
+      const refuelsData = await refuelsResponse.json();
+      const vehiclesData = await vehiclesResponse.json();
+      // Newest first, the way the trip list shows trips
+      setRefuels((refuelsData.refuels || []).reverse());
+      setVehicles(vehiclesData.vehicles || []);
+    } catch (error) {
+      console.error('Error loading refuels:', error);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    if (show) {
+      loadRefuels();
+      setEditingId(null);
+      setForm(emptyRefuel(vehicleId));
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show, vehicleId, loadRefuels]);
+
+  const handleEdit = (refuel: Refuel) => {
+    setEditingId(refuel.id!);
+    setForm({
+      vehicleId: refuel.vehicleId.toString(),
+      date: refuel.date,
+      odometer: refuel.odometer.toString(),
+      liters: refuel.liters.toString(),
+      totalPrice: refuel.totalPrice.toString(),
+      station: refuel.station,
+      fullTank: refuel.fullTank
+    });
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyRefuel(vehicleId));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(editingId ? `/api/refuels/${editingId}` : '/api/refuels', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setEditingId(null);
+        setForm(emptyRefuel(vehicleId));
+        await loadRefuels();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara tankning' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (refuel: Refuel) => {
+    const confirmDelete = window.confirm(`Är du säker på att du vill ta bort tankningen ${formatDate(refuel.date)}?`);
+    if (!confirmDelete) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/refuels/${refuel.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        await loadRefuels();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort tankning' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av tankning' });
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Tankningar</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {refuels.length === 0 ? (
+          <div className="text-center text-muted mb-4">
+            Inga tankningar loggade ännu. Bränslekostnaden räknas då med priserna i statistikens prishistorik.
+          </div>
+        ) : (
+          <div className="table-responsive mb-4" style={{ maxHeight: '320px', overflowY: 'auto' }}>
+            <Table hover className="mb-0 apple-table">
+              <thead>
+                <tr>
+                  <th>Datum</th>
+                  {!vehicleId && <th>Fordon</th>}
+                  <th className="d-none d-sm-table-cell">Mätarställning</th>
+                  <th>Liter</th>
+                  <th>Pris</th>
+                  <th className="d-none d-md-table-cell">Station</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {refuels.map(refuel => (
+                  <tr key={refuel.id} onClick={() => handleEdit(refuel)} style={{ cursor: 'pointer' }}>
+                    <td>
+                      {formatDate(refuel.date)}
+                      {!refuel.fullTank && <div className="small text-muted">Ej full tank</div>}
+                    </td>
+                    {!vehicleId && (
+                      <td className="small">{vehicles.find(v => v.id === refuel.vehicleId)?.regNumber || '–'}</td>
+                    )}
+                    <td className="d-none d-sm-table-cell">{formatNumber(refuel.odometer, 0)} km</td>
+                    <td>{formatNumber(refuel.liters, 2)} l</td>
+                    <td>
+                      {formatNumber(refuel.totalPrice, 2)} kr
+                      <div className="small text-muted">{formatNumber(refuel.totalPrice / refuel.liters, 2)} kr/l</div>
+                    </td>
+                    <td className="d-none d-md-table-cell text-muted small">{refuel.station || '–'}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        className="btn btn-sm text-danger p-0"
+                        style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                        title="Ta bort tankning"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(refuel);
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera tankning' : 'Logga tankning'}
+        </h6>
+        <Form>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Fordon *</label>
+              <Form.Select
+                value={form.vehicleId}
+                onChange={(e) => setForm({ ...form, vehicleId: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                <option value="">Välj fordon</option>
+                {vehicles.map(v => (
+                  <option key={v.id} value={v.id}>{v.regNumber} – {v.model}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Datum *</label>
+              <Form.Control
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <Row>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Mätarställning (km) *</label>
+              <Form.Control
+                type="text"
+                value={form.odometer}
+                onChange={(e) => setForm({ ...form, odometer: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 45210"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Liter *</label>
+              <Form.Control
+                type="text"
+                value={form.liters}
+                onChange={(e) => setForm({ ...form, liters: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 42,3"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Totalpris (kr) *</label>
+              <Form.Control
+                type="text"
+                value={form.totalPrice}
+                onChange={(e) => setForm({ ...form, totalPrice: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. 768,50"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <Row className="align-items-end">
+            <Col md={8} className="mb-3">
+              <label className="form-label fw-medium">Station</label>
+              <Form.Control
+                type="text"
+                value={form.station}
+                onChange={(e) => setForm({ ...form, station: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. Circle K Mölndal"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <Form.Check
+                type="checkbox"
+                id="refuel-full-tank"
+                label="Full tank"
+                checked={form.fullTank}
+                onChange={(e) => setForm({ ...form, fullTank: e.target.checked })}
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <div className="small text-muted mb-3">
+            Förbrukningen mäts mellan två fulla tankningar. Ange bara delvis tankning när tanken inte fylldes helt.
+          </div>
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        {editingId && (
+          <button
+            className="btn btn-apple-secondary me-2"
+            onClick={handleCancelEdit}
+            disabled={isSaving}
+          >
+            Avbryt redigering
+          </button>
+        )}
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? 'Sparar...' : editingId ? 'Spara tankning' : 'Logga tankning'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
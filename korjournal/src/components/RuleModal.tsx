@@ -0,0 +1,586 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { CategorizationRule, Category, Customer, Project } from '@/lib/database';
+import { describeRule, WEEKDAY_NAMES } from '@/lib/rules';
+import { formatDate } from '@/lib/pdfExport';
+import CategoryBadge from './CategoryBadge';
+import CustomerProjectSelect from './CustomerProjectSelect';
+
+interface RuleModalProps {
+  show: boolean;
+  onHide: () => void;
+  onRulesApplied?: () => void;
+  vehicleId?: number | null;
+}
+
+// Numbers are kept as typed until the rule is saved
+type RuleForm = Omit<CategorizationRule, 'id' | 'priority' | 'minDistance' | 'maxDistance'> & {
+  priority: string;
+  minDistance: string;
+  maxDistance: string;
+};
+
+interface RuleChange {
+  tripId: number;
+  startDate: string;
+  startPosition: string;
+  endDestination: string;
+  oldCategory: string;
+  category: string;
+  notes: string;
+  ruleName: string;
+}
+
+const emptyRule: RuleForm = {
+  name: '',
+  priority: '100',
+  enabled: true,
+  startPattern: '',
+  endPattern: '',
+  weekdays: [],
+  timeFrom: '',
+  timeTo: '',
+  minDistance: '',
+  maxDistance: '',
+  holidays: 'any',
+  category: '',
+  purpose: '',
+  customerId: null,
+  projectId: null
+};
+
+export default function RuleModal({ show, onHide, onRulesApplied, vehicleId }: RuleModalProps) {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyRule);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  // Running the rules on trips that are already logged
+  const [runDateFrom, setRunDateFrom] = useState(() => `${new Date().getFullYear()}-01-01`);
+  const [runDateTo, setRunDateTo] = useState(() => new Date().toISOString().split('T')[0]);
+  const [onlyUncategorized, setOnlyUncategorized] = useState(true);
+  const [preview, setPreview] = useState<RuleChange[] | null>(null);
+
+  const loadRules = async () => {
+    try {
+      const [rulesResponse, categoriesResponse, customersResponse, projectsResponse] = await Promise.all([
+        fetch('/api/rules'),
+        fetch('/api/categories'),
+        fetch('/api/customers'),
+        fetch('/api/projects')
+      ]);
+      const rulesData = await rulesResponse.json();
+      const categoriesData = await categoriesResponse.json();
+      const customersData = await customersResponse.json();
+      const projectsData = await projectsResponse.json();
+      setRules(rulesData.rules || []);
+      setCategories(categoriesData.categories || []);
+      setCustomers(customersData.customers || []);
+      setProjects(projectsData.projects || []);
+    } catch (error) {
+      console.error('Error loading rules:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (show) {
+      loadRules();
+      setEditingId(null);
+      setForm(emptyRule);
+      setPreview(null);
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show]);
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setEditingId(rule.id!);
+    setForm({
+      ...rule,
+      priority: rule.priority.toString(),
+      minDistance: rule.minDistance?.toString() || '',
+      maxDistance: rule.maxDistance?.toString() || ''
+    });
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyRule);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setForm({
+      ...form,
+      weekdays: form.weekdays.includes(day) ? form.weekdays.filter(d => d !== day) : [...form.weekdays, day]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.category) {
+      setSaveStatus({ type: 'danger', message: 'Namn och kategori måste anges' });
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(editingId ? `/api/rules/${editingId}` : '/api/rules', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...form,
+          minDistance: form.minDistance.replace(',', '.'),
+          maxDistance: form.maxDistance.replace(',', '.')
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setEditingId(null);
+        setForm(emptyRule);
+        setPreview(null);
+        await loadRules();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara regel' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    const confirmDelete = window.confirm(`Är du säker på att du vill ta bort regeln ${rule.name}? Resorna behåller sina kategorier.`);
+
+    if (!confirmDelete) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/rules/${rule.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setPreview(null);
+        await loadRules();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort regel' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av regel' });
+    }
+  };
+
+  const runRules = async (dryRun: boolean) => {
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch('/api/rules/apply', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          dryRun,
+          dateFrom: runDateFrom,
+          dateTo: runDateTo,
+          onlyUncategorized,
+          vehicleId
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte köra reglerna' });
+      } else if (dryRun) {
+        setPreview(result.changes || []);
+      } else {
+        setSaveStatus({ type: 'success', message: result.message });
+        setPreview(null);
+        onRulesApplied?.();
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod när reglerna kördes' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Regler för kategorisering</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <div className="small text-muted mb-3">
+          Reglerna provas i prioritetsordning och den första som passar bestämmer kategorin.
+          Vid import körs de på resor som är okategoriserade i bilen. Körningen nedan gäller
+          det fordon som är valt.
+        </div>
+
+        {rules.length > 0 && (
+          <div className="table-responsive mb-4">
+            <Table hover className="mb-0 apple-table">
+              <thead>
+                <tr>
+                  <th>Prio</th>
+                  <th>Regel</th>
+                  <th className="d-none d-sm-table-cell">Villkor</th>
+                  <th>Kategori</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map(rule => (
+                  <tr
+                    key={rule.id}
+                    onClick={() => handleEdit(rule)}
+                    style={{ cursor: 'pointer', opacity: rule.enabled ? 1 : 0.5 }}
+                  >
+                    <td className="small">{rule.priority}</td>
+                    <td className="fw-medium">{rule.name}</td>
+                    <td className="d-none d-sm-table-cell text-muted small">{describeRule(rule)}</td>
+                    <td>
+                      <CategoryBadge name={rule.category} categories={categories} />
+                      {rule.customerId && (
+                        <div className="small text-muted">
+                          {customers.find(c => c.id === rule.customerId)?.name}
+                          {rule.projectId && ` · ${projects.find(p => p.id === rule.projectId)?.name}`}
+                        </div>
+                      )}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        className="btn btn-sm text-danger p-0"
+                        style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                        title="Ta bort regel"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(rule);
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera regel' : 'Lägg till regel'}
+        </h6>
+        <Form>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Namn *</label>
+              <Form.Control
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="form-control-apple"
+                placeholder="t.ex. Pendling till kontoret"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">Prioritet</label>
+              <Form.Control
+                type="number"
+                value={form.priority}
+                onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={3} className="mb-3 d-flex align-items-end">
+              <Form.Check
+                type="checkbox"
+                id="rule-enabled"
+                label="Aktiv"
+                checked={form.enabled}
+                onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                className="mb-2"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Startadress innehåller</label>
+              <Form.Control
+                type="text"
+                value={form.startPattern}
+                onChange={(e) => setForm({ ...form, startPattern: e.target.value })}
+                className="form-control-apple"
+                placeholder="Valfritt"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Slutadress innehåller</label>
+              <Form.Control
+                type="text"
+                value={form.endPattern}
+                onChange={(e) => setForm({ ...form, endPattern: e.target.value })}
+                className="form-control-apple"
+                placeholder="Valfritt"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+
+          <div className="mb-3">
+            <label className="form-label fw-medium d-block">Veckodagar</label>
+            {WEEKDAY_NAMES.map((name, index) => (
+              <Form.Check
+                key={name}
+                inline
+                type="checkbox"
+                id={`rule-weekday-${index + 1}`}
+                label={name}
+                checked={form.weekdays.includes(index + 1)}
+                onChange={() => toggleWeekday(index + 1)}
+                disabled={isSaving}
+              />
+            ))}
+            <Form.Text className="text-muted d-block">Inga valda dagar betyder alla dagar.</Form.Text>
+          </div>
+
+          <Row>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">Starttid från</label>
+              <Form.Control
+                type="time"
+                value={form.timeFrom}
+                onChange={(e) => setForm({ ...form, timeFrom: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">Starttid till</label>
+              <Form.Control
+                type="time"
+                value={form.timeTo}
+                onChange={(e) => setForm({ ...form, timeTo: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">Minst km</label>
+              <Form.Control
+                type="text"
+                value={form.minDistance}
+                onChange={(e) => setForm({ ...form, minDistance: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={3} className="mb-3">
+              <label className="form-label fw-medium">Högst km</label>
+              <Form.Control
+                type="text"
+                value={form.maxDistance}
+                onChange={(e) => setForm({ ...form, maxDistance: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+
+          <Row>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Helgdagar</label>
+              <Form.Select
+                value={form.holidays}
+                onChange={(e) => setForm({ ...form, holidays: e.target.value as RuleForm['holidays'] })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                <option value="any">Alla dagar</option>
+                <option value="only">Bara helgdagar</option>
+                <option value="exclude">Inte helgdagar</option>
+              </Form.Select>
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Kategori *</label>
+              <Form.Select
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                <option value="">Välj kategori</option>
+                {categories.map(c => (
+                  <option key={c.id} value={c.name}>{c.name}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Ändamål</label>
+              <Form.Control
+                type="text"
+                value={form.purpose}
+                onChange={(e) => setForm({ ...form, purpose: e.target.value })}
+                className="form-control-apple"
+                placeholder="Om resan saknar ändamål"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+
+          <CustomerProjectSelect
+            customers={customers}
+            projects={projects}
+            customerId={form.customerId}
+            projectId={form.projectId}
+            onChange={(customerId, projectId) => setForm({ ...form, customerId, projectId })}
+            disabled={isSaving}
+          />
+
+          <div className="d-flex justify-content-end mb-4">
+            {editingId && (
+              <button
+                type="button"
+                className="btn btn-apple-secondary me-2"
+                onClick={handleCancelEdit}
+                disabled={isSaving}
+              >
+                Avbryt redigering
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn btn-apple-primary"
+              onClick={handleSave}
+              disabled={isSaving}
+            >
+              {editingId ? 'Spara regel' : 'Lägg till regel'}
+            </button>
+          </div>
+
+          <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>Kör reglerna på loggade resor</h6>
+          <Row>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Från datum</label>
+              <Form.Control
+                type="date"
+                value={runDateFrom}
+                onChange={(e) => { setRunDateFrom(e.target.value); setPreview(null); }}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3">
+              <label className="form-label fw-medium">Till datum</label>
+              <Form.Control
+                type="date"
+                value={runDateTo}
+                onChange={(e) => { setRunDateTo(e.target.value); setPreview(null); }}
+                className="form-control-apple"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={4} className="mb-3 d-flex align-items-end">
+              <Form.Check
+                type="checkbox"
+                id="rule-only-uncategorized"
+                label="Bara okategoriserade"
+                checked={onlyUncategorized}
+                onChange={(e) => { setOnlyUncategorized(e.target.checked); setPreview(null); }}
+                className="mb-2"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+
+          {preview && (
+            preview.length === 0 ? (
+              <div className="small text-muted mb-3">Reglerna ändrar inga resor i perioden.</div>
+            ) : (
+              <div className="table-responsive mb-3" style={{ maxHeight: '300px', overflowY: 'auto' }}>
+                <Table size="sm" className="mb-0 apple-table small">
+                  <thead>
+                    <tr>
+                      <th>Datum</th>
+                      <th className="d-none d-sm-table-cell">Resa</th>
+                      <th>Kategori</th>
+                      <th>Regel</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map(change => (
+                      <tr key={change.tripId}>
+                        <td>{formatDate(change.startDate)}</td>
+                        <td className="d-none d-sm-table-cell text-muted">
+                          {change.startPosition} → {change.endDestination}
+                        </td>
+                        <td>
+                          {change.oldCategory === change.category ? change.category : `${change.oldCategory} → ${change.category}`}
+                          {change.notes && <div className="text-muted">{change.notes}</div>}
+                        </td>
+                        <td>{change.ruleName}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              </div>
+            )
+          )}
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        <button
+          className="btn btn-apple-secondary me-2"
+          onClick={() => runRules(true)}
+          disabled={isSaving || rules.length === 0}
+        >
+          Förhandsgranska
+        </button>
+        <button
+          className="btn btn-apple-primary"
+          onClick={() => runRules(false)}
+          disabled={isSaving || !preview || preview.length === 0}
+        >
+          {isSaving ? 'Arbetar...' : preview ? `Tillämpa ${preview.length} ändringar` : 'Tillämpa'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
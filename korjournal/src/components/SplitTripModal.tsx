@@ -0,0 +1,307 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Form, Row, Col } from 'react-bootstrap';
+import { Trip, Category } from '@/lib/database';
+
+interface SplitTripModalProps {
+  show: boolean;
+  onHide: () => void;
+  trip: Trip | null;
+  onSplit: () => void;
+}
+
+interface SegmentInput {
+  category: string;
+  notes: string;
+  odometerEnd: string;
+  endDate: string;
+  endDestination: string;
+  distance: string;
+}
+
+// Trip dates are stored as "YYYY-MM-DD HH:MM", datetime inputs use a "T" separator
+const toInputDate = (date: string) => date.replace(' ', 'T').slice(0, 16);
+const fromInputDate = (date: string) => date.replace('T', ' ');
+
+const newSegment = (from: Trip): SegmentInput => ({
+  category: from.category,
+  notes: from.notes || '',
+  odometerEnd: '',
+  endDate: toInputDate(from.startDate),
+  endDestination: '',
+  distance: ''
+});
+
+export default function SplitTripModal({ show, onHide, trip, onSplit }: SplitTripModalProps) {
+  const [segments, setSegments] = useState<SegmentInput[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  useEffect(() => {
+    if (trip && show) {
+      setSegments([newSegment(trip), newSegment(trip)]);
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [trip, show]);
+
+  useEffect(() => {
+    if (!show) return;
+
+    const loadCategories = async () => {
+      try {
+        const response = await fetch('/api/categories');
+        const data = await response.json();
+        setCategories(data.categories || []);
+      } catch (error) {
+        console.error('Error loading categories:', error);
+      }
+    };
+
+    loadCategories();
+  }, [show]);
+
+  if (!trip) return null;
+
+  // The last part takes whatever distance the other parts leave over
+  const otherDistance = segments.slice(0, -1).reduce((sum, s) => sum + (parseFloat(s.distance.replace(',', '.')) || 0), 0);
+  const lastDistance = Math.round((trip.distance - otherDistance) * 10) / 10;
+
+  const updateSegment = (index: number, changes: Partial<SegmentInput>) => {
+    setSegments(segments.map((segment, i) => {
+      if (i !== index) return segment;
+      const updated = { ...segment, ...changes };
+
+      // Suggest the distance from the odometer until the user types one
+      if (changes.odometerEnd !== undefined) {
+        const start = index === 0 ? trip.odometerStart : parseInt(segments[index - 1].odometerEnd);
+        const end = parseInt(changes.odometerEnd);
+        if (!isNaN(start) && !isNaN(end) && end >= start) {
+          updated.distance = String(end - start);
+        }
+      }
+      return updated;
+    }));
+  };
+
+  const addSegment = () => {
+    setSegments([...segments.slice(0, -1), newSegment(trip), segments[segments.length - 1]]);
+  };
+
+  const removeSegment = (index: number) => {
+    setSegments(segments.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (lastDistance <= 0) {
+      setSaveStatus({ type: 'danger', message: 'Den sista delen måste ha ett avstånd kvar' });
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(`/api/trips/${trip.id}/split`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          segments: segments.map((segment, i) => {
+            const isLast = i === segments.length - 1;
+            return {
+              category: segment.category,
+              notes: segment.notes,
+              odometerEnd: isLast ? trip.odometerEnd : parseInt(segment.odometerEnd),
+              endDate: isLast ? trip.endDate : fromInputDate(segment.endDate),
+              endDestination: isLast ? trip.endDestination : segment.endDestination,
+              distance: isLast ? lastDistance : parseFloat(segment.distance.replace(',', '.'))
+            };
+          })
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({
+          type: 'success',
+          message: `Resan har delats i ${segments.length} delar`
+        });
+        onSplit();
+        setTimeout(() => {
+          onHide();
+        }, 1500);
+      } else {
+        setSaveStatus({
+          type: 'danger',
+          message: result.error || 'Kunde inte dela resan'
+        });
+      }
+    } catch {
+      setSaveStatus({
+        type: 'danger',
+        message: 'Ett fel uppstod vid delning'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} centered size="lg" className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Dela resa</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <div className="small text-muted mb-3">
+          {trip.startPosition} → {trip.endDestination}, {trip.distance.toFixed(1)} km
+          ({trip.odometerStart}–{trip.odometerEnd} km). Varje del börjar där den föregående slutade.
+          Bränsle, el och tid fördelas efter avstånd.
+        </div>
+
+        <Form>
+          {segments.map((segment, index) => {
+            const isLast = index === segments.length - 1;
+            const startPosition = index === 0 ? trip.startPosition : segments[index - 1].endDestination;
+
+            return (
+              <div key={index} className="mb-3 pb-3" style={{ borderBottom: '1px solid var(--apple-gray-2)' }}>
+                <div className="d-flex justify-content-between align-items-center mb-2">
+                  <h6 className="fw-medium mb-0">
+                    Del {index + 1}: {startPosition || '…'} → {isLast ? trip.endDestination : (segment.endDestination || '…')}
+                  </h6>
+                  {!isLast && segments.length > 2 && (
+                    <button
+                      type="button"
+                      className="btn btn-sm btn-apple-secondary"
+                      onClick={() => removeSegment(index)}
+                      disabled={isSaving}
+                    >
+                      Ta bort
+                    </button>
+                  )}
+                </div>
+
+                <Row>
+                  <Col md={6} className="mb-2">
+                    <label className="form-label fw-medium">Kategori</label>
+                    <Form.Select
+                      value={segment.category}
+                      onChange={(e) => updateSegment(index, { category: e.target.value })}
+                      className="form-control-apple"
+                      disabled={isSaving}
+                    >
+                      {categories.map(c => (
+                        <option key={c.id} value={c.name}>{c.name}</option>
+                      ))}
+                    </Form.Select>
+                  </Col>
+                  <Col md={6} className="mb-2">
+                    <label className="form-label fw-medium">Avstånd (km)</label>
+                    <Form.Control
+                      type="text"
+                      value={isLast ? lastDistance.toFixed(1) : segment.distance}
+                      onChange={(e) => updateSegment(index, { distance: e.target.value })}
+                      className="form-control-apple"
+                      disabled={isSaving || isLast}
+                    />
+                  </Col>
+                </Row>
+
+                {!isLast && (
+                  <Row>
+                    <Col md={4} className="mb-2">
+                      <label className="form-label fw-medium">Mätare slut</label>
+                      <Form.Control
+                        type="number"
+                        value={segment.odometerEnd}
+                        onChange={(e) => updateSegment(index, { odometerEnd: e.target.value })}
+                        className="form-control-apple"
+                        placeholder={String(trip.odometerStart)}
+                        disabled={isSaving}
+                      />
+                    </Col>
+                    <Col md={4} className="mb-2">
+                      <label className="form-label fw-medium">Tid slut</label>
+                      <Form.Control
+                        type="datetime-local"
+                        value={segment.endDate}
+                        onChange={(e) => updateSegment(index, { endDate: e.target.value })}
+                        className="form-control-apple"
+                        disabled={isSaving}
+                      />
+                    </Col>
+                    <Col md={4} className="mb-2">
+                      <label className="form-label fw-medium">Slutdestination</label>
+                      <Form.Control
+                        type="text"
+                        value={segment.endDestination}
+                        onChange={(e) => updateSegment(index, { endDestination: e.target.value })}
+                        className="form-control-apple"
+                        placeholder="Ange plats..."
+                        disabled={isSaving}
+                      />
+                    </Col>
+                  </Row>
+                )}
+
+                <label className="form-label fw-medium">Anteckningar</label>
+                <Form.Control
+                  type="text"
+                  value={segment.notes}
+                  onChange={(e) => updateSegment(index, { notes: e.target.value })}
+                  className="form-control-apple"
+                  placeholder="Lägg till anteckningar..."
+                  disabled={isSaving}
+                />
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            className="btn btn-apple-secondary mb-3"
+            onClick={addSegment}
+            disabled={isSaving}
+          >
+            Lägg till del
+          </button>
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        <button
+          className="btn btn-apple-secondary me-2"
+          onClick={handleClose}
+          disabled={isSaving}
+        >
+          Avbryt
+        </button>
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? 'Delar...' : 'Dela resa'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
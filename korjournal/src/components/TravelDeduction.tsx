@@ -0,0 +1,296 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { Container, Card, Row, Col, Table, Form } from 'react-bootstrap';
+import { Driver, Place, TravelDeductionRate } from '@/lib/database';
+import { TravelDeductionReport, HOME_PLACE_SETTING, WORK_PLACE_SETTING } from '@/lib/travelDeduction';
+
+interface TravelDeductionProps {
+  className?: string;
+}
+
+const inputStyle = {
+  border: '1px solid var(--apple-gray-3)',
+  borderRadius: '8px',
+  padding: '10px 12px',
+  fontSize: '0.9rem'
+};
+
+// Yearly reseavdrag for commuting by private car between the saved home and
+// work places, with a summary to copy into the tax return
+export default function TravelDeduction({ className }: TravelDeductionProps) {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear - 1);
+  const [driverId, setDriverId] = useState('');
+  const [homePlaceId, setHomePlaceId] = useState('');
+  const [workPlaceId, setWorkPlaceId] = useState('');
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [rates, setRates] = useState<TravelDeductionRate[]>([]);
+  const [rateForm, setRateForm] = useState({ ratePerMil: '', threshold: '' });
+  const [report, setReport] = useState<TravelDeductionReport | null>(null);
+  const [summary, setSummary] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadSettings = async () => {
+    try {
+      const [placesResponse, driversResponse, ratesResponse, settingsResponse] = await Promise.all([
+        fetch('/api/places'),
+        fetch('/api/drivers'),
+        fetch('/api/travel-deduction/rates'),
+        fetch(`/api/settings/multiple?keys=${HOME_PLACE_SETTING},${WORK_PLACE_SETTING}`)
+      ]);
+      setPlaces((await placesResponse.json()).places || []);
+      setDrivers((await driversResponse.json()).drivers || []);
+      setRates((await ratesResponse.json()).rates || []);
+      const settings = (await settingsResponse.json()).settings || {};
+      setHomePlaceId(settings[HOME_PLACE_SETTING] || '');
+      setWorkPlaceId(settings[WORK_PLACE_SETTING] || '');
+    } catch (error) {
+      console.error('Error loading travel deduction settings:', error);
+    }
+  };
+
+  const fetchReport = useCallback(async () => {
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        year: year.toString(),
+        ...(driverId && { driverId })
+      });
+      const response = await fetch(`/api/travel-deduction?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setReport(null);
+        setSummary('');
+        setError(data.error || 'Kunde inte beräkna reseavdrag');
+        return;
+      }
+      setReport(data.report);
+      setSummary(data.summary);
+    } catch (err) {
+      console.error('Error fetching travel deduction:', err);
+      setError('Kunde inte beräkna reseavdrag');
+    }
+  }, [year, driverId]);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport, homePlaceId, workPlaceId, rates]);
+
+  useEffect(() => {
+    const rate = rates.find(r => r.year === year);
+    setRateForm({
+      ratePerMil: rate ? String(rate.ratePerMil) : '',
+      threshold: rate ? String(rate.threshold) : ''
+    });
+  }, [rates, year]);
+
+  const savePlaces = async (home: string, work: string) => {
+    setHomePlaceId(home);
+    setWorkPlaceId(work);
+    try {
+      await fetch('/api/settings/multiple', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          settings: {
+            [HOME_PLACE_SETTING]: home,
+            [WORK_PLACE_SETTING]: work
+          }
+        }),
+      });
+    } catch (error) {
+      console.error('Error saving commute places:', error);
+    }
+  };
+
+  const saveRate = async () => {
+    setStatus(null);
+    try {
+      const response = await fetch('/api/travel-deduction/rates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ year, ...rateForm }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setStatus(data.error || 'Kunde inte spara satsen');
+        return;
+      }
+      const ratesResponse = await fetch('/api/travel-deduction/rates');
+      setRates((await ratesResponse.json()).rates || []);
+    } catch (error) {
+      console.error('Error saving travel deduction rate:', error);
+      setStatus('Kunde inte spara satsen');
+    }
+  };
+
+  const copySummary = async () => {
+    try {
+      await navigator.clipboard.writeText(summary);
+      setStatus('Sammanställningen är kopierad');
+    } catch (error) {
+      console.error('Error copying summary:', error);
+      setStatus('Kunde inte kopiera, markera texten och kopiera den själv');
+    }
+  };
+
+  const formatNumber = (num: number, decimals: number = 0) =>
+    num.toLocaleString('sv-SE', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+  const formatMonth = (monthString: string) =>
+    new Date(monthString + '-01').toLocaleDateString('sv-SE', { year: 'numeric', month: 'long' });
+
+  return (
+    <Container className={`pb-4 ${className || ''}`}>
+      <Card className="apple-card">
+        <div className="apple-card-header">
+          <h5 className="mb-0 fw-semibold">Reseavdrag</h5>
+        </div>
+        <Card.Body>
+          <Row>
+            <Col xs={6} md={3} className="mb-3">
+              <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>Inkomstår</Form.Label>
+              <Form.Select value={year} onChange={(e) => setYear(Number(e.target.value))} style={inputStyle}>
+                {Array.from({ length: 6 }, (_, i) => currentYear - i).map(y => (
+                  <option key={y} value={y}>{y}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col xs={6} md={3} className="mb-3">
+              <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>Förare</Form.Label>
+              <Form.Select value={driverId} onChange={(e) => setDriverId(e.target.value)} style={inputStyle}>
+                <option value="">Alla förare</option>
+                {drivers.map(driver => (
+                  <option key={driver.id} value={driver.id}>{driver.name}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col xs={6} md={3} className="mb-3">
+              <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>Hem</Form.Label>
+              <Form.Select value={homePlaceId} onChange={(e) => savePlaces(e.target.value, workPlaceId)} style={inputStyle}>
+                <option value="">Välj plats</option>
+                {places.map(place => (
+                  <option key={place.id} value={place.id}>{place.name}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col xs={6} md={3} className="mb-3">
+              <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>Arbetsplats</Form.Label>
+              <Form.Select value={workPlaceId} onChange={(e) => savePlaces(homePlaceId, e.target.value)} style={inputStyle}>
+                <option value="">Välj plats</option>
+                {places.map(place => (
+                  <option key={place.id} value={place.id}>{place.name}</option>
+                ))}
+              </Form.Select>
+            </Col>
+          </Row>
+          <Row className="align-items-end">
+            <Col xs={6} md={3} className="mb-3">
+              <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>Kr per mil {year}</Form.Label>
+              <Form.Control
+                type="text"
+                value={rateForm.ratePerMil}
+                onChange={(e) => setRateForm({ ...rateForm, ratePerMil: e.target.value })}
+                placeholder="25"
+                style={inputStyle}
+              />
+            </Col>
+            <Col xs={6} md={3} className="mb-3">
+              <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>Beloppsgräns {year} (kr)</Form.Label>
+              <Form.Control
+                type="text"
+                value={rateForm.threshold}
+                onChange={(e) => setRateForm({ ...rateForm, threshold: e.target.value })}
+                placeholder="15000"
+                style={inputStyle}
+              />
+            </Col>
+            <Col xs={12} md={3} className="mb-3">
+              <button className="btn btn-apple-secondary" onClick={saveRate}>
+                Spara sats
+              </button>
+            </Col>
+          </Row>
+
+          {error && <div className="alert-apple alert-info mb-3">{error}</div>}
+          {status && <div className="alert-apple alert-info mb-3">{status}</div>}
+
+          {report && (
+            <>
+              <Row className="g-3 mb-3 text-center">
+                <Col xs={6} md={3}>
+                  <h3 className="text-primary mb-1">{formatNumber(report.workingDays)}</h3>
+                  <p className="text-muted mb-0 small">Arbetsdagar</p>
+                </Col>
+                <Col xs={6} md={3}>
+                  <h3 className="text-primary mb-1">{formatNumber(report.distance, 1)} km</h3>
+                  <p className="text-muted mb-0 small">{formatNumber(report.distancePerDay, 1)} km per dag</p>
+                </Col>
+                <Col xs={6} md={3}>
+                  <h3 className="text-primary mb-1">{formatNumber(report.cost)} kr</h3>
+                  <p className="text-muted mb-0 small">Kostnad</p>
+                </Col>
+                <Col xs={6} md={3}>
+                  <h3 className="text-success mb-1">{formatNumber(report.deduction)} kr</h3>
+                  <p className="text-muted mb-0 small">Avdrag efter beloppsgräns</p>
+                </Col>
+              </Row>
+
+              {report.months.length > 0 && (
+                <div className="table-responsive mb-3">
+                  <Table className="mb-0 apple-table">
+                    <thead>
+                      <tr>
+                        <th>Månad</th>
+                        <th>Arbetsdagar</th>
+                        <th>Avstånd</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.months.map(month => (
+                        <tr key={month.month}>
+                          <td className="fw-medium">{formatMonth(month.month)}</td>
+                          <td>{month.workingDays}</td>
+                          <td>{formatNumber(month.distance, 1)} km</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </Table>
+                </div>
+              )}
+
+              <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                Sammanställning för deklarationen
+              </Form.Label>
+              <Form.Control
+                as="textarea"
+                rows={7}
+                value={summary}
+                readOnly
+                className="form-control-apple mb-2"
+                style={{ fontFamily: 'monospace', fontSize: '0.85rem' }}
+              />
+              <button className="btn btn-apple-primary" onClick={copySummary}>
+                Kopiera sammanställning
+              </button>
+              <div className="small text-muted mt-2">
+                Resor mellan hem och arbetsplats med privat bil räknas. En arbetsdag är en dag med minst en sådan resa.
+              </div>
+            </>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
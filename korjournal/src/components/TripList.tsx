@@ -2,17 +2,25 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { Table, Card, Spinner, Collapse, Form, Row, Col, Button, Alert } from 'react-bootstrap';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import { Trip } from '@/lib/database';
+import { Trip, Vehicle, Driver, Category } from '@/lib/database';
+import { createTripJournalPdf, createAllowanceClaimPdf, splitJournalsByDriver, formatDate } from '@/lib/pdfExport';
+import { formatAmount, formatDuration } from '@/lib/units';
+import { isBenefitCar, PrivateUseSummary } from '@/lib/benefitCar';
+import { MaintenanceDue } from '@/lib/maintenance';
+import { OdometerIssue } from '@/lib/gaps';
 import EditTripModal from './EditTripModal';
 import AddTripModal from './AddTripModal';
+import SplitTripModal from './SplitTripModal';
+import MergeTripsModal from './MergeTripsModal';
+import CategoryBadge from './CategoryBadge';
+import DatabaseRecoveryAlert from './DatabaseRecoveryAlert';
 
 interface TripListProps {
   refresh: number;
+  vehicleId: number | null;
 }
 
-export default function TripList({ refresh }: TripListProps) {
+export default function TripList({ refresh, vehicleId }: TripListProps) {
   const [trips, setTrips] = useState<Trip[]>([]);
   const [total, setTotal] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
@@ -22,13 +30,18 @@ export default function TripList({ refresh }: TripListProps) {
   const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showSplitModal, setShowSplitModal] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [selectedTripIds, setSelectedTripIds] = useState<number[]>([]);
+  const [tripsToMerge, setTripsToMerge] = useState<Trip[]>([]);
   const [addModalPreset, setAddModalPreset] = useState<{odometerStart?: number; odometerEnd?: number} | null>(null);
   const [corruptionError, setCorruptionError] = useState<string | null>(null);
-  const [missingTripWarnings, setMissingTripWarnings] = useState<Map<number, number>>(new Map());
+  const [missingTripWarnings, setMissingTripWarnings] = useState<Map<number, OdometerIssue>>(new Map());
   const itemsPerPage = 20;
 
   // Filter states
   const [categoryFilter, setCategoryFilter] = useState('');
+  const [driverFilter, setDriverFilter] = useState('');
   const [dateFromFilter, setDateFromFilter] = useState(() => {
     const currentYear = new Date().getFullYear();
     return `${currentYear}-01-01`;
@@ -39,44 +52,133 @@ export default function TripList({ refresh }: TripListProps) {
   });
   const [sortOrder, setSortOrder] = useState('desc');
 
-  // Export states
-  const [exportDriver, setExportDriver] = useState('');
-  const [exportRegNumber, setExportRegNumber] = useState('');
-  const [exportPersonNumber, setExportPersonNumber] = useState('');
-  const [exportCarModel, setExportCarModel] = useState('');
-
+  // Export states. An empty export driver means one journal per driver.
+  const [exportDriverId, setExportDriverId] = useState('');
+  const [exportIncludeHistory, setExportIncludeHistory] = useState(false);
+  const [exportSettingsError, setExportSettingsError] = useState<string | null>(null);
+  const [claimMonth, setClaimMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [privateUse, setPrivateUse] = useState<PrivateUseSummary | null>(null);
+  const [maintenanceDue, setMaintenanceDue] = useState<MaintenanceDue[]>([]);
+
+  // Each user keeps their own export choices
   const loadExportSettings = async () => {
     try {
-      const response = await fetch('/api/settings/multiple?keys=exportDriver,exportRegNumber,exportPersonNumber,exportCarModel');
+      const response = await fetch('/api/settings/user?keys=exportDriverId,exportIncludeHistory');
       const data = await response.json();
+      if (!response.ok) return;
       
-      if (data.settings.exportDriver) setExportDriver(data.settings.exportDriver);
-      if (data.settings.exportRegNumber) setExportRegNumber(data.settings.exportRegNumber);
-      if (data.settings.exportPersonNumber) setExportPersonNumber(data.settings.exportPersonNumber);
-      if (data.settings.exportCarModel) setExportCarModel(data.settings.exportCarModel);
+      if (data.settings.exportDriverId) setExportDriverId(data.settings.exportDriverId);
+      setExportIncludeHistory(data.settings.exportIncludeHistory === 'true');
     } catch (error) {
       console.error('Error loading export settings:', error);
     }
   };
 
-  const saveExportSettings = async () => {
+  const loadDrivers = async () => {
+    try {
+      const response = await fetch('/api/drivers');
+      const data = await response.json();
+      setDrivers(data.drivers || []);
+    } catch (error) {
+      console.error('Error loading drivers:', error);
+    }
+  };
+
+  const loadCategories = async () => {
     try {
-      await fetch('/api/settings/multiple', {
+      const response = await fetch('/api/categories');
+      const data = await response.json();
+      setCategories(data.categories || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  // The vehicle's registration number and model go into the PDF header
+  useEffect(() => {
+    if (!vehicleId) {
+      setVehicle(null);
+      return;
+    }
+
+    const loadVehicle = async () => {
+      try {
+        const response = await fetch('/api/vehicles');
+        const data = await response.json();
+        const vehicles: Vehicle[] = data.vehicles || [];
+        setVehicle(vehicles.find(v => v.id === vehicleId) || null);
+      } catch (error) {
+        console.error('Error loading vehicle:', error);
+      }
+    };
+
+    loadVehicle();
+  }, [vehicleId]);
+
+  // A benefit car's private driving this year, to warn before its limits are crossed
+  useEffect(() => {
+    if (!vehicle || !isBenefitCar(vehicle)) {
+      setPrivateUse(null);
+      return;
+    }
+
+    const loadPrivateUse = async () => {
+      try {
+        const response = await fetch(`/api/reports/private-use?vehicleId=${vehicle.id}&year=${new Date().getFullYear()}`);
+        const data = await response.json();
+        setPrivateUse(data.summary || null);
+      } catch (error) {
+        console.error('Error loading private use:', error);
+      }
+    };
+
+    loadPrivateUse();
+  }, [vehicle, refresh]);
+
+  // Maintenance that is due or soon due, measured against the latest imported odometer
+  useEffect(() => {
+    const loadMaintenanceDue = async () => {
+      try {
+        const params = new URLSearchParams({
+          ...(vehicleId && { vehicleId: vehicleId.toString() })
+        });
+        const response = await fetch(`/api/maintenance/due?${params}`);
+        const data = await response.json();
+        setMaintenanceDue((data.due || []).filter((due: MaintenanceDue) => due.level !== 'ok'));
+      } catch (error) {
+        console.error('Error loading maintenance due:', error);
+      }
+    };
+
+    loadMaintenanceDue();
+  }, [vehicleId, refresh]);
+
+  const saveExportSettings = async (driverId: string, includeHistory: boolean) => {
+    setExportDriverId(driverId);
+    setExportIncludeHistory(includeHistory);
+    setExportSettingsError(null);
+    try {
+      const response = await fetch('/api/settings/user', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           settings: {
-            exportDriver,
-            exportRegNumber,
-            exportPersonNumber,
-            exportCarModel
+            exportDriverId: driverId,
+            exportIncludeHistory: includeHistory
           }
         }),
       });
+      if (!response.ok) {
+        setExportSettingsError('Exportinställningarna kunde inte sparas');
+      }
     } catch (error) {
       console.error('Error saving export settings:', error);
+      setExportSettingsError('Exportinställningarna kunde inte sparas');
     }
   };
 
@@ -86,6 +188,8 @@ export default function TripList({ refresh }: TripListProps) {
       const params = new URLSearchParams({
         page: currentPage.toString(),
         limit: itemsPerPage.toString(),
+        ...(vehicleId && { vehicleId: vehicleId.toString() }),
+        ...(driverFilter && { driverId: driverFilter }),
         ...(categoryFilter && { category: categoryFilter }),
         ...(dateFromFilter && { dateFrom: dateFromFilter }),
         ...(dateToFilter && { dateTo: dateToFilter }),
@@ -103,18 +207,15 @@ export default function TripList({ refresh }: TripListProps) {
         const tripsData = data.trips || [];
         setTrips(tripsData);
         setTotal(data.total || 0);
+        setSelectedTripIds([]);
         setCorruptionError(null);
-        
-        // Detect missing trips and set warnings
-        const warnings = detectMissingTrips(tripsData);
-        setMissingTripWarnings(warnings);
       }
     } catch (error) {
       console.error('Error fetching trips:', error);
     } finally {
       setLoading(false);
     }
-  }, [currentPage, itemsPerPage, categoryFilter, dateFromFilter, dateToFilter, sortOrder]);
+  }, [currentPage, itemsPerPage, vehicleId, driverFilter, categoryFilter, dateFromFilter, dateToFilter, sortOrder]);
 
   const handleTripClick = (trip: Trip) => {
     setSelectedTrip(trip);
@@ -126,17 +227,28 @@ export default function TripList({ refresh }: TripListProps) {
     setTrips(trips.map(trip => 
       trip.id === updatedTrip.id ? updatedTrip : trip
     ));
+    fetchMissingTrips();
+  };
+
+  const handleSplitClick = (trip: Trip) => {
+    setSelectedTrip(trip);
+    setShowEditModal(false);
+    setShowSplitModal(true);
+  };
+
+  const toggleTripSelected = (tripId: number) => {
+    setSelectedTripIds(selectedTripIds.includes(tripId)
+      ? selectedTripIds.filter(id => id !== tripId)
+      : [...selectedTripIds, tripId]);
   };
 
   const handleWarningClick = (trip: Trip) => {
-    // Calculate odometer values for the missing trip
-    const previousTrip = trips
-      .filter(t => new Date(t.startDate) < new Date(trip.startDate))
-      .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())[0];
+    // The missing trip fills the gap between the previous trip and this one
+    const gap = missingTripWarnings.get(trip.id!);
     
-    if (previousTrip) {
+    if (gap) {
       setAddModalPreset({
-        odometerStart: previousTrip.odometerEnd,
+        odometerStart: gap.previous.odometerEnd,
         odometerEnd: trip.odometerStart
       });
       setShowAddModal(true);
@@ -146,6 +258,7 @@ export default function TripList({ refresh }: TripListProps) {
   const handleAddTripComplete = () => {
     // Refresh the trip list
     fetchTrips();
+    fetchMissingTrips();
     setShowAddModal(false);
     setAddModalPreset(null);
   };
@@ -167,10 +280,8 @@ export default function TripList({ refresh }: TripListProps) {
         setTrips(trips.filter(trip => trip.id !== tripId));
         setTotal(total - 1);
         
-        // Update missing trip warnings after deletion
-        const updatedTrips = trips.filter(trip => trip.id !== tripId);
-        const warnings = detectMissingTrips(updatedTrips);
-        setMissingTripWarnings(warnings);
+        // Deleting a trip opens a gap where it was
+        fetchMissingTrips();
       } else {
         const errorData = await response.json();
         alert(errorData.error || 'Kunde inte ta bort resa');
@@ -186,9 +297,29 @@ export default function TripList({ refresh }: TripListProps) {
   // Calculate summary statistics for filtered trips (fetch all filtered trips for accurate totals)
   const [summaryStats, setSummaryStats] = useState({ totalTrips: 0, totalDistance: 0, totalTime: '0h 0m' });
 
+  // Gaps are found across all the vehicle's trips on the server, so a gap
+  // at a page boundary or next to a filtered-out trip is still flagged
+  const fetchMissingTrips = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        ...(vehicleId && { vehicleId: vehicleId.toString() })
+      });
+      
+      const response = await fetch(`/api/trips/gaps?${params}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      const gaps = (data.issues || []).filter((issue: OdometerIssue) => issue.type === 'gap');
+      setMissingTripWarnings(new Map(gaps.map((gap: OdometerIssue) => [gap.next.id, gap])));
+    } catch (error) {
+      console.error('Error fetching missing trips:', error);
+    }
+  }, [vehicleId]);
+
   const fetchSummaryStats = useCallback(async () => {
     try {
       const params = new URLSearchParams({
+        ...(vehicleId && { vehicleId: vehicleId.toString() }),
+        ...(driverFilter && { driverId: driverFilter }),
         ...(categoryFilter && { category: categoryFilter }),
         ...(dateFromFilter && { dateFrom: dateFromFilter }),
         ...(dateToFilter && { dateTo: dateToFilter })
@@ -211,270 +342,86 @@ export default function TripList({ refresh }: TripListProps) {
       console.error('Error fetching summary stats:', error);
       setSummaryStats({ totalTrips: 0, totalDistance: 0, totalTime: '0h 0m' });
     }
-  }, [categoryFilter, dateFromFilter, dateToFilter]);
+  }, [vehicleId, driverFilter, categoryFilter, dateFromFilter, dateToFilter]);
 
   useEffect(() => {
     fetchTrips();
     loadExportSettings();
+    loadDrivers();
+    loadCategories();
     fetchSummaryStats();
-  }, [currentPage, refresh, categoryFilter, dateFromFilter, dateToFilter, sortOrder, fetchTrips, fetchSummaryStats]);
+  }, [currentPage, refresh, vehicleId, driverFilter, categoryFilter, dateFromFilter, dateToFilter, sortOrder, fetchTrips, fetchSummaryStats]);
 
-  const getCategoryBadge = (category: string) => {
-    const variants: { [key: string]: string } = {
-      'Privat': 'badge-apple badge-apple-blue',
-      'Arbete': 'badge-apple badge-apple-green',
-      'Okategoriserat': 'badge-apple badge-apple-gray'
-    };
-    return variants[category] || 'badge-apple badge-apple-gray';
-  };
-
-  const formatDate = (dateStr: string) => {
-    try {
-      const date = new Date(dateStr);
-      return date.toLocaleDateString('sv-SE');
-    } catch {
-      return dateStr;
+  useEffect(() => {
+    fetchMissingTrips();
+  }, [refresh, fetchMissingTrips]);
+
+  // Fetch all trips within current filter (not just current page) and build the PDF
+  const buildPDF = async () => {
+    const exportDriver = drivers.find(d => d.id === Number(exportDriverId));
+    const params = new URLSearchParams({
+      page: '1',
+      limit: '1000', // Get all trips
+      ...(vehicleId && { vehicleId: vehicleId.toString() }),
+      ...(exportDriver && { driverId: exportDriver.id!.toString() }),
+      ...(categoryFilter && { category: categoryFilter }),
+      ...(dateFromFilter && { dateFrom: dateFromFilter }),
+      ...(dateToFilter && { dateTo: dateToFilter }),
+      ...(sortOrder && { sort: sortOrder })
+    });
+    
+    const response = await fetch(`/api/trips?${params}`);
+    const data = await response.json();
+
+    const journals = exportDriver
+      ? [{ trips: data.trips, driver: exportDriver, vehicle: vehicle! }]
+      : splitJournalsByDriver(data.trips, drivers, vehicle!);
+
+    let changeAppendix;
+    if (exportIncludeHistory) {
+      const [historyResponse, customersResponse, projectsResponse] = await Promise.all([
+        fetch(`/api/trips/history?${params}`),
+        fetch('/api/customers'),
+        fetch('/api/projects')
+      ]);
+      const historyData = await historyResponse.json();
+      const customersData = await customersResponse.json();
+      const projectsData = await projectsResponse.json();
+      changeAppendix = {
+        entries: historyData.history || [],
+        drivers,
+        customers: customersData.customers || [],
+        projects: projectsData.projects || [],
+        intact: historyData.intact !== false,
+        recoveredBreaks: historyData.recoveredBreaks || 0
+      };
     }
-  };
 
-  const detectMissingTrips = (trips: Trip[]): Map<number, number> => {
-    const warnings = new Map<number, number>();
-    
-    if (trips.length < 2) return warnings;
-    
-    // Sort trips chronologically by start date
-    const sortedTrips = [...trips].sort((a, b) => 
-      new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
-    );
-    
-    // Check for gaps between consecutive trips
-    for (let i = 1; i < sortedTrips.length; i++) {
-      const previousTrip = sortedTrips[i - 1];
-      const currentTrip = sortedTrips[i];
-      
-      // Calculate the gap in odometer readings
-      const gap = currentTrip.odometerStart - previousTrip.odometerEnd;
-      
-      // If gap is greater than 1km, consider it a missing trip
-      // (1km threshold accounts for rounding differences)
-      if (gap > 1) {
-        warnings.set(currentTrip.id!, gap);
+    // Benefit cars get a summary of each year's private driving
+    const privateUseSummaries: PrivateUseSummary[] = [];
+    if (isBenefitCar(vehicle!)) {
+      const firstYear = Number(dateFromFilter.slice(0, 4)) || new Date().getFullYear();
+      const lastYear = Number(dateToFilter.slice(0, 4)) || new Date().getFullYear();
+      for (let year = firstYear; year <= lastYear; year++) {
+        const privateUseResponse = await fetch(`/api/reports/private-use?vehicleId=${vehicle!.id}&year=${year}`);
+        const privateUseData = await privateUseResponse.json();
+        if (privateUseData.summary) {
+          privateUseSummaries.push(privateUseData.summary);
+        }
       }
     }
-    
-    return warnings;
+
+    return createTripJournalPdf(journals, categories, dateFromFilter, dateToFilter, changeAppendix, privateUseSummaries);
   };
 
   const generatePDF = async () => {
-    if (!exportDriver || !exportRegNumber || !exportPersonNumber || !exportCarModel) {
-      alert('Vänligen fyll i alla exportfält');
+    if (!vehicle) {
+      alert('Vänligen välj ett fordon');
       return;
     }
 
-    // Fetch all trips within current filter (not just current page)
     try {
-      const params = new URLSearchParams({
-        page: '1',
-        limit: '1000', // Get all trips
-        ...(categoryFilter && { category: categoryFilter }),
-        ...(dateFromFilter && { dateFrom: dateFromFilter }),
-        ...(dateToFilter && { dateTo: dateToFilter }),
-        ...(sortOrder && { sort: sortOrder })
-      });
-      
-      const response = await fetch(`/api/trips?${params}`);
-      const data = await response.json();
-      const allTrips = data.trips;
-
-      const doc = new jsPDF('landscape'); // Landscape orientation like the example
-      
-      // Title - centered
-      doc.setFontSize(16);
-      doc.setFont('helvetica', 'bold');
-      const pageWidth = doc.internal.pageSize.getWidth();
-      doc.text('KÖRJOURNAL', pageWidth / 2, 25, { align: 'center' });
-      
-      // Period - centered
-      doc.setFontSize(12);
-      doc.setFont('helvetica', 'normal');
-      const periodText = `Period: ${formatDate(dateFromFilter)} - ${formatDate(dateToFilter)}`;
-      doc.text(periodText, pageWidth / 2, 35, { align: 'center' });
-
-      // Calculate odometer values
-      let startOdometer = '';
-      let endOdometer = '';
-      if (allTrips.length > 0) {
-        // Sort trips by date to get first and last
-        const sortedTrips = [...allTrips].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
-        startOdometer = `${sortedTrips[0].odometerStart} km`;
-        endOdometer = `${sortedTrips[sortedTrips.length - 1].odometerEnd} km`;
-      }
-
-      // Info table - separate columns for keys and values without vertical lines
-      const infoTableData = [
-        ['Förare:', exportDriver, 'Personnummer:', exportPersonNumber],
-        ['Bilens reg.nr:', exportRegNumber, 'Bilmärke/modell:', exportCarModel],
-        ['Mätarställning vid periodens början:', startOdometer, 'Mätarställning vid periodens slut:', endOdometer]
-      ];
-
-      autoTable(doc, {
-        startY: 45,
-        body: infoTableData,
-        styles: {
-          fontSize: 10,
-          cellPadding: 3,
-          fillColor: [255, 255, 255], // White background
-          lineColor: [0, 0, 0],
-          lineWidth: { top: 0.5, bottom: 0.5, left: 0.5, right: 0.5 }, // Only horizontal lines
-          textColor: [0, 0, 0],
-        },
-        columnStyles: {
-          0: { fontStyle: 'bold', fillColor: [255, 255, 255], textColor: [0, 0, 0] }, // Key columns with white background
-          1: { fillColor: [255, 255, 255], textColor: [0, 0, 0], halign: 'right' }, // Value columns with white background, right-aligned
-          2: { fontStyle: 'bold', fillColor: [255, 255, 255], textColor: [0, 0, 0] }, // Key columns with white background  
-          3: { fillColor: [255, 255, 255], textColor: [0, 0, 0], halign: 'right' }, // Value columns with white background, right-aligned
-        },
-        tableLineColor: [0, 0, 0],
-        tableLineWidth: 0.5,
-        margin: { left: 10, right: 10 },
-        willDrawCell: (data) => {
-          // Remove vertical lines between key-value pairs
-          if ((data.column.index === 0 && data.column.index + 1 === 1) || 
-              (data.column.index === 2 && data.column.index + 1 === 3)) {
-            data.cell.styles.lineWidth = { top: 0.5, bottom: 0.5, left: 0.5, right: 0 };
-          }
-          if (data.column.index === 1 || data.column.index === 3) {
-            data.cell.styles.lineWidth = { top: 0.5, bottom: 0.5, left: 0, right: 0.5 };
-          }
-        }
-      });
-
-      // Calculate summary by category
-      const categoryMap = new Map<string, { trips: number; distance: number }>();
-      allTrips.forEach((trip: Trip) => {
-        const category = trip.category;
-        if (!categoryMap.has(category)) {
-          categoryMap.set(category, { trips: 0, distance: 0 });
-        }
-        const stats = categoryMap.get(category)!;
-        stats.trips += 1;
-        stats.distance += trip.distance;
-      });
-
-      // Create summary table data with descriptions
-      const getCategoryDescription = (category: string) => {
-        switch (category) {
-          case 'Privat': return 'Privata resor';
-          case 'Arbete': return 'Tjänsteresor';
-          case 'Okategoriserat': return 'Övriga resor';
-          default: return category;
-        }
-      };
-
-      const summaryTableData = [];
-      let totalTripsCount = 0;
-      let totalDistanceSum = 0;
-
-      categoryMap.forEach((stats, category) => {
-        summaryTableData.push([
-          category,
-          stats.trips.toString(),
-          `${stats.distance.toFixed(1)} km`,
-          getCategoryDescription(category)
-        ]);
-        totalTripsCount += stats.trips;
-        totalDistanceSum += stats.distance;
-      });
-
-      // Add total row
-      summaryTableData.push([
-        'Totalt',
-        totalTripsCount.toString(),
-        `${totalDistanceSum.toFixed(1)} km`,
-        ''
-      ]);
-
-      // Summary table
-      const tableWidth = pageWidth - 20; // Full width minus margins
-      const colWidth = tableWidth / 4; // Equal width for 4 columns
-      
-      autoTable(doc, {
-        startY: 85,
-        head: [['Kategori', 'Antal resor', 'Sträcka', 'Beskrivning']],
-        body: summaryTableData,
-        theme: 'grid',
-        styles: {
-          fontSize: 8,
-          cellPadding: 2,
-          lineColor: [0, 0, 0],
-          lineWidth: 0.5,
-          fillColor: [255, 255, 255],
-          textColor: [0, 0, 0],
-          halign: 'left',
-        },
-        headStyles: {
-          fillColor: [220, 220, 220],
-          textColor: [0, 0, 0],
-          fontSize: 8,
-          fontStyle: 'bold',
-          halign: 'left',
-        },
-        columnStyles: {
-          0: { cellWidth: colWidth },
-          1: { cellWidth: colWidth },
-          2: { cellWidth: colWidth },
-          3: { cellWidth: colWidth }
-        },
-        margin: { left: 10, right: 10 },
-        tableWidth: tableWidth
-      });
-
-      // Main trips table
-      const mainTableStartY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
-      const tableData = allTrips.map((trip: Trip) => [
-        formatDate(trip.startDate),
-        trip.startPosition,
-        trip.endDestination,
-        trip.category,
-        `${trip.odometerStart.toString()} km`,
-        `${trip.odometerEnd.toString()} km`,
-        `${trip.distance.toFixed(1)} km`,
-        trip.notes || '' // Use notes if available, otherwise blank
-      ]);
-
-      autoTable(doc, {
-        startY: mainTableStartY,
-        head: [['Datum', 'Startadress', 'Slutadress', 'Kategori', 'Mätarställning start', 'Mätarställning slut', 'Sträcka', 'Ändamål']],
-        body: tableData,
-        theme: 'grid',
-        styles: {
-          fontSize: 8,
-          cellPadding: 2,
-          lineColor: [0, 0, 0],
-          lineWidth: 0.5,
-          textColor: [0, 0, 0],
-        },
-        headStyles: {
-          fillColor: [220, 220, 220],
-          textColor: [0, 0, 0],
-          fontSize: 8,
-          fontStyle: 'bold',
-        },
-        margin: { left: 10, right: 10, bottom: 25 },
-        tableWidth: 'auto'
-      });
-
-      // Add page numbers to all pages
-      const pageCount = doc.getNumberOfPages();
-      for (let i = 1; i <= pageCount; i++) {
-        doc.setPage(i);
-        doc.setFontSize(10);
-        doc.text(`Sida ${i} av ${pageCount}`, 
-          pageWidth / 2, 
-          doc.internal.pageSize.getHeight() - 15, 
-          { align: 'center' }
-        );
-      }
+      const doc = await buildPDF();
 
       // Open PDF as blob instead of downloading
       const pdfBlob = doc.output('blob');
@@ -493,226 +440,62 @@ export default function TripList({ refresh }: TripListProps) {
   };
 
   const downloadPDF = async () => {
-    if (!exportDriver || !exportRegNumber || !exportPersonNumber || !exportCarModel) {
-      alert('Vänligen fyll i alla exportfält');
+    if (!vehicle) {
+      alert('Vänligen välj ett fordon');
       return;
     }
 
-    // Fetch all trips within current filter (not just current page)
     try {
-      const params = new URLSearchParams({
-        page: '1',
-        limit: '1000', // Get all trips
-        ...(categoryFilter && { category: categoryFilter }),
-        ...(dateFromFilter && { dateFrom: dateFromFilter }),
-        ...(dateToFilter && { dateTo: dateToFilter }),
-        ...(sortOrder && { sort: sortOrder })
-      });
-      
-      const response = await fetch(`/api/trips?${params}`);
-      const data = await response.json();
-      const allTrips = data.trips;
+      const doc = await buildPDF();
 
-      const doc = new jsPDF('landscape'); // Landscape orientation like the example
-      
-      // Title - centered
-      doc.setFontSize(16);
-      doc.setFont('helvetica', 'bold');
-      const pageWidth = doc.internal.pageSize.getWidth();
-      doc.text('KÖRJOURNAL', pageWidth / 2, 25, { align: 'center' });
-      
-      // Period - centered
-      doc.setFontSize(12);
-      doc.setFont('helvetica', 'normal');
-      const periodText = `Period: ${formatDate(dateFromFilter)} - ${formatDate(dateToFilter)}`;
-      doc.text(periodText, pageWidth / 2, 35, { align: 'center' });
-
-      // Calculate odometer values
-      let startOdometer = '';
-      let endOdometer = '';
-      if (allTrips.length > 0) {
-        // Sort trips by date to get first and last
-        const sortedTrips = [...allTrips].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
-        startOdometer = `${sortedTrips[0].odometerStart} km`;
-        endOdometer = `${sortedTrips[sortedTrips.length - 1].odometerEnd} km`;
-      }
-
-      // Info table - separate columns for keys and values without vertical lines
-      const infoTableData = [
-        ['Förare:', exportDriver, 'Personnummer:', exportPersonNumber],
-        ['Bilens reg.nr:', exportRegNumber, 'Bilmärke/modell:', exportCarModel],
-        ['Mätarställning vid periodens början:', startOdometer, 'Mätarställning vid periodens slut:', endOdometer]
-      ];
-
-      autoTable(doc, {
-        startY: 45,
-        body: infoTableData,
-        styles: {
-          fontSize: 10,
-          cellPadding: 3,
-          fillColor: [255, 255, 255], // White background
-          lineColor: [0, 0, 0],
-          lineWidth: { top: 0.5, bottom: 0.5, left: 0.5, right: 0.5 }, // Only horizontal lines
-          textColor: [0, 0, 0],
-        },
-        columnStyles: {
-          0: { fontStyle: 'bold', fillColor: [255, 255, 255], textColor: [0, 0, 0] }, // Key columns with white background
-          1: { fillColor: [255, 255, 255], textColor: [0, 0, 0], halign: 'right' }, // Value columns with white background, right-aligned
-          2: { fontStyle: 'bold', fillColor: [255, 255, 255], textColor: [0, 0, 0] }, // Key columns with white background  
-          3: { fillColor: [255, 255, 255], textColor: [0, 0, 0], halign: 'right' }, // Value columns with white background, right-aligned
-        },
-        tableLineColor: [0, 0, 0],
-        tableLineWidth: 0.5,
-        margin: { left: 10, right: 10 },
-        willDrawCell: (data) => {
-          // Remove vertical lines between key-value pairs
-          if ((data.column.index === 0 && data.column.index + 1 === 1) || 
-              (data.column.index === 2 && data.column.index + 1 === 3)) {
-            data.cell.styles.lineWidth = { top: 0.5, bottom: 0.5, left: 0.5, right: 0 };
-          }
-          if (data.column.index === 1 || data.column.index === 3) {
-            data.cell.styles.lineWidth = { top: 0.5, bottom: 0.5, left: 0, right: 0.5 };
-          }
-        }
-      });
-
-      // Calculate summary by category
-      const categoryMap = new Map<string, { trips: number; distance: number }>();
-      allTrips.forEach((trip: Trip) => {
-        const category = trip.category;
-        if (!categoryMap.has(category)) {
-          categoryMap.set(category, { trips: 0, distance: 0 });
-        }
-        const stats = categoryMap.get(category)!;
-        stats.trips += 1;
-        stats.distance += trip.distance;
-      });
-
-      // Create summary table data with descriptions
-      const getCategoryDescription = (category: string) => {
-        switch (category) {
-          case 'Privat': return 'Privata resor';
-          case 'Arbete': return 'Tjänsteresor';
-          case 'Okategoriserat': return 'Övriga resor';
-          default: return category;
-        }
-      };
-
-      const summaryTableData = [];
-      let totalTripsCount = 0;
-      let totalDistanceSum = 0;
-
-      categoryMap.forEach((stats, category) => {
-        summaryTableData.push([
-          category,
-          stats.trips.toString(),
-          `${stats.distance.toFixed(1)} km`,
-          getCategoryDescription(category)
-        ]);
-        totalTripsCount += stats.trips;
-        totalDistanceSum += stats.distance;
-      });
+      // Generate filename with vehicle and date range
+      const fromDate = formatDate(dateFromFilter).replace(/\//g, '-');
+      const toDate = formatDate(dateToFilter).replace(/\//g, '-');
+      const driverName = drivers.find(d => d.id === Number(exportDriverId))?.name.replace(/\s+/g, '-');
+      const filename = `korjournal-${vehicle.regNumber}${driverName ? `-${driverName}` : ''}-${fromDate}-till-${toDate}.pdf`;
 
-      // Add total row
-      summaryTableData.push([
-        'Totalt',
-        totalTripsCount.toString(),
-        `${totalDistanceSum.toFixed(1)} km`,
-        ''
-      ]);
+      // Download PDF file instead of opening as blob
+      doc.save(filename);
 
-      // Summary table
-      const tableWidth = pageWidth - 20; // Full width minus margins
-      const colWidth = tableWidth / 4; // Equal width for 4 columns
-      
-      autoTable(doc, {
-        startY: 85,
-        head: [['Kategori', 'Antal resor', 'Sträcka', 'Beskrivning']],
-        body: summaryTableData,
-        theme: 'grid',
-        styles: {
-          fontSize: 8,
-          cellPadding: 2,
-          lineColor: [0, 0, 0],
-          lineWidth: 0.5,
-          fillColor: [255, 255, 255],
-          textColor: [0, 0, 0],
-          halign: 'left',
-        },
-        headStyles: {
-          fillColor: [220, 220, 220],
-          textColor: [0, 0, 0],
-          fontSize: 8,
-          fontStyle: 'bold',
-          halign: 'left',
-        },
-        columnStyles: {
-          0: { cellWidth: colWidth },
-          1: { cellWidth: colWidth },
-          2: { cellWidth: colWidth },
-          3: { cellWidth: colWidth }
-        },
-        margin: { left: 10, right: 10 },
-        tableWidth: tableWidth
-      });
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      alert('Fel vid generering av PDF');
+    }
+  };
 
-      // Main trips table
-      const mainTableStartY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
-      const tableData = allTrips.map((trip: Trip) => [
-        formatDate(trip.startDate),
-        trip.startPosition,
-        trip.endDestination,
-        trip.category,
-        `${trip.odometerStart.toString()} km`,
-        `${trip.odometerEnd.toString()} km`,
-        `${trip.distance.toFixed(1)} km`,
-        trip.notes || '' // Use notes if available, otherwise blank
-      ]);
+  // Opens the mileage allowance claim for the chosen month. It covers the
+  // export driver's business trips, or every driver's if none is chosen.
+  const generateAllowanceClaim = async () => {
+    if (!vehicle || !claimMonth) {
+      return;
+    }
 
-      autoTable(doc, {
-        startY: mainTableStartY,
-        head: [['Datum', 'Startadress', 'Slutadress', 'Kategori', 'Mätarställning start', 'Mätarställning slut', 'Sträcka', 'Ändamål']],
-        body: tableData,
-        theme: 'grid',
-        styles: {
-          fontSize: 8,
-          cellPadding: 2,
-          lineColor: [0, 0, 0],
-          lineWidth: 0.5,
-          textColor: [0, 0, 0],
-        },
-        headStyles: {
-          fillColor: [220, 220, 220],
-          textColor: [0, 0, 0],
-          fontSize: 8,
-          fontStyle: 'bold',
-        },
-        margin: { left: 10, right: 10, bottom: 25 },
-        tableWidth: 'auto'
+    try {
+      const exportDriver = drivers.find(d => d.id === Number(exportDriverId)) || null;
+      const [year, month] = claimMonth.split('-').map(Number);
+      const lastDay = new Date(year, month, 0).getDate();
+      const params = new URLSearchParams({
+        vehicleId: vehicle.id!.toString(),
+        dateFrom: `${claimMonth}-01`,
+        dateTo: `${claimMonth}-${String(lastDay).padStart(2, '0')}`,
+        ...(exportDriver && { driverId: exportDriver.id!.toString() })
       });
 
-      // Add page numbers to all pages
-      const pageCount = doc.getNumberOfPages();
-      for (let i = 1; i <= pageCount; i++) {
-        doc.setPage(i);
-        doc.setFontSize(10);
-        doc.text(`Sida ${i} av ${pageCount}`, 
-          pageWidth / 2, 
-          doc.internal.pageSize.getHeight() - 15, 
-          { align: 'center' }
-        );
+      const response = await fetch(`/api/allowance?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Kunde inte beräkna milersättning');
+        return;
       }
 
-      // Generate filename with date range
-      const fromDate = formatDate(dateFromFilter).replace(/\//g, '-');
-      const toDate = formatDate(dateToFilter).replace(/\//g, '-');
-      const filename = `korjournal-${fromDate}-till-${toDate}.pdf`;
-
-      // Download PDF file instead of opening as blob
-      doc.save(filename);
-
+      const doc = createAllowanceClaimPdf(data.allowance, claimMonth, exportDriver, vehicle);
+      const url = URL.createObjectURL(doc.output('blob'));
+      window.open(url, '_blank');
+      setTimeout(() => {
+        URL.revokeObjectURL(url);
+      }, 100);
     } catch (error) {
-      console.error('Error generating PDF:', error);
+      console.error('Error generating allowance claim:', error);
       alert('Fel vid generering av PDF');
     }
   };
@@ -739,8 +522,8 @@ export default function TripList({ refresh }: TripListProps) {
               <strong>Databasfel upptäckt</strong>
               <p className="mb-2">{corruptionError}</p>
               <div className="small text-muted">
-                💡 <strong>Återställningshjälp:</strong> Gå till importfunktionen och ladda upp dina sparade CSV-filer igen. 
-                Alla CSV-filer sparas automatiskt i uploads-mappen för säkerhetskopiering.
+                💡 <strong>Återställningshjälp:</strong> Alla CSV-filer sparas automatiskt i uploads-mappen.
+                Ägaren kan återskapa de importerade resorna från dem med knappen om återställning nedan.
               </div>
             </div>
             <Button 
@@ -755,6 +538,68 @@ export default function TripList({ refresh }: TripListProps) {
         </Alert>
       )}
 
+      <DatabaseRecoveryAlert
+        refresh={corruptionError}
+        onRebuilt={() => {
+          fetchTrips();
+          fetchMissingTrips();
+          fetchSummaryStats();
+          loadCategories();
+        }}
+      />
+
+      {/* Benefit Car Private Use Alert */}
+      {privateUse && privateUse.warnings.length > 0 && (
+        <Alert
+          variant={privateUse.warnings.some(w => w.level === 'exceeded') ? 'danger' : 'warning'}
+          className="alert-apple mb-4"
+        >
+          <div className="d-flex align-items-center">
+            <div className="me-3" style={{ fontSize: '1.5rem' }}>🚘</div>
+            <div>
+              <strong>
+                {privateUse.warnings.some(w => w.level === 'exceeded')
+                  ? 'Förmånsbil: privatkörningen har passerat en gräns'
+                  : 'Förmånsbil: privatkörningen närmar sig en gräns'}
+              </strong>
+              <ul className="mb-0 mt-1 ps-3 small">
+                {privateUse.warnings.map(warning => (
+                  <li key={warning.message}>
+                    {warning.message}{warning.level === 'exceeded' && ' – gränsen är passerad'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </Alert>
+      )}
+
+      {/* Maintenance Due Alert */}
+      {maintenanceDue.length > 0 && (
+        <Alert
+          variant={maintenanceDue.some(due => due.level === 'due') ? 'danger' : 'warning'}
+          className="alert-apple mb-4"
+        >
+          <div className="d-flex align-items-center">
+            <div className="me-3" style={{ fontSize: '1.5rem' }}>🔧</div>
+            <div>
+              <strong>
+                {maintenanceDue.some(due => due.level === 'due')
+                  ? 'Underhåll: dags för service eller besiktning'
+                  : 'Underhåll: snart dags för service eller besiktning'}
+              </strong>
+              <ul className="mb-0 mt-1 ps-3 small">
+                {maintenanceDue.map(due => (
+                  <li key={`${due.vehicleId}-${due.type}`}>
+                    {due.message}{due.level === 'due' && ' – nu passerat'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </Alert>
+      )}
+
       {/* Filter Card */}
       <Card 
         className="mb-3 mb-sm-4"
@@ -786,7 +631,7 @@ export default function TripList({ refresh }: TripListProps) {
           <div>
             <Card.Body style={{ padding: '20px' }}>
               <Row>
-                <Col xs={12} sm={6} md={3} className="mb-3 mb-md-0">
+                <Col xs={12} sm={6} md className="mb-3 mb-md-0">
                   <Form.Group>
                     <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
                       Kategori
@@ -802,13 +647,35 @@ export default function TripList({ refresh }: TripListProps) {
                       }}
                     >
                       <option value="">Alla kategorier</option>
-                      <option value="Privat">Privat</option>
-                      <option value="Arbete">Arbete</option>
-                      <option value="Okategoriserat">Okategoriserat</option>
+                      {categories.map(c => (
+                        <option key={c.id} value={c.name}>{c.name}</option>
+                      ))}
                     </Form.Select>
                   </Form.Group>
                 </Col>
-                <Col xs={12} sm={6} md={3} className="mb-3 mb-md-0">
+                <Col xs={12} sm={6} md className="mb-3 mb-md-0">
+                  <Form.Group>
+                    <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
+                      Förare
+                    </Form.Label>
+                    <Form.Select
+                      value={driverFilter}
+                      onChange={(e) => setDriverFilter(e.target.value)}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        padding: '10px 12px',
+                        fontSize: '0.9rem'
+                      }}
+                    >
+                      <option value="">Alla förare</option>
+                      {drivers.map(driver => (
+                        <option key={driver.id} value={driver.id}>{driver.name}</option>
+                      ))}
+                    </Form.Select>
+                  </Form.Group>
+                </Col>
+                <Col xs={12} sm={6} md className="mb-3 mb-md-0">
                   <Form.Group>
                     <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
                       Från datum
@@ -826,7 +693,7 @@ export default function TripList({ refresh }: TripListProps) {
                     />
                   </Form.Group>
                 </Col>
-                <Col xs={12} sm={6} md={3} className="mb-3 mb-md-0">
+                <Col xs={12} sm={6} md className="mb-3 mb-md-0">
                   <Form.Group>
                     <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
                       Till datum
@@ -844,7 +711,7 @@ export default function TripList({ refresh }: TripListProps) {
                     />
                   </Form.Group>
                 </Col>
-                <Col xs={12} sm={6} md={3}>
+                <Col xs={12} sm={6} md>
                   <Form.Group>
                     <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
                       Sortering
@@ -906,19 +773,21 @@ export default function TripList({ refresh }: TripListProps) {
                     <Form.Label className="fw-medium small" style={{ color: 'var(--apple-gray-5)' }}>
                       Förare
                     </Form.Label>
-                    <Form.Control
-                      type="text"
-                      value={exportDriver}
-                      onChange={(e) => setExportDriver(e.target.value)}
-                      onBlur={saveExportSettings}
-                      placeholder="Förnamn Efternamn"
+                    <Form.Select
+                      value={exportDriverId}
+                      onChange={(e) => saveExportSettings(e.target.value, exportIncludeHistory)}
                       style={{
                         border: '1px solid var(--apple-gray-3)',
                         borderRadius: '8px',
                         padding: '10px 12px',
                         fontSize: '0.9rem'
                       }}
-                    />
+                    >
+                      <option value="">En journal per förare</option>
+                      {drivers.map(driver => (
+                        <option key={driver.id} value={driver.id}>{driver.name}</option>
+                      ))}
+                    </Form.Select>
                   </Form.Group>
                 </Col>
                 <Col xs={12} sm={6} md={3} className="mb-3 mb-md-0">
@@ -928,10 +797,9 @@ export default function TripList({ refresh }: TripListProps) {
                     </Form.Label>
                     <Form.Control
                       type="text"
-                      value={exportRegNumber}
-                      onChange={(e) => setExportRegNumber(e.target.value)}
-                      onBlur={saveExportSettings}
-                      placeholder="ABC123"
+                      value={vehicle?.regNumber || ''}
+                      placeholder="Välj fordon i menyn"
+                      disabled
                       style={{
                         border: '1px solid var(--apple-gray-3)',
                         borderRadius: '8px',
@@ -948,10 +816,9 @@ export default function TripList({ refresh }: TripListProps) {
                     </Form.Label>
                     <Form.Control
                       type="text"
-                      value={exportPersonNumber}
-                      onChange={(e) => setExportPersonNumber(e.target.value)}
-                      onBlur={saveExportSettings}
-                      placeholder="YYYYMMDD-XXXX"
+                      value={drivers.find(d => d.id === Number(exportDriverId))?.personNumber || ''}
+                      placeholder="Hämtas från föraren"
+                      disabled
                       style={{
                         border: '1px solid var(--apple-gray-3)',
                         borderRadius: '8px',
@@ -968,10 +835,9 @@ export default function TripList({ refresh }: TripListProps) {
                     </Form.Label>
                     <Form.Control
                       type="text"
-                      value={exportCarModel}
-                      onChange={(e) => setExportCarModel(e.target.value)}
-                      onBlur={saveExportSettings}
-                      placeholder="Volvo XC90"
+                      value={vehicle?.model || ''}
+                      placeholder="Välj fordon i menyn"
+                      disabled
                       style={{
                         border: '1px solid var(--apple-gray-3)',
                         borderRadius: '8px',
@@ -984,26 +850,58 @@ export default function TripList({ refresh }: TripListProps) {
               </Row>
               <Row className="mt-3">
                 <Col md={12}>
+                  <Form.Check
+                    type="checkbox"
+                    id="export-include-history"
+                    label="Bifoga ändringslogg (ändringar gjorda i efterhand)"
+                    checked={exportIncludeHistory}
+                    onChange={(e) => saveExportSettings(exportDriverId, e.target.checked)}
+                    className="mb-3 small"
+                  />
+                  {exportSettingsError && (
+                    <div className="text-danger small mb-3">{exportSettingsError}</div>
+                  )}
                   <div className="d-flex gap-2 flex-wrap">
                     <Button
                       onClick={generatePDF}
                       className="btn-apple-primary"
-                      disabled={!exportDriver || !exportRegNumber || !exportPersonNumber || !exportCarModel}
+                      disabled={!vehicle}
                     >
                       Visa som PDF
                     </Button>
                     <Button
                       onClick={downloadPDF}
                       className="btn-apple-secondary"
-                      disabled={!exportDriver || !exportRegNumber || !exportPersonNumber || !exportCarModel}
+                      disabled={!vehicle}
                     >
                       Spara som PDF
                     </Button>
+                    <Form.Control
+                      type="month"
+                      value={claimMonth}
+                      onChange={(e) => setClaimMonth(e.target.value)}
+                      style={{
+                        border: '1px solid var(--apple-gray-3)',
+                        borderRadius: '8px',
+                        fontSize: '0.9rem',
+                        width: 'auto'
+                      }}
+                      aria-label="Månad för reseräkning"
+                    />
+                    <Button
+                      onClick={generateAllowanceClaim}
+                      className="btn-apple-secondary"
+                      disabled={!vehicle || !claimMonth}
+                    >
+                      Reseräkning (PDF)
+                    </Button>
                   </div>
                   <div className="small text-muted mt-2">
                     <strong>Visa som PDF:</strong> Öppnar PDF:en i webbläsaren för visning<br/>
                     <strong>Spara som PDF:</strong> Laddar ner PDF:en direkt till din dator<br/>
-                    Uppgifterna sparas automatiskt när du lämnar fälten.
+                    <strong>Reseräkning:</strong> Milersättning för månadens tjänsteresor, att lämna till arbetsgivaren<br/>
+                    Med &quot;En journal per förare&quot; får varje förare en egen körjournal i samma PDF.
+                    Regnummer och bilmodell hämtas från fordonet som är valt i menyn.
                   </div>
                 </Col>
               </Row>
@@ -1045,8 +943,30 @@ export default function TripList({ refresh }: TripListProps) {
 
       {/* Trip Table */}
       <div className="apple-card">
-        <div className="apple-card-header">
+        <div className="apple-card-header d-flex justify-content-between align-items-center">
           <h5 className="mb-0 fw-semibold">Resor <span className="text-muted">({total} totalt)</span></h5>
+          {selectedTripIds.length > 0 && (
+            <div className="d-flex align-items-center gap-2">
+              <span className="small text-muted">{selectedTripIds.length} valda</span>
+              <button
+                className="btn btn-sm btn-apple-secondary"
+                onClick={() => setSelectedTripIds([])}
+              >
+                Avmarkera
+              </button>
+              <button
+                className="btn btn-sm btn-apple-primary"
+                onClick={() => {
+                  setTripsToMerge(trips.filter(trip => selectedTripIds.includes(trip.id!)));
+                  setShowMergeModal(true);
+                }}
+                disabled={selectedTripIds.length < 2}
+                title="Slå ihop resor som följer direkt efter varandra"
+              >
+                Slå ihop
+              </button>
+            </div>
+          )}
         </div>
         <div className="p-0">
           {trips.length === 0 ? (
@@ -1069,12 +989,13 @@ export default function TripList({ refresh }: TripListProps) {
                     <th className="d-none d-sm-table-cell">Bränsle</th>
                     <th className="d-none d-sm-table-cell">El</th>
                     <th className="d-none d-lg-table-cell">Tid</th>
+                    <th className="d-none d-lg-table-cell">Förare</th>
                   </tr>
                 </thead>
                 <tbody>
                   {trips.map((trip) => {
                     const hasMissingTrip = missingTripWarnings.has(trip.id!);
-                    const missingKm = missingTripWarnings.get(trip.id!);
+                    const missingKm = missingTripWarnings.get(trip.id!)?.km;
                     
                     return (
                       <tr 
@@ -1084,6 +1005,13 @@ export default function TripList({ refresh }: TripListProps) {
                       >
                         <td style={{ textAlign: 'center', verticalAlign: 'middle' }}>
                           <div className="d-flex justify-content-center align-items-center gap-1">
+                            <Form.Check
+                              type="checkbox"
+                              checked={selectedTripIds.includes(trip.id!)}
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={() => toggleTripSelected(trip.id!)}
+                              title="Välj resa"
+                            />
                             {hasMissingTrip && (
                               <button
                                 className="btn btn-sm text-warning p-0"
@@ -1124,14 +1052,22 @@ export default function TripList({ refresh }: TripListProps) {
                           </div>
                         </td>
                         <td>
-                          <span className={getCategoryBadge(trip.category)}>
-                            {trip.category}
-                          </span>
+                          <CategoryBadge name={trip.category} categories={categories} />
+                          {trip.customerName && (
+                            <div className="small">
+                              {trip.customerName}{trip.projectName && ` · ${trip.projectName}`}
+                            </div>
+                          )}
+                          {trip.ruleName && (
+                            <div className="small text-muted" title="Kategoriserad av regel">
+                              ⚙ {trip.ruleName}
+                            </div>
+                          )}
                         </td>
                         <td>
                           <div>{formatDate(trip.startDate)}</div>
                           <div className="d-md-none small text-muted">
-                            {trip.startPosition} → {trip.endDestination}
+                            {trip.startPlaceName || trip.startPosition} → {trip.endPlaceName || trip.endDestination}
                           </div>
                           {hasMissingTrip && (
                             <div className="small text-warning d-md-none">
@@ -1139,16 +1075,29 @@ export default function TripList({ refresh }: TripListProps) {
                             </div>
                           )}
                         </td>
-                      <td className="text-truncate d-none d-md-table-cell" style={{ maxWidth: '150px' }}>
-                        {trip.startPosition}
+                      <td className="text-truncate d-none d-md-table-cell" style={{ maxWidth: '150px' }} title={trip.startPosition}>
+                        {trip.startPlaceName ? (
+                          <>
+                            <div className="fw-medium">{trip.startPlaceName}</div>
+                            <div className="small text-muted text-truncate">{trip.startPosition}</div>
+                          </>
+                        ) : trip.startPosition}
                       </td>
-                      <td className="text-truncate d-none d-md-table-cell" style={{ maxWidth: '150px' }}>
-                        {trip.endDestination}
+                      <td className="text-truncate d-none d-md-table-cell" style={{ maxWidth: '150px' }} title={trip.endDestination}>
+                        {trip.endPlaceName ? (
+                          <>
+                            <div className="fw-medium">{trip.endPlaceName}</div>
+                            <div className="small text-muted text-truncate">{trip.endDestination}</div>
+                          </>
+                        ) : trip.endDestination}
                       </td>
                         <td className="fw-medium">{trip.distance.toFixed(1)} km</td>
-                        <td className="text-muted small d-none d-sm-table-cell">{trip.fuelConsumption}</td>
-                        <td className="text-muted small d-none d-sm-table-cell">{trip.batteryConsumption} kWh</td>
-                        <td className="text-muted small d-none d-lg-table-cell">{trip.duration}</td>
+                        <td className="text-muted small d-none d-sm-table-cell">{formatAmount(trip.fuelLiters, 'l')}</td>
+                        <td className="text-muted small d-none d-sm-table-cell">{formatAmount(trip.batteryKwh, 'kWh')}</td>
+                        <td className="text-muted small d-none d-lg-table-cell">{formatDuration(trip.durationMinutes)}</td>
+                        <td className="text-muted small d-none d-lg-table-cell">
+                          {drivers.find(d => d.id === trip.driverId)?.name || '–'}
+                        </td>
                       </tr>
                     );
                   })}
@@ -1232,6 +1181,22 @@ export default function TripList({ refresh }: TripListProps) {
         onHide={() => setShowEditModal(false)}
         trip={selectedTrip}
         onSave={handleTripSave}
+        onSplit={handleSplitClick}
+        onUnmerge={fetchTrips}
+      />
+
+      <MergeTripsModal
+        show={showMergeModal}
+        onHide={() => setShowMergeModal(false)}
+        trips={tripsToMerge}
+        onMerge={fetchTrips}
+      />
+
+      <SplitTripModal
+        show={showSplitModal}
+        onHide={() => setShowSplitModal(false)}
+        trip={selectedTrip}
+        onSplit={fetchTrips}
       />
 
       <AddTripModal
@@ -1242,6 +1207,7 @@ export default function TripList({ refresh }: TripListProps) {
         }}
         onSave={handleAddTripComplete}
         preset={addModalPreset}
+        vehicleId={vehicleId}
       />
     </>
   );
@@ -0,0 +1,290 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { Driver, User, UserRole } from '@/lib/database';
+
+interface UserModalProps {
+  show: boolean;
+  onHide: () => void;
+}
+
+interface UserForm {
+  username: string;
+  password: string;
+  role: UserRole;
+  driverId: string;
+}
+
+const roleLabels: Record<UserRole, string> = {
+  owner: 'Ägare',
+  driver: 'Förare',
+  accountant: 'Revisor'
+};
+
+const emptyUser: UserForm = {
+  username: '',
+  password: '',
+  role: 'driver',
+  driverId: ''
+};
+
+export default function UserModal({ show, onHide }: UserModalProps) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<UserForm>(emptyUser);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const loadUsers = async () => {
+    try {
+      const [usersResponse, driversResponse] = await Promise.all([
+        fetch('/api/users'),
+        fetch('/api/drivers')
+      ]);
+      const usersData = await usersResponse.json();
+      const driversData = await driversResponse.json();
+      setUsers(usersData.users || []);
+      setDrivers(driversData.drivers || []);
+    } catch (error) {
+      console.error('Error loading users:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (show) {
+      loadUsers();
+      setEditingId(null);
+      setForm(emptyUser);
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show]);
+
+  const handleEdit = (user: User) => {
+    setEditingId(user.id!);
+    setForm({
+      username: user.username,
+      password: '',
+      role: user.role,
+      driverId: user.driverId ? user.driverId.toString() : ''
+    });
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyUser);
+  };
+
+  const handleSave = async () => {
+    if (!form.username || (!editingId && !form.password)) {
+      setSaveStatus({ type: 'danger', message: 'Användarnamn och lösenord måste anges' });
+      return;
+    }
+
+    if (form.role === 'driver' && !form.driverId) {
+      setSaveStatus({ type: 'danger', message: 'Välj vilken förare kontot tillhör' });
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(editingId ? `/api/users/${editingId}` : '/api/users', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setEditingId(null);
+        setForm(emptyUser);
+        await loadUsers();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara användare' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (user: User) => {
+    const confirmDelete = window.confirm(`Är du säker på att du vill ta bort ${user.username}?`);
+
+    if (!confirmDelete) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/users/${user.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        await loadUsers();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort användare' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av användare' });
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  const getDriverName = (driverId?: number | null) => {
+    return drivers.find(d => d.id === driverId)?.name || '';
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Användare</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <div className="table-responsive mb-4">
+          <Table hover className="mb-0 apple-table">
+            <thead>
+              <tr>
+                <th>Användarnamn</th>
+                <th>Roll</th>
+                <th className="d-none d-sm-table-cell">Förare</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map(user => (
+                <tr key={user.id} onClick={() => handleEdit(user)} style={{ cursor: 'pointer' }}>
+                  <td className="fw-medium">{user.username}</td>
+                  <td>{roleLabels[user.role]}</td>
+                  <td className="d-none d-sm-table-cell text-muted small">{getDriverName(user.driverId)}</td>
+                  <td style={{ textAlign: 'right' }}>
+                    <button
+                      className="btn btn-sm text-danger p-0"
+                      style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                      title="Ta bort användare"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(user);
+                      }}
+                    >
+                      🗑️
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        </div>
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera användare' : 'Lägg till användare'}
+        </h6>
+        <Form>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Användarnamn *</label>
+              <Form.Control
+                type="text"
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+                className="form-control-apple"
+                autoComplete="off"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">{editingId ? 'Nytt lösenord' : 'Lösenord *'}</label>
+              <Form.Control
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                className="form-control-apple"
+                placeholder={editingId ? 'Lämna tomt för att behålla' : 'Minst 8 tecken'}
+                autoComplete="new-password"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Roll</label>
+              <Form.Select
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                {(Object.keys(roleLabels) as UserRole[]).map(role => (
+                  <option key={role} value={role}>{roleLabels[role]}</option>
+                ))}
+              </Form.Select>
+              <Form.Text className="text-muted">
+                {form.role === 'owner' && 'Full behörighet, inklusive import och användare.'}
+                {form.role === 'driver' && 'Kan lägga till och ändra sina egna resor.'}
+                {form.role === 'accountant' && 'Kan läsa resor, statistik och exportera.'}
+              </Form.Text>
+            </Col>
+            {form.role === 'driver' && (
+              <Col md={6} className="mb-3">
+                <label className="form-label fw-medium">Förare *</label>
+                <Form.Select
+                  value={form.driverId}
+                  onChange={(e) => setForm({ ...form, driverId: e.target.value })}
+                  className="form-control-apple"
+                  disabled={isSaving}
+                >
+                  <option value="">Välj förare</option>
+                  {drivers.map(driver => (
+                    <option key={driver.id} value={driver.id}>{driver.name}</option>
+                  ))}
+                </Form.Select>
+              </Col>
+            )}
+          </Row>
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        {editingId && (
+          <button
+            className="btn btn-apple-secondary me-2"
+            onClick={handleCancelEdit}
+            disabled={isSaving}
+          >
+            Avbryt redigering
+          </button>
+        )}
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? 'Sparar...' : editingId ? 'Spara användare' : 'Lägg till användare'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
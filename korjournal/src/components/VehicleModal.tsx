@@ -0,0 +1,338 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, Form, Row, Col, Table } from 'react-bootstrap';
+import { Vehicle, AllowanceType } from '@/lib/database';
+import { ALLOWANCE_TYPES } from '@/lib/allowance';
+import { isBenefitCar } from '@/lib/benefitCar';
+
+interface VehicleModalProps {
+  show: boolean;
+  onHide: () => void;
+  onVehiclesChanged: () => void;
+}
+
+const fuelTypes = ['Bensin', 'Diesel', 'El', 'Laddhybrid', 'Elhybrid', 'Etanol', 'Biogas'];
+
+const emptyVehicle: Omit<Vehicle, 'id'> = {
+  regNumber: '',
+  model: '',
+  fuelType: 'Bensin',
+  owner: '',
+  allowanceType: 'private',
+  privateYearLimitKm: 1000,
+  privateYearLimitTrips: 10,
+  privateMonthLimitKm: null
+};
+
+export default function VehicleModal({ show, onHide, onVehiclesChanged }: VehicleModalProps) {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<Omit<Vehicle, 'id'>>(emptyVehicle);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<{
+    type: 'success' | 'danger' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const loadVehicles = async () => {
+    try {
+      const response = await fetch('/api/vehicles');
+      const data = await response.json();
+      setVehicles(data.vehicles || []);
+    } catch (error) {
+      console.error('Error loading vehicles:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (show) {
+      loadVehicles();
+      setEditingId(null);
+      setForm(emptyVehicle);
+      setSaveStatus({ type: null, message: '' });
+    }
+  }, [show]);
+
+  const handleEdit = (vehicle: Vehicle) => {
+    setEditingId(vehicle.id!);
+    setForm({
+      regNumber: vehicle.regNumber,
+      model: vehicle.model,
+      fuelType: vehicle.fuelType,
+      owner: vehicle.owner,
+      allowanceType: vehicle.allowanceType,
+      privateYearLimitKm: vehicle.privateYearLimitKm,
+      privateYearLimitTrips: vehicle.privateYearLimitTrips,
+      privateMonthLimitKm: vehicle.privateMonthLimitKm
+    });
+    setSaveStatus({ type: null, message: '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyVehicle);
+  };
+
+  const handleSave = async () => {
+    if (!form.regNumber || !form.model) {
+      setSaveStatus({
+        type: 'danger',
+        message: 'Registreringsnummer och modell måste anges'
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(editingId ? `/api/vehicles/${editingId}` : '/api/vehicles', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setSaveStatus({ type: 'success', message: result.message });
+        setEditingId(null);
+        setForm(emptyVehicle);
+        await loadVehicles();
+        onVehiclesChanged();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte spara fordon' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid sparande' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (vehicle: Vehicle) => {
+    const confirmDelete = window.confirm(`Är du säker på att du vill ta bort ${vehicle.regNumber}?`);
+
+    if (!confirmDelete) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/vehicles/${vehicle.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        await loadVehicles();
+        onVehiclesChanged();
+      } else {
+        setSaveStatus({ type: 'danger', message: result.error || 'Kunde inte ta bort fordon' });
+      }
+    } catch {
+      setSaveStatus({ type: 'danger', message: 'Ett fel uppstod vid borttagning av fordon' });
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onHide();
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={handleClose} size="lg" centered className="modal-apple">
+      <Modal.Header closeButton={!isSaving}>
+        <Modal.Title>Fordon</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {vehicles.length === 0 ? (
+          <div className="text-muted small mb-4">Inga fordon registrerade ännu.</div>
+        ) : (
+          <div className="table-responsive mb-4">
+            <Table hover className="mb-0 apple-table">
+              <thead>
+                <tr>
+                  <th>Regnummer</th>
+                  <th>Modell</th>
+                  <th className="d-none d-sm-table-cell">Drivmedel</th>
+                  <th className="d-none d-sm-table-cell">Ägare</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {vehicles.map(vehicle => (
+                  <tr key={vehicle.id} onClick={() => handleEdit(vehicle)} style={{ cursor: 'pointer' }}>
+                    <td className="fw-medium">{vehicle.regNumber}</td>
+                    <td>{vehicle.model}</td>
+                    <td className="d-none d-sm-table-cell text-muted small">{vehicle.fuelType}</td>
+                    <td className="d-none d-sm-table-cell text-muted small">{vehicle.owner}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        className="btn btn-sm text-danger p-0"
+                        style={{ border: 'none', background: 'none', fontSize: '0.8rem' }}
+                        title="Ta bort fordon"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(vehicle);
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+
+        <h6 className="fw-medium mb-3" style={{ color: 'var(--apple-gray-6)' }}>
+          {editingId ? 'Redigera fordon' : 'Lägg till fordon'}
+        </h6>
+        <Form>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Registreringsnummer *</label>
+              <Form.Control
+                type="text"
+                value={form.regNumber}
+                onChange={(e) => setForm({ ...form, regNumber: e.target.value })}
+                className="form-control-apple"
+                placeholder="ABC123"
+                disabled={isSaving}
+              />
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Märke/modell *</label>
+              <Form.Control
+                type="text"
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+                className="form-control-apple"
+                placeholder="Volvo XC90"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Drivmedel</label>
+              <Form.Select
+                value={form.fuelType}
+                onChange={(e) => setForm({ ...form, fuelType: e.target.value })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                {!fuelTypes.includes(form.fuelType) && <option value={form.fuelType}>{form.fuelType || 'Ej angivet'}</option>}
+                {fuelTypes.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Ägare</label>
+              <Form.Control
+                type="text"
+                value={form.owner}
+                onChange={(e) => setForm({ ...form, owner: e.target.value })}
+                className="form-control-apple"
+                placeholder="Privat eller företagsnamn"
+                disabled={isSaving}
+              />
+            </Col>
+          </Row>
+          <Row>
+            <Col md={6} className="mb-3">
+              <label className="form-label fw-medium">Milersättning</label>
+              <Form.Select
+                value={form.allowanceType}
+                onChange={(e) => setForm({ ...form, allowanceType: e.target.value as AllowanceType })}
+                className="form-control-apple"
+                disabled={isSaving}
+              >
+                {Object.entries(ALLOWANCE_TYPES).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </Form.Select>
+              <Form.Text className="text-muted">
+                Avgör vilken sats tjänsteresorna ersätts med. För förmånsbilar bevakas privatkörningen.
+              </Form.Text>
+            </Col>
+          </Row>
+          {isBenefitCar(form) && (
+            <Row>
+              <Col sm={4} className="mb-3">
+                <label className="form-label fw-medium">Privat km per år</label>
+                <Form.Control
+                  type="number"
+                  min={0}
+                  value={form.privateYearLimitKm}
+                  onChange={(e) => setForm({ ...form, privateYearLimitKm: Number(e.target.value) })}
+                  className="form-control-apple"
+                  disabled={isSaving}
+                />
+              </Col>
+              <Col sm={4} className="mb-3">
+                <label className="form-label fw-medium">Tillfällen per år</label>
+                <Form.Control
+                  type="number"
+                  min={0}
+                  value={form.privateYearLimitTrips}
+                  onChange={(e) => setForm({ ...form, privateYearLimitTrips: Number(e.target.value) })}
+                  className="form-control-apple"
+                  disabled={isSaving}
+                />
+              </Col>
+              <Col sm={4} className="mb-3">
+                <label className="form-label fw-medium">Privat km per månad</label>
+                <Form.Control
+                  type="number"
+                  min={0}
+                  value={form.privateMonthLimitKm ?? ''}
+                  onChange={(e) => setForm({ ...form, privateMonthLimitKm: e.target.value ? Number(e.target.value) : null })}
+                  className="form-control-apple"
+                  placeholder="Ingen gräns"
+                  disabled={isSaving}
+                />
+              </Col>
+              <Col xs={12} className="mb-3">
+                <Form.Text className="text-muted">
+                  Privatkörning räknas som ringa omfattning om den stannar under gränserna.
+                  Skatteverkets gränser är 100 mil och 10 tillfällen per år.
+                </Form.Text>
+              </Col>
+            </Row>
+          )}
+
+          {saveStatus.type && (
+            <div className={`alert-apple alert-${saveStatus.type} mb-3`}>
+              {saveStatus.message}
+            </div>
+          )}
+        </Form>
+      </Modal.Body>
+      <Modal.Footer>
+        {editingId && (
+          <button
+            className="btn btn-apple-secondary me-2"
+            onClick={handleCancelEdit}
+            disabled={isSaving}
+          >
+            Avbryt redigering
+          </button>
+        )}
+        <button
+          className="btn btn-apple-primary"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? 'Sparar...' : editingId ? 'Spara fordon' : 'Lägg till fordon'}
+        </button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
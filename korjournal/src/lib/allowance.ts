@@ -0,0 +1,116 @@
+import type { Trip, Vehicle, MileageRate, AllowanceType } from './database';
+
+export const ALLOWANCE_TYPES: Record<AllowanceType, string> = {
+  private: 'Privat bil',
+  benefit_fuel: 'Förmånsbil, drivmedel',
+  benefit_electric: 'Förmånsbil, el'
+};
+
+export const isAllowanceType = (value: unknown): value is AllowanceType =>
+  typeof value === 'string' && value in ALLOWANCE_TYPES;
+
+// One business trip with the allowance it gives
+export interface AllowanceTrip {
+  tripId: number;
+  startDate: string;
+  startPosition: string;
+  endDestination: string;
+  notes: string;
+  distance: number;
+  ratePerMil: number | null;
+  amount: number;
+}
+
+export interface AllowanceMonth {
+  month: string;
+  trips: number;
+  distance: number;
+  amount: number;
+}
+
+export interface AllowanceSummary {
+  totalDistance: number;
+  totalAmount: number;
+  // Business km on dates that no rate covers; they give no allowance
+  unratedDistance: number;
+  months: AllowanceMonth[];
+  trips: AllowanceTrip[];
+}
+
+const roundKr = (amount: number) => Math.round(amount * 100) / 100;
+
+// The rate for a vehicle type on a "YYYY-MM-DD ..." date. If ranges overlap,
+// the one that started last wins.
+export function findRate(rates: MileageRate[], vehicleType: AllowanceType, date: string): MileageRate | null {
+  const day = date.slice(0, 10);
+  return rates
+    .filter(rate => rate.vehicleType === vehicleType && rate.validFrom <= day && (!rate.validTo || day <= rate.validTo))
+    .sort((a, b) => b.validFrom.localeCompare(a.validFrom))[0] || null;
+}
+
+// Allowance for the business trips among the given ones. The rate follows the
+// trip's vehicle and date; trips without a vehicle count as in a private car.
+export function calculateAllowance(
+  trips: Trip[],
+  vehicles: Vehicle[],
+  rates: MileageRate[],
+  businessCategories: string[]
+): AllowanceSummary {
+  const rows: AllowanceTrip[] = trips
+    .filter(trip => businessCategories.includes(trip.category))
+    .map(trip => {
+      const vehicleType = vehicles.find(v => v.id === trip.vehicleId)?.allowanceType || 'private';
+      const rate = findRate(rates, vehicleType, trip.startDate);
+      return {
+        tripId: trip.id!,
+        startDate: trip.startDate,
+        startPosition: trip.startPlaceName || trip.startPosition,
+        endDestination: trip.endPlaceName || trip.endDestination,
+        notes: [trip.notes, trip.customerName].filter(Boolean).join(', '),
+        distance: trip.distance,
+        ratePerMil: rate?.ratePerMil ?? null,
+        amount: rate ? roundKr(trip.distance / 10 * rate.ratePerMil) : 0
+      };
+    });
+
+  const months = new Map<string, AllowanceMonth>();
+  for (const row of rows) {
+    const month = row.startDate.slice(0, 7);
+    const stats = months.get(month) || { month, trips: 0, distance: 0, amount: 0 };
+    stats.trips += 1;
+    stats.distance += row.distance;
+    stats.amount = roundKr(stats.amount + row.amount);
+    months.set(month, stats);
+  }
+
+  return {
+    totalDistance: rows.reduce((sum, row) => sum + row.distance, 0),
+    totalAmount: roundKr(rows.reduce((sum, row) => sum + row.amount, 0)),
+    unratedDistance: rows.filter(row => row.ratePerMil === null).reduce((sum, row) => sum + row.distance, 0),
+    months: [...months.values()].sort((a, b) => a.month.localeCompare(b.month)),
+    trips: rows
+  };
+}
+
+// Reads a rate from a request body. Returns an error message for invalid input.
+export function parseMileageRate(body: Record<string, unknown>): Omit<MileageRate, 'id'> | string {
+  if (!isAllowanceType(body.vehicleType)) {
+    return 'Välj fordonstyp';
+  }
+
+  const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  if (!isDate(body.validFrom)) {
+    return 'Ange från vilket datum satsen gäller';
+  }
+  const validTo = body.validTo ? String(body.validTo) : null;
+  if (validTo !== null && (!isDate(validTo) || validTo < String(body.validFrom))) {
+    return 'Slutdatumet måste vara ett datum efter startdatumet';
+  }
+
+  const ratePerMil = Number(String(body.ratePerMil ?? '').replace(',', '.'));
+  if (!body.ratePerMil || Number.isNaN(ratePerMil) || ratePerMil < 0) {
+    return 'Ange satsen i kr per mil';
+  }
+
+  return { vehicleType: body.vehicleType, validFrom: String(body.validFrom), validTo, ratePerMil };
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { getSessionUser, insertSession, deleteSession } from './database';
+import type { Trip, User, UserRole } from './database';
+import { SESSION_COOKIE } from './sessionCookie';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const SESSION_DAYS = 30;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Roles allowed to change data. Drivers are further limited to their own trips.
+export const EDITOR_ROLES: UserRole[] = ['owner', 'driver'];
+export const OWNER_ROLES: UserRole[] = ['owner'];
+export const USER_ROLES: UserRole[] = ['owner', 'driver', 'accountant'];
+
+// Passwords are stored as "salt:hash" using scrypt
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, 64);
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [salt, hash] = storedHash.split(':');
+  if (!salt || !hash) return false;
+  
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// Only a hash of the session token is stored, so a leaked database can't be
+// used to take over sessions
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// The stored hash of the request's session, so a change can leave the
+// session that made it alone
+export function getSessionHash(request: NextRequest): string | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? hashToken(token) : null;
+}
+
+export async function startSession(request: NextRequest, response: NextResponse, userId: number): Promise<void> {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  
+  await insertSession(hashToken(token), userId, expiresAt.toISOString());
+  
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    // The app is often served over plain HTTP on the local network
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    expires: expiresAt
+  });
+}
+
+export async function endSession(request: NextRequest, response: NextResponse): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await deleteSession(hashToken(token));
+  }
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+export async function getCurrentUser(request: NextRequest): Promise<User | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  
+  return getSessionUser(hashToken(token));
+}
+
+// Returns the logged in user, or a response the route should return as is:
+//
+//   const user = await requireUser(request, EDITOR_ROLES);
+//   if (user instanceof NextResponse) return user;
+export async function requireUser(request: NextRequest, roles: UserRole[] = USER_ROLES): Promise<User | NextResponse> {
+  const user = await getCurrentUser(request);
+  
+  if (!user) {
+    return NextResponse.json({ error: 'Du måste logga in' }, { status: 401 });
+  }
+  
+  if (!roles.includes(user.role)) {
+    return NextResponse.json({ error: 'Du har inte behörighet för detta' }, { status: 403 });
+  }
+  
+  return user;
+}
+
+// Drivers may only change trips that are logged on themselves
+export function canEditTrip(user: User, trip: Trip): boolean {
+  return user.role !== 'driver' || (!!user.driverId && trip.driverId === user.driverId);
+}
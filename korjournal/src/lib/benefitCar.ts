@@ -0,0 +1,121 @@
+import type { Trip, Vehicle } from './database';
+
+// Warn once private driving has used this share of a limit
+export const PRIVATE_USE_WARNING_SHARE = 0.8;
+
+export const isBenefitCar = (vehicle: Pick<Vehicle, 'allowanceType'>) => vehicle.allowanceType !== 'private';
+
+export interface PrivateUseMonth {
+  month: string;
+  privateTrips: number;
+  privateDistance: number;
+  overLimit: boolean;
+}
+
+export interface PrivateUseWarning {
+  level: 'warning' | 'exceeded';
+  message: string;
+}
+
+// A benefit car's private driving in one calendar year, measured against the
+// vehicle's limits. Occasions are days with private driving.
+export interface PrivateUseSummary {
+  year: number;
+  privateTrips: number;
+  privateDistance: number;
+  occasions: number;
+  limits: Pick<Vehicle, 'privateYearLimitKm' | 'privateYearLimitTrips' | 'privateMonthLimitKm'>;
+  months: PrivateUseMonth[];
+  warnings: PrivateUseWarning[];
+}
+
+const formatKm = (km: number) => `${km.toLocaleString('sv-SE', { maximumFractionDigits: 1 })} km`;
+
+const monthName = (month: string) =>
+  new Date(`${month}-01`).toLocaleDateString('sv-SE', { year: 'numeric', month: 'long' });
+
+// Trips in categories that are not business travel count as private driving.
+// The trips should be the vehicle's trips for the year.
+export function summarizePrivateUse(
+  trips: Trip[],
+  vehicle: Vehicle,
+  businessCategories: string[],
+  year: number
+): PrivateUseSummary {
+  const privateTrips = trips.filter(trip =>
+    trip.startDate.startsWith(`${year}-`) && !businessCategories.includes(trip.category)
+  );
+  const privateDistance = privateTrips.reduce((sum, trip) => sum + trip.distance, 0);
+  const occasions = new Set(privateTrips.map(trip => trip.startDate.slice(0, 10))).size;
+
+  const months = Array.from({ length: 12 }, (_, index) => {
+    const month = `${year}-${String(index + 1).padStart(2, '0')}`;
+    const monthTrips = privateTrips.filter(trip => trip.startDate.startsWith(month));
+    const distance = monthTrips.reduce((sum, trip) => sum + trip.distance, 0);
+    return {
+      month,
+      privateTrips: monthTrips.length,
+      privateDistance: distance,
+      overLimit: vehicle.privateMonthLimitKm !== null && distance > vehicle.privateMonthLimitKm
+    };
+  });
+
+  const warnings: PrivateUseWarning[] = [];
+  const checkLimit = (used: number, limit: number, describe: (used: number, limit: number) => string) => {
+    if (used > limit) {
+      warnings.push({ level: 'exceeded', message: describe(used, limit) });
+    } else if (limit > 0 && used >= limit * PRIVATE_USE_WARNING_SHARE) {
+      warnings.push({ level: 'warning', message: describe(used, limit) });
+    }
+  };
+
+  checkLimit(privateDistance, vehicle.privateYearLimitKm, (used, limit) =>
+    `Privatkörning ${year}: ${formatKm(used)} av högst ${formatKm(limit)}`);
+  checkLimit(occasions, vehicle.privateYearLimitTrips, (used, limit) =>
+    `Privatkörning ${year}: ${used} av högst ${limit} tillfällen`);
+  if (vehicle.privateMonthLimitKm !== null) {
+    const monthLimit = vehicle.privateMonthLimitKm;
+    months.filter(m => m.privateTrips > 0).forEach(m =>
+      checkLimit(m.privateDistance, monthLimit, (used, limit) =>
+        `Privatkörning ${monthName(m.month)}: ${formatKm(used)} av högst ${formatKm(limit)}`));
+  }
+
+  return {
+    year,
+    privateTrips: privateTrips.length,
+    privateDistance,
+    occasions,
+    limits: {
+      privateYearLimitKm: vehicle.privateYearLimitKm,
+      privateYearLimitTrips: vehicle.privateYearLimitTrips,
+      privateMonthLimitKm: vehicle.privateMonthLimitKm
+    },
+    months,
+    warnings
+  };
+}
+
+// Reads a vehicle's private driving limits from a request body. Missing
+// values fall back to the defaults. Returns an error message for invalid input.
+export function parsePrivateUseLimits(
+  body: Record<string, unknown>
+): PrivateUseSummary['limits'] | string {
+  const parse = (value: unknown, fallback: number | null) =>
+    value === undefined || value === null || value === '' ? fallback : Number(String(value).replace(',', '.'));
+
+  const yearKm = parse(body.privateYearLimitKm, 1000)!;
+  const yearTrips = parse(body.privateYearLimitTrips, 10)!;
+  const monthKm = parse(body.privateMonthLimitKm, null);
+
+  if (Number.isNaN(yearKm) || yearKm < 0) {
+    return 'Ogiltig gräns för privatkörning per år';
+  }
+  if (!Number.isInteger(yearTrips) || yearTrips < 0) {
+    return 'Antalet tillfällen per år måste vara ett heltal';
+  }
+  if (monthKm !== null && (Number.isNaN(monthKm) || monthKm < 0)) {
+    return 'Ogiltig gräns för privatkörning per månad';
+  }
+
+  return { privateYearLimitKm: yearKm, privateYearLimitTrips: yearTrips, privateMonthLimitKm: monthKm };
+}
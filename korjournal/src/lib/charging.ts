@@ -0,0 +1,190 @@
+import type { ChargingSession, ChargingLocation, Vehicle } from './database';
+import type { SpotPriceIndex } from './spotPrices';
+
+export const CHARGING_LOCATIONS: Record<ChargingLocation, string> = {
+  home: 'Hemma',
+  work: 'Arbetet',
+  public: 'Publik laddare'
+};
+
+export interface ChargingLocationSummary {
+  location: ChargingLocation;
+  sessions: number;
+  kwh: number;
+  cost: number;
+}
+
+export interface ChargingSummary {
+  sessionCount: number;
+  // Into the battery, and bought including the charger's losses
+  kwh: number;
+  purchasedKwh: number;
+  totalCost: number;
+  // Per kWh into the battery, which is what the car reports using. Null
+  // without priced sessions.
+  costPerKwh: number | null;
+  locations: ChargingLocationSummary[];
+  // Home charging costed at hourly spot prices, and what the same energy
+  // would have cost at each month's average price
+  spotSessions: number;
+  spotSavings: number;
+  // Spot priced sessions with hours that have no imported price
+  unpricedSessions: number;
+}
+
+export const purchasedKwh = (session: ChargingSession) => session.kwh * (1 + session.lossPercent / 100);
+
+// Home charging logged with start and end time but no price of its own is
+// costed at the hourly spot price
+export const isSpotPriced = (session: ChargingSession) =>
+  session.location === 'home' && session.pricePerKwh === null && session.totalPrice === null;
+
+const minutesOf = (time: string) => Date.parse(`${time.replace(' ', 'T')}:00Z`) / 60000;
+
+// The bought energy spread evenly over the session's minutes and costed per
+// hour, and the same energy at the average price of the month it started in.
+// Null if an hour has no price.
+export function spotChargingCost(
+  session: ChargingSession,
+  spot: SpotPriceIndex
+): { cost: number; averageCost: number } | null {
+  const average = spot.monthlyAverage.get(session.startedAt.slice(0, 7));
+  if (!session.endedAt || average === undefined) {
+    return null;
+  }
+
+  const start = minutesOf(session.startedAt);
+  const end = minutesOf(session.endedAt);
+  const kwhPerMinute = end > start ? purchasedKwh(session) / (end - start) : 0;
+  let cost = 0;
+  for (let hourStart = start - start % 60; hourStart < end; hourStart += 60) {
+    const hour = `${new Date(hourStart * 60000).toISOString().slice(0, 13).replace('T', ' ')}:00`;
+    const price = spot.hourly.get(hour);
+    if (price === undefined) {
+      return null;
+    }
+    cost += (Math.min(end, hourStart + 60) - Math.max(start, hourStart)) * kwhPerMinute * price;
+  }
+
+  return { cost, averageCost: purchasedKwh(session) * average };
+}
+
+// Null for spot priced sessions that can't be costed
+export function chargingCost(session: ChargingSession, spot?: SpotPriceIndex): number | null {
+  if (session.totalPrice !== null) {
+    return session.totalPrice;
+  }
+  if (session.pricePerKwh !== null) {
+    return purchasedKwh(session) * session.pricePerKwh;
+  }
+  return spot ? spotChargingCost(session, spot)?.cost ?? null : null;
+}
+
+export function summarizeCharging(sessions: ChargingSession[], spot?: SpotPriceIndex): ChargingSummary {
+  const costs = new Map(sessions.map(session => [session, chargingCost(session, spot)]));
+  const priced = sessions.filter(session => costs.get(session) !== null);
+  const costOf = (list: ChargingSession[]) => list.reduce((sum, session) => sum + (costs.get(session) ?? 0), 0);
+
+  const kwh = sessions.reduce((sum, session) => sum + session.kwh, 0);
+  const pricedKwh = priced.reduce((sum, session) => sum + session.kwh, 0);
+  const totalCost = costOf(priced);
+
+  let spotSessions = 0;
+  let spotSavings = 0;
+  for (const session of sessions.filter(isSpotPriced)) {
+    const spotCost = spot && spotChargingCost(session, spot);
+    if (spotCost) {
+      spotSessions++;
+      spotSavings += spotCost.averageCost - spotCost.cost;
+    }
+  }
+
+  const locations = (Object.keys(CHARGING_LOCATIONS) as ChargingLocation[])
+    .map(location => {
+      const atLocation = sessions.filter(session => session.location === location);
+      return {
+        location,
+        sessions: atLocation.length,
+        kwh: atLocation.reduce((sum, session) => sum + session.kwh, 0),
+        cost: costOf(atLocation)
+      };
+    })
+    .filter(summary => summary.sessions > 0);
+
+  return {
+    sessionCount: sessions.length,
+    kwh,
+    purchasedKwh: sessions.reduce((sum, session) => sum + purchasedKwh(session), 0),
+    totalCost,
+    costPerKwh: pricedKwh > 0 ? totalCost / pricedKwh : null,
+    locations,
+    spotSessions,
+    spotSavings,
+    unpricedSessions: sessions.length - priced.length
+  };
+}
+
+// Reads a charging session from a request body. Returns an error message for invalid input.
+export function parseChargingSession(
+  body: Record<string, unknown>,
+  vehicles: Vehicle[]
+): Omit<ChargingSession, 'id'> | string {
+  const vehicleId = Number(body.vehicleId);
+  if (!vehicles.some(v => v.id === vehicleId)) {
+    return 'Välj fordon';
+  }
+
+  const isDateTime = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2})?$/.test(value);
+  if (!isDateTime(body.startedAt)) {
+    return 'Ange när laddningen startade';
+  }
+  const endedAt = body.endedAt ? String(body.endedAt) : null;
+  if (endedAt !== null && (!isDateTime(endedAt) || endedAt < String(body.startedAt))) {
+    return 'Laddningen måste sluta efter att den startade';
+  }
+
+  if (typeof body.location !== 'string' || !(body.location in CHARGING_LOCATIONS)) {
+    return 'Välj var bilen laddades';
+  }
+
+  const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+  const parse = (value: unknown) => Number(String(value).replace(',', '.').replace(/\s/g, ''));
+
+  const kwh = parse(body.kwh);
+  if (isBlank(body.kwh) || Number.isNaN(kwh) || kwh <= 0) {
+    return 'Ange laddad energi i kWh';
+  }
+
+  const pricePerKwh = isBlank(body.pricePerKwh) ? null : parse(body.pricePerKwh);
+  const totalPrice = isBlank(body.totalPrice) ? null : parse(body.totalPrice);
+  if (pricePerKwh === null && totalPrice === null) {
+    if (body.location !== 'home') {
+      return 'Ange pris per kWh eller totalpris';
+    }
+    // Costed at the spot price for the hours it charged
+    if (String(body.startedAt).length < 16 || !endedAt || endedAt.length < 16) {
+      return 'Ange pris, eller start- och sluttid för att räkna med spotpris';
+    }
+  }
+  if ((pricePerKwh !== null && (Number.isNaN(pricePerKwh) || pricePerKwh < 0)) ||
+      (totalPrice !== null && (Number.isNaN(totalPrice) || totalPrice < 0))) {
+    return 'Ogiltigt pris';
+  }
+
+  const lossPercent = isBlank(body.lossPercent) ? 0 : parse(body.lossPercent);
+  if (Number.isNaN(lossPercent) || lossPercent < 0 || lossPercent >= 100) {
+    return 'Laddförlusten anges i procent, 0–99';
+  }
+
+  return {
+    vehicleId,
+    startedAt: String(body.startedAt),
+    endedAt,
+    kwh,
+    location: body.location as ChargingLocation,
+    pricePerKwh,
+    totalPrice,
+    lossPercent,
+    notes: String(body.notes || '').trim()
+  };
+}
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { parseCSVRows, categorizeRows, decodeCSV, ImportRow } from './csvParser';
+import { insertTrip, restoreUndoneImportTrip, getSetting, getCategories, getRules, ensureCategories, insertImport, updateImportCounts, CategorizationRule, User } from './database';
+
+// A CSV file read and categorized the way importing it would, shared by the
+// import, its dry run and the rebuild after database corruption
+export interface ImportFile extends ImportSettings {
+  hash: string;
+  rows: ImportRow[];
+  categoryNames: string[];
+}
+
+// What decides the categories of an import besides the file itself
+export interface ImportSettings {
+  rules: CategorizationRule[];
+  mapOkategoriseratToPrivat: boolean;
+}
+
+export interface ImportResult {
+  importId: number;
+  imported: number;
+  importedIds: number[];
+  duplicates: number;
+  rejected: number;
+  errors: number;
+  totalAttempted: number;
+}
+
+// Categorizes with the current rules and mapping unless given the ones an
+// earlier import used
+export async function readImportFile(bytes: Uint8Array, settings?: ImportSettings): Promise<ImportFile> {
+  const hash = crypto.createHash('sha256').update(bytes).digest('hex');
+  const csvContent = decodeCSV(bytes);
+  console.log('Decoded CSV content sample:', csvContent.substring(0, 200));
+  
+  // Get the auto-mapping setting
+  const mapOkategoriseratToPrivat = settings
+    ? settings.mapOkategoriseratToPrivat
+    : (await getSetting('mapOkategoriseratToPrivat')) === 'true';
+  console.log('Auto-mapping enabled:', mapOkategoriseratToPrivat);
+  
+  const categories = await getCategories();
+  const rules = settings ? settings.rules : await getRules();
+  const rows = categorizeRows(parseCSVRows(csvContent), rules, mapOkategoriseratToPrivat, categories);
+  
+  return { hash, rows, rules, mapOkategoriseratToPrivat, categoryNames: categories.map(c => c.name) };
+}
+
+// Inserts the accepted rows into an existing batch. Duplicates are skipped
+// by the trips table's unique constraint, except trips an undone import
+// deleted, which are brought back into this batch.
+export async function insertImportedTrips(
+  file: ImportFile,
+  vehicleId: number,
+  importId: number,
+  importedBy: Pick<User, 'id' | 'username'>
+): Promise<Pick<ImportResult, 'imported' | 'importedIds' | 'duplicates' | 'errors'>> {
+  const trips = file.rows.flatMap(row => row.trip && !row.error ? [row.trip] : []);
+  
+  await ensureCategories(trips.map(trip => trip.category));
+  
+  let imported = 0;
+  let duplicates = 0;
+  let errors = 0;
+  const importedIds: number[] = [];
+  
+  for (const trip of trips) {
+    try {
+      const result = await insertTrip({ ...trip, vehicleId, importId })
+        || await restoreUndoneImportTrip({ ...trip, vehicleId, importId }, importedBy);
+      if (result !== false) {
+        imported++;
+        importedIds.push(result);
+      } else {
+        duplicates++;
+      }
+    } catch (error) {
+      console.error('Error processing trip:', error);
+      errors++;
+    }
+  }
+  
+  return { imported, importedIds, duplicates, errors };
+}
+
+// Inserts the accepted rows as a new import batch. Returns null if the batch
+// couldn't be recorded.
+export async function importRows(
+  file: ImportFile,
+  upload: { fileName: string; originalName: string; importedAt: string },
+  vehicleId: number,
+  importedBy: Pick<User, 'id' | 'username'>
+): Promise<ImportResult | null> {
+  const rejected = file.rows.filter(row => row.error).length;
+  
+  const importId = await insertImport({
+    ...upload,
+    hash: file.hash,
+    vehicleId,
+    userId: importedBy.id ?? null,
+    username: importedBy.username,
+    imported: 0,
+    duplicates: 0,
+    rejected,
+    errors: 0,
+    rules: JSON.stringify(file.rules),
+    mapOkategoriseratToPrivat: file.mapOkategoriseratToPrivat
+  });
+  if (importId === false) return null;
+  
+  const { imported, importedIds, duplicates, errors } = await insertImportedTrips(file, vehicleId, importId, importedBy);
+  
+  await updateImportCounts(importId, { imported, duplicates, rejected, errors });
+  
+  return { importId, imported, importedIds, duplicates, rejected, errors, totalAttempted: imported + duplicates + errors };
+}
@@ -1,4 +1,6 @@
-import { Trip } from './database';
+import { Trip, Category, CategorizationRule } from './database';
+import { parseAmount, parseDuration } from './units';
+import { categorizeTrip } from './rules';
 
 function cleanText(text: string): string {
   if (!text) return '';
@@ -30,177 +32,212 @@ function valuesToTrip(values: string[], mapOkategoriseratToPrivat: boolean): Omi
     endDate: cleanText(values[4] || ''),
     odometerEnd: parseInt(cleanText(values[5] || '0')),
     endDestination: cleanText(values[6] || ''),
-    duration: cleanText(values[7] || ''),
+    durationMinutes: parseDuration(cleanText(values[7] || '')),
     distance: parseFloat(cleanText(values[8] || '0').replace(',', '.')),
-    fuelConsumption: cleanText(values[9] || ''),
+    fuelLiters: parseAmount(cleanText(values[9] || '')),
     title: isLegacyFormat ? cleanText(values[10] || '') : '',
-    batteryConsumption: cleanText(values[isLegacyFormat ? 11 : 10] || ''),
-    batteryRegeneration: isLegacyFormat ? cleanText(values[12] || '') : '',
+    batteryKwh: parseAmount(cleanText(values[isLegacyFormat ? 11 : 10] || '')),
+    regenerationKwh: isLegacyFormat ? parseAmount(cleanText(values[12] || '')) : null,
     notes: cleanText(values[isLegacyFormat ? 13 : 11] || '')
   };
 }
 
-export function parseCSVData(csvContent: string, mapOkategoriseratToPrivat: boolean = false): Promise<Omit<Trip, 'id'>[]> {
-  return new Promise((resolve) => {
-    const results: Omit<Trip, 'id'>[] = [];
-    const errors: string[] = [];
-    let skippedLines = 0;
-    
-    console.log('CSV content length:', csvContent.length);
-    
-    // Clean the content and remove BOM
-    const cleanedContent = csvContent
-      .replace(/^\uFEFF/, '') // Remove BOM
-      .replace(/\u0000/g, '') // Remove null characters
-      .replace(/\u00A0/g, ' '); // Replace non-breaking spaces
-
-    console.log('Cleaned content first 200 chars:', cleanedContent.substring(0, 200));
-
-    // Check if this is a properly formatted CSV with line breaks
-    const lines = cleanedContent.split(/\r?\n/);
-    console.log('Number of lines found:', lines.length);
-    
-    if (lines.length > 2) {
-      // This looks like a proper CSV with line breaks
-      console.log('Detected standard CSV format with line breaks');
-      
-      // Skip header line and process data lines
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-        
-        console.log(`Processing line ${i}:`, line.substring(0, 100) + '...');
-        
-        const values = line.split(';');
-        console.log(`Line ${i} has ${values.length} values`);
-
-        if (values.length >= 12) {
-          try {
-            const trip = valuesToTrip(values, mapOkategoriseratToPrivat);
-
-            console.log('Parsed trip:', {
-              category: trip.category,
-              startDate: trip.startDate,
-              odometerStart: trip.odometerStart,
-              odometerEnd: trip.odometerEnd
-            });
-
-            // Validate required fields
-            if (!trip.category || !trip.startDate) {
-              errors.push(`Line ${i}: Missing required fields (category: ${trip.category}, startDate: ${trip.startDate})`);
-              skippedLines++;
-            } else if (trip.odometerStart > trip.odometerEnd && trip.distance > 0) {
-              // Only reject if start > end AND distance is positive (indicates data error)
-              errors.push(`Line ${i}: Invalid odometer values (start: ${trip.odometerStart} > end: ${trip.odometerEnd}) with positive distance: ${trip.distance}`);
-              skippedLines++;
-            } else if (trip.odometerStart === 0 && trip.odometerEnd === 0 && trip.distance === 0) {
-              // Skip completely empty trips
-              errors.push(`Line ${i}: Empty trip with all zero values`);
-              skippedLines++;
-            } else {
-              results.push(trip);
-            }
-          } catch (error) {
-            const errorMsg = `Line ${i}: Parse error - ${error instanceof Error ? error.message : 'Unknown error'}`;
-            console.error(errorMsg);
-            errors.push(errorMsg);
-            skippedLines++;
-          }
-        }
-      }
-    } else {
-      // This is the old Volvo format - all on one line
-      console.log('Detected Volvo single-line CSV format');
-      
-      const content = cleanedContent;
-      
-      // Find all occurrences of patterns that look like category names at the start of rows
-      const categoryPattern = /(Privat|Arbete|Okategoriserat);/g;
-      
-      // First, extract the header (everything before the first category)
-      const firstCategoryMatch = content.search(categoryPattern);
-      if (firstCategoryMatch === -1) {
-        console.log('No categories found in CSV');
-        resolve(results);
-        return;
-      }
-      
-      const header = content.substring(0, firstCategoryMatch).trim();
-      console.log('Extracted header:', header);
-      
-      // Now find all the data rows
-      const dataContent = content.substring(firstCategoryMatch);
-      console.log('Data content length:', dataContent.length);
-      
-      // Split by category patterns to get individual rows
-      const rows = dataContent.split(/(?=(?:Privat|Arbete|Okategoriserat);)/);
-      console.log('Found rows:', rows.length);
-      
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i].trim();
-        if (!row) continue;
-        
-        console.log(`Processing row ${i}:`, row.substring(0, 100) + '...');
-        
-        const values = row.split(';');
-        console.log(`Row ${i} has ${values.length} values`);
-
-        if (values.length >= 12) {
-          try {
-            const trip = valuesToTrip(values, mapOkategoriseratToPrivat);
-
-            console.log('Parsed trip:', {
-              category: trip.category,
-              startDate: trip.startDate,
-              odometerStart: trip.odometerStart,
-              odometerEnd: trip.odometerEnd
-            });
-
-            // Validate required fields
-            if (!trip.category || !trip.startDate) {
-              errors.push(`Row ${i}: Missing required fields (category: ${trip.category}, startDate: ${trip.startDate})`);
-              skippedLines++;
-            } else if (trip.odometerStart > trip.odometerEnd && trip.distance > 0) {
-              // Only reject if start > end AND distance is positive (indicates data error)
-              errors.push(`Row ${i}: Invalid odometer values (start: ${trip.odometerStart} > end: ${trip.odometerEnd}) with positive distance: ${trip.distance}`);
-              skippedLines++;
-            } else if (trip.odometerStart === 0 && trip.odometerEnd === 0 && trip.distance === 0) {
-              // Skip completely empty trips
-              errors.push(`Row ${i}: Empty trip with all zero values`);
-              skippedLines++;
-            } else {
-              results.push(trip);
-            }
-          } catch (error) {
-            const errorMsg = `Row ${i}: Parse error - ${error instanceof Error ? error.message : 'Unknown error'}`;
-            console.error(errorMsg);
-            errors.push(errorMsg);
-            skippedLines++;
-          }
-        }
-      }
+// One data row of an import file with the trip read from it, or why it
+// was rejected. line is the line in the file, or the row number for the
+// single-line format.
+export interface CSVRow {
+  line: number;
+  trip: Omit<Trip, 'id'> | null;
+  error: string | null;
+}
+
+const MIN_COLUMNS = 12;
+
+// The categories Volvo's export writes. Every row of the single-line format
+// starts with one of them, so that format is split on these whatever the
+// table holds.
+const VOLVO_CATEGORIES = ['Privat', 'Arbete', 'Okategoriserat'];
+
+function parseRow(values: string[], line: number, mapOkategoriseratToPrivat: boolean): CSVRow {
+  if (values.length < MIN_COLUMNS) {
+    return { line, trip: null, error: `För få kolumner (${values.length} av minst ${MIN_COLUMNS})` };
+  }
+
+  try {
+    const trip = valuesToTrip(values, mapOkategoriseratToPrivat);
+
+    // Validate required fields
+    if (!trip.category || !trip.startDate) {
+      return { line, trip, error: `Obligatoriska fält saknas (${!trip.category ? 'kategori' : 'startdatum'})` };
+    }
+    if (isNaN(trip.odometerStart) || isNaN(trip.odometerEnd)) {
+      return { line, trip, error: 'Ogiltig mätarställning, måste vara ett tal' };
+    }
+    // Only reject if start > end AND distance is positive (indicates data error)
+    if (trip.odometerStart > trip.odometerEnd && trip.distance > 0) {
+      return { line, trip, error: `Ogiltig mätarställning: start ${trip.odometerStart} är större än slut ${trip.odometerEnd}` };
+    }
+    // Skip completely empty trips
+    if (trip.odometerStart === 0 && trip.odometerEnd === 0 && trip.distance === 0) {
+      return { line, trip, error: 'Tom resa, mätarställning och avstånd är noll' };
+    }
+    return { line, trip, error: null };
+  } catch (error) {
+    return { line, trip: null, error: `Kunde inte läsa raden: ${error instanceof Error ? error.message : 'okänt fel'}` };
+  }
+}
+
+// Every data row of the file, accepted or not, so the import can show why
+// rows were left out. Categories are as written in the file.
+export function parseCSVRows(
+  csvContent: string,
+  mapOkategoriseratToPrivat: boolean = false
+): CSVRow[] {
+  const rows: CSVRow[] = [];
+
+  console.log('CSV content length:', csvContent.length);
+
+  // Clean the content and remove BOM
+  const cleanedContent = csvContent
+    .replace(/^\uFEFF/, '') // Remove BOM
+    .replace(/\u0000/g, '') // Remove null characters
+    .replace(/\u00A0/g, ' '); // Replace non-breaking spaces
+
+  // Check if this is a properly formatted CSV with line breaks
+  const lines = cleanedContent.split(/\r?\n/);
+  console.log('Number of lines found:', lines.length);
+
+  if (lines.length > 2) {
+    // This looks like a proper CSV with line breaks
+    console.log('Detected standard CSV format with line breaks');
+
+    // Skip header line and process data lines
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+      rows.push(parseRow(line.split(';'), i + 1, mapOkategoriseratToPrivat));
+    }
+  } else {
+    // This is the old Volvo format - all on one line
+    console.log('Detected Volvo single-line CSV format');
+
+    // Find all occurrences of patterns that look like category names at the start of rows
+    const categoryAlternatives = VOLVO_CATEGORIES
+      .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('|');
+    const categoryPattern = new RegExp(`(${categoryAlternatives});`, 'g');
+
+    // Everything before the first category is the header
+    const firstCategoryMatch = cleanedContent.search(categoryPattern);
+    if (firstCategoryMatch === -1) {
+      console.log('No categories found in CSV');
+      return rows;
     }
 
-    const totalDataLines = lines.length > 2 ? lines.length - 1 : Math.max(0, results.length + skippedLines);
-    
-    console.log(`CSV Import Summary:
-    - Total data lines processed: ${totalDataLines}
-    - Successfully parsed: ${results.length} trips
-    - Skipped/invalid: ${skippedLines} lines
-    - Parsing errors: ${errors.length}
-    - Success rate: ${totalDataLines > 0 ? ((results.length / totalDataLines) * 100).toFixed(1) : 0}%`);
-    
-    if (errors.length > 0) {
-      console.warn('Detailed CSV parsing errors:');
-      errors.forEach((error, index) => {
-        if (index < 20) { // Log first 20 errors for better debugging
-          console.warn(`  ${index + 1}. ${error}`);
-        }
-      });
-      if (errors.length > 20) {
-        console.warn(`  ... and ${errors.length - 20} more errors`);
+    // Split by category patterns to get individual rows
+    const dataRows = cleanedContent
+      .substring(firstCategoryMatch)
+      .split(new RegExp(`(?=(?:${categoryAlternatives});)`));
+    console.log('Found rows:', dataRows.length);
+
+    dataRows.forEach((row, i) => {
+      if (row.trim()) {
+        rows.push(parseRow(row.trim().split(';'), i + 1, mapOkategoriseratToPrivat));
       }
+    });
+  }
+
+  const rejected = rows.filter(row => row.error);
+  console.log(`CSV Import Summary:
+    - Data rows: ${rows.length}
+    - Successfully parsed: ${rows.length - rejected.length} trips
+    - Rejected: ${rejected.length} rows`);
+
+  return rows;
+}
+
+// A row after categorization, with what the category was in the file when
+// a rule or the auto-mapping changed it
+export interface ImportRow extends CSVRow {
+  originalCategory: string | null;
+  categorizedBy: 'rule' | 'mapping' | null;
+}
+
+// Puts a category from the file on the one it stands for in the categories
+// table: the one with the same name or, for Volvo's categories, the one
+// marked with that name if it has been renamed. Anything else is kept as is
+// and added as a new category by the import.
+function toCategory(name: string, categories: Pick<Category, 'name' | 'volvoName'>[]): string {
+  if (categories.some(category => category.name === name)) return name;
+  return categories.find(category => category.volvoName === name)?.name ?? name;
+}
+
+// Rules get the first go at trips the driver left uncategorized in the
+// car; the auto-mapping only applies to what no rule matched
+export function categorizeRows(
+  rows: CSVRow[],
+  rules: CategorizationRule[],
+  mapOkategoriseratToPrivat: boolean,
+  categories: Pick<Category, 'name' | 'volvoName'>[]
+): ImportRow[] {
+  return rows.map(row => {
+    if (!row.trip || row.error) return { ...row, originalCategory: null, categorizedBy: null };
+
+    const category = toCategory(row.trip.category, categories);
+    const unchanged = { ...row, trip: { ...row.trip, category }, originalCategory: null, categorizedBy: null };
+    if (row.trip.category !== 'Okategoriserat') return unchanged;
+
+    const result = categorizeTrip(row.trip, rules);
+    if (result) {
+      return { ...row, trip: { ...row.trip, ...result }, originalCategory: category, categorizedBy: 'rule' as const };
+    }
+    if (mapOkategoriseratToPrivat) {
+      return {
+        ...row,
+        trip: { ...row.trip, category: toCategory('Privat', categories) },
+        originalCategory: category,
+        categorizedBy: 'mapping' as const
+      };
     }
-    resolve(results);
+    return unchanged;
   });
-}
\ No newline at end of file
+}
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'rejected';
+
+// What a dry run of the import says about one row
+export interface ImportPreviewRow {
+  line: number;
+  status: ImportRowStatus;
+  reason: string | null;
+  startDate: string;
+  startPosition: string;
+  endDestination: string;
+  odometerStart: number | null;
+  odometerEnd: number | null;
+  distance: number | null;
+  category: string;
+  originalCategory: string | null;
+  categorizedBy: 'rule' | 'mapping' | null;
+  ruleName: string | null;
+}
+
+// Reads the uploaded bytes, detecting the encoding from the BOM. Volvo's
+// export is UTF-16 LE with a BOM; files saved from other tools are usually
+// UTF-8 or Windows-1252.
+export function decodeCSV(bytes: Uint8Array): string {
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return new TextDecoder('utf-16le').decode(bytes.slice(2));
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return new TextDecoder('utf-16be').decode(bytes.slice(2));
+  }
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return new TextDecoder('utf-8').decode(bytes.slice(3));
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
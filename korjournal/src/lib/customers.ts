@@ -0,0 +1,63 @@
+import type { Customer, Project } from './database';
+
+const optionalId = (value: unknown) => parseInt(String(value ?? '')) || null;
+
+// Reads a customer from a request body. Returns an error message for invalid input.
+export function parseCustomer(body: Record<string, unknown>): Omit<Customer, 'id'> | string {
+  const name = String(body.name || '').trim();
+  if (!name) {
+    return 'Namn måste anges';
+  }
+
+  const rate = body.ratePerKm === undefined || body.ratePerKm === null || body.ratePerKm === ''
+    ? null
+    : Number(String(body.ratePerKm).replace(',', '.'));
+  if (Number.isNaN(rate) || (rate !== null && rate < 0)) {
+    return 'Ersättningen per km måste anges som ett positivt tal';
+  }
+
+  return { name, orgNumber: String(body.orgNumber || '').trim(), ratePerKm: rate };
+}
+
+// Reads a project from a request body. Returns an error message for invalid input.
+export function parseProject(body: Record<string, unknown>, customers: Customer[]): Omit<Project, 'id'> | string {
+  const name = String(body.name || '').trim();
+  if (!name) {
+    return 'Namn måste anges';
+  }
+
+  const customerId = optionalId(body.customerId);
+  if (!customers.some(customer => customer.id === customerId)) {
+    return 'Välj en kund';
+  }
+
+  return { customerId: customerId!, name, code: String(body.code || '').trim() };
+}
+
+// Checks the customer and project a trip or rule is linked to. A project
+// implies its customer, so the customer may be left out when a project is given.
+export function resolveCustomerProject(
+  body: Record<string, unknown>,
+  customers: Customer[],
+  projects: Project[]
+): { customerId: number | null; projectId: number | null } | string {
+  const projectId = optionalId(body.projectId);
+  let customerId = optionalId(body.customerId);
+
+  if (projectId !== null) {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) {
+      return 'Projektet finns inte';
+    }
+    if (customerId !== null && customerId !== project.customerId) {
+      return 'Projektet hör till en annan kund';
+    }
+    customerId = project.customerId;
+  }
+
+  if (customerId !== null && !customers.some(customer => customer.id === customerId)) {
+    return 'Kunden finns inte';
+  }
+
+  return { customerId, projectId };
+}
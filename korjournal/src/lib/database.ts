@@ -3,6 +3,9 @@ import { open } from 'sqlite';
 import type { Database } from 'sqlite';
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
+import { runMigrations, DatabaseVersionError, DatabaseMigrationError } from './migrations';
+import { findPlace } from './places';
 
 export interface Trip {
   id?: number;
@@ -13,17 +16,308 @@ export interface Trip {
   endDate: string;
   odometerEnd: number;
   endDestination: string;
-  duration: string;
+  durationMinutes: number | null;
   distance: number;
-  fuelConsumption: string;
+  fuelLiters: number | null;
   title: string;
-  batteryConsumption: string;
-  batteryRegeneration: string;
+  batteryKwh: number | null;
+  regenerationKwh: number | null;
   notes: string;
   isManual?: boolean;
+  vehicleId?: number | null;
+  driverId?: number | null;
+  deletedAt?: string | null;
+  supersededAt?: string | null;
+  splitFromId?: number | null;
+  mergedIntoId?: number | null;
+  startPlaceId?: number | null;
+  endPlaceId?: number | null;
+  // Read-only, looked up from the places table
+  startPlaceName?: string | null;
+  endPlaceName?: string | null;
+  ruleId?: number | null;
+  ruleName?: string | null;
+  customerId?: number | null;
+  projectId?: number | null;
+  customerName?: string | null;
+  projectName?: string | null;
+  // The import batch the trip came from, null for manual and older trips
+  importId?: number | null;
+}
+
+// One row in the append-only change log. Each row's hash covers the previous
+// row's hash, so editing or removing a row afterwards breaks the chain.
+export interface TripHistoryEntry {
+  id?: number;
+  tripId: number;
+  action: 'update' | 'delete' | 'split' | 'merge' | 'unmerge' | 'restore';
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+  userId: number | null;
+  username: string;
+  hash: string;
+}
+
+// Decides which mileage allowance rate applies to trips in the vehicle
+export type AllowanceType = 'private' | 'benefit_fuel' | 'benefit_electric';
+
+export interface Vehicle {
+  id?: number;
+  regNumber: string;
+  model: string;
+  fuelType: string;
+  owner: string;
+  allowanceType: AllowanceType;
+  // Private driving limits, checked for benefit cars only
+  privateYearLimitKm: number;
+  privateYearLimitTrips: number;
+  privateMonthLimitKm: number | null;
+}
+
+// A tax-free mileage allowance rate in kr per mil (10 km). validTo is
+// inclusive, and null for the rate that applies until further notice.
+export interface MileageRate {
+  id?: number;
+  vehicleType: AllowanceType;
+  validFrom: string;
+  validTo: string | null;
+  ratePerMil: number;
+}
+
+export interface Driver {
+  id?: number;
+  name: string;
+  personNumber: string;
+}
+
+export interface Category {
+  id?: number;
+  name: string;
+  color: string;
+  pdfDescription: string;
+  isBusiness: boolean;
+  // The name Volvo's export writes for this category, if it is one of those
+  volvoName?: string | null;
+}
+
+// A named location such as "Hemma" or "Kontoret". Trip addresses are matched
+// against the patterns, and coordinates against the optional radius.
+export interface Place {
+  id?: number;
+  name: string;
+  patterns: string[];
+  latitude: number | null;
+  longitude: number | null;
+  radiusMeters: number | null;
+}
+
+// Fuel bought for a vehicle. A full tank lets the consumption since the
+// previous full tank be measured.
+export interface Refuel {
+  id?: number;
+  vehicleId: number;
+  date: string;
+  odometer: number;
+  liters: number;
+  totalPrice: number;
+  station: string;
+  fullTank: boolean;
+}
+
+export type ChargingLocation = 'home' | 'work' | 'public';
+
+// One charging of an electric car. kwh went into the battery; with the
+// charger's losses more was bought. The cost is totalPrice if given,
+// otherwise pricePerKwh for the energy bought.
+export interface ChargingSession {
+  id?: number;
+  vehicleId: number;
+  startedAt: string;
+  endedAt: string | null;
+  kwh: number;
+  location: ChargingLocation;
+  pricePerKwh: number | null;
+  totalPrice: number | null;
+  lossPercent: number;
+  notes: string;
+}
+
+export type EnergyType = 'fuel' | 'electricity';
+
+// The energy one vehicle's trips used in a month, costed at the price history
+export interface MonthlyTripEnergy {
+  vehicleId: number | null;
+  month: string;
+  fuelLiters: number;
+  batteryKwh: number;
+  fuelCost: number;
+  electricCost: number;
+}
+
+// A fuel price in kr per liter or electricity price in kr per kWh, valid from
+// validFrom until the next price of the same type. A price with a vehicleId
+// applies to that vehicle only and takes precedence over the general prices
+// once it has started.
+export interface EnergyPrice {
+  id?: number;
+  energyType: EnergyType;
+  vehicleId: number | null;
+  validFrom: string;
+  price: number;
+}
+
+export type MaintenanceType = 'service' | 'tyres' | 'inspection' | 'repair' | 'other';
+
+// Work done on a vehicle, at the odometer reading it was done at
+export interface Maintenance {
+  id?: number;
+  vehicleId: number;
+  date: string;
+  odometer: number;
+  type: MaintenanceType;
+  cost: number | null;
+  workshop: string;
+  notes: string;
+}
+
+// A recurring maintenance type for a vehicle, due after intervalKm or
+// intervalMonths since it was last done, whichever comes first
+export interface MaintenanceInterval {
+  id?: number;
+  vehicleId: number;
+  type: MaintenanceType;
+  intervalKm: number | null;
+  intervalMonths: number | null;
+}
+
+// An hourly electricity spot price in kr per kWh for a bidding area.
+// hour is Swedish local time, 'YYYY-MM-DD HH:00'.
+export interface SpotPrice {
+  area: string;
+  hour: string;
+  price: number;
+}
+
+export interface SpotPriceCoverage {
+  area: string;
+  hours: number;
+  firstHour: string;
+  lastHour: string;
+}
+
+// One uploaded file and what importing it did
+export interface ImportBatch {
+  id?: number;
+  fileName: string;
+  originalName: string;
+  hash: string;
+  importedAt: string;
+  vehicleId: number | null;
+  userId: number | null;
+  username: string;
+  imported: number;
+  duplicates: number;
+  rejected: number;
+  errors: number;
+  undoneAt: string | null;
+  // The categorization rules as JSON and the Okategoriserat mapping it was
+  // imported with. Null for batches from before they were recorded.
+  rules: string | null;
+  mapOkategoriseratToPrivat: boolean | null;
+  // Read-only: the batch's trips that are still in the journal, and how
+  // many of those have not been edited and would be removed by an undo
+  remaining?: number;
+  undoable?: number;
+}
+
+// Refuels, charging sessions and maintenance in a period. dateTo is inclusive.
+export interface VehicleLogFilter {
+  vehicleId?: number | null;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+// Reseavdrag for one income year: kr per mil for commuting by private car,
+// and the threshold the year's cost must exceed before anything is deductible
+export interface TravelDeductionRate {
+  year: number;
+  ratePerMil: number;
+  threshold: number;
+}
+
+// Someone business trips are driven for. ratePerKm is what they are invoiced
+// per km; without it the customer report shows distances only.
+export interface Customer {
+  id?: number;
+  name: string;
+  orgNumber: string;
+  ratePerKm: number | null;
+}
+
+// A project always belongs to one customer
+export interface Project {
+  id?: number;
+  customerId: number;
+  name: string;
+  code: string;
+}
+
+// Sets the category, and the purpose if the trip has none, of trips that
+// match all of its non-empty conditions. See rules.ts for the matching.
+export interface CategorizationRule {
+  id?: number;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  startPattern: string;
+  endPattern: string;
+  weekdays: number[];
+  timeFrom: string;
+  timeTo: string;
+  minDistance: number | null;
+  maxDistance: number | null;
+  holidays: 'any' | 'only' | 'exclude';
+  category: string;
+  purpose: string;
+  customerId: number | null;
+  projectId: number | null;
+}
+
+// The outcome of running the rules on one trip
+export interface RuleResult {
+  tripId: number;
+  ruleId: number;
+  category: string;
+  notes: string;
+  customerId: number | null;
+  projectId: number | null;
+}
+
+export type UserRole = 'owner' | 'driver' | 'accountant';
+
+export interface User {
+  id?: number;
+  username: string;
+  role: UserRole;
+  driverId?: number | null;
+  createdAt?: string;
+}
+
+// Filters shared by the trip list, the summary and the statistics queries
+export interface TripFilter {
+  vehicleId?: number | null;
+  driverId?: number | null;
+  category?: string;
+  customerId?: number | null;
+  dateFrom?: string;
+  dateTo?: string;
+  includeDeleted?: boolean;
 }
 
 let db: Database | null = null;
+let dbOpening: Promise<Database> | null = null;
 
 // Custom error class for database corruption
 export class DatabaseCorruptionError extends Error {
@@ -85,6 +379,160 @@ async function validateDatabase(database: Database, fileExistedBefore: boolean):
   }
 }
 
+// Settings key for what the last recovery from a damaged database did
+export const RECOVERY_SETTING = 'databaseRecovery';
+
+export interface DatabaseRecovery {
+  recoveredAt: string;
+  // The damaged file, kept next to the new one in data/
+  backupFile: string | null;
+  // Rows salvaged per table. Trips that couldn't be read come back by
+  // rebuilding from uploads/.
+  salvaged: Record<string, number>;
+  // Change log entries that couldn't be read, where known, and the number of
+  // places the hash chain breaks because of them
+  historyLost: number | null;
+  historyBreaks: number;
+  rebuiltAt: string | null;
+  dismissedAt: string | null;
+}
+
+// Tables copied whole from a damaged database. Sessions aren't, so everyone
+// logs in again.
+const SALVAGED_TABLES = [
+  'settings', 'users', 'user_settings', 'vehicles', 'drivers', 'categories', 'places', 'place_patterns', 'categorization_rules',
+  'customers', 'projects', 'mileage_rates', 'travel_deduction_rates', 'refuels', 'charging_sessions',
+  'energy_prices', 'spot_prices', 'maintenance', 'maintenance_intervals', 'imports', 'trips', 'trip_history'
+];
+
+// Copies what can be read of a table from the attached damaged database.
+// If reading it all at once fails on a damaged page, it goes through the
+// rows in small ranges so that only the unreadable ones are lost.
+async function salvageTable(database: Database, table: string): Promise<number> {
+  const mainColumns = await database.all<{name: string}[]>(`PRAGMA main.table_info(${table})`);
+  const damagedColumns = new Set((await database.all<{name: string}[]>(`PRAGMA damaged.table_info(${table})`)).map(c => c.name));
+  const columns = mainColumns.map(c => c.name).filter(name => damagedColumns.has(name)).join(', ');
+  if (!columns) return 0;
+
+  // Rows the migrations seeded, like rates and categories, give way to what
+  // the damaged file had, so ones the user removed or changed don't come
+  // back. If the table can't be read at all the seeded rows are kept.
+  try {
+    await database.get(`SELECT COUNT(*) FROM damaged.${table}`);
+    await database.run(`DELETE FROM main.${table}`);
+  } catch (error) {
+    console.warn(`Could not count ${table}, keeping its seeded rows:`, error);
+  }
+
+  const copy = `
+    INSERT OR REPLACE INTO main.${table} (${columns})
+    SELECT ${columns} FROM damaged.${table} WHERE 1
+  `;
+
+  try {
+    return (await database.run(copy)).changes || 0;
+  } catch (error) {
+    console.warn(`Could not read ${table} in one go, salvaging row by row:`, error);
+  }
+
+  const last = await database.get<{maxId: number | null}>(`SELECT MAX(rowid) AS maxId FROM damaged.${table}`);
+  const chunk = 50;
+  let copied = 0;
+  for (let from = 0; from <= (last?.maxId ?? 0); from += chunk) {
+    try {
+      copied += (await database.run(`${copy} AND rowid BETWEEN ? AND ?`, [from, from + chunk - 1])).changes || 0;
+    } catch {
+      for (let rowid = from; rowid < from + chunk; rowid++) {
+        try {
+          copied += (await database.run(`${copy} AND rowid = ?`, [rowid])).changes || 0;
+        } catch {
+          // The row is unreadable
+        }
+      }
+    }
+  }
+  return copied;
+}
+
+// Reads what it can from the damaged file, attached read-only so nothing
+// more can be lost. Every readable trip is kept as it was, with its edits
+// and import batch; only the trips that couldn't be read are left to the
+// rebuild from uploads/.
+async function salvageDatabase(
+  database: Database,
+  damagedPath: string
+): Promise<Pick<DatabaseRecovery, 'salvaged' | 'historyLost' | 'historyBreaks'>> {
+  const salvaged: Record<string, number> = {};
+
+  try {
+    await database.run(`ATTACH DATABASE ? AS damaged`, [`file:${encodeURI(damagedPath)}?mode=ro`]);
+  } catch (error) {
+    console.error('Could not attach the damaged database, nothing salvaged:', error);
+    return { salvaged, historyLost: null, historyBreaks: 0 };
+  }
+
+  for (const table of SALVAGED_TABLES) {
+    try {
+      salvaged[table] = await salvageTable(database, table);
+    } catch (error) {
+      console.error(`Could not salvage ${table}:`, error);
+    }
+  }
+
+  // The log's ids run without gaps, so the damaged file's last id tells how
+  // many entries were lost if that can still be read
+  let historyLost: number | null = null;
+  try {
+    const last = await database.get<{maxId: number | null}>(`SELECT MAX(id) AS maxId FROM damaged.trip_history`);
+    historyLost = (last?.maxId ?? 0) - (salvaged.trip_history ?? 0);
+    // New entries get ids after the lost ones, not in their place
+    const sequence = await database.run(`
+      UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = 'trip_history'
+    `, [last?.maxId ?? 0]);
+    if (!sequence.changes) {
+      await database.run(`INSERT INTO sqlite_sequence (name, seq) VALUES ('trip_history', ?)`, [last?.maxId ?? 0]);
+    }
+  } catch (error) {
+    console.error('Could not count the change log of the damaged database:', error);
+  }
+  const historyBreaks = await markTripHistoryBreaks(database);
+
+  // The recovery record is written afresh, not salvaged
+  await database.run(`DELETE FROM settings WHERE key = ?`, [RECOVERY_SETTING]);
+
+  try {
+    await database.exec(`DETACH DATABASE damaged`);
+  } catch (error) {
+    console.error('Could not detach the damaged database:', error);
+  }
+
+  console.log('Salvaged from damaged database:', salvaged);
+  return { salvaged, historyLost, historyBreaks };
+}
+
+// Written when a recovery leaves no accounts. Setup then asks for the code,
+// which only someone with access to the server's console or data/ can read,
+// so the first visitor on the network can't make themselves owner.
+const setupCodePath = () => path.join(process.cwd(), 'data', 'setup-code.txt');
+
+export function getSetupCode(): string | null {
+  try {
+    return fs.readFileSync(setupCodePath(), 'utf8').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearSetupCode(): void {
+  fs.rmSync(setupCodePath(), { force: true });
+}
+
+function writeSetupCode(): void {
+  const code = crypto.randomBytes(6).toString('hex');
+  fs.writeFileSync(setupCodePath(), `${code}\n`, { mode: 0o600 });
+  console.warn(`No accounts could be recovered. Create the owner account with setup code ${code} (also in data/setup-code.txt)`);
+}
+
 // Database recovery function
 async function recoverDatabase(): Promise<Database | null> {
   try {
@@ -97,42 +545,33 @@ async function recoverDatabase(): Promise<Database | null> {
       fs.renameSync(dbPath, backupPath);
     }
     
-    // Create fresh database
+    // Create fresh database. URI filenames let the damaged file be attached read-only.
     console.log('Creating fresh database...');
     const freshDb = await open({
       filename: dbPath,
-      driver: sqlite3.Database
+      driver: sqlite3.Database,
+      mode: sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE | sqlite3.OPEN_FULLMUTEX | sqlite3.OPEN_URI
     });
     
     // Create tables
-    await freshDb.exec(`
-      CREATE TABLE IF NOT EXISTS trips (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        category TEXT NOT NULL,
-        startDate TEXT NOT NULL,
-        odometerStart INTEGER NOT NULL,
-        startPosition TEXT NOT NULL,
-        endDate TEXT NOT NULL,
-        odometerEnd INTEGER NOT NULL,
-        endDestination TEXT NOT NULL,
-        duration TEXT NOT NULL,
-        distance REAL NOT NULL,
-        fuelConsumption TEXT NOT NULL,
-        title TEXT NOT NULL,
-        batteryConsumption TEXT NOT NULL,
-        batteryRegeneration TEXT NOT NULL,
-        notes TEXT NOT NULL,
-        isManual BOOLEAN DEFAULT FALSE,
-        UNIQUE(startDate, odometerStart, odometerEnd)
-      )
-    `);
-
-    await freshDb.exec(`
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL
-      )
-    `);
+    await runMigrations(freshDb);
+    
+    const backupExists = fs.existsSync(backupPath);
+    const recovery: DatabaseRecovery = {
+      recoveredAt: new Date().toISOString(),
+      backupFile: backupExists ? path.basename(backupPath) : null,
+      ...(backupExists ? await salvageDatabase(freshDb, backupPath) : { salvaged: {}, historyLost: null, historyBreaks: 0 }),
+      rebuiltAt: null,
+      dismissedAt: null
+    };
+    await freshDb.run(`
+      INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)
+    `, [RECOVERY_SETTING, JSON.stringify(recovery)]);
+    
+    const users = await freshDb.get<{count: number}>(`SELECT COUNT(*) as count FROM users`);
+    if (!users?.count) {
+      writeSetupCode();
+    }
     
     console.log('Fresh database created successfully');
     return freshDb;
@@ -144,375 +583,2504 @@ async function recoverDatabase(): Promise<Database | null> {
 
 export async function getDatabase(): Promise<Database> {
   if (!db) {
-    const dbPath = path.join(process.cwd(), 'data', 'trips.db');
-    
-    try {
-      // Check if database file exists before opening
-      const fileExistedBefore = fs.existsSync(dbPath);
-      
-      // Ensure data directory exists
-      const dataDir = path.dirname(dbPath);
-      if (!fs.existsSync(dataDir)) {
-        fs.mkdirSync(dataDir, { recursive: true });
-      }
-      
-      db = await open({
-        filename: dbPath,
-        driver: sqlite3.Database
+    // Requests arriving while the database is being opened wait for the same
+    // promise, so migrations only run once
+    if (!dbOpening) {
+      dbOpening = openDatabase().finally(() => {
+        dbOpening = null;
       });
+    }
+    db = await dbOpening;
+  }
+  return db;
+}
+
+async function openDatabase(): Promise<Database> {
+  const dbPath = path.join(process.cwd(), 'data', 'trips.db');
+  let database: Database | null = null;
+  
+  try {
+    // Check if database file exists before opening
+    const fileExistedBefore = fs.existsSync(dbPath);
+    
+    // Ensure data directory exists
+    const dataDir = path.dirname(dbPath);
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    
+    database = await open({
+      filename: dbPath,
+      driver: sqlite3.Database
+    });
 
-      // Validate database health
-      const validation = await validateDatabase(db, fileExistedBefore);
+    // Validate database health
+    const validation = await validateDatabase(database, fileExistedBefore);
+    
+    if (!validation.isHealthy) {
+      console.warn('Database corruption detected, attempting recovery...');
+      await database.close();
+      database = await recoverDatabase();
       
-      if (!validation.isHealthy) {
-        console.warn('Database corruption detected, attempting recovery...');
-        await db.close();
-        db = await recoverDatabase();
-        
-        if (!db) {
-          throw new Error('Database recovery failed');
-        }
-      } else if (validation.isFreshDatabase) {
-        // Fresh database - create tables without showing corruption warning
-        console.log('Initializing fresh database with required tables...');
-        await createTables(db);
-      } else {
-        // Existing healthy database - ensure tables exist (for backwards compatibility)
-        await createTables(db);
+      if (!database) {
+        throw new Error('Database recovery failed');
       }
-    } catch (error) {
-      console.error('Failed to initialize database:', error);
-      
-      // Final fallback: try to recover
-      if (db) {
-        try {
-          await db.close();
-        } catch (closeError) {
-          console.error('Error closing corrupted database:', closeError);
-        }
+    } else {
+      if (validation.isFreshDatabase) {
+        console.log('Initializing fresh database with required tables...');
       }
-      
-      db = await recoverDatabase();
-      if (!db) {
-        throw new Error('Database initialization and recovery both failed');
+      await runMigrations(database);
+    }
+    
+    return database;
+  } catch (error) {
+    console.error('Failed to initialize database:', error);
+    
+    if (database) {
+      try {
+        await database.close();
+      } catch (closeError) {
+        console.error('Error closing database:', closeError);
       }
     }
+    
+    // A database that is too new or failed to migrate is not corrupt, so it
+    // must not be replaced by recovery
+    if (error instanceof DatabaseVersionError || error instanceof DatabaseMigrationError) {
+      throw error;
+    }
+    
+    // Final fallback: try to recover
+    database = await recoverDatabase();
+    if (!database) {
+      throw new Error('Database initialization and recovery both failed');
+    }
+    return database;
+  }
+}
+
+// Builds the WHERE clause for trip queries. The date range is inclusive,
+// so one day is added to dateTo to include the entire selected date.
+// Deleted trips, and trips that have been replaced by a split or a merge,
+// are left out unless includeDeleted is set.
+export function buildTripFilter(filter: TripFilter): { whereClause: string; params: (string | number)[] } {
+  const conditions = [];
+  const params: (string | number)[] = [];
+  
+  if (!filter.includeDeleted) {
+    conditions.push('deletedAt IS NULL AND supersededAt IS NULL');
+  }
+  
+  if (filter.vehicleId) {
+    conditions.push('vehicleId = ?');
+    params.push(filter.vehicleId);
+  }
+  
+  if (filter.driverId) {
+    conditions.push('driverId = ?');
+    params.push(filter.driverId);
+  }
+  
+  if (filter.category) {
+    conditions.push('category = ?');
+    params.push(filter.category);
+  }
+  
+  if (filter.customerId) {
+    conditions.push('customerId = ?');
+    params.push(filter.customerId);
+  }
+  
+  if (filter.dateFrom) {
+    conditions.push('startDate >= ?');
+    params.push(filter.dateFrom);
+  }
+  
+  if (filter.dateTo) {
+    conditions.push('startDate < ?');
+    const nextDay = new Date(filter.dateTo);
+    nextDay.setDate(nextDay.getDate() + 1);
+    params.push(nextDay.toISOString().split('T')[0]);
+  }
+  
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return { whereClause, params };
+}
+
+// Trips are read together with the names of the places, rule, customer and
+// project they refer to
+const TRIP_COLUMNS = `
+  trips.*,
+  (SELECT name FROM places WHERE places.id = trips.startPlaceId) AS startPlaceName,
+  (SELECT name FROM places WHERE places.id = trips.endPlaceId) AS endPlaceName,
+  (SELECT name FROM categorization_rules WHERE categorization_rules.id = trips.ruleId) AS ruleName,
+  (SELECT name FROM customers WHERE customers.id = trips.customerId) AS customerName,
+  (SELECT name FROM projects WHERE projects.id = trips.projectId) AS projectName
+`;
+
+async function insertTripRow(database: Database, trip: Omit<Trip, 'id'>, isManual: boolean): Promise<number> {
+  const result = await database.run(`
+    INSERT INTO trips (
+      category, startDate, odometerStart, startPosition, endDate, 
+      odometerEnd, endDestination, durationMinutes, distance, fuelLiters,
+      title, batteryKwh, regenerationKwh, notes, isManual, vehicleId, driverId, ruleId,
+      customerId, projectId, importId
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    trip.category, trip.startDate, trip.odometerStart, trip.startPosition,
+    trip.endDate, trip.odometerEnd, trip.endDestination, trip.durationMinutes,
+    trip.distance, trip.fuelLiters, trip.title, trip.batteryKwh,
+    trip.regenerationKwh, trip.notes, isManual, trip.vehicleId ?? null,
+    trip.driverId ?? null, trip.ruleId ?? null, trip.customerId ?? null,
+    trip.projectId ?? null, trip.importId ?? null
+  ]);
+  return result.lastID!;
+}
+
+export async function insertTrip(trip: Omit<Trip, 'id'>, isManual: boolean = false): Promise<number | false> {
+  const database = await getDatabase();
+  
+  try {
+    console.log('Inserting trip:', {
+      startDate: trip.startDate,
+      odometerStart: trip.odometerStart,
+      odometerEnd: trip.odometerEnd,
+      category: trip.category,
+      isManual: isManual
+    });
+    
+    // Use transaction for data integrity
+    await database.exec('BEGIN TRANSACTION');
+    
+    const id = await insertTripRow(database, trip, isManual);
+    
+    await matchTripPlaces(database, [id]);
+    
+    await database.exec('COMMIT');
+    console.log('Trip inserted successfully with ID:', id);
+    return id;
+  } catch (error) {
+    // Rollback transaction on error
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    
+    const errorObj = error as { code?: string; errno?: number; message?: string };
+    console.log('Database error details:', {
+      code: errorObj.code,
+      errno: errorObj.errno,
+      message: errorObj.message
+    });
+    
+    // Check for database corruption
+    if (isSQLiteCorruptionError(error)) {
+      throw new DatabaseCorruptionError('Database corruption detected during trip insertion');
+    }
+    
+    if (errorObj.code === 'SQLITE_CONSTRAINT_UNIQUE' || 
+        errorObj.code === 'SQLITE_CONSTRAINT' || 
+        errorObj.errno === 19) {
+      console.log('Duplicate trip found, skipping:', {
+        startDate: trip.startDate,
+        odometerStart: trip.odometerStart,
+        odometerEnd: trip.odometerEnd
+      });
+      return false; // Duplicate found
+    }
+    
+    console.error('Database insert error:', error);
+    throw error;
+  }
+}
+
+// Inserts several manual trips, like those filling odometer gaps, in one
+// transaction. Returns null and inserts none if any of them already exists.
+export async function insertManualTrips(trips: Omit<Trip, 'id'>[]): Promise<number[] | null> {
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    const ids: number[] = [];
+    for (const trip of trips) {
+      ids.push(await insertTripRow(database, trip, true));
+    }
+    await matchTripPlaces(database, ids);
+    
+    await database.exec('COMMIT');
+    return ids;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    
+    if (isSQLiteCorruptionError(error)) {
+      throw new DatabaseCorruptionError('Database corruption detected during trip insertion');
+    }
+    
+    const errorObj = error as { code?: string; errno?: number };
+    if (errorObj.code === 'SQLITE_CONSTRAINT_UNIQUE' || errorObj.code === 'SQLITE_CONSTRAINT' || errorObj.errno === 19) {
+      return null;
+    }
+    
+    throw error;
+  }
+}
+
+// An imported trip counts as edited once anything but its driver has been
+// changed. Assigning a driver is part of importing, so it doesn't count, and
+// neither does being deleted by an undone import and brought back by the next.
+const UNEDITED_IMPORTED_TRIP = `
+  trips.deletedAt IS NULL AND trips.supersededAt IS NULL AND NOT EXISTS (
+    SELECT 1 FROM trip_history
+    WHERE trip_history.tripId = trips.id
+      AND NOT (trip_history.action = 'update' AND trip_history.field = 'driverId')
+      AND trip_history.action NOT IN ('delete', 'restore')
+  )
+`;
+
+export async function getImports(): Promise<ImportBatch[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<ImportBatch[]>(`
+      SELECT imports.*,
+        (SELECT COUNT(*) FROM trips WHERE trips.importId = imports.id AND deletedAt IS NULL AND supersededAt IS NULL) AS remaining,
+        (SELECT COUNT(*) FROM trips WHERE trips.importId = imports.id AND ${UNEDITED_IMPORTED_TRIP}) AS undoable
+      FROM imports
+      ORDER BY importedAt DESC, id DESC
+    `);
+  } catch (error) {
+    console.error('Error getting imports:', error);
+    return [];
+  }
+}
+
+// The latest import of a file with the same content that hasn't been undone
+export async function findImportByHash(hash: string): Promise<ImportBatch | null> {
+  try {
+    const database = await getDatabase();
+    const batch = await database.get<ImportBatch>(`
+      SELECT * FROM imports WHERE hash = ? AND undoneAt IS NULL ORDER BY importedAt DESC LIMIT 1
+    `, [hash]);
+    return batch || null;
+  } catch (error) {
+    console.error('Error finding import:', error);
+    return null;
+  }
+}
+
+// The latest import of an archived upload, undone or not
+export async function findImportByFileName(fileName: string): Promise<ImportBatch | null> {
+  try {
+    const database = await getDatabase();
+    const batch = await database.get<ImportBatch>(`
+      SELECT * FROM imports WHERE fileName = ? ORDER BY importedAt DESC, id DESC LIMIT 1
+    `, [fileName]);
+    return batch || null;
+  } catch (error) {
+    console.error('Error finding import:', error);
+    return null;
+  }
+}
+
+// All trips a batch inserted, including those since deleted, split or merged
+export async function countImportTrips(importId: number): Promise<number> {
+  const database = await getDatabase();
+  const result = await database.get<{count: number}>(`SELECT COUNT(*) as count FROM trips WHERE importId = ?`, [importId]);
+  return result?.count || 0;
+}
+
+export async function insertImport(batch: Omit<ImportBatch, 'id' | 'undoneAt'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO imports (fileName, originalName, hash, importedAt, vehicleId, userId, username, imported, duplicates, rejected, errors,
+        rules, mapOkategoriseratToPrivat)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [batch.fileName, batch.originalName, batch.hash, batch.importedAt, batch.vehicleId, batch.userId,
+      batch.username, batch.imported, batch.duplicates, batch.rejected, batch.errors,
+      batch.rules, batch.mapOkategoriseratToPrivat]);
+    return result.lastID!;
+  } catch (error) {
+    console.error('Error inserting import:', error);
+    return false;
+  }
+}
+
+export async function updateImportCounts(
+  id: number,
+  counts: Pick<ImportBatch, 'imported' | 'duplicates' | 'rejected' | 'errors'>
+): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    await database.run(`
+      UPDATE imports SET imported = ?, duplicates = ?, rejected = ?, errors = ? WHERE id = ?
+    `, [counts.imported, counts.duplicates, counts.rejected, counts.errors, id]);
+    return true;
+  } catch (error) {
+    console.error('Error updating import:', error);
+    return false;
+  }
+}
+
+// Rolls back a batch by deleting the trips it inserted that haven't been
+// edited since. Edited trips are kept, since someone has worked on them.
+// The deletions go to the change log like any other.
+export async function undoImport(id: number, changedBy: HistoryAuthor): Promise<{ removed: number; kept: number } | null> {
+  const database = await getDatabase();
+  
+  try {
+    const batch = await database.get<ImportBatch>(`SELECT * FROM imports WHERE id = ? AND undoneAt IS NULL`, [id]);
+    if (!batch) return null;
+    
+    await database.exec('BEGIN TRANSACTION');
+    
+    const trips = await database.all<{id: number}[]>(`
+      SELECT id FROM trips WHERE importId = ? AND ${UNEDITED_IMPORTED_TRIP}
+    `, [id]);
+    const kept = await database.get<{count: number}>(`
+      SELECT COUNT(*) as count FROM trips WHERE importId = ? AND deletedAt IS NULL AND supersededAt IS NULL
+    `, [id]);
+    
+    const undoneAt = new Date().toISOString();
+    for (const trip of trips) {
+      await database.run(`UPDATE trips SET deletedAt = ? WHERE id = ?`, [undoneAt, trip.id]);
+    }
+    await appendTripHistory(database, trips.map(trip => ({
+      tripId: trip.id,
+      action: 'delete' as const,
+      field: null,
+      oldValue: null,
+      newValue: null
+    })), changedBy);
+    await database.run(`UPDATE imports SET undoneAt = ? WHERE id = ?`, [undoneAt, id]);
+    
+    await database.exec('COMMIT');
+    return { removed: trips.length, kept: (kept?.count || 0) - trips.length };
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Undo import error:', error);
+    return null;
+  }
+}
+
+// A trip deleted by undoing its import, as opposed to deleted by hand
+const UNDONE_IMPORTED_TRIP = `
+  trips.deletedAt IS NOT NULL AND trips.deletedAt = (SELECT undoneAt FROM imports WHERE imports.id = trips.importId)
+`;
+
+// Brings back a trip that undoing its import deleted when the same row is
+// imported again, for example to the right vehicle, taking the new import's
+// values. Returns false if there is no such trip, so the row is a duplicate.
+export async function restoreUndoneImportTrip(trip: Omit<Trip, 'id'>, changedBy: HistoryAuthor): Promise<number | false> {
+  const database = await getDatabase();
+
+  try {
+    await database.exec('BEGIN TRANSACTION');
+
+    const existing = await database.get<{id: number}>(`
+      SELECT id FROM trips
+      WHERE startDate = ? AND odometerStart = ? AND odometerEnd = ? AND ${UNDONE_IMPORTED_TRIP}
+    `, [trip.startDate, trip.odometerStart, trip.odometerEnd]);
+    if (!existing) {
+      await database.exec('ROLLBACK');
+      return false;
+    }
+
+    await database.run(`
+      UPDATE trips SET
+        category = ?, startPosition = ?, endDate = ?, endDestination = ?, durationMinutes = ?, distance = ?,
+        fuelLiters = ?, title = ?, batteryKwh = ?, regenerationKwh = ?, notes = ?, vehicleId = ?, driverId = ?,
+        ruleId = ?, customerId = ?, projectId = ?, importId = ?, deletedAt = NULL
+      WHERE id = ?
+    `, [
+      trip.category, trip.startPosition, trip.endDate, trip.endDestination, trip.durationMinutes,
+      trip.distance, trip.fuelLiters, trip.title, trip.batteryKwh, trip.regenerationKwh, trip.notes,
+      trip.vehicleId ?? null, trip.driverId ?? null, trip.ruleId ?? null, trip.customerId ?? null,
+      trip.projectId ?? null, trip.importId ?? null, existing.id
+    ]);
+    await matchTripPlaces(database, [existing.id]);
+    await appendTripHistory(database, [{
+      tripId: existing.id,
+      action: 'restore',
+      field: null,
+      oldValue: null,
+      newValue: null
+    }], changedBy);
+
+    await database.exec('COMMIT');
+    return existing.id;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+
+    if (isSQLiteCorruptionError(error)) {
+      throw new DatabaseCorruptionError('Database corruption detected during trip restore');
+    }
+    throw error;
+  }
+}
+
+export type TripKeyState = 'active' | 'deleted' | 'superseded';
+
+// The key imports are deduplicated on, the trips table's unique columns
+export const tripKey = (trip: Pick<Trip, 'startDate' | 'odometerStart' | 'odometerEnd'>) =>
+  `${trip.startDate}|${trip.odometerStart}|${trip.odometerEnd}`;
+
+// Which of the given trips already exist, including deleted ones and the
+// sources of split and merged trips, which also block a re-import. Trips
+// deleted by undoing their import don't, since importing brings them back.
+export async function getExistingTripKeys(trips: Pick<Trip, 'startDate' | 'odometerStart' | 'odometerEnd'>[]): Promise<Map<string, TripKeyState>> {
+  const keys = new Map<string, TripKeyState>();
+  if (trips.length === 0) return keys;
+
+  const database = await getDatabase();
+  const startDates = trips.map(trip => trip.startDate).sort();
+  const rows = await database.all<(Pick<Trip, 'startDate' | 'odometerStart' | 'odometerEnd' | 'deletedAt' | 'supersededAt'>)[]>(`
+    SELECT startDate, odometerStart, odometerEnd, deletedAt, supersededAt FROM trips
+    WHERE startDate BETWEEN ? AND ? AND NOT (${UNDONE_IMPORTED_TRIP})
+  `, [startDates[0], startDates[startDates.length - 1]]);
+
+  for (const row of rows) {
+    keys.set(tripKey(row), row.deletedAt ? 'deleted' : row.supersededAt ? 'superseded' : 'active');
+  }
+  return keys;
+}
+
+export async function getTrips(
+  page: number = 1, 
+  limit: number = 20, 
+  filter: TripFilter = {},
+  sortOrder: string = 'desc'
+): Promise<{trips: Trip[], total: number}> {
+  const database = await getDatabase();
+  const offset = (page - 1) * limit;
+  
+  const { whereClause, params } = buildTripFilter(filter);
+  const orderDirection = sortOrder === 'asc' ? 'ASC' : 'DESC';
+  
+  const trips = await database.all<Trip[]>(`
+    SELECT ${TRIP_COLUMNS} FROM trips 
+    ${whereClause}
+    ORDER BY startDate ${orderDirection}
+    LIMIT ? OFFSET ?
+  `, [...params, limit, offset]);
+  
+  const totalResult = await database.get<{count: number}>(`
+    SELECT COUNT(*) as count FROM trips
+    ${whereClause}
+  `, params);
+  
+  return {
+    trips,
+    total: totalResult?.count || 0
+  };
+}
+
+// Every trip matching the filter, oldest first, for reports and bulk operations
+export async function getAllTrips(filter: TripFilter = {}): Promise<Trip[]> {
+  const database = await getDatabase();
+  const { whereClause, params } = buildTripFilter(filter);
+  
+  return await database.all<Trip[]>(`
+    SELECT ${TRIP_COLUMNS} FROM trips
+    ${whereClause}
+    ORDER BY startDate, odometerStart
+  `, params);
+}
+
+export async function getTrip(id: number): Promise<Trip | null> {
+  try {
+    const database = await getDatabase();
+    const trip = await database.get<Trip>(`
+      SELECT ${TRIP_COLUMNS} FROM trips WHERE id = ? AND deletedAt IS NULL AND supersededAt IS NULL
+    `, [id]);
+    
+    return trip || null;
+  } catch (error) {
+    console.error('Get trip error:', error);
+    return null;
+  }
+}
+
+// Fields that can be changed after a trip has been logged
+type TripUpdates = {
+  category?: string;
+  notes?: string;
+  startPosition?: string;
+  endDestination?: string;
+  durationMinutes?: number | null;
+  driverId?: number | null;
+  customerId?: number | null;
+  projectId?: number | null;
+};
+
+type HistoryAuthor = Pick<User, 'id' | 'username'>;
+
+// One part of a split trip. Each part starts where the previous one ended;
+// the last part always ends where the original trip ended.
+export interface TripSegment {
+  category: string;
+  notes: string;
+  odometerEnd: number;
+  endDate: string;
+  endDestination: string;
+  distance: number;
+}
+
+function hashHistoryEntry(previousHash: string, entry: Omit<TripHistoryEntry, 'id' | 'hash'>): string {
+  return crypto.createHash('sha256').update(JSON.stringify([
+    previousHash,
+    entry.tripId,
+    entry.action,
+    entry.field,
+    entry.oldValue,
+    entry.newValue,
+    entry.changedAt,
+    entry.userId,
+    entry.username
+  ])).digest('hex');
+}
+
+// Appends entries to the change log. Must be called inside the transaction
+// that makes the change, so the log and the trips can't get out of step.
+async function appendTripHistory(
+  database: Database,
+  entries: Omit<TripHistoryEntry, 'id' | 'hash' | 'changedAt' | 'userId' | 'username'>[],
+  changedBy: HistoryAuthor
+): Promise<void> {
+  const last = await database.get<{hash: string}>(`
+    SELECT hash FROM trip_history ORDER BY id DESC LIMIT 1
+  `);
+  let previousHash = last?.hash || '';
+  const changedAt = new Date().toISOString();
+  
+  for (const entry of entries) {
+    const row = { ...entry, changedAt, userId: changedBy.id ?? null, username: changedBy.username };
+    const hash = hashHistoryEntry(previousHash, row);
+    
+    await database.run(`
+      INSERT INTO trip_history (tripId, action, field, oldValue, newValue, changedAt, userId, username, hash)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [row.tripId, row.action, row.field, row.oldValue, row.newValue, row.changedAt, row.userId, row.username, hash]);
+    
+    previousHash = hash;
+  }
+}
+
+function historyValue(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+export async function updateTrip(id: number, updates: TripUpdates, changedBy: HistoryAuthor): Promise<boolean> {
+  const database = await getDatabase();
+  
+  try {
+    const fields = (Object.keys(updates) as (keyof TripUpdates)[])
+      .filter(field => updates[field] !== undefined);
+    
+    if (fields.length === 0) {
+      return false;
+    }
+    
+    await database.exec('BEGIN TRANSACTION');
+    
+    const current = await database.get<Trip>(`
+      SELECT * FROM trips WHERE id = ? AND deletedAt IS NULL AND supersededAt IS NULL
+    `, [id]);
+    
+    if (!current) {
+      await database.exec('ROLLBACK');
+      return false;
+    }
+    
+    // Only fields whose value actually changes are written and logged
+    const changed = fields.filter(field => historyValue(current[field]) !== historyValue(updates[field]));
+    
+    if (changed.length > 0) {
+      await database.run(`
+        UPDATE trips 
+        SET ${changed.map(field => `${field} = ?`).join(', ')}
+        WHERE id = ?
+      `, [...changed.map(field => updates[field] as string | number | null), id]);
+      
+      await appendTripHistory(database, changed.map(field => ({
+        tripId: id,
+        action: 'update',
+        field,
+        oldValue: historyValue(current[field]),
+        newValue: historyValue(updates[field])
+      })), changedBy);
+      
+      if (changed.includes('startPosition') || changed.includes('endDestination')) {
+        await matchTripPlaces(database, [id]);
+      }
+      
+      // A category chosen by hand is no longer the rule's doing
+      if (changed.includes('category')) {
+        await database.run(`UPDATE trips SET ruleId = NULL WHERE id = ?`, [id]);
+      }
+    }
+    
+    await database.exec('COMMIT');
+    return true;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Update trip error:', error);
+    return false;
+  }
+}
+
+// Used to attribute a whole batch of trips, e.g. the result of an import, to one driver
+export async function assignDriver(tripIds: number[], driverId: number | null, changedBy: HistoryAuthor): Promise<number> {
+  if (tripIds.length === 0) {
+    return 0;
+  }
+  
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    const placeholders = tripIds.map(() => '?').join(',');
+    const trips = await database.all<{id: number; driverId: number | null}[]>(`
+      SELECT id, driverId FROM trips 
+      WHERE id IN (${placeholders}) AND deletedAt IS NULL AND supersededAt IS NULL AND driverId IS NOT ?
+    `, [...tripIds, driverId]);
+    
+    for (const trip of trips) {
+      await database.run(`UPDATE trips SET driverId = ? WHERE id = ?`, [driverId, trip.id]);
+    }
+    
+    await appendTripHistory(database, trips.map(trip => ({
+      tripId: trip.id,
+      action: 'update',
+      field: 'driverId',
+      oldValue: historyValue(trip.driverId),
+      newValue: historyValue(driverId)
+    })), changedBy);
+    
+    await database.exec('COMMIT');
+    return trips.length;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Assign driver error:', error);
+    return 0;
+  }
+}
+
+// Trips are never removed from the database. A deleted trip is hidden from
+// lists and reports, but stays available together with its history.
+export async function deleteTrip(id: number, changedBy: HistoryAuthor): Promise<boolean> {
+  const database = await getDatabase();
+  
+  try {
+    // First check if the trip exists and is manual
+    const trip = await database.get<{isManual: boolean}>(`
+      SELECT isManual FROM trips WHERE id = ? AND deletedAt IS NULL AND supersededAt IS NULL
+    `, [id]);
+    
+    if (!trip) {
+      console.error('Trip not found:', id);
+      return false;
+    }
+    
+    if (!trip.isManual) {
+      console.error('Cannot delete non-manual trip:', id);
+      return false;
+    }
+    
+    await database.exec('BEGIN TRANSACTION');
+    
+    const deletedAt = new Date().toISOString();
+    await database.run(`
+      UPDATE trips SET deletedAt = ? WHERE id = ? AND isManual = TRUE
+    `, [deletedAt, id]);
+    
+    await appendTripHistory(database, [{
+      tripId: id,
+      action: 'delete',
+      field: null,
+      oldValue: null,
+      newValue: null
+    }], changedBy);
+    
+    await database.exec('COMMIT');
+    return true;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Delete trip error:', error);
+    return false;
+  }
+}
+
+// Shares a measured total between the parts of a split trip by distance.
+// The last part gets what is left after rounding, so the sum stays exact.
+function splitAmount(total: number | null, distances: number[], totalDistance: number, decimals: number): (number | null)[] {
+  if (total === null) {
+    return distances.map(() => null);
+  }
+  
+  const factor = Math.pow(10, decimals);
+  const amounts = distances.map(distance => Math.round(total * distance / totalDistance * factor) / factor);
+  const rest = amounts.slice(0, -1).reduce((sum, amount) => sum + amount, 0);
+  amounts[amounts.length - 1] = Math.round((total - rest) * factor) / factor;
+  return amounts;
+}
+
+// Replaces a trip with two or more parts, e.g. a business leg followed by a
+// private errand. The original row is kept, hidden, as the source of the parts.
+export async function splitTrip(id: number, segments: TripSegment[], changedBy: HistoryAuthor): Promise<number[] | null> {
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    const source = await database.get<Trip>(`
+      SELECT * FROM trips WHERE id = ? AND deletedAt IS NULL AND supersededAt IS NULL
+    `, [id]);
+    
+    if (!source) {
+      await database.exec('ROLLBACK');
+      return null;
+    }
+    
+    const distances = segments.map(segment => segment.distance);
+    const durations = splitAmount(source.durationMinutes, distances, source.distance, 0);
+    const fuel = splitAmount(source.fuelLiters, distances, source.distance, 2);
+    const battery = splitAmount(source.batteryKwh, distances, source.distance, 2);
+    const regeneration = splitAmount(source.regenerationKwh, distances, source.distance, 2);
+    
+    // Only business parts stay with the trip's customer and project
+    const businessCategories = (await database.all<{name: string}[]>(`
+      SELECT name FROM categories WHERE isBusiness
+    `)).map(category => category.name);
+    
+    const partIds: number[] = [];
+    let start = { date: source.startDate, odometer: source.odometerStart, position: source.startPosition };
+    
+    for (let i = 0; i < segments.length; i++) {
+      const isLast = i === segments.length - 1;
+      const end = isLast
+        ? { date: source.endDate, odometer: source.odometerEnd, position: source.endDestination }
+        : { date: segments[i].endDate, odometer: segments[i].odometerEnd, position: segments[i].endDestination };
+      
+      const result = await database.run(`
+        INSERT INTO trips (
+          category, startDate, odometerStart, startPosition, endDate,
+          odometerEnd, endDestination, durationMinutes, distance, fuelLiters,
+          title, batteryKwh, regenerationKwh, notes, isManual, vehicleId, driverId, splitFromId,
+          customerId, projectId
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        segments[i].category, start.date, start.odometer, start.position,
+        end.date, end.odometer, end.position, durations[i],
+        segments[i].distance, fuel[i], source.title, battery[i],
+        regeneration[i], segments[i].notes, source.isManual, source.vehicleId ?? null,
+        source.driverId ?? null, id,
+        ...(businessCategories.includes(segments[i].category)
+          ? [source.customerId ?? null, source.projectId ?? null]
+          : [null, null])
+      ]);
+      
+      partIds.push(result.lastID!);
+      start = end;
+    }
+    
+    await database.run(`
+      UPDATE trips SET supersededAt = ? WHERE id = ?
+    `, [new Date().toISOString(), id]);
+    await matchTripPlaces(database, partIds);
+    
+    await appendTripHistory(database, [{
+      tripId: id,
+      action: 'split',
+      field: null,
+      oldValue: null,
+      newValue: partIds.join(',')
+    }], changedBy);
+    
+    await database.exec('COMMIT');
+    return partIds;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Split trip error:', error);
+    return null;
+  }
+}
+
+function sumOrNull(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) : null;
+}
+
+// Replaces consecutive trips with one trip covering all of them. The trips
+// must be given in driving order; they are kept, hidden, linked to the result.
+export async function mergeTrips(
+  tripIds: number[],
+  merged: { category: string; notes: string },
+  changedBy: HistoryAuthor
+): Promise<number | null> {
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    const placeholders = tripIds.map(() => '?').join(',');
+    const found = await database.all<Trip[]>(`
+      SELECT * FROM trips WHERE id IN (${placeholders}) AND deletedAt IS NULL AND supersededAt IS NULL
+    `, tripIds);
+    const trips = tripIds.map(id => found.find(trip => trip.id === id)).filter((trip): trip is Trip => !!trip);
+    
+    if (trips.length !== tripIds.length) {
+      await database.exec('ROLLBACK');
+      return null;
+    }
+    
+    const first = trips[0];
+    const last = trips[trips.length - 1];
+    const driverIds = new Set(trips.map(trip => trip.driverId ?? null));
+    const projectKeys = new Set(trips.map(trip => `${trip.customerId ?? ''}:${trip.projectId ?? ''}`));
+    const values = [
+      merged.category, first.startDate, first.odometerStart, first.startPosition,
+      last.endDate, last.odometerEnd, last.endDestination,
+      sumOrNull(trips.map(trip => trip.durationMinutes)),
+      trips.reduce((sum, trip) => sum + trip.distance, 0),
+      sumOrNull(trips.map(trip => trip.fuelLiters)),
+      first.title,
+      sumOrNull(trips.map(trip => trip.batteryKwh)),
+      sumOrNull(trips.map(trip => trip.regenerationKwh)),
+      merged.notes,
+      trips.every(trip => trip.isManual),
+      first.vehicleId ?? null,
+      driverIds.size === 1 ? first.driverId ?? null : null,
+      projectKeys.size === 1 ? first.customerId ?? null : null,
+      projectKeys.size === 1 ? first.projectId ?? null : null
+    ];
+    
+    // A merge that was undone leaves its trip behind as deleted, and merging
+    // the parts of a split trip covers the same stretch as the trip that was
+    // split. Either row is brought back rather than clashing with it.
+    const previous = await database.get<{id: number}>(`
+      SELECT id FROM trips 
+      WHERE startDate = ? AND odometerStart = ? AND odometerEnd = ?
+        AND (deletedAt IS NOT NULL OR supersededAt IS NOT NULL)
+    `, [first.startDate, first.odometerStart, last.odometerEnd]);
+    
+    let mergedId: number;
+    if (previous) {
+      await database.run(`
+        UPDATE trips SET
+          category = ?, startDate = ?, odometerStart = ?, startPosition = ?, endDate = ?,
+          odometerEnd = ?, endDestination = ?, durationMinutes = ?, distance = ?, fuelLiters = ?,
+          title = ?, batteryKwh = ?, regenerationKwh = ?, notes = ?, isManual = ?, vehicleId = ?,
+          driverId = ?, customerId = ?, projectId = ?, deletedAt = NULL, supersededAt = NULL, mergedIntoId = NULL
+        WHERE id = ?
+      `, [...values, previous.id]);
+      mergedId = previous.id;
+    } else {
+      const result = await database.run(`
+        INSERT INTO trips (
+          category, startDate, odometerStart, startPosition, endDate,
+          odometerEnd, endDestination, durationMinutes, distance, fuelLiters,
+          title, batteryKwh, regenerationKwh, notes, isManual, vehicleId, driverId,
+          customerId, projectId
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, values);
+      mergedId = result.lastID!;
+    }
+    
+    // Parts merged back into the trip they were split from no longer point
+    // to it as their source
+    await database.run(`
+      UPDATE trips SET supersededAt = ?, mergedIntoId = ?,
+        splitFromId = CASE WHEN splitFromId = ? THEN NULL ELSE splitFromId END
+      WHERE id IN (${placeholders})
+    `, [new Date().toISOString(), mergedId, mergedId, ...tripIds]);
+    await matchTripPlaces(database, [mergedId]);
+    
+    await appendTripHistory(database, tripIds.map(id => ({
+      tripId: id,
+      action: 'merge',
+      field: null,
+      oldValue: null,
+      newValue: String(mergedId)
+    })), changedBy);
+    
+    await database.exec('COMMIT');
+    return mergedId;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Merge trips error:', error);
+    return null;
+  }
+}
+
+// The trips a merged trip was made from, in driving order
+export async function getMergedTrips(mergedId: number): Promise<Trip[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<Trip[]>(`
+      SELECT * FROM trips WHERE mergedIntoId = ? ORDER BY startDate, odometerStart
+    `, [mergedId]);
+  } catch (error) {
+    console.error('Get merged trips error:', error);
+    return [];
+  }
+}
+
+// Brings back the trips a merge was made from and removes the merged trip
+export async function unmergeTrip(mergedId: number, changedBy: HistoryAuthor): Promise<boolean> {
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    const components = await database.all<{id: number}[]>(`
+      SELECT id FROM trips WHERE mergedIntoId = ?
+    `, [mergedId]);
+    const result = await database.run(`
+      UPDATE trips SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL AND supersededAt IS NULL
+    `, [new Date().toISOString(), mergedId]);
+    
+    if (components.length === 0 || !result.changes) {
+      await database.exec('ROLLBACK');
+      return false;
+    }
+    
+    await database.run(`
+      UPDATE trips SET supersededAt = NULL, mergedIntoId = NULL WHERE mergedIntoId = ?
+    `, [mergedId]);
+    
+    const componentIds = components.map(component => component.id);
+    await appendTripHistory(database, [mergedId, ...componentIds].map(id => ({
+      tripId: id,
+      action: 'unmerge',
+      field: null,
+      oldValue: null,
+      newValue: id === mergedId ? componentIds.join(',') : String(mergedId)
+    })), changedBy);
+    
+    await database.exec('COMMIT');
+    return true;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Unmerge trip error:', error);
+    return false;
+  }
+}
+
+export async function getTripHistory(tripId: number): Promise<TripHistoryEntry[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<TripHistoryEntry[]>(`
+      SELECT * FROM trip_history WHERE tripId = ? ORDER BY id
+    `, [tripId]);
+  } catch (error) {
+    console.error('Get trip history error:', error);
+    return [];
+  }
+}
+
+// Changes to the trips matching a filter, including trips that have since
+// been deleted. Used for the appendix in the PDF export.
+export async function getTripHistoryForFilter(filter: TripFilter): Promise<(TripHistoryEntry & { tripStartDate: string })[]> {
+  try {
+    const database = await getDatabase();
+    const { whereClause, params } = buildTripFilter({ ...filter, includeDeleted: true });
+    
+    return await database.all(`
+      SELECT trip_history.*, trips.startDate as tripStartDate
+      FROM trip_history
+      JOIN trips ON trips.id = trip_history.tripId
+      WHERE trip_history.tripId IN (SELECT id FROM trips ${whereClause})
+      ORDER BY trip_history.id
+    `, params);
+  } catch (error) {
+    console.error('Get trip history error:', error);
+    return [];
+  }
+}
+
+// Walks the whole change log and recomputes the hash chain. Returns the id
+// of the first entry that doesn't match, or null if the log is intact. The
+// chain may restart at a break recorded by a recovery, but only at the entry
+// and hash recorded then.
+export async function verifyTripHistory(): Promise<number | null> {
+  const database = await getDatabase();
+  const entries = await database.all<TripHistoryEntry[]>(`
+    SELECT * FROM trip_history ORDER BY id
+  `);
+  const breaks = new Map((await database.all<{historyId: number; hash: string}[]>(`
+    SELECT historyId, hash FROM trip_history_breaks
+  `)).map(b => [b.historyId, b.hash]));
+  
+  let previousHash = '';
+  for (const entry of entries) {
+    if (hashHistoryEntry(previousHash, entry) !== entry.hash && breaks.get(entry.id!) !== entry.hash) {
+      return entry.id!;
+    }
+    previousHash = entry.hash;
+  }
+  
+  return null;
+}
+
+// How many places the change log is broken by entries lost in a recovery
+export async function countTripHistoryBreaks(): Promise<number> {
+  const database = await getDatabase();
+  const result = await database.get<{count: number}>(`SELECT COUNT(*) as count FROM trip_history_breaks`);
+  return result?.count || 0;
+}
+
+// Checks the chain of a change log salvaged from a damaged database and
+// records each entry where it breaks because the entries just before it were
+// lost. A mismatch with no entries missing before it isn't recorded, so
+// verifyTripHistory still reports it. Returns the number of breaks.
+async function markTripHistoryBreaks(database: Database): Promise<number> {
+  try {
+    const entries = await database.all<TripHistoryEntry[]>(`SELECT * FROM trip_history ORDER BY id`);
+    const recordedAt = new Date().toISOString();
+    let previousHash = '';
+    let previousId = 0;
+    let breaks = 0;
+    for (const entry of entries) {
+      if (entry.id !== previousId + 1 && hashHistoryEntry(previousHash, entry) !== entry.hash) {
+        await database.run(`
+          INSERT INTO trip_history_breaks (historyId, hash, recordedAt) VALUES (?, ?, ?)
+        `, [entry.id, entry.hash, recordedAt]);
+        breaks++;
+      }
+      previousHash = entry.hash;
+      previousId = entry.id!;
+    }
+    return breaks;
+  } catch (error) {
+    console.error('Could not check the salvaged change log:', error);
+    return 0;
+  }
+}
+
+export async function getSetting(key: string): Promise<string | null> {
+  try {
+    const database = await getDatabase();
+    const result = await database.get<{value: string}>(`
+      SELECT value FROM settings WHERE key = ?
+    `, [key]);
+    
+    return result?.value || null;
+  } catch (error) {
+    console.error('Get setting error:', error);
+    return null;
+  }
+}
+
+export async function setSetting(key: string, value: string): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    await database.run(`
+      INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)
+    `, [key, value]);
+    
+    return true;
+  } catch (error) {
+    console.error('Set setting error:', error);
+    return false;
+  }
+}
+
+export async function getMultipleSettings(keys: string[]): Promise<{ [key: string]: string }> {
+  try {
+    const database = await getDatabase();
+    const placeholders = keys.map(() => '?').join(',');
+    const results = await database.all<{ key: string; value: string }[]>(`
+      SELECT key, value FROM settings WHERE key IN (${placeholders})
+    `, keys);
+    
+    const settings: { [key: string]: string } = {};
+    results.forEach(row => {
+      settings[row.key] = row.value;
+    });
+    
+    return settings;
+  } catch (error) {
+    console.error('Get multiple settings error:', error);
+    return {};
+  }
+}
+
+export async function getUserSettings(userId: number, keys: string[]): Promise<{ [key: string]: string }> {
+  try {
+    const database = await getDatabase();
+    const placeholders = keys.map(() => '?').join(',');
+    const results = await database.all<{ key: string; value: string }[]>(`
+      SELECT key, value FROM user_settings WHERE userId = ? AND key IN (${placeholders})
+    `, [userId, ...keys]);
+    
+    return Object.fromEntries(results.map(row => [row.key, row.value]));
+  } catch (error) {
+    console.error('Get user settings error:', error);
+    return {};
+  }
+}
+
+export async function setUserSettings(userId: number, settings: { [key: string]: string }): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    for (const [key, value] of Object.entries(settings)) {
+      await database.run(`
+        INSERT OR REPLACE INTO user_settings (userId, key, value) VALUES (?, ?, ?)
+      `, [userId, key, value]);
+    }
+    
+    return true;
+  } catch (error) {
+    console.error('Set user settings error:', error);
+    return false;
+  }
+}
+
+export async function getCategories(): Promise<Category[]> {
+  try {
+    const database = await getDatabase();
+    const categories = await database.all<Category[]>(`
+      SELECT * FROM categories ORDER BY id
+    `);
+    
+    return categories.map(category => ({ ...category, isBusiness: !!category.isBusiness }));
+  } catch (error) {
+    console.error('Get categories error:', error);
+    return [];
+  }
+}
+
+export async function insertCategory(category: Omit<Category, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO categories (name, color, pdfDescription, isBusiness) VALUES (?, ?, ?, ?)
+    `, [category.name, category.color, category.pdfDescription, category.isBusiness]);
+    
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert category error:', error);
+    return false;
+  }
+}
+
+// Trips refer to their category by name, so renaming a category also renames
+// it on every trip. Those changes are logged like any other edit.
+export async function updateCategory(id: number, category: Omit<Category, 'id'>, changedBy: HistoryAuthor): Promise<boolean> {
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    const current = await database.get<Category>(`SELECT * FROM categories WHERE id = ?`, [id]);
+    if (!current) {
+      await database.exec('ROLLBACK');
+      return false;
+    }
+    
+    await database.run(`
+      UPDATE categories SET name = ?, color = ?, pdfDescription = ?, isBusiness = ? WHERE id = ?
+    `, [category.name, category.color, category.pdfDescription, category.isBusiness, id]);
+    
+    if (current.name !== category.name) {
+      const trips = await database.all<{id: number}[]>(`
+        SELECT id FROM trips WHERE category = ? AND deletedAt IS NULL
+      `, [current.name]);
+      
+      await database.run(`
+        UPDATE trips SET category = ? WHERE category = ? AND deletedAt IS NULL
+      `, [category.name, current.name]);
+      
+      await appendTripHistory(database, trips.map(trip => ({
+        tripId: trip.id,
+        action: 'update',
+        field: 'category',
+        oldValue: current.name,
+        newValue: category.name
+      })), changedBy);
+      
+      await database.run(`
+        UPDATE categorization_rules SET category = ? WHERE category = ?
+      `, [category.name, current.name]);
+    }
+    
+    await database.exec('COMMIT');
+    return true;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Update category error:', error);
+    return false;
+  }
+}
+
+export async function deleteCategory(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    
+    // Categories that are in use can't be removed
+    const usage = await database.get<{count: number}>(`
+      SELECT
+        (SELECT COUNT(*) FROM trips WHERE category = categories.name) +
+        (SELECT COUNT(*) FROM categorization_rules WHERE category = categories.name) as count
+      FROM categories WHERE id = ?
+    `, [id]);
+    
+    if ((usage?.count || 0) > 0) {
+      return false;
+    }
+    
+    const result = await database.run(`DELETE FROM categories WHERE id = ?`, [id]);
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete category error:', error);
+    return false;
+  }
+}
+
+// Imported files may contain categories that haven't been set up yet. They
+// are added with neutral defaults so that they show up in filters and reports.
+export async function ensureCategories(names: string[]): Promise<void> {
+  try {
+    const database = await getDatabase();
+    
+    for (const name of new Set(names)) {
+      await database.run(`
+        INSERT OR IGNORE INTO categories (name, color, pdfDescription, isBusiness) VALUES (?, '#86868b', ?, FALSE)
+      `, [name, name]);
+    }
+  } catch (error) {
+    console.error('Ensure categories error:', error);
+  }
+}
+
+async function loadPlaces(database: Database): Promise<Place[]> {
+  const places = await database.all<Omit<Place, 'patterns'>[]>(`SELECT * FROM places ORDER BY name`);
+  const patterns = await database.all<{placeId: number; pattern: string}[]>(`
+    SELECT placeId, pattern FROM place_patterns ORDER BY id
+  `);
+  
+  return places.map(place => ({
+    ...place,
+    patterns: patterns.filter(p => p.placeId === place.id).map(p => p.pattern)
+  }));
+}
+
+// Sets startPlaceId/endPlaceId from the trips' addresses, for the given trips
+// or for all of them. Must be called inside the caller's transaction.
+async function matchTripPlaces(database: Database, tripIds?: number[]): Promise<void> {
+  const places = await loadPlaces(database);
+  const placeholders = tripIds?.map(() => '?').join(',');
+  const trips = await database.all<Pick<Trip, 'id' | 'startPosition' | 'endDestination' | 'startPlaceId' | 'endPlaceId'>[]>(`
+    SELECT id, startPosition, endDestination, startPlaceId, endPlaceId FROM trips
+    ${tripIds ? `WHERE id IN (${placeholders})` : ''}
+  `, tripIds || []);
+  
+  for (const trip of trips) {
+    const startPlaceId = findPlace(trip.startPosition, places)?.id ?? null;
+    const endPlaceId = findPlace(trip.endDestination, places)?.id ?? null;
+    
+    if (startPlaceId !== (trip.startPlaceId ?? null) || endPlaceId !== (trip.endPlaceId ?? null)) {
+      await database.run(`
+        UPDATE trips SET startPlaceId = ?, endPlaceId = ? WHERE id = ?
+      `, [startPlaceId, endPlaceId, trip.id]);
+    }
+  }
+}
+
+export async function getPlaces(): Promise<Place[]> {
+  try {
+    const database = await getDatabase();
+    return await loadPlaces(database);
+  } catch (error) {
+    console.error('Get places error:', error);
+    return [];
+  }
+}
+
+async function savePlacePatterns(database: Database, placeId: number, patterns: string[]): Promise<void> {
+  await database.run(`DELETE FROM place_patterns WHERE placeId = ?`, [placeId]);
+  for (const pattern of patterns) {
+    await database.run(`
+      INSERT INTO place_patterns (placeId, pattern) VALUES (?, ?)
+    `, [placeId, pattern]);
+  }
+}
+
+// Saving a place matches every trip again, since any trip may now belong to it
+export async function insertPlace(place: Omit<Place, 'id'>): Promise<number | false> {
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    const result = await database.run(`
+      INSERT INTO places (name, latitude, longitude, radiusMeters) VALUES (?, ?, ?, ?)
+    `, [place.name, place.latitude, place.longitude, place.radiusMeters]);
+    
+    await savePlacePatterns(database, result.lastID!, place.patterns);
+    await matchTripPlaces(database);
+    
+    await database.exec('COMMIT');
+    return result.lastID!;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Insert place error:', error);
+    return false;
+  }
+}
+
+export async function updatePlace(id: number, place: Omit<Place, 'id'>): Promise<boolean> {
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    const result = await database.run(`
+      UPDATE places SET name = ?, latitude = ?, longitude = ?, radiusMeters = ? WHERE id = ?
+    `, [place.name, place.latitude, place.longitude, place.radiusMeters, id]);
+    
+    if (!result.changes) {
+      await database.exec('ROLLBACK');
+      return false;
+    }
+    
+    await savePlacePatterns(database, id, place.patterns);
+    await matchTripPlaces(database);
+    
+    await database.exec('COMMIT');
+    return true;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Update place error:', error);
+    return false;
+  }
+}
+
+export async function deletePlace(id: number): Promise<boolean> {
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    await database.run(`UPDATE trips SET startPlaceId = NULL WHERE startPlaceId = ?`, [id]);
+    await database.run(`UPDATE trips SET endPlaceId = NULL WHERE endPlaceId = ?`, [id]);
+    await database.run(`DELETE FROM place_patterns WHERE placeId = ?`, [id]);
+    const result = await database.run(`DELETE FROM places WHERE id = ?`, [id]);
+    await matchTripPlaces(database);
+    
+    await database.exec('COMMIT');
+    return result.changes! > 0;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Delete place error:', error);
+    return false;
+  }
+}
+
+type RuleRow = Omit<CategorizationRule, 'weekdays' | 'enabled'> & { weekdays: string; enabled: number };
+
+export async function getRules(): Promise<CategorizationRule[]> {
+  try {
+    const database = await getDatabase();
+    const rules = await database.all<RuleRow[]>(`
+      SELECT * FROM categorization_rules ORDER BY priority, id
+    `);
+    
+    return rules.map(rule => ({
+      ...rule,
+      enabled: !!rule.enabled,
+      weekdays: rule.weekdays ? rule.weekdays.split(',').map(Number) : []
+    }));
+  } catch (error) {
+    console.error('Get rules error:', error);
+    return [];
+  }
+}
+
+function ruleValues(rule: Omit<CategorizationRule, 'id'>): (string | number | boolean | null)[] {
+  return [
+    rule.name, rule.priority, rule.enabled, rule.startPattern, rule.endPattern,
+    rule.weekdays.join(','), rule.timeFrom, rule.timeTo, rule.minDistance,
+    rule.maxDistance, rule.holidays, rule.category, rule.purpose, rule.customerId,
+    rule.projectId
+  ];
+}
+
+export async function insertRule(rule: Omit<CategorizationRule, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO categorization_rules (
+        name, priority, enabled, startPattern, endPattern, weekdays, timeFrom,
+        timeTo, minDistance, maxDistance, holidays, category, purpose, customerId, projectId
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, ruleValues(rule));
+    
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert rule error:', error);
+    return false;
+  }
+}
+
+export async function updateRule(id: number, rule: Omit<CategorizationRule, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      UPDATE categorization_rules SET
+        name = ?, priority = ?, enabled = ?, startPattern = ?, endPattern = ?, weekdays = ?,
+        timeFrom = ?, timeTo = ?, minDistance = ?, maxDistance = ?, holidays = ?, category = ?, purpose = ?,
+        customerId = ?, projectId = ?
+      WHERE id = ?
+    `, [...ruleValues(rule), id]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Update rule error:', error);
+    return false;
+  }
+}
+
+// Trips keep the category the rule gave them
+export async function deleteRule(id: number): Promise<boolean> {
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    await database.run(`UPDATE trips SET ruleId = NULL WHERE ruleId = ?`, [id]);
+    const result = await database.run(`DELETE FROM categorization_rules WHERE id = ?`, [id]);
+    
+    await database.exec('COMMIT');
+    return result.changes! > 0;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Delete rule error:', error);
+    return false;
+  }
+}
+
+// Writes the outcome of a rule run. The trips were logged before the rules
+// ran, so the changes go into the history like edits.
+export async function applyRuleResults(results: RuleResult[], changedBy: HistoryAuthor): Promise<number> {
+  if (results.length === 0) {
+    return 0;
+  }
+  
+  const database = await getDatabase();
+  
+  try {
+    await database.exec('BEGIN TRANSACTION');
+    
+    let updated = 0;
+    for (const result of results) {
+      const current = await database.get<Trip>(`
+        SELECT * FROM trips WHERE id = ? AND deletedAt IS NULL AND supersededAt IS NULL
+      `, [result.tripId]);
+      if (!current) continue;
+      
+      const changes = (['category', 'notes', 'customerId', 'projectId'] as const)
+        .filter(field => historyValue(current[field]) !== historyValue(result[field]));
+      if (changes.length === 0) continue;
+      
+      await database.run(`
+        UPDATE trips SET category = ?, notes = ?, customerId = ?, projectId = ?, ruleId = ? WHERE id = ?
+      `, [result.category, result.notes, result.customerId, result.projectId, result.ruleId, result.tripId]);
+      
+      await appendTripHistory(database, changes.map(field => ({
+        tripId: result.tripId,
+        action: 'update',
+        field,
+        oldValue: historyValue(current[field]),
+        newValue: historyValue(result[field])
+      })), changedBy);
+      updated++;
+    }
+    
+    await database.exec('COMMIT');
+    return updated;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Apply rules error:', error);
+    return 0;
+  }
+}
+
+export async function getCustomers(): Promise<Customer[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<Customer[]>(`
+      SELECT * FROM customers ORDER BY name
+    `);
+  } catch (error) {
+    console.error('Get customers error:', error);
+    return [];
+  }
+}
+
+export async function insertCustomer(customer: Omit<Customer, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO customers (name, orgNumber, ratePerKm) VALUES (?, ?, ?)
+    `, [customer.name, customer.orgNumber, customer.ratePerKm]);
+    
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert customer error:', error);
+    return false;
+  }
+}
+
+export async function updateCustomer(id: number, customer: Omit<Customer, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      UPDATE customers SET name = ?, orgNumber = ?, ratePerKm = ? WHERE id = ?
+    `, [customer.name, customer.orgNumber, customer.ratePerKm, id]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Update customer error:', error);
+    return false;
+  }
+}
+
+// Customers that trips or rules refer to can't be removed, and the customer's
+// projects go with it
+export async function deleteCustomer(id: number): Promise<boolean> {
+  const database = await getDatabase();
+  
+  try {
+    const usage = await database.get<{count: number}>(`
+      SELECT
+        (SELECT COUNT(*) FROM trips WHERE customerId = ?) +
+        (SELECT COUNT(*) FROM categorization_rules WHERE customerId = ?) as count
+    `, [id, id]);
+    
+    if ((usage?.count || 0) > 0) {
+      return false;
+    }
+    
+    await database.exec('BEGIN TRANSACTION');
+    await database.run(`DELETE FROM projects WHERE customerId = ?`, [id]);
+    const result = await database.run(`DELETE FROM customers WHERE id = ?`, [id]);
+    await database.exec('COMMIT');
+    
+    return result.changes! > 0;
+  } catch (error) {
+    try {
+      await database.exec('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Rollback failed:', rollbackError);
+    }
+    console.error('Delete customer error:', error);
+    return false;
+  }
+}
+
+export async function getProjects(): Promise<Project[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<Project[]>(`
+      SELECT * FROM projects ORDER BY name
+    `);
+  } catch (error) {
+    console.error('Get projects error:', error);
+    return [];
+  }
+}
+
+export async function insertProject(project: Omit<Project, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO projects (customerId, name, code) VALUES (?, ?, ?)
+    `, [project.customerId, project.name, project.code]);
+    
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert project error:', error);
+    return false;
+  }
+}
+
+// Moving a project to another customer would leave its trips invoiced to
+// the old one, so only the name and code can change
+export async function updateProject(id: number, project: Pick<Project, 'name' | 'code'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      UPDATE projects SET name = ?, code = ? WHERE id = ?
+    `, [project.name, project.code, id]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Update project error:', error);
+    return false;
+  }
+}
+
+export async function deleteProject(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    
+    const usage = await database.get<{count: number}>(`
+      SELECT
+        (SELECT COUNT(*) FROM trips WHERE projectId = ?) +
+        (SELECT COUNT(*) FROM categorization_rules WHERE projectId = ?) as count
+    `, [id, id]);
+    
+    if ((usage?.count || 0) > 0) {
+      return false;
+    }
+    
+    const result = await database.run(`DELETE FROM projects WHERE id = ?`, [id]);
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete project error:', error);
+    return false;
+  }
+}
+
+export async function getVehicles(): Promise<Vehicle[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<Vehicle[]>(`
+      SELECT * FROM vehicles ORDER BY regNumber
+    `);
+  } catch (error) {
+    console.error('Get vehicles error:', error);
+    return [];
+  }
+}
+
+export async function getVehicle(id: number): Promise<Vehicle | null> {
+  try {
+    const database = await getDatabase();
+    const vehicle = await database.get<Vehicle>(`
+      SELECT * FROM vehicles WHERE id = ?
+    `, [id]);
+    
+    return vehicle || null;
+  } catch (error) {
+    console.error('Get vehicle error:', error);
+    return null;
+  }
+}
+
+export async function insertVehicle(vehicle: Omit<Vehicle, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO vehicles (regNumber, model, fuelType, owner, allowanceType, privateYearLimitKm, privateYearLimitTrips, privateMonthLimitKm)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      vehicle.regNumber, vehicle.model, vehicle.fuelType, vehicle.owner, vehicle.allowanceType,
+      vehicle.privateYearLimitKm, vehicle.privateYearLimitTrips, vehicle.privateMonthLimitKm
+    ]);
+    
+    return result.lastID!;
+  } catch (error) {
+    // Registration numbers are unique
+    console.error('Insert vehicle error:', error);
+    return false;
+  }
+}
+
+export async function updateVehicle(id: number, vehicle: Omit<Vehicle, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      UPDATE vehicles 
+      SET regNumber = ?, model = ?, fuelType = ?, owner = ?, allowanceType = ?,
+          privateYearLimitKm = ?, privateYearLimitTrips = ?, privateMonthLimitKm = ?
+      WHERE id = ?
+    `, [
+      vehicle.regNumber, vehicle.model, vehicle.fuelType, vehicle.owner, vehicle.allowanceType,
+      vehicle.privateYearLimitKm, vehicle.privateYearLimitTrips, vehicle.privateMonthLimitKm, id
+    ]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Update vehicle error:', error);
+    return false;
+  }
+}
+
+export async function deleteVehicle(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    
+    // Vehicles with trips, refuels, charging or maintenance can't be removed, they would lose their car
+    const trips = await database.get<{count: number}>(`
+      SELECT
+        (SELECT COUNT(*) FROM trips WHERE vehicleId = ?) +
+        (SELECT COUNT(*) FROM refuels WHERE vehicleId = ?) +
+        (SELECT COUNT(*) FROM charging_sessions WHERE vehicleId = ?) +
+        (SELECT COUNT(*) FROM maintenance WHERE vehicleId = ?) as count
+    `, [id, id, id, id]);
+    
+    if (trips && trips.count > 0) {
+      console.error('Cannot delete vehicle with trips:', id);
+      return false;
+    }
+    
+    // Its own prices and maintenance intervals go with it
+    await database.run(`DELETE FROM energy_prices WHERE vehicleId = ?`, [id]);
+    await database.run(`DELETE FROM maintenance_intervals WHERE vehicleId = ?`, [id]);
+    const result = await database.run(`
+      DELETE FROM vehicles WHERE id = ?
+    `, [id]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete vehicle error:', error);
+    return false;
+  }
+}
+
+export async function getMileageRates(): Promise<MileageRate[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<MileageRate[]>(`
+      SELECT * FROM mileage_rates ORDER BY vehicleType, validFrom
+    `);
+  } catch (error) {
+    console.error('Get mileage rates error:', error);
+    return [];
+  }
+}
+
+export async function insertMileageRate(rate: Omit<MileageRate, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO mileage_rates (vehicleType, validFrom, validTo, ratePerMil) VALUES (?, ?, ?, ?)
+    `, [rate.vehicleType, rate.validFrom, rate.validTo, rate.ratePerMil]);
+    
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert mileage rate error:', error);
+    return false;
+  }
+}
+
+export async function updateMileageRate(id: number, rate: Omit<MileageRate, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      UPDATE mileage_rates SET vehicleType = ?, validFrom = ?, validTo = ?, ratePerMil = ? WHERE id = ?
+    `, [rate.vehicleType, rate.validFrom, rate.validTo, rate.ratePerMil, id]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Update mileage rate error:', error);
+    return false;
+  }
+}
+
+export async function deleteMileageRate(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`DELETE FROM mileage_rates WHERE id = ?`, [id]);
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete mileage rate error:', error);
+    return false;
+  }
+}
+
+function buildVehicleLogFilter(filter: VehicleLogFilter, dateColumn: string): { whereClause: string; params: (string | number)[] } {
+  const conditions = [];
+  const params: (string | number)[] = [];
+  
+  if (filter.vehicleId) {
+    conditions.push('vehicleId = ?');
+    params.push(filter.vehicleId);
+  }
+  if (filter.dateFrom) {
+    conditions.push(`${dateColumn} >= ?`);
+    params.push(filter.dateFrom);
+  }
+  if (filter.dateTo) {
+    conditions.push(`substr(${dateColumn}, 1, 10) <= ?`);
+    params.push(filter.dateTo);
+  }
+  
+  return {
+    whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params
+  };
+}
+
+// Maintenance oldest first
+export async function getMaintenance(filter: VehicleLogFilter = {}): Promise<Maintenance[]> {
+  try {
+    const database = await getDatabase();
+    const { whereClause, params } = buildVehicleLogFilter(filter, 'date');
+    return await database.all<Maintenance[]>(`
+      SELECT * FROM maintenance ${whereClause} ORDER BY date, odometer
+    `, params);
+  } catch (error) {
+    console.error('Get maintenance error:', error);
+    return [];
+  }
+}
+
+export async function insertMaintenance(maintenance: Omit<Maintenance, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO maintenance (vehicleId, date, odometer, type, cost, workshop, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [maintenance.vehicleId, maintenance.date, maintenance.odometer, maintenance.type, maintenance.cost, maintenance.workshop, maintenance.notes]);
+    
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert maintenance error:', error);
+    return false;
+  }
+}
+
+export async function updateMaintenance(id: number, maintenance: Omit<Maintenance, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      UPDATE maintenance
+      SET vehicleId = ?, date = ?, odometer = ?, type = ?, cost = ?, workshop = ?, notes = ?
+      WHERE id = ?
+    `, [maintenance.vehicleId, maintenance.date, maintenance.odometer, maintenance.type, maintenance.cost, maintenance.workshop, maintenance.notes, id]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Update maintenance error:', error);
+    return false;
+  }
+}
+
+export async function deleteMaintenance(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`DELETE FROM maintenance WHERE id = ?`, [id]);
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete maintenance error:', error);
+    return false;
+  }
+}
+
+export async function getMaintenanceIntervals(vehicleId?: number | null): Promise<MaintenanceInterval[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<MaintenanceInterval[]>(`
+      SELECT * FROM maintenance_intervals ${vehicleId ? 'WHERE vehicleId = ?' : ''} ORDER BY vehicleId, type
+    `, vehicleId ? [vehicleId] : []);
+  } catch (error) {
+    console.error('Get maintenance intervals error:', error);
+    return [];
+  }
+}
+
+// One interval per vehicle and type; saving a type again replaces it
+export async function saveMaintenanceInterval(interval: Omit<MaintenanceInterval, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    await database.run(`
+      INSERT INTO maintenance_intervals (vehicleId, type, intervalKm, intervalMonths) VALUES (?, ?, ?, ?)
+      ON CONFLICT(vehicleId, type) DO UPDATE SET intervalKm = excluded.intervalKm, intervalMonths = excluded.intervalMonths
+    `, [interval.vehicleId, interval.type, interval.intervalKm, interval.intervalMonths]);
+    return true;
+  } catch (error) {
+    console.error('Save maintenance interval error:', error);
+    return false;
+  }
+}
+
+export async function deleteMaintenanceInterval(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`DELETE FROM maintenance_intervals WHERE id = ?`, [id]);
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete maintenance interval error:', error);
+    return false;
+  }
+}
+
+// The highest odometerEnd of each vehicle's trips, what the car last reported
+export async function getLatestOdometers(): Promise<Map<number, number>> {
+  try {
+    const database = await getDatabase();
+    const rows = await database.all<{vehicleId: number; odometer: number}[]>(`
+      SELECT vehicleId, MAX(odometerEnd) as odometer
+      FROM trips
+      WHERE deletedAt IS NULL AND supersededAt IS NULL AND vehicleId IS NOT NULL
+      GROUP BY vehicleId
+    `);
+    return new Map(rows.map(row => [row.vehicleId, row.odometer]));
+  } catch (error) {
+    console.error('Get latest odometers error:', error);
+    return new Map();
+  }
+}
+
+// Refuels oldest first
+export async function getRefuels(filter: VehicleLogFilter = {}): Promise<Refuel[]> {
+  try {
+    const database = await getDatabase();
+    const { whereClause, params } = buildVehicleLogFilter(filter, 'date');
+    const refuels = await database.all<(Omit<Refuel, 'fullTank'> & { fullTank: number })[]>(`
+      SELECT * FROM refuels ${whereClause} ORDER BY date, odometer
+    `, params);
+    
+    return refuels.map(refuel => ({ ...refuel, fullTank: !!refuel.fullTank }));
+  } catch (error) {
+    console.error('Get refuels error:', error);
+    return [];
+  }
+}
+
+export async function insertRefuel(refuel: Omit<Refuel, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO refuels (vehicleId, date, odometer, liters, totalPrice, station, fullTank)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [refuel.vehicleId, refuel.date, refuel.odometer, refuel.liters, refuel.totalPrice, refuel.station, refuel.fullTank ? 1 : 0]);
+    
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert refuel error:', error);
+    return false;
+  }
+}
+
+export async function updateRefuel(id: number, refuel: Omit<Refuel, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      UPDATE refuels
+      SET vehicleId = ?, date = ?, odometer = ?, liters = ?, totalPrice = ?, station = ?, fullTank = ?
+      WHERE id = ?
+    `, [refuel.vehicleId, refuel.date, refuel.odometer, refuel.liters, refuel.totalPrice, refuel.station, refuel.fullTank ? 1 : 0, id]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Update refuel error:', error);
+    return false;
+  }
+}
+
+export async function deleteRefuel(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`DELETE FROM refuels WHERE id = ?`, [id]);
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete refuel error:', error);
+    return false;
+  }
+}
+
+// Charging sessions oldest first
+export async function getChargingSessions(filter: VehicleLogFilter = {}): Promise<ChargingSession[]> {
+  try {
+    const database = await getDatabase();
+    const { whereClause, params } = buildVehicleLogFilter(filter, 'startedAt');
+    return await database.all<ChargingSession[]>(`
+      SELECT * FROM charging_sessions ${whereClause} ORDER BY startedAt
+    `, params);
+  } catch (error) {
+    console.error('Get charging sessions error:', error);
+    return [];
+  }
+}
+
+export async function insertChargingSession(session: Omit<ChargingSession, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO charging_sessions (vehicleId, startedAt, endedAt, kwh, location, pricePerKwh, totalPrice, lossPercent, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      session.vehicleId, session.startedAt, session.endedAt, session.kwh, session.location,
+      session.pricePerKwh, session.totalPrice, session.lossPercent, session.notes
+    ]);
+    
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert charging session error:', error);
+    return false;
+  }
+}
+
+export async function updateChargingSession(id: number, session: Omit<ChargingSession, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      UPDATE charging_sessions
+      SET vehicleId = ?, startedAt = ?, endedAt = ?, kwh = ?, location = ?, pricePerKwh = ?, totalPrice = ?, lossPercent = ?, notes = ?
+      WHERE id = ?
+    `, [
+      session.vehicleId, session.startedAt, session.endedAt, session.kwh, session.location,
+      session.pricePerKwh, session.totalPrice, session.lossPercent, session.notes, id
+    ]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Update charging session error:', error);
+    return false;
+  }
+}
+
+export async function deleteChargingSession(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`DELETE FROM charging_sessions WHERE id = ?`, [id]);
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete charging session error:', error);
+    return false;
+  }
+}
+
+export async function getEnergyPrices(): Promise<EnergyPrice[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<EnergyPrice[]>(`
+      SELECT * FROM energy_prices ORDER BY energyType, vehicleId IS NOT NULL, vehicleId, validFrom
+    `);
+  } catch (error) {
+    console.error('Get energy prices error:', error);
+    return [];
+  }
+}
+
+export async function insertEnergyPrice(price: Omit<EnergyPrice, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO energy_prices (energyType, vehicleId, validFrom, price) VALUES (?, ?, ?, ?)
+    `, [price.energyType, price.vehicleId, price.validFrom, price.price]);
+    
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert energy price error:', error);
+    return false;
+  }
+}
+
+export async function updateEnergyPrice(id: number, price: Omit<EnergyPrice, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      UPDATE energy_prices SET energyType = ?, vehicleId = ?, validFrom = ?, price = ? WHERE id = ?
+    `, [price.energyType, price.vehicleId, price.validFrom, price.price, id]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Update energy price error:', error);
+    return false;
+  }
+}
+
+export async function deleteEnergyPrice(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`DELETE FROM energy_prices WHERE id = ?`, [id]);
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete energy price error:', error);
+    return false;
+  }
+}
+
+// Hours from 'from' up to but not including 'to'
+export async function getSpotPrices(area: string, from: string, to: string): Promise<SpotPrice[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<SpotPrice[]>(`
+      SELECT * FROM spot_prices WHERE area = ? AND hour >= ? AND hour < ? ORDER BY hour
+    `, [area, from, to]);
+  } catch (error) {
+    console.error('Get spot prices error:', error);
+    return [];
   }
-  return db;
 }
 
-// Helper function to create database tables
-async function createTables(database: Database): Promise<void> {
-  await database.exec(`
-    CREATE TABLE IF NOT EXISTS trips (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      category TEXT NOT NULL,
-      startDate TEXT NOT NULL,
-      odometerStart INTEGER NOT NULL,
-      startPosition TEXT NOT NULL,
-      endDate TEXT NOT NULL,
-      odometerEnd INTEGER NOT NULL,
-      endDestination TEXT NOT NULL,
-      duration TEXT NOT NULL,
-      distance REAL NOT NULL,
-      fuelConsumption TEXT NOT NULL,
-      title TEXT NOT NULL,
-      batteryConsumption TEXT NOT NULL,
-      batteryRegeneration TEXT NOT NULL,
-      notes TEXT NOT NULL,
-      isManual BOOLEAN DEFAULT FALSE,
-      UNIQUE(startDate, odometerStart, odometerEnd)
-    )
-  `);
-
-  await database.exec(`
-    CREATE TABLE IF NOT EXISTS settings (
-      key TEXT PRIMARY KEY,
-      value TEXT NOT NULL
-    )
-  `);
-
-  // Add migration for existing databases to add isManual column
+export async function getSpotPriceCoverage(): Promise<SpotPriceCoverage[]> {
   try {
-    const tableInfo = await database.all(`PRAGMA table_info(trips)`);
-    const hasIsManualColumn = tableInfo.some((column: { name: string }) => column.name === 'isManual');
-    
-    if (!hasIsManualColumn) {
-      console.log('Adding isManual column to existing trips table...');
-      await database.exec(`ALTER TABLE trips ADD COLUMN isManual BOOLEAN DEFAULT FALSE`);
-      console.log('isManual column added successfully');
-    }
+    const database = await getDatabase();
+    return await database.all<SpotPriceCoverage[]>(`
+      SELECT area, COUNT(*) as hours, MIN(hour) as firstHour, MAX(hour) as lastHour
+      FROM spot_prices
+      GROUP BY area
+      ORDER BY area
+    `);
   } catch (error) {
-    console.error('Error checking/adding isManual column:', error);
+    console.error('Get spot price coverage error:', error);
+    return [];
   }
 }
 
-export async function insertTrip(trip: Omit<Trip, 'id'>, isManual: boolean = false): Promise<number | false> {
+// Hours already stored are replaced, so a corrected file can be imported again
+export async function saveSpotPrices(prices: SpotPrice[]): Promise<boolean> {
   const database = await getDatabase();
   
   try {
-    console.log('Inserting trip:', {
-      startDate: trip.startDate,
-      odometerStart: trip.odometerStart,
-      odometerEnd: trip.odometerEnd,
-      category: trip.category,
-      isManual: isManual
-    });
-    
-    // Use transaction for data integrity
     await database.exec('BEGIN TRANSACTION');
-    
-    const result = await database.run(`
-      INSERT INTO trips (
-        category, startDate, odometerStart, startPosition, endDate, 
-        odometerEnd, endDestination, duration, distance, fuelConsumption,
-        title, batteryConsumption, batteryRegeneration, notes, isManual
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `, [
-      trip.category, trip.startDate, trip.odometerStart, trip.startPosition,
-      trip.endDate, trip.odometerEnd, trip.endDestination, trip.duration,
-      trip.distance, trip.fuelConsumption, trip.title, trip.batteryConsumption,
-      trip.batteryRegeneration, trip.notes, isManual
-    ]);
-    
+    for (const price of prices) {
+      await database.run(`
+        INSERT OR REPLACE INTO spot_prices (area, hour, price) VALUES (?, ?, ?)
+      `, [price.area, price.hour, price.price]);
+    }
     await database.exec('COMMIT');
-    console.log('Trip inserted successfully with ID:', result.lastID);
-    return result.lastID!;
+    return true;
   } catch (error) {
-    // Rollback transaction on error
     try {
       await database.exec('ROLLBACK');
     } catch (rollbackError) {
       console.error('Rollback failed:', rollbackError);
     }
-    
-    const errorObj = error as { code?: string; errno?: number; message?: string };
-    console.log('Database error details:', {
-      code: errorObj.code,
-      errno: errorObj.errno,
-      message: errorObj.message
-    });
-    
-    // Check for database corruption
-    if (isSQLiteCorruptionError(error)) {
-      throw new DatabaseCorruptionError('Database corruption detected during trip insertion');
-    }
-    
-    if (errorObj.code === 'SQLITE_CONSTRAINT_UNIQUE' || 
-        errorObj.code === 'SQLITE_CONSTRAINT' || 
-        errorObj.errno === 19) {
-      console.log('Duplicate trip found, skipping:', {
-        startDate: trip.startDate,
-        odometerStart: trip.odometerStart,
-        odometerEnd: trip.odometerEnd
-      });
-      return false; // Duplicate found
-    }
-    
-    console.error('Database insert error:', error);
-    throw error;
+    console.error('Save spot prices error:', error);
+    return false;
   }
 }
 
-export async function getTrips(
-  page: number = 1, 
-  limit: number = 20, 
-  category: string = '', 
-  dateFrom: string = '', 
-  dateTo: string = '',
-  sortOrder: string = 'desc'
-): Promise<{trips: Trip[], total: number}> {
-  const database = await getDatabase();
-  const offset = (page - 1) * limit;
-  
-  // Build WHERE clause
-  const conditions = [];
-  const params = [];
-  
-  if (category) {
-    conditions.push('category = ?');
-    params.push(category);
+// SQL for the price of an energy type valid on a trip's start date, for use
+// in queries over trips. The latest price that had started wins, whether
+// for all vehicles or the trip's; on the same date the vehicle's own does.
+// Null when no price had started yet.
+const tripEnergyPrice = (energyType: EnergyType) => `(
+  SELECT price FROM energy_prices
+  WHERE energyType = '${energyType}'
+    AND (energy_prices.vehicleId = trips.vehicleId OR energy_prices.vehicleId IS NULL)
+    AND validFrom <= substr(trips.startDate, 1, 10)
+  ORDER BY validFrom DESC, energy_prices.vehicleId IS NULL
+  LIMIT 1
+)`;
+
+export async function getTravelDeductionRates(): Promise<TravelDeductionRate[]> {
+  try {
+    const database = await getDatabase();
+    return await database.all<TravelDeductionRate[]>(`
+      SELECT * FROM travel_deduction_rates ORDER BY year
+    `);
+  } catch (error) {
+    console.error('Get travel deduction rates error:', error);
+    return [];
   }
-  
-  if (dateFrom) {
-    conditions.push('startDate >= ?');
-    params.push(dateFrom);
+}
+
+// Adds the year's rate, or replaces it if the year already has one
+export async function saveTravelDeductionRate(rate: TravelDeductionRate): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    await database.run(`
+      INSERT OR REPLACE INTO travel_deduction_rates (year, ratePerMil, threshold) VALUES (?, ?, ?)
+    `, [rate.year, rate.ratePerMil, rate.threshold]);
+    
+    return true;
+  } catch (error) {
+    console.error('Save travel deduction rate error:', error);
+    return false;
   }
-  
-  if (dateTo) {
-    conditions.push('startDate < ?');
-    // Add one day to include the entire selected date
-    const nextDay = new Date(dateTo);
-    nextDay.setDate(nextDay.getDate() + 1);
-    params.push(nextDay.toISOString().split('T')[0]);
+}
+
+export async function deleteTravelDeductionRate(year: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`DELETE FROM travel_deduction_rates WHERE year = ?`, [year]);
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete travel deduction rate error:', error);
+    return false;
   }
-  
-  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-  const orderDirection = sortOrder === 'asc' ? 'ASC' : 'DESC';
-  
-  const trips = await database.all<Trip[]>(`
-    SELECT * FROM trips 
-    ${whereClause}
-    ORDER BY startDate ${orderDirection}
-    LIMIT ? OFFSET ?
-  `, [...params, limit, offset]);
-  
-  const totalResult = await database.get<{count: number}>(`
-    SELECT COUNT(*) as count FROM trips
-    ${whereClause}
-  `, params);
-  
-  return {
-    trips,
-    total: totalResult?.count || 0
-  };
 }
 
-export async function updateTrip(id: number, updates: { 
-  category?: string; 
-  notes?: string; 
-  startPosition?: string; 
-  endDestination?: string; 
-  duration?: string; 
-}): Promise<boolean> {
+export async function getDrivers(): Promise<Driver[]> {
   try {
     const database = await getDatabase();
-    const setClauses = [];
-    const params = [];
-    
-    if (updates.category !== undefined) {
-      setClauses.push('category = ?');
-      params.push(updates.category);
-    }
-    
-    if (updates.notes !== undefined) {
-      setClauses.push('notes = ?');
-      params.push(updates.notes);
-    }
-    
-    if (updates.startPosition !== undefined) {
-      setClauses.push('startPosition = ?');
-      params.push(updates.startPosition);
-    }
-    
-    if (updates.endDestination !== undefined) {
-      setClauses.push('endDestination = ?');
-      params.push(updates.endDestination);
-    }
-    
-    if (updates.duration !== undefined) {
-      setClauses.push('duration = ?');
-      params.push(updates.duration);
-    }
-    
-    if (setClauses.length === 0) {
-      return false;
-    }
-    
-    params.push(id);
+    return await database.all<Driver[]>(`
+      SELECT * FROM drivers ORDER BY name
+    `);
+  } catch (error) {
+    console.error('Get drivers error:', error);
+    return [];
+  }
+}
+
+export async function insertDriver(driver: Omit<Driver, 'id'>): Promise<number | false> {
+  try {
+    const database = await getDatabase();
+    const result = await database.run(`
+      INSERT INTO drivers (name, personNumber) VALUES (?, ?)
+    `, [driver.name, driver.personNumber]);
     
+    return result.lastID!;
+  } catch (error) {
+    console.error('Insert driver error:', error);
+    return false;
+  }
+}
+
+export async function updateDriver(id: number, driver: Omit<Driver, 'id'>): Promise<boolean> {
+  try {
+    const database = await getDatabase();
     const result = await database.run(`
-      UPDATE trips 
-      SET ${setClauses.join(', ')}
-      WHERE id = ?
-    `, params);
+      UPDATE drivers SET name = ?, personNumber = ? WHERE id = ?
+    `, [driver.name, driver.personNumber, id]);
     
     return result.changes! > 0;
   } catch (error) {
-    console.error('Update trip error:', error);
+    console.error('Update driver error:', error);
     return false;
   }
 }
 
-export async function deleteTrip(id: number): Promise<boolean> {
+export async function deleteDriver(id: number): Promise<boolean> {
   try {
     const database = await getDatabase();
     
-    // First check if the trip exists and is manual
-    const trip = await database.get<{isManual: boolean}>(`
-      SELECT isManual FROM trips WHERE id = ?
+    // Drivers with trips can't be removed, the journal must keep saying who drove
+    const trips = await database.get<{count: number}>(`
+      SELECT COUNT(*) as count FROM trips WHERE driverId = ?
     `, [id]);
     
-    if (!trip) {
-      console.error('Trip not found:', id);
-      return false;
-    }
-    
-    if (!trip.isManual) {
-      console.error('Cannot delete non-manual trip:', id);
+    if (trips && trips.count > 0) {
+      console.error('Cannot delete driver with trips:', id);
       return false;
     }
     
-    // Delete the trip
     const result = await database.run(`
-      DELETE FROM trips WHERE id = ? AND isManual = TRUE
+      DELETE FROM drivers WHERE id = ?
     `, [id]);
     
     return result.changes! > 0;
   } catch (error) {
-    console.error('Delete trip error:', error);
+    console.error('Delete driver error:', error);
     return false;
   }
 }
 
-export async function getSetting(key: string): Promise<string | null> {
+export async function countUsers(): Promise<number> {
+  const database = await getDatabase();
+  const result = await database.get<{count: number}>(`SELECT COUNT(*) as count FROM users`);
+  return result?.count || 0;
+}
+
+// Creates the first account as an owner, in one statement so that two setups
+// at the same time can't both succeed. Null if an account already exists.
+export async function insertFirstOwner(username: string, passwordHash: string): Promise<number | null> {
+  const database = await getDatabase();
+  const result = await database.run(`
+    INSERT INTO users (username, passwordHash, role)
+    SELECT ?, ?, 'owner' WHERE NOT EXISTS (SELECT 1 FROM users)
+  `, [username, passwordHash]);
+  return result.changes ? result.lastID! : null;
+}
+
+export async function getUsers(): Promise<User[]> {
   try {
     const database = await getDatabase();
-    const result = await database.get<{value: string}>(`
-      SELECT value FROM settings WHERE key = ?
-    `, [key]);
+    return await database.all<User[]>(`
+      SELECT id, username, role, driverId, createdAt FROM users ORDER BY username
+    `);
+  } catch (error) {
+    console.error('Get users error:', error);
+    return [];
+  }
+}
+
+// Only used by login, the password hash never leaves the auth module
+export async function getUserCredentials(username: string): Promise<(User & { passwordHash: string }) | null> {
+  try {
+    const database = await getDatabase();
+    const user = await database.get<User & { passwordHash: string }>(`
+      SELECT * FROM users WHERE username = ?
+    `, [username]);
     
-    return result?.value || null;
+    return user || null;
   } catch (error) {
-    console.error('Get setting error:', error);
+    console.error('Get user credentials error:', error);
     return null;
   }
 }
 
-export async function setSetting(key: string, value: string): Promise<boolean> {
+export async function insertUser(user: Omit<User, 'id' | 'createdAt'>, passwordHash: string): Promise<number | false> {
   try {
     const database = await getDatabase();
-    await database.run(`
-      INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)
-    `, [key, value]);
+    const result = await database.run(`
+      INSERT INTO users (username, passwordHash, role, driverId) VALUES (?, ?, ?, ?)
+    `, [user.username, passwordHash, user.role, user.driverId ?? null]);
     
-    return true;
+    return result.lastID!;
   } catch (error) {
-    console.error('Set setting error:', error);
+    // Usernames are unique
+    console.error('Insert user error:', error);
     return false;
   }
 }
 
-export async function getMultipleSettings(keys: string[]): Promise<{ [key: string]: string }> {
+// A changed password or role ends the user's other sessions. keepSession is
+// the token hash of the session making the change, which stays logged in.
+export async function updateUser(
+  id: number,
+  user: Omit<User, 'id' | 'createdAt'>,
+  passwordHash?: string,
+  keepSession?: string | null
+): Promise<boolean> {
   try {
     const database = await getDatabase();
-    const placeholders = keys.map(() => '?').join(',');
-    const results = await database.all<{ key: string; value: string }[]>(`
-      SELECT key, value FROM settings WHERE key IN (${placeholders})
-    `, keys);
+    const current = await database.get<{role: UserRole}>(`SELECT role FROM users WHERE id = ?`, [id]);
+    const result = await database.run(`
+      UPDATE users SET username = ?, role = ?, driverId = ?, passwordHash = COALESCE(?, passwordHash)
+      WHERE id = ?
+    `, [user.username, user.role, user.driverId ?? null, passwordHash ?? null, id]);
     
-    const settings: { [key: string]: string } = {};
-    results.forEach(row => {
-      settings[row.key] = row.value;
-    });
+    if (passwordHash || (current && current.role !== user.role)) {
+      await database.run(`DELETE FROM sessions WHERE userId = ? AND tokenHash IS NOT ?`, [id, keepSession ?? null]);
+    }
     
-    return settings;
+    return result.changes! > 0;
   } catch (error) {
-    console.error('Get multiple settings error:', error);
-    return {};
+    console.error('Update user error:', error);
+    return false;
+  }
+}
+
+export async function deleteUser(id: number): Promise<boolean> {
+  try {
+    const database = await getDatabase();
+    
+    // Never remove the last owner, nobody could manage the accounts afterwards
+    const owners = await database.get<{count: number}>(`
+      SELECT COUNT(*) as count FROM users WHERE role = 'owner' AND id != ?
+    `, [id]);
+    const user = await database.get<{role: string}>(`SELECT role FROM users WHERE id = ?`, [id]);
+    
+    if (!user || (user.role === 'owner' && owners?.count === 0)) {
+      console.error('Cannot delete user:', id);
+      return false;
+    }
+    
+    await database.run(`DELETE FROM sessions WHERE userId = ?`, [id]);
+    await database.run(`DELETE FROM user_settings WHERE userId = ?`, [id]);
+    const result = await database.run(`DELETE FROM users WHERE id = ?`, [id]);
+    
+    return result.changes! > 0;
+  } catch (error) {
+    console.error('Delete user error:', error);
+    return false;
+  }
+}
+
+export async function insertSession(tokenHash: string, userId: number, expiresAt: string): Promise<void> {
+  const database = await getDatabase();
+  
+  // Clean up expired sessions while we're at it
+  await database.run(`DELETE FROM sessions WHERE expiresAt < ?`, [new Date().toISOString()]);
+  await database.run(`
+    INSERT INTO sessions (tokenHash, userId, expiresAt) VALUES (?, ?, ?)
+  `, [tokenHash, userId, expiresAt]);
+}
+
+export async function getSessionUser(tokenHash: string): Promise<User | null> {
+  try {
+    const database = await getDatabase();
+    const user = await database.get<User>(`
+      SELECT users.id, users.username, users.role, users.driverId, users.createdAt
+      FROM sessions
+      JOIN users ON users.id = sessions.userId
+      WHERE sessions.tokenHash = ? AND sessions.expiresAt > ?
+    `, [tokenHash, new Date().toISOString()]);
+    
+    return user || null;
+  } catch (error) {
+    console.error('Get session user error:', error);
+    return null;
   }
 }
 
+export async function deleteSession(tokenHash: string): Promise<void> {
+  const database = await getDatabase();
+  await database.run(`DELETE FROM sessions WHERE tokenHash = ?`, [tokenHash]);
+}
+
 
-export async function getFuelStatistics(
-  category: string = '', 
-  dateFrom: string = '', 
-  dateTo: string = ''
-): Promise<{
+export async function getFuelStatistics(filter: TripFilter = {}): Promise<{
   totalTrips: number;
   totalDistance: number;
   totalFuelConsumption: number;
   totalElectricConsumption: number;
+  // At the prices valid when each trip was driven
+  totalFuelCost: number;
+  totalElectricCost: number;
+  businessDistance: number;
   averageFuelPer100km: number;
   averageElectricPer100km: number;
   categoryStats: Array<{
@@ -528,50 +3096,27 @@ export async function getFuelStatistics(
     distance: number;
     fuelConsumption: number;
     electricConsumption: number;
+    fuelCost: number;
+    electricCost: number;
   }>;
 }> {
   try {
     const database = await getDatabase();
-    
-    // Build WHERE clause
-    const conditions = [];
-    const params = [];
-    
-    if (category) {
-      conditions.push('category = ?');
-      params.push(category);
-    }
-    
-    if (dateFrom) {
-      conditions.push('startDate >= ?');
-      params.push(dateFrom);
-    }
-    
-    if (dateTo) {
-      conditions.push('startDate < ?');
-      // Add one day to include the entire selected date
-      const nextDay = new Date(dateTo);
-      nextDay.setDate(nextDay.getDate() + 1);
-      params.push(nextDay.toISOString().split('T')[0]);
-    }
-    
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { whereClause, params } = buildTripFilter(filter);
     
     // Get basic statistics
     const basicStats = await database.get(`
       SELECT 
         COUNT(*) as totalTrips,
         SUM(distance) as totalDistance,
-        SUM(CASE 
-          WHEN fuelConsumption != '' AND fuelConsumption != '0 l' 
-          THEN CAST(REPLACE(REPLACE(fuelConsumption, ' l', ''), ',', '.') AS REAL) 
+        COALESCE(SUM(fuelLiters), 0) as totalFuelConsumption,
+        COALESCE(SUM(batteryKwh), 0) as totalElectricConsumption,
+        COALESCE(SUM(fuelLiters * ${tripEnergyPrice('fuel')}), 0) as totalFuelCost,
+        COALESCE(SUM(batteryKwh * ${tripEnergyPrice('electricity')}), 0) as totalElectricCost,
+        COALESCE(SUM(CASE 
+          WHEN category IN (SELECT name FROM categories WHERE isBusiness) THEN distance 
           ELSE 0 
-        END) as totalFuelConsumption,
-        SUM(CASE 
-          WHEN batteryConsumption != '' AND batteryConsumption != '0 kWh' 
-          THEN CAST(REPLACE(REPLACE(batteryConsumption, ' kWh', ''), ',', '.') AS REAL) 
-          ELSE 0 
-        END) as totalElectricConsumption
+        END), 0) as businessDistance
       FROM trips
       ${whereClause}
     `, params);
@@ -582,16 +3127,8 @@ export async function getFuelStatistics(
         category,
         COUNT(*) as trips,
         SUM(distance) as distance,
-        SUM(CASE 
-          WHEN fuelConsumption != '' AND fuelConsumption != '0 l' 
-          THEN CAST(REPLACE(REPLACE(fuelConsumption, ' l', ''), ',', '.') AS REAL) 
-          ELSE 0 
-        END) as fuelConsumption,
-        SUM(CASE 
-          WHEN batteryConsumption != '' AND batteryConsumption != '0 kWh' 
-          THEN CAST(REPLACE(REPLACE(batteryConsumption, ' kWh', ''), ',', '.') AS REAL) 
-          ELSE 0 
-        END) as electricConsumption
+        COALESCE(SUM(fuelLiters), 0) as fuelConsumption,
+        COALESCE(SUM(batteryKwh), 0) as electricConsumption
       FROM trips
       ${whereClause}
       GROUP BY category
@@ -604,16 +3141,10 @@ export async function getFuelStatistics(
         strftime('%Y-%m', startDate) as month,
         COUNT(*) as trips,
         SUM(distance) as distance,
-        SUM(CASE 
-          WHEN fuelConsumption != '' AND fuelConsumption != '0 l' 
-          THEN CAST(REPLACE(REPLACE(fuelConsumption, ' l', ''), ',', '.') AS REAL) 
-          ELSE 0 
-        END) as fuelConsumption,
-        SUM(CASE 
-          WHEN batteryConsumption != '' AND batteryConsumption != '0 kWh' 
-          THEN CAST(REPLACE(REPLACE(batteryConsumption, ' kWh', ''), ',', '.') AS REAL) 
-          ELSE 0 
-        END) as electricConsumption
+        COALESCE(SUM(fuelLiters), 0) as fuelConsumption,
+        COALESCE(SUM(batteryKwh), 0) as electricConsumption,
+        COALESCE(SUM(fuelLiters * ${tripEnergyPrice('fuel')}), 0) as fuelCost,
+        COALESCE(SUM(batteryKwh * ${tripEnergyPrice('electricity')}), 0) as electricCost
       FROM trips
       ${whereClause}
       GROUP BY strftime('%Y-%m', startDate)
@@ -630,6 +3161,9 @@ export async function getFuelStatistics(
       totalDistance,
       totalFuelConsumption,
       totalElectricConsumption,
+      totalFuelCost: basicStats?.totalFuelCost || 0,
+      totalElectricCost: basicStats?.totalElectricCost || 0,
+      businessDistance: basicStats?.businessDistance || 0,
       averageFuelPer100km: totalDistance > 0 ? (totalFuelConsumption / totalDistance) * 100 : 0,
       averageElectricPer100km: totalDistance > 0 ? (totalElectricConsumption / totalDistance) * 100 : 0,
       categoryStats: categoryStats || [],
@@ -642,10 +3176,36 @@ export async function getFuelStatistics(
       totalDistance: 0,
       totalFuelConsumption: 0,
       totalElectricConsumption: 0,
+      totalFuelCost: 0,
+      totalElectricCost: 0,
+      businessDistance: 0,
       averageFuelPer100km: 0,
       averageElectricPer100km: 0,
       categoryStats: [],
       monthlyStats: []
     };
   }
-}
\ No newline at end of file
+}
+
+export async function getMonthlyTripEnergy(filter: TripFilter = {}): Promise<MonthlyTripEnergy[]> {
+  try {
+    const database = await getDatabase();
+    const { whereClause, params } = buildTripFilter(filter);
+    
+    return await database.all<MonthlyTripEnergy[]>(`
+      SELECT 
+        vehicleId,
+        strftime('%Y-%m', startDate) as month,
+        COALESCE(SUM(fuelLiters), 0) as fuelLiters,
+        COALESCE(SUM(batteryKwh), 0) as batteryKwh,
+        COALESCE(SUM(fuelLiters * ${tripEnergyPrice('fuel')}), 0) as fuelCost,
+        COALESCE(SUM(batteryKwh * ${tripEnergyPrice('electricity')}), 0) as electricCost
+      FROM trips
+      ${whereClause}
+      GROUP BY vehicleId, strftime('%Y-%m', startDate)
+    `, params);
+  } catch (error) {
+    console.error('Get monthly trip energy error:', error);
+    return [];
+  }
+}
@@ -0,0 +1,80 @@
+import type { EnergyPrice, EnergyType, Vehicle, MonthlyTripEnergy, Refuel, ChargingSession } from './database';
+import type { SpotPriceIndex } from './spotPrices';
+import { chargingCost } from './charging';
+
+export const ENERGY_TYPES: Record<EnergyType, { label: string; unit: string }> = {
+  fuel: { label: 'Bränsle', unit: 'kr/l' },
+  electricity: { label: 'El', unit: 'kr/kWh' }
+};
+
+// Reads a price from a request body. Returns an error message for invalid input.
+export function parseEnergyPrice(body: Record<string, unknown>, vehicles: Vehicle[]): Omit<EnergyPrice, 'id'> | string {
+  if (typeof body.energyType !== 'string' || !(body.energyType in ENERGY_TYPES)) {
+    return 'Välj bränsle eller el';
+  }
+
+  let vehicleId: number | null = null;
+  if (body.vehicleId) {
+    vehicleId = Number(body.vehicleId);
+    if (!vehicles.some(v => v.id === vehicleId)) {
+      return 'Fordonet finns inte';
+    }
+  }
+
+  if (typeof body.validFrom !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.validFrom)) {
+    return 'Ange från vilket datum priset gäller';
+  }
+
+  const price = Number(String(body.price ?? '').replace(',', '.'));
+  if (body.price === '' || body.price === undefined || Number.isNaN(price) || price < 0) {
+    return 'Ange priset i kr';
+  }
+
+  return { energyType: body.energyType as EnergyType, vehicleId, validFrom: body.validFrom, price };
+}
+
+export interface MonthlyEnergyCost {
+  fuelCost: number;
+  electricCost: number;
+}
+
+// Costs each vehicle's trips in a month at what was paid that month: fuel at
+// the refuels' price per liter, electricity at the priced charging sessions'
+// cost per kWh into the battery. Months without refuels or priced sessions
+// fall back to the price history. Returns the cost per month.
+export function costTripEnergy(
+  trips: MonthlyTripEnergy[],
+  refuels: Refuel[],
+  sessions: ChargingSession[],
+  spot?: SpotPriceIndex
+): Map<string, MonthlyEnergyCost> {
+  const paid = new Map<string, { liters: number; fuelPrice: number; kwh: number; electricPrice: number }>();
+  const paidIn = (vehicleId: number | null, month: string) => {
+    const key = `${vehicleId}|${month}`;
+    if (!paid.has(key)) paid.set(key, { liters: 0, fuelPrice: 0, kwh: 0, electricPrice: 0 });
+    return paid.get(key)!;
+  };
+
+  for (const refuel of refuels) {
+    const month = paidIn(refuel.vehicleId, refuel.date.slice(0, 7));
+    month.liters += refuel.liters;
+    month.fuelPrice += refuel.totalPrice;
+  }
+  for (const session of sessions) {
+    const cost = chargingCost(session, spot);
+    if (cost === null) continue;
+    const month = paidIn(session.vehicleId, session.startedAt.slice(0, 7));
+    month.kwh += session.kwh;
+    month.electricPrice += cost;
+  }
+
+  const costs = new Map<string, MonthlyEnergyCost>();
+  for (const trip of trips) {
+    const month = paid.get(`${trip.vehicleId}|${trip.month}`);
+    const cost = costs.get(trip.month) || { fuelCost: 0, electricCost: 0 };
+    cost.fuelCost += month && month.liters > 0 ? trip.fuelLiters * month.fuelPrice / month.liters : trip.fuelCost;
+    cost.electricCost += month && month.kwh > 0 ? trip.batteryKwh * month.electricPrice / month.kwh : trip.electricCost;
+    costs.set(trip.month, cost);
+  }
+  return costs;
+}
@@ -0,0 +1,182 @@
+import type { Trip } from './database';
+
+export type OdometerIssueType = 'gap' | 'overlap' | 'regression';
+
+export const ODOMETER_ISSUE_TYPES: Record<OdometerIssueType, string> = {
+  gap: 'Lucka',
+  overlap: 'Överlapp',
+  regression: 'Mätaren backar'
+};
+
+// Differences this small are rounding in the car's odometer readings
+export const ODOMETER_TOLERANCE_KM = 1;
+
+// The trip on either side of an issue, with what is needed to show it
+export interface OdometerIssueTrip {
+  id: number;
+  startDate: string;
+  endDate: string;
+  odometerStart: number;
+  odometerEnd: number;
+  startPosition: string;
+  endDestination: string;
+}
+
+export interface OdometerIssue {
+  type: OdometerIssueType;
+  vehicleId: number | null;
+  // In the order they were driven
+  previous: OdometerIssueTrip;
+  next: OdometerIssueTrip;
+  // Missing km for a gap, km driven twice for an overlap and how far the
+  // odometer went back for a regression
+  km: number;
+  // From the end of the previous trip to the start of the next
+  from: string;
+  to: string;
+}
+
+const issueTrip = (trip: Trip): OdometerIssueTrip => ({
+  id: trip.id!,
+  startDate: trip.startDate,
+  endDate: trip.endDate,
+  odometerStart: trip.odometerStart,
+  odometerEnd: trip.odometerEnd,
+  startPosition: trip.startPosition,
+  endDestination: trip.endDestination
+});
+
+const roundKm = (km: number) => Math.round(km * 10) / 10;
+
+// Walks each vehicle's trips in odometer order and compares every trip with
+// the one before it. A trip that starts further on than the previous one
+// ended is a gap and one that starts before it is an overlap. If the trip
+// further on by odometer was driven earlier, the odometer went backwards
+// between them, which usually means a wrong date or reading.
+export function findOdometerIssues(trips: Trip[]): OdometerIssue[] {
+  const vehicles = new Map<number | null, Trip[]>();
+  for (const trip of trips) {
+    const vehicleKey = trip.vehicleId ?? null;
+    vehicles.set(vehicleKey, [...(vehicles.get(vehicleKey) || []), trip]);
+  }
+
+  const issues: OdometerIssue[] = [];
+  for (const [vehicleId, vehicleTrips] of vehicles) {
+    const sorted = [...vehicleTrips].sort((a, b) =>
+      a.odometerStart - b.odometerStart || a.odometerEnd - b.odometerEnd || a.startDate.localeCompare(b.startDate)
+    );
+
+    for (let i = 1; i < sorted.length; i++) {
+      const before = sorted[i - 1];
+      const after = sorted[i];
+
+      if (after.startDate < before.startDate) {
+        issues.push({
+          type: 'regression',
+          vehicleId,
+          previous: issueTrip(after),
+          next: issueTrip(before),
+          km: roundKm(after.odometerEnd - before.odometerStart),
+          from: after.endDate,
+          to: before.startDate
+        });
+        continue;
+      }
+
+      const difference = after.odometerStart - before.odometerEnd;
+      if (Math.abs(difference) <= ODOMETER_TOLERANCE_KM) continue;
+
+      issues.push({
+        type: difference > 0 ? 'gap' : 'overlap',
+        vehicleId,
+        previous: issueTrip(before),
+        next: issueTrip(after),
+        km: roundKm(Math.abs(difference)),
+        from: before.endDate,
+        to: after.startDate
+      });
+    }
+  }
+
+  return issues.sort((a, b) => a.to.localeCompare(b.to));
+}
+
+// Average speed used to guess how long a missing trip took
+export const GAP_FILL_SPEED_KMH = 50;
+
+const toMinutes = (date: string) => Date.parse(`${date.slice(0, 16).replace(' ', 'T')}:00Z`) / 60000;
+const fromMinutes = (minutes: number) => new Date(minutes * 60000).toISOString().slice(0, 16).replace('T', ' ');
+
+// Proposed times for the trip filling a gap: as long as the km take at the
+// average speed, in the middle of the time between the surrounding trips.
+// If that time is shorter, the trip takes all of it.
+export function proposeGapTimes(gap: OdometerIssue): { startDate: string; endDate: string } {
+  const from = toMinutes(gap.from);
+  const window = toMinutes(gap.to) - from;
+  const duration = Math.max(1, Math.round(gap.km / GAP_FILL_SPEED_KMH * 60));
+
+  if (!(window > duration)) {
+    return { startDate: fromMinutes(from), endDate: fromMinutes(from + Math.max(window, 0)) };
+  }
+  const start = from + Math.floor((window - duration) / 2);
+  return { startDate: fromMinutes(start), endDate: fromMinutes(start + duration) };
+}
+
+const DATE_TIME = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}$/;
+
+// Reads a trip filling a gap from a request body. It must still fill one of
+// the current gaps exactly, so a gap can't be filled twice, and have one of
+// the given categories. Returns an error message for invalid input.
+export function parseGapTrip(
+  body: Record<string, unknown>,
+  gaps: OdometerIssue[],
+  categoryNames: string[]
+): Omit<Trip, 'id'> | string {
+  const odometerStart = Number(body.odometerStart);
+  const odometerEnd = Number(body.odometerEnd);
+  const vehicleId = body.vehicleId ? Number(body.vehicleId) : null;
+  const gap = gaps.find(g =>
+    g.type === 'gap' && g.vehicleId === vehicleId &&
+    g.previous.odometerEnd === odometerStart && g.next.odometerStart === odometerEnd
+  );
+  if (!gap) {
+    return `Luckan ${odometerStart}–${odometerEnd} km finns inte längre, ladda om listan`;
+  }
+
+  const startDate = String(body.startDate || '');
+  const endDate = String(body.endDate || '');
+  if (!DATE_TIME.test(startDate) || !DATE_TIME.test(endDate)) {
+    return `Ange start- och sluttid för luckan ${odometerStart}–${odometerEnd} km`;
+  }
+  if (endDate < startDate) {
+    return `Sluttiden är före starttiden för luckan ${odometerStart}–${odometerEnd} km`;
+  }
+
+  const category = String(body.category || '').trim();
+  const startPosition = String(body.startPosition || '').trim();
+  const endDestination = String(body.endDestination || '').trim();
+  if (!category || !startPosition || !endDestination) {
+    return `Ange kategori, start och mål för luckan ${odometerStart}–${odometerEnd} km`;
+  }
+  if (!categoryNames.includes(category)) {
+    return `Okänd kategori för luckan ${odometerStart}–${odometerEnd} km`;
+  }
+
+  return {
+    category,
+    startDate,
+    odometerStart,
+    startPosition,
+    endDate,
+    odometerEnd,
+    endDestination,
+    durationMinutes: Math.round(toMinutes(endDate) - toMinutes(startDate)),
+    distance: odometerEnd - odometerStart,
+    fuelLiters: null,
+    title: '',
+    batteryKwh: null,
+    regenerationKwh: null,
+    notes: String(body.notes || '').trim(),
+    vehicleId
+  };
+}
@@ -0,0 +1,173 @@
+import type { Maintenance, MaintenanceInterval, MaintenanceType, Vehicle } from './database';
+
+export const MAINTENANCE_TYPES: Record<MaintenanceType, string> = {
+  service: 'Service',
+  tyres: 'Däckbyte',
+  inspection: 'Besiktning',
+  repair: 'Reparation',
+  other: 'Övrigt'
+};
+
+// Warn this long before maintenance falls due
+export const MAINTENANCE_WARNING_KM = 1000;
+export const MAINTENANCE_WARNING_DAYS = 30;
+
+export interface MaintenanceDue {
+  vehicleId: number;
+  type: MaintenanceType;
+  // When it was last done. Null if it has not been registered, which is
+  // only a warning since the interval can't be measured yet.
+  lastDate: string | null;
+  lastOdometer: number | null;
+  dueOdometer: number | null;
+  dueDate: string | null;
+  odometer: number | null;
+  level: 'due' | 'soon' | 'ok';
+  // When it is due, like "vid 60 000 km (1 200 km kvar)". The message adds
+  // the type and vehicle for the banner.
+  description: string;
+  message: string;
+}
+
+const addMonths = (date: string, months: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result.toISOString().slice(0, 10);
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+const formatKm = (km: number) => `${km.toLocaleString('sv-SE')} km`;
+
+// Where each interval stands against the vehicle's latest odometer reading
+// and today's date. It is measured from the latest maintenance of the type.
+export function checkMaintenanceDue(
+  intervals: MaintenanceInterval[],
+  maintenance: Maintenance[],
+  odometers: Map<number, number>,
+  vehicles: Vehicle[],
+  today: string
+): MaintenanceDue[] {
+  return intervals.map(interval => {
+    const last = maintenance
+      .filter(m => m.vehicleId === interval.vehicleId && m.type === interval.type)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.odometer - b.odometer)
+      .pop();
+    const odometer = odometers.get(interval.vehicleId) ?? null;
+    const regNumber = vehicles.find(v => v.id === interval.vehicleId)?.regNumber || 'Okänt fordon';
+    const name = `${MAINTENANCE_TYPES[interval.type]} för ${regNumber}`;
+
+    if (!last) {
+      return {
+        vehicleId: interval.vehicleId,
+        type: interval.type,
+        lastDate: null,
+        lastOdometer: null,
+        dueOdometer: null,
+        dueDate: null,
+        odometer,
+        level: 'soon' as const,
+        description: 'inget registrerat ännu',
+        message: `${name}: inget registrerat ännu, registrera senaste tillfället`
+      };
+    }
+
+    const dueOdometer = interval.intervalKm !== null ? last.odometer + interval.intervalKm : null;
+    const dueDate = interval.intervalMonths !== null ? addMonths(last.date, interval.intervalMonths) : null;
+    const kmLeft = dueOdometer !== null && odometer !== null ? dueOdometer - odometer : null;
+    const daysLeft = dueDate !== null ? daysBetween(today, dueDate) : null;
+
+    const level = (kmLeft !== null && kmLeft <= 0) || (daysLeft !== null && daysLeft <= 0)
+      ? 'due'
+      : (kmLeft !== null && kmLeft <= MAINTENANCE_WARNING_KM) || (daysLeft !== null && daysLeft <= MAINTENANCE_WARNING_DAYS)
+        ? 'soon'
+        : 'ok';
+
+    const parts = [
+      dueOdometer !== null && `vid ${formatKm(dueOdometer)}${kmLeft !== null ? ` (${kmLeft > 0 ? `${formatKm(kmLeft)} kvar` : `${formatKm(-kmLeft)} över`})` : ''}`,
+      dueDate !== null && `senast ${dueDate}`
+    ].filter(Boolean);
+    const description = parts.join(' eller ');
+
+    return {
+      vehicleId: interval.vehicleId,
+      type: interval.type,
+      lastDate: last.date,
+      lastOdometer: last.odometer,
+      dueOdometer,
+      dueDate,
+      odometer,
+      level,
+      description,
+      message: `${name}: ${description}`
+    };
+  });
+}
+
+const parseNumber = (value: unknown) => Number(String(value ?? '').replace(',', '.').replace(/\s/g, ''));
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// Reads a maintenance record from a request body. Returns an error message for invalid input.
+export function parseMaintenance(body: Record<string, unknown>, vehicles: Vehicle[]): Omit<Maintenance, 'id'> | string {
+  const vehicleId = Number(body.vehicleId);
+  if (!vehicles.some(v => v.id === vehicleId)) {
+    return 'Välj fordon';
+  }
+
+  const date = String(body.date || '');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return 'Ange datum';
+  }
+
+  const odometer = parseNumber(body.odometer);
+  if (isBlank(body.odometer) || !Number.isInteger(odometer) || odometer < 0) {
+    return 'Ange mätarställning i hela km';
+  }
+
+  if (typeof body.type !== 'string' || !(body.type in MAINTENANCE_TYPES)) {
+    return 'Välj typ av underhåll';
+  }
+
+  const cost = isBlank(body.cost) ? null : parseNumber(body.cost);
+  if (cost !== null && (Number.isNaN(cost) || cost < 0)) {
+    return 'Ogiltig kostnad';
+  }
+
+  return {
+    vehicleId,
+    date,
+    odometer,
+    type: body.type as MaintenanceType,
+    cost,
+    workshop: String(body.workshop || '').trim(),
+    notes: String(body.notes || '').trim()
+  };
+}
+
+// Reads an interval from a request body. Returns an error message for invalid input.
+export function parseMaintenanceInterval(
+  body: Record<string, unknown>,
+  vehicles: Vehicle[]
+): Omit<MaintenanceInterval, 'id'> | string {
+  const vehicleId = Number(body.vehicleId);
+  if (!vehicles.some(v => v.id === vehicleId)) {
+    return 'Välj fordon';
+  }
+
+  if (typeof body.type !== 'string' || !(body.type in MAINTENANCE_TYPES)) {
+    return 'Välj typ av underhåll';
+  }
+
+  const intervalKm = isBlank(body.intervalKm) ? null : parseNumber(body.intervalKm);
+  const intervalMonths = isBlank(body.intervalMonths) ? null : parseNumber(body.intervalMonths);
+  if (intervalKm === null && intervalMonths === null) {
+    return 'Ange intervall i km eller månader';
+  }
+  if ((intervalKm !== null && (!Number.isInteger(intervalKm) || intervalKm <= 0)) ||
+      (intervalMonths !== null && (!Number.isInteger(intervalMonths) || intervalMonths <= 0))) {
+    return 'Intervallet anges i hela km och månader';
+  }
+
+  return { vehicleId, type: body.type as MaintenanceType, intervalKm, intervalMonths };
+}
@@ -0,0 +1,762 @@
+import type { Database } from 'sqlite';
+import { parseAmount, parseDuration } from './units';
+
+// Schema changes are applied as ordered, numbered migrations. Each one runs
+// in its own transaction and is recorded in schema_migrations, so a database
+// is always at a known version.
+//
+// Never edit a migration that has been released - add a new one instead.
+// Migrations up to 5 describe the schema as it looked before versioning was
+// introduced. They are written to be idempotent so that databases created by
+// earlier versions of the app can be adopted by running all of them.
+interface Migration {
+  version: number;
+  name: string;
+  up: (database: Database) => Promise<void>;
+}
+
+export class DatabaseVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseVersionError';
+  }
+}
+
+export class DatabaseMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseMigrationError';
+  }
+}
+
+async function addColumnIfMissing(database: Database, table: string, column: string, definition: string): Promise<void> {
+  const tableInfo = await database.all<{ name: string }[]>(`PRAGMA table_info(${table})`);
+  
+  if (!tableInfo.some(c => c.name === column)) {
+    console.log(`Adding ${column} column to ${table} table...`);
+    await database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async (database) => {
+      await database.exec(`
+        CREATE TABLE IF NOT EXISTS trips (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          category TEXT NOT NULL,
+          startDate TEXT NOT NULL,
+          odometerStart INTEGER NOT NULL,
+          startPosition TEXT NOT NULL,
+          endDate TEXT NOT NULL,
+          odometerEnd INTEGER NOT NULL,
+          endDestination TEXT NOT NULL,
+          duration TEXT NOT NULL,
+          distance REAL NOT NULL,
+          fuelConsumption TEXT NOT NULL,
+          title TEXT NOT NULL,
+          batteryConsumption TEXT NOT NULL,
+          batteryRegeneration TEXT NOT NULL,
+          notes TEXT NOT NULL,
+          isManual BOOLEAN DEFAULT FALSE,
+          UNIQUE(startDate, odometerStart, odometerEnd)
+        )
+      `);
+
+      await database.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        )
+      `);
+
+      // Very old databases were created before manual trips existed
+      await addColumnIfMissing(database, 'trips', 'isManual', 'BOOLEAN DEFAULT FALSE');
+    }
+  },
+  {
+    version: 2,
+    name: 'vehicles',
+    up: async (database) => {
+      await database.exec(`
+        CREATE TABLE IF NOT EXISTS vehicles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          regNumber TEXT NOT NULL UNIQUE,
+          model TEXT NOT NULL,
+          fuelType TEXT NOT NULL,
+          owner TEXT NOT NULL
+        )
+      `);
+
+      await addColumnIfMissing(database, 'trips', 'vehicleId', 'INTEGER REFERENCES vehicles(id)');
+
+      // Before vehicles existed the car was only described by the PDF export
+      // settings. Turn that into a vehicle and give it the already imported trips.
+      const vehicleCount = await database.get<{count: number}>(`SELECT COUNT(*) as count FROM vehicles`);
+      const unassignedCount = await database.get<{count: number}>(`SELECT COUNT(*) as count FROM trips WHERE vehicleId IS NULL`);
+      
+      if (vehicleCount?.count === 0 && (unassignedCount?.count || 0) > 0) {
+        const regNumber = await database.get<{value: string}>(`SELECT value FROM settings WHERE key = 'exportRegNumber'`);
+        const model = await database.get<{value: string}>(`SELECT value FROM settings WHERE key = 'exportCarModel'`);
+        
+        const result = await database.run(`
+          INSERT INTO vehicles (regNumber, model, fuelType, owner) VALUES (?, ?, '', '')
+        `, [regNumber?.value || 'Okänt fordon', model?.value || '']);
+        await database.run(`UPDATE trips SET vehicleId = ? WHERE vehicleId IS NULL`, [result.lastID]);
+        console.log('Default vehicle created with ID:', result.lastID);
+      }
+    }
+  },
+  {
+    version: 3,
+    name: 'drivers',
+    up: async (database) => {
+      await database.exec(`
+        CREATE TABLE IF NOT EXISTS drivers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          personNumber TEXT NOT NULL
+        )
+      `);
+
+      await addColumnIfMissing(database, 'trips', 'driverId', 'INTEGER REFERENCES drivers(id)');
+
+      // The driver used to be a single pair of export settings that was printed
+      // on every PDF, so that person is the driver of all existing trips
+      const driverCount = await database.get<{count: number}>(`SELECT COUNT(*) as count FROM drivers`);
+      const name = await database.get<{value: string}>(`SELECT value FROM settings WHERE key = 'exportDriver'`);
+      
+      if (driverCount?.count === 0 && name?.value) {
+        const personNumber = await database.get<{value: string}>(`SELECT value FROM settings WHERE key = 'exportPersonNumber'`);
+        
+        const result = await database.run(`
+          INSERT INTO drivers (name, personNumber) VALUES (?, ?)
+        `, [name.value, personNumber?.value || '']);
+        await database.run(`UPDATE trips SET driverId = ? WHERE driverId IS NULL`, [result.lastID]);
+        console.log('Driver created from export settings with ID:', result.lastID);
+      }
+    }
+  },
+  {
+    version: 4,
+    name: 'user_accounts',
+    up: async (database) => {
+      await database.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE,
+          passwordHash TEXT NOT NULL,
+          role TEXT NOT NULL,
+          driverId INTEGER REFERENCES drivers(id),
+          createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      await database.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          tokenHash TEXT PRIMARY KEY,
+          userId INTEGER NOT NULL REFERENCES users(id),
+          expiresAt TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'trip_history',
+    up: async (database) => {
+      await addColumnIfMissing(database, 'trips', 'deletedAt', 'TEXT');
+
+      await database.exec(`
+        CREATE TABLE IF NOT EXISTS trip_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tripId INTEGER NOT NULL REFERENCES trips(id),
+          action TEXT NOT NULL,
+          field TEXT,
+          oldValue TEXT,
+          newValue TEXT,
+          changedAt TEXT NOT NULL,
+          userId INTEGER REFERENCES users(id),
+          username TEXT NOT NULL,
+          hash TEXT NOT NULL
+        )
+      `);
+
+      // The change log may only be appended to. Anyone bypassing the app and
+      // editing the file directly is caught by verifyTripHistory instead.
+      await database.exec(`
+        CREATE TRIGGER IF NOT EXISTS trip_history_no_update
+        BEFORE UPDATE ON trip_history
+        BEGIN
+          SELECT RAISE(ABORT, 'trip_history is append-only');
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trip_history_no_delete
+        BEFORE DELETE ON trip_history
+        BEGIN
+          SELECT RAISE(ABORT, 'trip_history is append-only');
+        END;
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'numeric_trip_values',
+    up: async (database) => {
+      // Fuel, battery and duration used to be stored as the display strings
+      // from the CSV ("3,2 l", "1h 5m"). SQLite can't change a column's type,
+      // so the table is rebuilt with numeric columns and the values converted.
+      await database.exec(`
+        CREATE TABLE trips_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          category TEXT NOT NULL,
+          startDate TEXT NOT NULL,
+          odometerStart INTEGER NOT NULL,
+          startPosition TEXT NOT NULL,
+          endDate TEXT NOT NULL,
+          odometerEnd INTEGER NOT NULL,
+          endDestination TEXT NOT NULL,
+          durationMinutes INTEGER,
+          distance REAL NOT NULL,
+          fuelLiters REAL,
+          title TEXT NOT NULL,
+          batteryKwh REAL,
+          regenerationKwh REAL,
+          notes TEXT NOT NULL,
+          isManual BOOLEAN DEFAULT FALSE,
+          vehicleId INTEGER REFERENCES vehicles(id),
+          driverId INTEGER REFERENCES drivers(id),
+          deletedAt TEXT,
+          UNIQUE(startDate, odometerStart, odometerEnd)
+        )
+      `);
+
+      const trips = await database.all<{
+        id: number;
+        duration: string;
+        fuelConsumption: string;
+        batteryConsumption: string;
+        batteryRegeneration: string;
+      }[]>(`SELECT id, duration, fuelConsumption, batteryConsumption, batteryRegeneration FROM trips`);
+
+      await database.exec(`
+        INSERT INTO trips_new (
+          id, category, startDate, odometerStart, startPosition, endDate, odometerEnd,
+          endDestination, distance, title, notes, isManual, vehicleId, driverId, deletedAt
+        )
+        SELECT
+          id, category, startDate, odometerStart, startPosition, endDate, odometerEnd,
+          endDestination, distance, title, notes, isManual, vehicleId, driverId, deletedAt
+        FROM trips
+      `);
+
+      for (const trip of trips) {
+        await database.run(`
+          UPDATE trips_new
+          SET durationMinutes = ?, fuelLiters = ?, batteryKwh = ?, regenerationKwh = ?
+          WHERE id = ?
+        `, [
+          parseDuration(trip.duration),
+          parseAmount(trip.fuelConsumption),
+          parseAmount(trip.batteryConsumption),
+          parseAmount(trip.batteryRegeneration),
+          trip.id
+        ]);
+      }
+
+      await database.exec(`DROP TABLE trips`);
+      await database.exec(`ALTER TABLE trips_new RENAME TO trips`);
+    }
+  },
+  {
+    version: 7,
+    name: 'categories',
+    up: async (database) => {
+      await database.exec(`
+        CREATE TABLE categories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          color TEXT NOT NULL,
+          pdfDescription TEXT NOT NULL,
+          isBusiness BOOLEAN NOT NULL DEFAULT FALSE
+        )
+      `);
+
+      // The three categories that used to be built into the app
+      await database.exec(`
+        INSERT INTO categories (name, color, pdfDescription, isBusiness) VALUES
+          ('Privat', '#007aff', 'Privata resor', FALSE),
+          ('Arbete', '#34c759', 'Tjänsteresor', TRUE),
+          ('Okategoriserat', '#86868b', 'Övriga resor', FALSE)
+      `);
+
+      // Keep any other category names that have found their way into trips
+      await database.exec(`
+        INSERT INTO categories (name, color, pdfDescription, isBusiness)
+        SELECT DISTINCT category, '#86868b', category, FALSE FROM trips
+        WHERE category NOT IN (SELECT name FROM categories)
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: 'trip_splits',
+    up: async (database) => {
+      // A split trip stays in the table as the source of its parts, so that
+      // re-importing the same CSV row hits the UNIQUE constraint instead of
+      // bringing the trip back.
+      await addColumnIfMissing(database, 'trips', 'supersededAt', 'TEXT');
+      await addColumnIfMissing(database, 'trips', 'splitFromId', 'INTEGER REFERENCES trips(id)');
+    }
+  },
+  {
+    version: 9,
+    name: 'trip_merges',
+    up: async (database) => {
+      // Trips that make up a merged trip point to it, so the merge can be undone
+      await addColumnIfMissing(database, 'trips', 'mergedIntoId', 'INTEGER REFERENCES trips(id)');
+    }
+  },
+  {
+    version: 10,
+    name: 'places',
+    up: async (database) => {
+      await database.exec(`
+        CREATE TABLE places (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          latitude REAL,
+          longitude REAL,
+          radiusMeters INTEGER
+        )
+      `);
+
+      await database.exec(`
+        CREATE TABLE place_patterns (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          placeId INTEGER NOT NULL REFERENCES places(id),
+          pattern TEXT NOT NULL
+        )
+      `);
+
+      // The raw addresses stay in startPosition/endDestination
+      await addColumnIfMissing(database, 'trips', 'startPlaceId', 'INTEGER REFERENCES places(id)');
+      await addColumnIfMissing(database, 'trips', 'endPlaceId', 'INTEGER REFERENCES places(id)');
+    }
+  },
+  {
+    version: 11,
+    name: 'categorization_rules',
+    up: async (database) => {
+      // Empty conditions match every trip. weekdays is a comma separated
+      // list where 1 is Monday, holidays is 'any', 'only' or 'exclude'.
+      await database.exec(`
+        CREATE TABLE categorization_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          priority INTEGER NOT NULL DEFAULT 100,
+          enabled BOOLEAN NOT NULL DEFAULT TRUE,
+          startPattern TEXT NOT NULL DEFAULT '',
+          endPattern TEXT NOT NULL DEFAULT '',
+          weekdays TEXT NOT NULL DEFAULT '',
+          timeFrom TEXT NOT NULL DEFAULT '',
+          timeTo TEXT NOT NULL DEFAULT '',
+          minDistance REAL,
+          maxDistance REAL,
+          holidays TEXT NOT NULL DEFAULT 'any',
+          category TEXT NOT NULL,
+          purpose TEXT NOT NULL DEFAULT ''
+        )
+      `);
+
+      // The rule that last set the trip's category, cleared on manual edits
+      await addColumnIfMissing(database, 'trips', 'ruleId', 'INTEGER REFERENCES categorization_rules(id)');
+    }
+  },
+  {
+    version: 12,
+    name: 'customers_and_projects',
+    up: async (database) => {
+      // ratePerKm is what the customer is invoiced per driven km
+      await database.exec(`
+        CREATE TABLE customers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          orgNumber TEXT NOT NULL DEFAULT '',
+          ratePerKm REAL
+        )
+      `);
+
+      await database.exec(`
+        CREATE TABLE projects (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          customerId INTEGER NOT NULL REFERENCES customers(id),
+          name TEXT NOT NULL,
+          code TEXT NOT NULL DEFAULT '',
+          UNIQUE(customerId, name)
+        )
+      `);
+
+      await addColumnIfMissing(database, 'trips', 'customerId', 'INTEGER REFERENCES customers(id)');
+      await addColumnIfMissing(database, 'trips', 'projectId', 'INTEGER REFERENCES projects(id)');
+      await addColumnIfMissing(database, 'categorization_rules', 'customerId', 'INTEGER REFERENCES customers(id)');
+      await addColumnIfMissing(database, 'categorization_rules', 'projectId', 'INTEGER REFERENCES projects(id)');
+    }
+  },
+  {
+    version: 13,
+    name: 'mileage_allowance',
+    up: async (database) => {
+      // 'private', 'benefit_fuel' or 'benefit_electric', see allowance.ts
+      await addColumnIfMissing(database, 'vehicles', 'allowanceType', "TEXT NOT NULL DEFAULT 'private'");
+
+      // Tax-free rates in kr per mil. validTo is inclusive and NULL while a rate applies.
+      await database.exec(`
+        CREATE TABLE mileage_rates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          vehicleType TEXT NOT NULL,
+          validFrom TEXT NOT NULL,
+          validTo TEXT,
+          ratePerMil REAL NOT NULL
+        )
+      `);
+
+      // Skatteverket's rates at the time of writing
+      await database.exec(`
+        INSERT INTO mileage_rates (vehicleType, validFrom, validTo, ratePerMil) VALUES
+          ('private', '2007-01-01', '2022-12-31', 18.50),
+          ('private', '2023-01-01', NULL, 25.00),
+          ('benefit_fuel', '2023-07-01', NULL, 12.00),
+          ('benefit_electric', '2023-07-01', NULL, 9.50)
+      `);
+    }
+  },
+  {
+    version: 14,
+    name: 'benefit_car_limits',
+    up: async (database) => {
+      // Private driving limits for benefit cars. The defaults are Skatteverket's
+      // "ringa omfattning": at most 100 mil and 10 occasions per year.
+      await addColumnIfMissing(database, 'vehicles', 'privateYearLimitKm', 'REAL NOT NULL DEFAULT 1000');
+      await addColumnIfMissing(database, 'vehicles', 'privateYearLimitTrips', 'INTEGER NOT NULL DEFAULT 10');
+      await addColumnIfMissing(database, 'vehicles', 'privateMonthLimitKm', 'REAL');
+    }
+  },
+  {
+    version: 15,
+    name: 'travel_deduction_rates',
+    up: async (database) => {
+      // Reseavdrag per income year: kr per mil for a private car, and the
+      // threshold (beloppsgräns) the yearly cost must exceed
+      await database.exec(`
+        CREATE TABLE travel_deduction_rates (
+          year INTEGER PRIMARY KEY,
+          ratePerMil REAL NOT NULL,
+          threshold REAL NOT NULL
+        )
+      `);
+
+      await database.exec(`
+        INSERT INTO travel_deduction_rates (year, ratePerMil, threshold) VALUES
+          (2021, 18.50, 11000),
+          (2022, 18.50, 11000),
+          (2023, 25.00, 15000),
+          (2024, 25.00, 15000),
+          (2025, 25.00, 15000)
+      `);
+    }
+  },
+  {
+    version: 16,
+    name: 'refuels',
+    up: async (database) => {
+      // Fuel actually bought. totalPrice is what was paid, in kr.
+      await database.exec(`
+        CREATE TABLE refuels (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          vehicleId INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          odometer REAL NOT NULL,
+          liters REAL NOT NULL,
+          totalPrice REAL NOT NULL,
+          station TEXT NOT NULL DEFAULT '',
+          fullTank INTEGER NOT NULL DEFAULT 1
+        )
+      `);
+      await database.exec(`CREATE INDEX idx_refuels_vehicle_date ON refuels (vehicleId, date)`);
+    }
+  },
+  {
+    version: 17,
+    name: 'charging_sessions',
+    up: async (database) => {
+      // Charging of electric cars. kwh is what went into the battery; the
+      // charger's losses come on top of it. Either pricePerKwh or totalPrice is set.
+      await database.exec(`
+        CREATE TABLE charging_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          vehicleId INTEGER NOT NULL,
+          startedAt TEXT NOT NULL,
+          endedAt TEXT,
+          kwh REAL NOT NULL,
+          location TEXT NOT NULL DEFAULT 'home',
+          pricePerKwh REAL,
+          totalPrice REAL,
+          lossPercent REAL NOT NULL DEFAULT 0,
+          notes TEXT NOT NULL DEFAULT ''
+        )
+      `);
+      await database.exec(`CREATE INDEX idx_charging_sessions_vehicle_start ON charging_sessions (vehicleId, startedAt)`);
+    }
+  },
+  {
+    version: 18,
+    name: 'energy_prices',
+    up: async (database) => {
+      // Price history per energy type, 'fuel' in kr per liter and 'electricity'
+      // in kr per kWh. A price applies from validFrom until the next one; rows
+      // with a vehicleId apply to that vehicle only.
+      await database.exec(`
+        CREATE TABLE energy_prices (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          energyType TEXT NOT NULL,
+          vehicleId INTEGER REFERENCES vehicles(id),
+          validFrom TEXT NOT NULL,
+          price REAL NOT NULL
+        )
+      `);
+      await database.exec(`CREATE INDEX idx_energy_prices_type_from ON energy_prices (energyType, validFrom)`);
+
+      // The single prices from settings become the first entry, valid for all
+      // trips so far. The defaults are the ones the statistics page used.
+      const settings = await database.all<{key: string; value: string}[]>(`
+        SELECT key, value FROM settings WHERE key IN ('fuelPricePerLiter', 'electricityPricePerKwh')
+      `);
+      const setting = (key: string, fallback: number) => {
+        const value = parseFloat((settings.find(s => s.key === key)?.value || '').replace(',', '.'));
+        return Number.isNaN(value) ? fallback : value;
+      };
+      await database.run(`
+        INSERT INTO energy_prices (energyType, vehicleId, validFrom, price) VALUES
+          ('fuel', NULL, '2000-01-01', ?),
+          ('electricity', NULL, '2000-01-01', ?)
+      `, [setting('fuelPricePerLiter', 16.5), setting('electricityPricePerKwh', 2.5)]);
+      await database.run(`DELETE FROM settings WHERE key IN ('fuelPricePerLiter', 'electricityPricePerKwh')`);
+    }
+  },
+  {
+    version: 19,
+    name: 'spot_prices',
+    up: async (database) => {
+      // Hourly electricity spot prices in kr per kWh per bidding area (SE1-SE4).
+      // hour is Swedish local time, 'YYYY-MM-DD HH:00', like trip dates.
+      await database.exec(`
+        CREATE TABLE spot_prices (
+          area TEXT NOT NULL,
+          hour TEXT NOT NULL,
+          price REAL NOT NULL,
+          PRIMARY KEY (area, hour)
+        )
+      `);
+    }
+  },
+  {
+    version: 20,
+    name: 'maintenance',
+    up: async (database) => {
+      // Service, tyre changes, besiktning and repairs. type is one of the keys
+      // in maintenance.ts.
+      await database.exec(`
+        CREATE TABLE maintenance (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          vehicleId INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          odometer INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          cost REAL,
+          workshop TEXT NOT NULL DEFAULT '',
+          notes TEXT NOT NULL DEFAULT ''
+        )
+      `);
+      await database.exec(`CREATE INDEX idx_maintenance_vehicle_date ON maintenance (vehicleId, date)`);
+
+      // How often a type of maintenance recurs for a vehicle. It is due when
+      // either interval has passed since it was last done.
+      await database.exec(`
+        CREATE TABLE maintenance_intervals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          vehicleId INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          intervalKm INTEGER,
+          intervalMonths INTEGER,
+          UNIQUE(vehicleId, type)
+        )
+      `);
+    }
+  },
+  {
+    version: 21,
+    name: 'imports',
+    up: async (database) => {
+      // One row per uploaded file. fileName is the copy kept in uploads/ and
+      // hash the SHA-256 of its content, to recognise the same file uploaded
+      // again. undoneAt is set when the batch was rolled back.
+      await database.exec(`
+        CREATE TABLE imports (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          fileName TEXT NOT NULL,
+          originalName TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          importedAt TEXT NOT NULL,
+          vehicleId INTEGER,
+          userId INTEGER,
+          username TEXT NOT NULL,
+          imported INTEGER NOT NULL DEFAULT 0,
+          duplicates INTEGER NOT NULL DEFAULT 0,
+          rejected INTEGER NOT NULL DEFAULT 0,
+          errors INTEGER NOT NULL DEFAULT 0,
+          undoneAt TEXT
+        )
+      `);
+      await database.exec(`CREATE INDEX idx_imports_hash ON imports (hash)`);
+
+      // Trips imported before this have no batch
+      await addColumnIfMissing(database, 'trips', 'importId', 'INTEGER');
+      await database.exec(`CREATE INDEX idx_trips_import ON trips (importId)`);
+    }
+  },
+  {
+    version: 22,
+    name: 'trip_history_breaks',
+    up: async (database) => {
+      // Where the change log's hash chain is known to break because entries
+      // before it couldn't be read when a damaged database was recovered.
+      // hash is the entry's hash at the time, so the entry itself can't be
+      // changed afterwards without verifyTripHistory noticing.
+      await database.exec(`
+        CREATE TABLE trip_history_breaks (
+          historyId INTEGER PRIMARY KEY,
+          hash TEXT NOT NULL,
+          recordedAt TEXT NOT NULL
+        )
+      `);
+
+      await database.exec(`
+        CREATE TRIGGER trip_history_breaks_no_update
+        BEFORE UPDATE ON trip_history_breaks
+        BEGIN
+          SELECT RAISE(ABORT, 'trip_history_breaks is append-only');
+        END;
+
+        CREATE TRIGGER trip_history_breaks_no_delete
+        BEFORE DELETE ON trip_history_breaks
+        BEGIN
+          SELECT RAISE(ABORT, 'trip_history_breaks is append-only');
+        END;
+      `);
+    }
+  },
+  {
+    version: 23,
+    name: 'import_rules',
+    up: async (database) => {
+      // The categorization rules (as JSON) and the Okategoriserat mapping a
+      // file was imported with, so a rebuild after a recovery categorizes it
+      // the same way. Null for batches imported before this.
+      await addColumnIfMissing(database, 'imports', 'rules', 'TEXT');
+      await addColumnIfMissing(database, 'imports', 'mapOkategoriseratToPrivat', 'INTEGER');
+    }
+  },
+  {
+    version: 24,
+    name: 'user_settings',
+    up: async (database) => {
+      // Choices each user makes for themselves, like the vehicle they're
+      // looking at, as opposed to the settings shared by everyone
+      await database.exec(`
+        CREATE TABLE user_settings (
+          userId INTEGER NOT NULL REFERENCES users(id),
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          PRIMARY KEY (userId, key)
+        )
+      `);
+    }
+  },
+  {
+    version: 25,
+    name: 'category_volvo_names',
+    up: async (database) => {
+      // Which category each of the names Volvo's export writes stands for,
+      // kept when the category is renamed
+      await database.exec(`ALTER TABLE categories ADD COLUMN volvoName TEXT`);
+      await database.exec(`CREATE UNIQUE INDEX idx_categories_volvo_name ON categories(volvoName)`);
+
+      // Categories still called what Volvo calls them, and otherwise the row
+      // migration 7 set up for the name, unless it has been deleted. Those
+      // were the first rows of a new AUTOINCREMENT table, so they got ids 1-3
+      // in insert order and no later row can have taken one of them.
+      const volvoNames = ['Privat', 'Arbete', 'Okategoriserat'];
+      for (const volvoName of volvoNames) {
+        await database.run(`UPDATE categories SET volvoName = ? WHERE name = ?`, [volvoName, volvoName]);
+      }
+      for (const [index, volvoName] of volvoNames.entries()) {
+        await database.run(`
+          UPDATE categories SET volvoName = ?
+          WHERE id = ? AND volvoName IS NULL
+            AND name NOT IN ('Privat', 'Arbete', 'Okategoriserat')
+            AND NOT EXISTS (SELECT 1 FROM categories WHERE volvoName = ?)
+        `, [volvoName, index + 1, volvoName]);
+      }
+    }
+  }
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+// Brings the database up to SCHEMA_VERSION. Refuses to touch a database that
+// was migrated by a newer version of the app, since the code can't know what
+// that schema looks like.
+export async function runMigrations(database: Database): Promise<void> {
+  await database.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT NOT NULL
+    )
+  `);
+
+  const current = await database.get<{version: number | null}>(`
+    SELECT MAX(version) as version FROM schema_migrations
+  `);
+  const currentVersion = current?.version ?? 0;
+
+  if (currentVersion > SCHEMA_VERSION) {
+    throw new DatabaseVersionError(
+      `Database schema version ${currentVersion} is newer than this version of the app supports (${SCHEMA_VERSION})`
+    );
+  }
+
+  for (const migration of migrations.filter(m => m.version > currentVersion)) {
+    console.log(`Running migration ${migration.version}: ${migration.name}`);
+    await database.exec('BEGIN TRANSACTION');
+    
+    try {
+      await migration.up(database);
+      await database.run(`
+        INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)
+      `, [migration.version, migration.name, new Date().toISOString()]);
+      await database.exec('COMMIT');
+    } catch (error) {
+      try {
+        await database.exec('ROLLBACK');
+      } catch (rollbackError) {
+        console.error('Rollback failed:', rollbackError);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DatabaseMigrationError(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,501 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { Trip, Vehicle, Driver, Category, TripHistoryEntry, Customer, Project } from './database';
+import { formatHistoryField, formatHistoryValue, formatHistoryTime } from './tripHistory';
+import { ALLOWANCE_TYPES, type AllowanceSummary } from './allowance';
+import type { PrivateUseSummary } from './benefitCar';
+
+// One körjournal: the trips one driver made in one vehicle
+export interface TripJournal {
+  trips: Trip[];
+  driver: Driver | null;
+  vehicle: Vehicle;
+}
+
+// Changes made to the exported trips after they were logged
+export interface ChangeAppendix {
+  entries: (TripHistoryEntry & { tripStartDate: string })[];
+  drivers: Driver[];
+  customers: Customer[];
+  projects: Project[];
+  intact: boolean;
+  // Places where entries were lost in a database recovery
+  recoveredBreaks: number;
+}
+
+export const formatDate = (dateStr: string) => {
+  try {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString('sv-SE');
+  } catch {
+    return dateStr;
+  }
+};
+
+// A saved place is shown by name, with the address the car logged below it
+const formatPlace = (placeName: string | null | undefined, address: string) =>
+  placeName ? `${placeName}\n${address}` : address;
+
+// The purpose, followed by the customer and project visited on business trips
+const formatPurpose = (trip: Trip) => {
+  const visited = [trip.customerName, trip.projectName].filter(Boolean).join(' / ');
+  return [trip.notes, visited].filter(Boolean).join('\n');
+};
+
+// Splits trips into one journal per driver. Trips without a driver get a
+// journal of their own so that nothing is left out of the export.
+export function splitJournalsByDriver(trips: Trip[], drivers: Driver[], vehicle: Vehicle): TripJournal[] {
+  const journals = new Map<number | null, TripJournal>();
+  
+  trips.forEach(trip => {
+    const driverId = trip.driverId ?? null;
+    if (!journals.has(driverId)) {
+      journals.set(driverId, {
+        trips: [],
+        driver: drivers.find(d => d.id === driverId) || null,
+        vehicle
+      });
+    }
+    journals.get(driverId)!.trips.push(trip);
+  });
+  
+  return Array.from(journals.values());
+}
+
+// Builds a PDF with one körjournal per journal, each starting on a new page.
+// The caller decides whether it is opened in a new tab or downloaded.
+export function createTripJournalPdf(
+  journals: TripJournal[],
+  categories: Category[],
+  dateFrom: string,
+  dateTo: string,
+  changeAppendix?: ChangeAppendix,
+  privateUse: PrivateUseSummary[] = []
+): jsPDF {
+  const doc = new jsPDF('landscape'); // Landscape orientation like the example
+  const pageWidth = doc.internal.pageSize.getWidth();
+  
+  journals.forEach((journal, index) => {
+    if (index > 0) {
+      doc.addPage();
+    }
+    addTripJournal(doc, journal, categories, dateFrom, dateTo);
+  });
+
+  privateUse.forEach(summary => {
+    doc.addPage();
+    addPrivateUseSummary(doc, summary, journals[0]?.vehicle);
+  });
+
+  if (changeAppendix) {
+    doc.addPage();
+    addChangeAppendix(doc, changeAppendix);
+  }
+
+  // Add page numbers to all pages
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(10);
+    doc.text(`Sida ${i} av ${pageCount}`, 
+      pageWidth / 2, 
+      doc.internal.pageSize.getHeight() - 15, 
+      { align: 'center' }
+    );
+  }
+
+  return doc;
+}
+
+function addTripJournal(doc: jsPDF, { trips, driver, vehicle }: TripJournal, categories: Category[], dateFrom: string, dateTo: string) {
+  // Title - centered
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.text('KÖRJOURNAL', pageWidth / 2, 25, { align: 'center' });
+  
+  // Period - centered
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  const periodText = `Period: ${formatDate(dateFrom)} - ${formatDate(dateTo)}`;
+  doc.text(periodText, pageWidth / 2, 35, { align: 'center' });
+
+  // Calculate odometer values
+  let startOdometer = '';
+  let endOdometer = '';
+  if (trips.length > 0) {
+    // Sort trips by date to get first and last
+    const sortedTrips = [...trips].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+    startOdometer = `${sortedTrips[0].odometerStart} km`;
+    endOdometer = `${sortedTrips[sortedTrips.length - 1].odometerEnd} km`;
+  }
+
+  // Info table - separate columns for keys and values without vertical lines
+  const infoTableData = [
+    ['Förare:', driver?.name || 'Ej angiven', 'Personnummer:', driver?.personNumber || ''],
+    ['Bilens reg.nr:', vehicle.regNumber, 'Bilmärke/modell:', vehicle.model],
+    ['Mätarställning vid periodens början:', startOdometer, 'Mätarställning vid periodens slut:', endOdometer]
+  ];
+
+  autoTable(doc, {
+    startY: 45,
+    body: infoTableData,
+    styles: {
+      fontSize: 10,
+      cellPadding: 3,
+      fillColor: [255, 255, 255], // White background
+      lineColor: [0, 0, 0],
+      lineWidth: { top: 0.5, bottom: 0.5, left: 0.5, right: 0.5 }, // Only horizontal lines
+      textColor: [0, 0, 0],
+    },
+    columnStyles: {
+      0: { fontStyle: 'bold', fillColor: [255, 255, 255], textColor: [0, 0, 0] }, // Key columns with white background
+      1: { fillColor: [255, 255, 255], textColor: [0, 0, 0], halign: 'right' }, // Value columns with white background, right-aligned
+      2: { fontStyle: 'bold', fillColor: [255, 255, 255], textColor: [0, 0, 0] }, // Key columns with white background  
+      3: { fillColor: [255, 255, 255], textColor: [0, 0, 0], halign: 'right' }, // Value columns with white background, right-aligned
+    },
+    tableLineColor: [0, 0, 0],
+    tableLineWidth: 0.5,
+    margin: { left: 10, right: 10 },
+    willDrawCell: (data) => {
+      // Remove vertical lines between key-value pairs
+      if ((data.column.index === 0 && data.column.index + 1 === 1) || 
+          (data.column.index === 2 && data.column.index + 1 === 3)) {
+        data.cell.styles.lineWidth = { top: 0.5, bottom: 0.5, left: 0.5, right: 0 };
+      }
+      if (data.column.index === 1 || data.column.index === 3) {
+        data.cell.styles.lineWidth = { top: 0.5, bottom: 0.5, left: 0, right: 0.5 };
+      }
+    }
+  });
+
+  // Calculate summary by category
+  const categoryMap = new Map<string, { trips: number; distance: number }>();
+  trips.forEach((trip: Trip) => {
+    const category = trip.category;
+    if (!categoryMap.has(category)) {
+      categoryMap.set(category, { trips: 0, distance: 0 });
+    }
+    const stats = categoryMap.get(category)!;
+    stats.trips += 1;
+    stats.distance += trip.distance;
+  });
+
+  const summaryTableData = [];
+  let totalTripsCount = 0;
+  let totalDistanceSum = 0;
+  let businessTripsCount = 0;
+  let businessDistanceSum = 0;
+
+  categoryMap.forEach((stats, category) => {
+    const categoryInfo = categories.find(c => c.name === category);
+    summaryTableData.push([
+      category,
+      stats.trips.toString(),
+      `${stats.distance.toFixed(1)} km`,
+      categoryInfo?.pdfDescription || category
+    ]);
+    totalTripsCount += stats.trips;
+    totalDistanceSum += stats.distance;
+    if (categoryInfo?.isBusiness) {
+      businessTripsCount += stats.trips;
+      businessDistanceSum += stats.distance;
+    }
+  });
+
+  // Add total row
+  summaryTableData.push([
+    'Totalt',
+    totalTripsCount.toString(),
+    `${totalDistanceSum.toFixed(1)} km`,
+    ''
+  ]);
+
+  summaryTableData.push([
+    'Varav i tjänsten',
+    businessTripsCount.toString(),
+    `${businessDistanceSum.toFixed(1)} km`,
+    ''
+  ]);
+
+  // Summary table
+  const tableWidth = pageWidth - 20; // Full width minus margins
+  const colWidth = tableWidth / 4; // Equal width for 4 columns
+  
+  autoTable(doc, {
+    startY: 85,
+    head: [['Kategori', 'Antal resor', 'Sträcka', 'Beskrivning']],
+    body: summaryTableData,
+    theme: 'grid',
+    styles: {
+      fontSize: 8,
+      cellPadding: 2,
+      lineColor: [0, 0, 0],
+      lineWidth: 0.5,
+      fillColor: [255, 255, 255],
+      textColor: [0, 0, 0],
+      halign: 'left',
+    },
+    headStyles: {
+      fillColor: [220, 220, 220],
+      textColor: [0, 0, 0],
+      fontSize: 8,
+      fontStyle: 'bold',
+      halign: 'left',
+    },
+    columnStyles: {
+      0: { cellWidth: colWidth },
+      1: { cellWidth: colWidth },
+      2: { cellWidth: colWidth },
+      3: { cellWidth: colWidth }
+    },
+    margin: { left: 10, right: 10 },
+    tableWidth: tableWidth
+  });
+
+  // Main trips table
+  const mainTableStartY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  const tableData = trips.map((trip: Trip) => [
+    formatDate(trip.startDate),
+    formatPlace(trip.startPlaceName, trip.startPosition),
+    formatPlace(trip.endPlaceName, trip.endDestination),
+    trip.category,
+    `${trip.odometerStart.toString()} km`,
+    `${trip.odometerEnd.toString()} km`,
+    `${trip.distance.toFixed(1)} km`,
+    formatPurpose(trip)
+  ]);
+
+  autoTable(doc, {
+    startY: mainTableStartY,
+    head: [['Datum', 'Startadress', 'Slutadress', 'Kategori', 'Mätarställning start', 'Mätarställning slut', 'Sträcka', 'Ändamål']],
+    body: tableData,
+    theme: 'grid',
+    styles: {
+      fontSize: 8,
+      cellPadding: 2,
+      lineColor: [0, 0, 0],
+      lineWidth: 0.5,
+      textColor: [0, 0, 0],
+    },
+    headStyles: {
+      fillColor: [220, 220, 220],
+      textColor: [0, 0, 0],
+      fontSize: 8,
+      fontStyle: 'bold',
+    },
+    margin: { left: 10, right: 10, bottom: 25 },
+    tableWidth: 'auto'
+  });
+}
+
+function addPrivateUseSummary(doc: jsPDF, summary: PrivateUseSummary, vehicle: Vehicle | undefined) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`PRIVATKÖRNING I FÖRMÅNSBIL ${summary.year}`, pageWidth / 2, 25, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  const { privateYearLimitKm, privateYearLimitTrips, privateMonthLimitKm } = summary.limits;
+  const limitsText = `Gränser: ${privateYearLimitKm} km och ${privateYearLimitTrips} tillfällen per år` +
+    (privateMonthLimitKm !== null ? `, ${privateMonthLimitKm} km per månad` : '');
+  doc.text(`${vehicle ? `${vehicle.regNumber} ${vehicle.model}. ` : ''}${limitsText}`, pageWidth / 2, 35, { align: 'center' });
+
+  autoTable(doc, {
+    startY: 45,
+    head: [['Månad', 'Privata resor', 'Privat sträcka', 'Anmärkning']],
+    body: summary.months.map(month => [
+      new Date(`${month.month}-01`).toLocaleDateString('sv-SE', { month: 'long' }),
+      month.privateTrips.toString(),
+      `${month.privateDistance.toFixed(1)} km`,
+      month.overLimit ? 'Över månadsgränsen' : month.privateTrips > 0 ? 'Privatkörning' : ''
+    ]),
+    foot: [[
+      'Totalt',
+      `${summary.privateTrips} (${summary.occasions} tillfällen)`,
+      `${summary.privateDistance.toFixed(1)} km`,
+      summary.warnings.some(w => w.level === 'exceeded') ? 'Gräns passerad' : ''
+    ]],
+    theme: 'grid',
+    styles: {
+      fontSize: 8,
+      cellPadding: 2,
+      lineColor: [0, 0, 0],
+      lineWidth: 0.5,
+      textColor: [0, 0, 0],
+    },
+    headStyles: {
+      fillColor: [220, 220, 220],
+      textColor: [0, 0, 0],
+      fontSize: 8,
+      fontStyle: 'bold',
+    },
+    footStyles: {
+      fillColor: [220, 220, 220],
+      textColor: [0, 0, 0],
+      fontSize: 8,
+      fontStyle: 'bold',
+    },
+    margin: { left: 10, right: 10, bottom: 25 },
+    tableWidth: 'auto'
+  });
+
+  if (summary.warnings.length > 0) {
+    const warningsY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+    doc.text(summary.warnings.map(w => w.message), 10, warningsY);
+  }
+}
+
+function addChangeAppendix(doc: jsPDF, { entries, drivers, customers, projects, intact, recoveredBreaks }: ChangeAppendix) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text('BILAGA: ÄNDRINGSLOGG', pageWidth / 2, 25, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  const statusText = !intact
+    ? 'VARNING: Ändringsloggen har manipulerats utanför appen och kan inte verifieras.'
+    : recoveredBreaks > 0
+      ? 'Ändringar gjorda i efterhand på resorna ovan. Loggen återställdes efter ett databasfel och poster saknas; resten är kontrollerad.'
+      : 'Ändringar gjorda i efterhand på resorna ovan. Loggen är kontrollerad och obruten.';
+  doc.text(statusText, pageWidth / 2, 35, { align: 'center' });
+
+  if (entries.length === 0) {
+    doc.text('Inga resor har ändrats i efterhand.', 10, 50);
+    return;
+  }
+
+  autoTable(doc, {
+    startY: 45,
+    head: [['Ändrad', 'Resans datum', 'Ändring', 'Tidigare värde', 'Nytt värde', 'Ändrad av']],
+    body: entries.map(entry => [
+      formatHistoryTime(entry.changedAt),
+      formatDate(entry.tripStartDate),
+      formatHistoryField(entry),
+      entry.action === 'update' ? formatHistoryValue(entry, entry.oldValue, drivers, customers, projects) : '',
+      entry.action === 'update' ? formatHistoryValue(entry, entry.newValue, drivers, customers, projects) : '',
+      entry.username
+    ]),
+    theme: 'grid',
+    styles: {
+      fontSize: 8,
+      cellPadding: 2,
+      lineColor: [0, 0, 0],
+      lineWidth: 0.5,
+      textColor: [0, 0, 0],
+    },
+    headStyles: {
+      fillColor: [220, 220, 220],
+      textColor: [0, 0, 0],
+      fontSize: 8,
+      fontStyle: 'bold',
+    },
+    margin: { left: 10, right: 10, bottom: 25 },
+    tableWidth: 'auto'
+  });
+}
+
+const formatKr = (amount: number) =>
+  `${amount.toLocaleString('sv-SE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} kr`;
+
+// A reimbursement claim for one month of business trips, to hand in to the
+// employer together with the körjournal
+export function createAllowanceClaimPdf(
+  allowance: AllowanceSummary,
+  month: string,
+  driver: Driver | null,
+  vehicle: Vehicle
+): jsPDF {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const monthName = new Date(`${month}-01`).toLocaleDateString('sv-SE', { year: 'numeric', month: 'long' });
+
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text('RESERÄKNING – MILERSÄTTNING', pageWidth / 2, 25, { align: 'center' });
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Period: ${monthName}`, pageWidth / 2, 35, { align: 'center' });
+
+  autoTable(doc, {
+    startY: 45,
+    body: [
+      ['Förare:', driver?.name || 'Ej angiven', 'Personnummer:', driver?.personNumber || ''],
+      ['Bilens reg.nr:', vehicle.regNumber, 'Fordonstyp:', ALLOWANCE_TYPES[vehicle.allowanceType]]
+    ],
+    theme: 'grid',
+    styles: {
+      fontSize: 10,
+      cellPadding: 3,
+      lineColor: [0, 0, 0],
+      lineWidth: 0.5,
+      textColor: [0, 0, 0],
+    },
+    columnStyles: {
+      0: { fontStyle: 'bold' },
+      2: { fontStyle: 'bold' }
+    },
+    margin: { left: 10, right: 10 }
+  });
+
+  const tripsStartY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  autoTable(doc, {
+    startY: tripsStartY,
+    head: [['Datum', 'Från', 'Till', 'Ändamål', 'Sträcka', 'Sats', 'Belopp']],
+    body: allowance.trips.map(trip => [
+      formatDate(trip.startDate),
+      trip.startPosition,
+      trip.endDestination,
+      trip.notes,
+      `${trip.distance.toFixed(1)} km`,
+      trip.ratePerMil === null ? 'Saknas' : `${formatKr(trip.ratePerMil)}/mil`,
+      formatKr(trip.amount)
+    ]),
+    foot: [['Summa', '', '', '', `${allowance.totalDistance.toFixed(1)} km`, '', formatKr(allowance.totalAmount)]],
+    theme: 'grid',
+    styles: {
+      fontSize: 8,
+      cellPadding: 2,
+      lineColor: [0, 0, 0],
+      lineWidth: 0.5,
+      textColor: [0, 0, 0],
+    },
+    headStyles: {
+      fillColor: [220, 220, 220],
+      textColor: [0, 0, 0],
+      fontSize: 8,
+      fontStyle: 'bold',
+    },
+    footStyles: {
+      fillColor: [220, 220, 220],
+      textColor: [0, 0, 0],
+      fontSize: 8,
+      fontStyle: 'bold',
+    },
+    columnStyles: {
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' }
+    },
+    margin: { left: 10, right: 10, bottom: 25 },
+    tableWidth: 'auto'
+  });
+
+  // Signature lines below the trips, on a new page if they do not fit
+  let signatureY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 30;
+  if (signatureY > doc.internal.pageSize.getHeight() - 30) {
+    doc.addPage();
+    signatureY = 40;
+  }
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.line(10, signatureY, 90, signatureY);
+  doc.line(pageWidth - 90, signatureY, pageWidth - 10, signatureY);
+  doc.text('Datum och underskrift, förare', 10, signatureY + 5);
+  doc.text('Attesterad av arbetsgivare', pageWidth - 90, signatureY + 5);
+
+  return doc;
+}
@@ -0,0 +1,104 @@
+import type { Place } from './database';
+
+// The Volvo CSV spells the same address in several ways ("Storg. 1",
+// "Storgatan 1, 411 01 Göteborg, Sverige"). Addresses and place patterns are
+// both normalized before they are compared.
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/(\p{L})g\.(?=\s|\d|,|$)/gu, '$1gatan')
+    .replace(/(\p{L})v\.(?=\s|\d|,|$)/gu, '$1vägen')
+    .replace(/\b(\d{3})\s(\d{2})\b/g, '$1$2')
+    .replace(/,?\s*(sverige|sweden)\s*$/, '')
+    .replace(/[.,;:]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Whether a normalized pattern appears in a normalized address as whole
+// words and numbers, so "storgatan 1" matches "storgatan 1 41101 göteborg"
+// but not "storgatan 15"
+export function containsAddress(normalizedAddress: string, normalizedPattern: string): boolean {
+  return !!normalizedPattern && ` ${normalizedAddress} `.includes(` ${normalizedPattern} `);
+}
+
+// Positions without a known address are exported as "57.7089, 11.9746"
+export function parseCoordinates(address: string): { latitude: number; longitude: number } | null {
+  const match = address.trim().match(/^(-?\d{1,2}\.\d+)\s*,\s*(-?\d{1,3}\.\d+)$/);
+  return match ? { latitude: parseFloat(match[1]), longitude: parseFloat(match[2]) } : null;
+}
+
+function distanceMeters(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+// Finds the place an address belongs to. When several patterns match, the
+// longest one wins, so "Storgatan 1" beats a catch-all like "Göteborg".
+export function findPlace(address: string, places: Place[]): Place | null {
+  const normalized = normalizeAddress(address);
+  const coordinates = parseCoordinates(address);
+  let best: { place: Place; score: number } | null = null;
+
+  for (const place of places) {
+    for (const pattern of place.patterns) {
+      const normalizedPattern = normalizeAddress(pattern);
+      if (containsAddress(normalized, normalizedPattern) &&
+          (!best || normalizedPattern.length > best.score)) {
+        best = { place, score: normalizedPattern.length };
+      }
+    }
+  }
+
+  if (best) {
+    return best.place;
+  }
+
+  // Coordinates can only match by radius, the closest place first
+  if (coordinates) {
+    let closest: { place: Place; distance: number } | null = null;
+    for (const place of places) {
+      if (place.latitude === null || place.longitude === null || !place.radiusMeters) continue;
+      const distance = distanceMeters(coordinates, { latitude: place.latitude, longitude: place.longitude });
+      if (distance <= place.radiusMeters && (!closest || distance < closest.distance)) {
+        closest = { place, distance };
+      }
+    }
+    return closest?.place || null;
+  }
+
+  return null;
+}
+
+// Reads a place from a request body. Returns an error message for invalid input.
+export function parsePlace(body: Record<string, unknown>): Omit<Place, 'id'> | string {
+  const name = String(body.name || '').trim();
+  if (!name) {
+    return 'Namn måste anges';
+  }
+  
+  const patterns = (Array.isArray(body.patterns) ? body.patterns : [])
+    .map(pattern => String(pattern).trim())
+    .filter(Boolean);
+  
+  const optionalNumber = (value: unknown) => value === undefined || value === null || value === '' ? null : Number(value);
+  const latitude = optionalNumber(body.latitude);
+  const longitude = optionalNumber(body.longitude);
+  const radiusMeters = optionalNumber(body.radiusMeters);
+  
+  if ([latitude, longitude, radiusMeters].some(value => Number.isNaN(value))) {
+    return 'Koordinater och radie måste anges som tal';
+  }
+  if (patterns.length === 0 && (latitude === null || longitude === null || !radiusMeters)) {
+    return 'Ange minst en adress, eller koordinater med radie';
+  }
+  
+  return { name, patterns, latitude, longitude, radiusMeters };
+}
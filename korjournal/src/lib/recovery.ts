@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import { readImportFile, importRows, insertImportedTrips, ImportSettings } from './csvImport';
+import {
+  getSetting, setSetting, getVehicles, findImportByHash, findImportByFileName, countImportTrips,
+  DatabaseRecovery, ImportBatch, RECOVERY_SETTING, User
+} from './database';
+
+// Uploads are archived as upload_<UTC time>_<original name>
+const UPLOAD_FILE = /^upload_(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})_(.+)$/;
+
+export interface ArchivedUpload {
+  fileName: string;
+  originalName: string;
+  uploadedAt: string;
+  // Its import, if that could be salvaged from the damaged database
+  importId: number | null;
+  vehicleId: number | null;
+  undone: boolean;
+}
+
+export interface RebuildFile {
+  fileName: string;
+  vehicleId: number;
+  // Skipped if none of its trips were lost, or its import was undone
+  status: 'imported' | 'skipped' | 'failed';
+  imported: number;
+  duplicates: number;
+  rejected: number;
+  errors: number;
+  // Categorized with today's rules and mapping, since the ones it was first
+  // imported with aren't known, so categories may differ from back then
+  currentRules: boolean;
+  // Why it was skipped or failed
+  reason: string | null;
+}
+
+const uploadsDir = () => path.join(process.cwd(), 'uploads');
+
+// The rules and mapping a batch was imported with, if they were recorded
+function importSettings(batch: ImportBatch | null): ImportSettings | undefined {
+  if (!batch?.rules || batch.mapOkategoriseratToPrivat === null) return undefined;
+  try {
+    return { rules: JSON.parse(batch.rules), mapOkategoriseratToPrivat: !!batch.mapOkategoriseratToPrivat };
+  } catch {
+    return undefined;
+  }
+}
+
+export async function getRecovery(): Promise<DatabaseRecovery | null> {
+  const value = await getSetting(RECOVERY_SETTING);
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as DatabaseRecovery;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveRecovery(recovery: DatabaseRecovery): Promise<boolean> {
+  return setSetting(RECOVERY_SETTING, JSON.stringify(recovery));
+}
+
+// The archived uploads in the order they were uploaded, with the import
+// each one belongs to
+export async function listArchivedUploads(): Promise<ArchivedUpload[]> {
+  if (!fs.existsSync(uploadsDir())) return [];
+
+  const uploads: ArchivedUpload[] = [];
+  for (const fileName of fs.readdirSync(uploadsDir())) {
+    const match = UPLOAD_FILE.exec(fileName);
+    if (!match) continue;
+    const [, date, hours, minutes, seconds, originalName] = match;
+    const batch = await findImportByFileName(fileName);
+    uploads.push({
+      fileName,
+      originalName,
+      uploadedAt: `${date}T${hours}:${minutes}:${seconds}.000Z`,
+      importId: batch?.id ?? null,
+      vehicleId: batch?.vehicleId ?? null,
+      undone: !!batch?.undoneAt
+    });
+  }
+
+  return uploads.sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt) || a.fileName.localeCompare(b.fileName));
+}
+
+// Brings back the trips that couldn't be read from the damaged database by
+// replaying the archived uploads through the normal parser, oldest first.
+// A file whose import was salvaged goes back into that batch and only when
+// some of its trips are missing, categorized with the rules and mapping it
+// was imported with; the trips that are there, edited or not, block their
+// rows as duplicates. Files of undone imports are left out. A file with no
+// salvaged import becomes a new batch for the fallback vehicle, categorized
+// with today's rules, which the result points out.
+// Running it again only adds what is still missing. Returns an error message
+// if some file has no vehicle to go to.
+export async function rebuildFromUploads(
+  fallbackVehicleId: number | null,
+  importedBy: Pick<User, 'id' | 'username'>
+): Promise<RebuildFile[] | string> {
+  const recovery = await getRecovery();
+  const vehicleIds = new Set((await getVehicles()).map(v => v.id));
+  const uploads = (await listArchivedUploads()).filter(upload => !upload.undone);
+  const targets = uploads.flatMap(upload => {
+    const vehicleId = upload.vehicleId !== null && vehicleIds.has(upload.vehicleId)
+      ? upload.vehicleId
+      : fallbackVehicleId !== null && vehicleIds.has(fallbackVehicleId) ? fallbackVehicleId : null;
+    return vehicleId !== null ? [{ upload, vehicleId }] : [];
+  });
+
+  // All files or none, since importing some out of order could make the
+  // rest come out as duplicates
+  if (targets.length < uploads.length) {
+    return 'Välj vilket fordon filerna med okänt fordon ska importeras till';
+  }
+
+  const results: RebuildFile[] = [];
+  for (const { upload, vehicleId } of targets) {
+    const result: RebuildFile = {
+      fileName: upload.fileName,
+      vehicleId,
+      status: 'skipped',
+      imported: 0,
+      duplicates: 0,
+      rejected: 0,
+      errors: 0,
+      currentRules: false,
+      reason: null
+    };
+    results.push(result);
+
+    try {
+      const batch = upload.importId !== null ? await findImportByFileName(upload.fileName) : null;
+      if (batch && (await countImportTrips(batch.id!)) >= batch.imported) {
+        result.reason = 'Inga resor saknas';
+        continue;
+      }
+
+      const settings = importSettings(batch);
+      const file = await readImportFile(new Uint8Array(fs.readFileSync(path.join(uploadsDir(), upload.fileName))), settings);
+      result.currentRules = !settings;
+
+      if (batch) {
+        const restored = await insertImportedTrips(file, vehicleId, batch.id!, importedBy);
+        Object.assign(result, {
+          status: 'imported',
+          imported: restored.imported,
+          duplicates: restored.duplicates,
+          rejected: file.rows.filter(row => row.error).length,
+          errors: restored.errors
+        });
+        continue;
+      }
+
+      // The same content uploaded under another name comes back with that file
+      if (await findImportByHash(file.hash)) {
+        result.currentRules = false;
+        result.reason = 'Filen är redan importerad';
+        continue;
+      }
+
+      const imported = await importRows(
+        file,
+        { fileName: upload.fileName, originalName: upload.originalName, importedAt: upload.uploadedAt },
+        vehicleId,
+        importedBy
+      );
+      if (!imported) {
+        result.status = 'failed';
+        result.reason = 'Importen kunde inte sparas';
+        continue;
+      }
+
+      Object.assign(result, {
+        status: 'imported',
+        imported: imported.imported,
+        duplicates: imported.duplicates,
+        rejected: imported.rejected,
+        errors: imported.errors
+      });
+    } catch (error) {
+      console.error(`Rebuild of ${upload.fileName} failed:`, error);
+      result.status = 'failed';
+      result.reason = 'Filen kunde inte läsas';
+    }
+  }
+
+  if (recovery && results.every(result => result.status !== 'failed')) {
+    await saveRecovery({ ...recovery, rebuiltAt: new Date().toISOString() });
+  }
+
+  return results;
+}
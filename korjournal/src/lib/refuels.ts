@@ -0,0 +1,102 @@
+import type { Refuel, Vehicle } from './database';
+
+export interface RefuelSummary {
+  refuelCount: number;
+  liters: number;
+  totalPrice: number;
+  // Weighted by liters, null without refuels
+  averagePricePerLiter: number | null;
+  // Tank-to-tank: liters put in after one full tank up to the next, over
+  // the distance between them. Null until two full tanks have been logged.
+  measuredDistance: number;
+  measuredLiters: number;
+  measuredPer100km: number | null;
+}
+
+// Tank-to-tank distance and liters for one vehicle's refuels. Partial fills
+// before the first full tank are left out.
+function measureTankToTank(refuels: Refuel[]): { distance: number; liters: number } {
+  let distance = 0;
+  let liters = 0;
+  let lastFull: Refuel | null = null;
+  let litersSinceFull = 0;
+
+  for (const refuel of [...refuels].sort((a, b) => a.odometer - b.odometer)) {
+    if (lastFull) {
+      litersSinceFull += refuel.liters;
+    }
+    if (refuel.fullTank) {
+      if (lastFull && refuel.odometer > lastFull.odometer) {
+        distance += refuel.odometer - lastFull.odometer;
+        liters += litersSinceFull;
+      }
+      lastFull = refuel;
+      litersSinceFull = 0;
+    }
+  }
+
+  return { distance, liters };
+}
+
+// Summarizes refuels of one or more vehicles. Tanks are measured per vehicle
+// and the results added up.
+export function summarizeRefuels(refuels: Refuel[]): RefuelSummary {
+  const liters = refuels.reduce((sum, refuel) => sum + refuel.liters, 0);
+  const totalPrice = refuels.reduce((sum, refuel) => sum + refuel.totalPrice, 0);
+
+  let measuredDistance = 0;
+  let measuredLiters = 0;
+  for (const vehicleId of new Set(refuels.map(refuel => refuel.vehicleId))) {
+    const measured = measureTankToTank(refuels.filter(refuel => refuel.vehicleId === vehicleId));
+    measuredDistance += measured.distance;
+    measuredLiters += measured.liters;
+  }
+
+  return {
+    refuelCount: refuels.length,
+    liters,
+    totalPrice,
+    averagePricePerLiter: liters > 0 ? totalPrice / liters : null,
+    measuredDistance,
+    measuredLiters,
+    measuredPer100km: measuredDistance > 0 ? measuredLiters / measuredDistance * 100 : null
+  };
+}
+
+// Reads a refuel from a request body. Returns an error message for invalid input.
+export function parseRefuel(body: Record<string, unknown>, vehicles: Vehicle[]): Omit<Refuel, 'id'> | string {
+  const vehicleId = Number(body.vehicleId);
+  if (!vehicles.some(v => v.id === vehicleId)) {
+    return 'Välj fordon';
+  }
+
+  const date = String(body.date || '');
+  if (!/^\d{4}-\d{2}-\d{2}( \d{2}:\d{2})?$/.test(date)) {
+    return 'Ange datum för tankningen';
+  }
+
+  const parse = (value: unknown) => Number(String(value ?? '').replace(',', '.').replace(/\s/g, ''));
+  const odometer = parse(body.odometer);
+  const liters = parse(body.liters);
+  const totalPrice = parse(body.totalPrice);
+
+  if (!body.odometer || Number.isNaN(odometer) || odometer < 0) {
+    return 'Ange mätarställning i km';
+  }
+  if (!body.liters || Number.isNaN(liters) || liters <= 0) {
+    return 'Ange antal liter';
+  }
+  if (body.totalPrice === '' || body.totalPrice === undefined || Number.isNaN(totalPrice) || totalPrice < 0) {
+    return 'Ange totalpris i kr';
+  }
+
+  return {
+    vehicleId,
+    date,
+    odometer,
+    liters,
+    totalPrice,
+    station: String(body.station || '').trim(),
+    fullTank: body.fullTank !== false
+  };
+}
@@ -0,0 +1,222 @@
+import type { Trip, CategorizationRule, Customer, Project } from './database';
+import { normalizeAddress, containsAddress } from './places';
+import { resolveCustomerProject } from './customers';
+
+export const WEEKDAY_NAMES = ['Mån', 'Tis', 'Ons', 'Tor', 'Fre', 'Lör', 'Sön'];
+
+type RuleTrip = Pick<Trip, 'startPosition' | 'endDestination' | 'startDate' | 'distance'>;
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Gregorian computus (Meeus/Jones/Butcher)
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+// The first Saturday on or after the given day
+const saturdayFrom = (year: number, month: number, day: number) => {
+  const date = new Date(year, month - 1, day);
+  return addDays(date, (6 - date.getDay() + 7) % 7);
+};
+
+// Swedish public holidays (allmänna helgdagar), plus midsommarafton,
+// julafton and nyårsafton which are days off in practice
+export function swedishHolidays(year: number): Map<string, string> {
+  const easter = easterSunday(year);
+  const midsummerDay = saturdayFrom(year, 6, 20);
+
+  return new Map([
+    [`${year}-01-01`, 'Nyårsdagen'],
+    [`${year}-01-06`, 'Trettondedag jul'],
+    [isoDate(addDays(easter, -2)), 'Långfredagen'],
+    [isoDate(easter), 'Påskdagen'],
+    [isoDate(addDays(easter, 1)), 'Annandag påsk'],
+    [`${year}-05-01`, 'Första maj'],
+    [isoDate(addDays(easter, 39)), 'Kristi himmelsfärdsdag'],
+    [isoDate(addDays(easter, 49)), 'Pingstdagen'],
+    [`${year}-06-06`, 'Sveriges nationaldag'],
+    [isoDate(addDays(midsummerDay, -1)), 'Midsommarafton'],
+    [isoDate(midsummerDay), 'Midsommardagen'],
+    [isoDate(saturdayFrom(year, 10, 31)), 'Alla helgons dag'],
+    [`${year}-12-24`, 'Julafton'],
+    [`${year}-12-25`, 'Juldagen'],
+    [`${year}-12-26`, 'Annandag jul'],
+    [`${year}-12-31`, 'Nyårsafton']
+  ]);
+}
+
+// Returns the name of the holiday on a "YYYY-MM-DD ..." date, or null
+export function getSwedishHoliday(date: string): string | null {
+  const day = date.slice(0, 10);
+  return swedishHolidays(parseInt(day.slice(0, 4))).get(day) || null;
+}
+
+// Monday = 1 ... Sunday = 7, like the weekdays stored on a rule
+function isoWeekday(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day).getDay() || 7;
+}
+
+// An empty condition always matches. Addresses match the way place patterns
+// do, on whole words. A time window that ends before it starts, like
+// 22:00-05:00, wraps past midnight.
+export function ruleMatches(rule: CategorizationRule, trip: RuleTrip): boolean {
+  if (rule.startPattern && !containsAddress(normalizeAddress(trip.startPosition), normalizeAddress(rule.startPattern))) {
+    return false;
+  }
+  if (rule.endPattern && !containsAddress(normalizeAddress(trip.endDestination), normalizeAddress(rule.endPattern))) {
+    return false;
+  }
+  if (rule.weekdays.length > 0 && !rule.weekdays.includes(isoWeekday(trip.startDate))) {
+    return false;
+  }
+
+  const time = trip.startDate.slice(11, 16);
+  if (rule.timeFrom && rule.timeTo) {
+    const inWindow = rule.timeFrom <= rule.timeTo
+      ? time >= rule.timeFrom && time < rule.timeTo
+      : time >= rule.timeFrom || time < rule.timeTo;
+    if (!inWindow) return false;
+  } else if (rule.timeFrom && time < rule.timeFrom) {
+    return false;
+  } else if (rule.timeTo && time >= rule.timeTo) {
+    return false;
+  }
+
+  if (rule.minDistance !== null && trip.distance < rule.minDistance) {
+    return false;
+  }
+  if (rule.maxDistance !== null && trip.distance > rule.maxDistance) {
+    return false;
+  }
+
+  if (rule.holidays !== 'any') {
+    const isHoliday = getSwedishHoliday(trip.startDate) !== null;
+    if ((rule.holidays === 'only') !== isHoliday) return false;
+  }
+
+  return true;
+}
+
+// Rules are tried in priority order, lowest number first
+export function findRule(trip: RuleTrip, rules: CategorizationRule[]): CategorizationRule | null {
+  return [...rules]
+    .filter(rule => rule.enabled)
+    .sort((a, b) => a.priority - b.priority || (a.id || 0) - (b.id || 0))
+    .find(rule => ruleMatches(rule, trip)) || null;
+}
+
+// What the first matching rule would do to a trip. An existing purpose or
+// customer is kept; the rule's only fill in empty ones.
+export function categorizeTrip(
+  trip: RuleTrip & Pick<Trip, 'notes' | 'customerId' | 'projectId'>,
+  rules: CategorizationRule[]
+): { ruleId: number; category: string; notes: string; customerId: number | null; projectId: number | null } | null {
+  const rule = findRule(trip, rules);
+  if (!rule) return null;
+
+  const keepCustomer = trip.customerId !== null && trip.customerId !== undefined;
+  return {
+    ruleId: rule.id!,
+    category: rule.category,
+    notes: trip.notes || rule.purpose,
+    customerId: keepCustomer ? trip.customerId! : rule.customerId,
+    projectId: keepCustomer ? trip.projectId ?? null : rule.projectId
+  };
+}
+
+// A short Swedish summary of a rule's conditions, for lists
+export function describeRule(rule: CategorizationRule): string {
+  const parts: string[] = [];
+
+  if (rule.startPattern) parts.push(`från "${rule.startPattern}"`);
+  if (rule.endPattern) parts.push(`till "${rule.endPattern}"`);
+  if (rule.weekdays.length > 0) parts.push(rule.weekdays.map(day => WEEKDAY_NAMES[day - 1]).join(', '));
+  if (rule.timeFrom || rule.timeTo) parts.push(`${rule.timeFrom || '00:00'}–${rule.timeTo || '24:00'}`);
+  if (rule.minDistance !== null || rule.maxDistance !== null) {
+    parts.push(`${rule.minDistance ?? 0}–${rule.maxDistance ?? '∞'} km`);
+  }
+  if (rule.holidays === 'only') parts.push('helgdagar');
+  if (rule.holidays === 'exclude') parts.push('ej helgdagar');
+
+  return parts.length > 0 ? parts.join(' · ') : 'Alla resor';
+}
+
+// Reads a rule from a request body. Returns an error message for invalid input.
+export function parseRule(
+  body: Record<string, unknown>,
+  categoryNames: string[],
+  customers: Customer[],
+  projects: Project[]
+): Omit<CategorizationRule, 'id'> | string {
+  const name = String(body.name || '').trim();
+  if (!name) {
+    return 'Namn måste anges';
+  }
+
+  const category = String(body.category || '');
+  if (!categoryNames.includes(category)) {
+    return 'Välj en kategori';
+  }
+
+  const optionalNumber = (value: unknown) => value === undefined || value === null || value === '' ? null : Number(value);
+  const minDistance = optionalNumber(body.minDistance);
+  const maxDistance = optionalNumber(body.maxDistance);
+  const priority = optionalNumber(body.priority) ?? 100;
+  if ([minDistance, maxDistance, priority].some(value => Number.isNaN(value))) {
+    return 'Prioritet och avstånd måste anges som tal';
+  }
+
+  const time = (value: unknown) => String(value || '').trim();
+  const timeFrom = time(body.timeFrom);
+  const timeTo = time(body.timeTo);
+  if ([timeFrom, timeTo].some(value => value && !/^([01]\d|2[0-3]):[0-5]\d$/.test(value))) {
+    return 'Ange tider som HH:MM';
+  }
+
+  const weekdays = (Array.isArray(body.weekdays) ? body.weekdays : [])
+    .map(Number)
+    .filter(day => Number.isInteger(day) && day >= 1 && day <= 7)
+    .sort();
+  const holidays = body.holidays === 'only' || body.holidays === 'exclude' ? body.holidays : 'any';
+
+  const customerProject = resolveCustomerProject(body, customers, projects);
+  if (typeof customerProject === 'string') {
+    return customerProject;
+  }
+
+  return {
+    name,
+    priority,
+    enabled: body.enabled !== false,
+    startPattern: String(body.startPattern || '').trim(),
+    endPattern: String(body.endPattern || '').trim(),
+    weekdays: [...new Set(weekdays)],
+    timeFrom,
+    timeTo,
+    minDistance,
+    maxDistance,
+    holidays,
+    category,
+    purpose: String(body.purpose || '').trim(),
+    ...customerProject
+  };
+}
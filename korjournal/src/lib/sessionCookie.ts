@@ -0,0 +1,3 @@
+// Shared between the middleware (edge runtime) and the auth module (node),
+// so this file must not import anything that needs node APIs
+export const SESSION_COOKIE = 'korjournal_session';
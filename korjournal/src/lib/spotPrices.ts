@@ -0,0 +1,242 @@
+import type { SpotPrice } from './database';
+
+export const SPOT_PRICE_AREAS = ['SE1', 'SE2', 'SE3', 'SE4'];
+
+// Settings key for the bidding area the electricity contract is in
+export const SPOT_PRICE_AREA_SETTING = 'spotPriceArea';
+
+export interface SpotPriceIndex {
+  hourly: Map<string, number>;
+  // Plain average of the month's hours, what a monthly-price contract pays
+  monthlyAverage: Map<string, number>;
+}
+
+export function indexSpotPrices(prices: SpotPrice[]): SpotPriceIndex {
+  const hourly = new Map(prices.map(price => [price.hour, price.price]));
+
+  const months = new Map<string, { sum: number; hours: number }>();
+  for (const price of prices) {
+    const month = months.get(price.hour.slice(0, 7)) || { sum: 0, hours: 0 };
+    month.sum += price.price;
+    month.hours++;
+    months.set(price.hour.slice(0, 7), month);
+  }
+
+  return {
+    hourly,
+    monthlyAverage: new Map([...months.entries()].map(([month, { sum, hours }]) => [month, sum / hours]))
+  };
+}
+
+// A price as read from a file. Since Nord Pool moved to 15-minute prices a
+// file can have several per hour; they are averaged into the hour.
+interface PricePoint {
+  area: string;
+  time: string;
+  price: number;
+}
+
+const stockholmTime = new Intl.DateTimeFormat('en-GB', {
+  timeZone: 'Europe/Stockholm',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+// Swedish local time 'YYYY-MM-DD HH:MM' from the timestamp formats the exports
+// use. Timestamps without a zone are taken to be local time already, which is
+// what Nord Pool's CET columns are.
+function toLocalTime(value: string): string | null {
+  const text = value.trim();
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    const date = new Date(text);
+    if (isNaN(date.getTime())) return null;
+    const parts = Object.fromEntries(stockholmTime.formatToParts(date).map(part => [part.type, part.value]));
+    return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`;
+  }
+
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})/);
+  if (iso) return `${iso[1]} ${iso[2]}`;
+
+  const european = text.match(/^(\d{2})[./-](\d{2})[./-](\d{4})(?: (\d{2}:\d{2}))?/);
+  if (european) return `${european[3]}-${european[2]}-${european[1]} ${european[4] || '00:00'}`;
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return `${text} 00:00`;
+
+  return null;
+}
+
+const parsePrice = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').replace(/\s/g, '').replace(',', '.');
+  return text === '' || text === '-' ? NaN : Number(text);
+};
+
+// Divisor from the unit named in a header or title to kr per kWh
+function unitDivisor(text: string): number {
+  if (/MWh/i.test(text)) return 1000;
+  if (/öre/i.test(text)) return 100;
+  return 1;
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+// Nord Pool's exports have one column per area, older ones with a date and
+// an hour range ("00 - 01") column and newer ones with a delivery start time.
+// Other sites export one area with a time and a price column.
+function parseCsv(content: string, area: string | null): PricePoint[] | string {
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  const headerIndex = lines.findIndex(line =>
+    /date|datum|time|tid|start|delivery|hour/i.test(line) && /SE[1-4]|pri[cs]|SEK|öre|kr/i.test(line)
+  );
+  if (headerIndex === -1) {
+    return 'Hittade ingen rubrikrad med tid och pris i filen';
+  }
+
+  const headerLine = lines[headerIndex];
+  const delimiter = [';', '\t', ','].find(d => headerLine.includes(d)) || ';';
+  const header = splitCsvLine(headerLine, delimiter);
+  const title = lines.slice(0, headerIndex).join(' ');
+
+  const priceColumns = header
+    .map((name, index) => ({ area: name.match(/\bSE([1-4])\b/)?.[0] || null, index, name }))
+    .filter(column => column.area !== null);
+  if (priceColumns.length === 0) {
+    const index = header.findIndex(name => /pri[cs]|SEK|öre|kr/i.test(name));
+    if (index !== -1) {
+      priceColumns.push({ area, index, name: header[index] });
+    }
+  }
+  if (priceColumns.length === 0) {
+    return 'Hittade ingen priskolumn i filen';
+  }
+  if (priceColumns.some(column => column.area === null)) {
+    return 'Välj vilket elområde filen gäller';
+  }
+  if (priceColumns.some(column => /EUR/i.test(column.name)) || /EUR/i.test(title)) {
+    return 'Priserna måste vara i SEK, exportera filen i svenska kronor';
+  }
+
+  const startColumn = header.findIndex(name => /start/i.test(name));
+  const namedColumn = startColumn !== -1 ? startColumn : header.findIndex(name => /date|datum|time|tid|delivery/i.test(name));
+  // The oldest exports leave the date column's heading empty
+  const timeColumn = namedColumn !== -1 ? namedColumn : 0;
+  const hourColumn = header.findIndex(name => /^(hours?|timmar|timme)$/i.test(name));
+
+  const points: PricePoint[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    const cells = splitCsvLine(line, delimiter);
+    let time = toLocalTime(cells[timeColumn] || '');
+    if (time && hourColumn !== -1) {
+      const hour = (cells[hourColumn] || '').match(/^(\d{1,2})/);
+      if (!hour) continue;
+      time = `${time.slice(0, 10)} ${hour[1].padStart(2, '0')}:00`;
+    }
+    if (!time) continue;
+
+    for (const column of priceColumns) {
+      const price = parsePrice(cells[column.index]) / unitDivisor(`${column.name} ${title}`);
+      if (!isNaN(price)) {
+        points.push({ area: column.area!, time, price });
+      }
+    }
+  }
+  return points;
+}
+
+// Nord Pool's API ({ currency, multiAreaEntries: [{ deliveryStart, entryPerArea }] },
+// per MWh) and lists of { time_start, SEK_per_kWh } like elprisetjustnu.se's
+function parseJson(data: unknown, area: string | null): PricePoint[] | string {
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const object = data as Record<string, unknown>;
+    if (Array.isArray(object.multiAreaEntries)) {
+      if (object.currency && object.currency !== 'SEK') {
+        return 'Priserna måste vara i SEK, exportera filen i svenska kronor';
+      }
+      return object.multiAreaEntries.flatMap((entry: Record<string, unknown>) => {
+        const time = toLocalTime(String(entry.deliveryStart ?? ''));
+        const perArea = (entry.entryPerArea || {}) as Record<string, unknown>;
+        return time
+          ? Object.entries(perArea)
+            .filter(([name]) => SPOT_PRICE_AREAS.includes(name))
+            .map(([name, price]) => ({ area: name, time, price: parsePrice(price) / 1000 }))
+          : [];
+      });
+    }
+    const list = object.prices ?? object.data ?? object.entries;
+    return Array.isArray(list) ? parseJson(list, area) : 'Okänt JSON-format';
+  }
+
+  if (!Array.isArray(data)) {
+    return 'Okänt JSON-format';
+  }
+  if (!area) {
+    return 'Välj vilket elområde filen gäller';
+  }
+
+  const points: PricePoint[] = [];
+  for (const entry of data as Record<string, unknown>[]) {
+    const time = toLocalTime(String(entry.time_start ?? entry.timeStart ?? entry.start ?? entry.deliveryStart ?? entry.time ?? ''));
+    const price = entry.SEK_per_kWh !== undefined ? parsePrice(entry.SEK_per_kWh) : parsePrice(entry.price ?? entry.value);
+    if (time && !isNaN(price)) {
+      points.push({ area, time, price });
+    }
+  }
+  return points;
+}
+
+// Reads hourly spot prices from an uploaded CSV or JSON file. area is used
+// for files that hold a single area without naming it. Returns an error
+// message if nothing could be read.
+export function parseSpotPriceFile(content: string, fileName: string, area: string | null): SpotPrice[] | string {
+  const text = content.replace(/^\uFEFF/, '');
+
+  let points: PricePoint[] | string;
+  if (fileName.toLowerCase().endsWith('.json')) {
+    try {
+      points = parseJson(JSON.parse(text), area);
+    } catch {
+      return 'Filen är inte giltig JSON';
+    }
+  } else {
+    points = parseCsv(text, area);
+  }
+  if (typeof points === 'string') {
+    return points;
+  }
+
+  const hours = new Map<string, { area: string; hour: string; sum: number; count: number }>();
+  for (const point of points) {
+    const hour = `${point.time.slice(0, 13)}:00`;
+    const key = `${point.area} ${hour}`;
+    const entry = hours.get(key) || { area: point.area, hour, sum: 0, count: 0 };
+    entry.sum += point.price;
+    entry.count++;
+    hours.set(key, entry);
+  }
+
+  if (hours.size === 0) {
+    return 'Hittade inga timpriser i filen';
+  }
+  return [...hours.values()].map(({ area, hour, sum, count }) => ({ area, hour, price: sum / count }));
+}
@@ -0,0 +1,117 @@
+import type { Trip, Vehicle, TravelDeductionRate } from './database';
+
+// Settings keys for the saved places commutes go between
+export const HOME_PLACE_SETTING = 'travelHomePlaceId';
+export const WORK_PLACE_SETTING = 'travelWorkPlaceId';
+
+export interface TravelDeductionMonth {
+  month: string;
+  workingDays: number;
+  distance: number;
+}
+
+export interface TravelDeductionReport {
+  year: number;
+  rate: TravelDeductionRate | null;
+  commuteTrips: number;
+  workingDays: number;
+  distance: number;
+  // Average commute per working day, there and back
+  distancePerDay: number;
+  cost: number;
+  deduction: number;
+  months: TravelDeductionMonth[];
+}
+
+// A trip between home and work in either direction. The places are the ones
+// the trip's addresses were matched to.
+export const isCommuteTrip = (trip: Trip, homePlaceId: number, workPlaceId: number) =>
+  (trip.startPlaceId === homePlaceId && trip.endPlaceId === workPlaceId) ||
+  (trip.startPlaceId === workPlaceId && trip.endPlaceId === homePlaceId);
+
+// Reseavdrag for one year. Only private cars count; commuting in a benefit
+// car is handled through the benefit value instead. A working day is a day
+// with at least one commute trip. The deduction is the cost above the
+// threshold, in whole kronor as in the tax return.
+export function calculateTravelDeduction(
+  trips: Trip[],
+  vehicles: Vehicle[],
+  rate: TravelDeductionRate | null,
+  homePlaceId: number,
+  workPlaceId: number,
+  year: number
+): TravelDeductionReport {
+  const commuteTrips = trips.filter(trip => {
+    const vehicle = vehicles.find(v => v.id === trip.vehicleId);
+    return trip.startDate.startsWith(`${year}-`) &&
+      (!vehicle || vehicle.allowanceType === 'private') &&
+      isCommuteTrip(trip, homePlaceId, workPlaceId);
+  });
+
+  const workingDays = new Set(commuteTrips.map(trip => trip.startDate.slice(0, 10))).size;
+  const distance = commuteTrips.reduce((sum, trip) => sum + trip.distance, 0);
+  const cost = rate ? Math.round(distance / 10 * rate.ratePerMil) : 0;
+
+  const months = new Map<string, { days: Set<string>; distance: number }>();
+  for (const trip of commuteTrips) {
+    const month = trip.startDate.slice(0, 7);
+    const stats = months.get(month) || { days: new Set<string>(), distance: 0 };
+    stats.days.add(trip.startDate.slice(0, 10));
+    stats.distance += trip.distance;
+    months.set(month, stats);
+  }
+
+  return {
+    year,
+    rate,
+    commuteTrips: commuteTrips.length,
+    workingDays,
+    distance,
+    distancePerDay: workingDays > 0 ? Math.round(distance / workingDays * 10) / 10 : 0,
+    cost,
+    deduction: rate ? Math.max(0, Math.floor(cost - rate.threshold)) : 0,
+    months: [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, stats]) => ({ month, workingDays: stats.days.size, distance: stats.distance }))
+  };
+}
+
+// Plain text for the tax return's "Resor till och från arbetet"
+export function formatTravelDeductionSummary(report: TravelDeductionReport, homeName: string, workName: string): string {
+  const lines = [
+    `Reseavdrag ${report.year}: resor mellan ${homeName} och ${workName} med egen bil`,
+    `Antal arbetsdagar: ${report.workingDays}`,
+    `Avstånd tur och retur per dag: ${report.distancePerDay.toLocaleString('sv-SE')} km`,
+    `Körsträcka totalt: ${report.distance.toLocaleString('sv-SE')} km`
+  ];
+  if (report.rate) {
+    lines.push(
+      `Kostnad (${report.rate.ratePerMil.toLocaleString('sv-SE')} kr/mil): ${report.cost.toLocaleString('sv-SE')} kr`,
+      `Beloppsgräns: ${report.rate.threshold.toLocaleString('sv-SE')} kr`,
+      `Avdrag: ${report.deduction.toLocaleString('sv-SE')} kr`
+    );
+  } else {
+    lines.push(`Ingen sats angiven för ${report.year}`);
+  }
+  return lines.join('\n');
+}
+
+// Reads a year's rate from a request body. Returns an error message for invalid input.
+export function parseTravelDeductionRate(body: Record<string, unknown>): TravelDeductionRate | string {
+  const year = Number(body.year);
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    return 'Ogiltigt år';
+  }
+
+  const ratePerMil = Number(String(body.ratePerMil ?? '').replace(',', '.'));
+  if (body.ratePerMil === '' || body.ratePerMil === undefined || Number.isNaN(ratePerMil) || ratePerMil < 0) {
+    return 'Ange satsen i kr per mil';
+  }
+
+  const threshold = Number(String(body.threshold ?? '').replace(',', '.').replace(/\s/g, ''));
+  if (body.threshold === '' || body.threshold === undefined || Number.isNaN(threshold) || threshold < 0) {
+    return 'Ange beloppsgränsen i kr';
+  }
+
+  return { year, ratePerMil, threshold };
+}
@@ -0,0 +1,69 @@
+import type { TripHistoryEntry, Driver, Customer, Project } from './database';
+import { formatDuration } from './units';
+
+const fieldLabels: Record<string, string> = {
+  category: 'Kategori',
+  notes: 'Anteckningar',
+  startPosition: 'Startposition',
+  endDestination: 'Slutdestination',
+  duration: 'Varaktighet',
+  durationMinutes: 'Varaktighet',
+  driverId: 'Förare',
+  customerId: 'Kund',
+  projectId: 'Projekt'
+};
+
+export function formatHistoryField(entry: TripHistoryEntry): string {
+  if (entry.action === 'delete') {
+    return 'Resan borttagen';
+  }
+  if (entry.action === 'split') {
+    return 'Resan delad';
+  }
+  if (entry.action === 'merge') {
+    return 'Sammanslagen med andra resor';
+  }
+  if (entry.action === 'unmerge') {
+    return 'Sammanslagningen ångrad';
+  }
+  if (entry.action === 'restore') {
+    return 'Återinförd av en ny import';
+  }
+  return fieldLabels[entry.field || ''] || entry.field || '';
+}
+
+// Driver, customer and project ids are stored as is in the log and shown by name
+export function formatHistoryValue(
+  entry: TripHistoryEntry,
+  value: string | null,
+  drivers: Driver[],
+  customers: Customer[] = [],
+  projects: Project[] = []
+): string {
+  if (value === null || value === '') {
+    return '–';
+  }
+  if (entry.field === 'driverId') {
+    return drivers.find(d => d.id === Number(value))?.name || `Förare ${value}`;
+  }
+  if (entry.field === 'customerId') {
+    return customers.find(c => c.id === Number(value))?.name || `Kund ${value}`;
+  }
+  if (entry.field === 'projectId') {
+    return projects.find(p => p.id === Number(value))?.name || `Projekt ${value}`;
+  }
+  if (entry.field === 'durationMinutes') {
+    return formatDuration(Number(value));
+  }
+  return value;
+}
+
+export function formatHistoryTime(changedAt: string): string {
+  return new Date(changedAt).toLocaleString('sv-SE', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
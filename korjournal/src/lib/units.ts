@@ -0,0 +1,47 @@
+// Conversions between the display strings used in Volvo's CSV export
+// ("3,2 l", "12,5 kWh", "1h 5m") and the numbers stored in the database.
+
+// Parses an amount with an optional unit and a comma or dot as decimal
+// separator. Returns null for empty or unreadable values.
+export function parseAmount(text: string | null | undefined): number | null {
+  if (!text) return null;
+  
+  const match = text.replace(/\s/g, '').replace(',', '.').match(/^-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+// Parses "1h 5m", "45m", "2h", "1:05" or a plain number of minutes
+export function parseDuration(text: string | null | undefined): number | null {
+  if (!text) return null;
+  
+  const trimmed = text.trim().toLowerCase();
+  
+  const clock = trimmed.match(/^(\d+):(\d{1,2})$/);
+  if (clock) {
+    return parseInt(clock[1]) * 60 + parseInt(clock[2]);
+  }
+  
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed);
+  }
+  
+  const hours = trimmed.match(/(\d+)\s*h/);
+  const minutes = trimmed.match(/(\d+)\s*m/);
+  if (!hours && !minutes) return null;
+  
+  return (hours ? parseInt(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0);
+}
+
+export function formatDuration(minutes: number | null | undefined): string {
+  if (minutes === null || minutes === undefined) return '';
+  
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+}
+
+export function formatAmount(value: number | null | undefined, unit: string): string {
+  if (value === null || value === undefined) return '';
+  
+  return `${value.toLocaleString('sv-SE', { maximumFractionDigits: 2 })} ${unit}`;
+}
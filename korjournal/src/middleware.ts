@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/sessionCookie';
+
+// Middleware runs on the edge runtime without database access, so it only
+// checks that a session cookie is present. Every API route validates the
+// session itself through requireUser.
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  
+  if (pathname.startsWith('/api/auth/') || pathname === '/login') {
+    return NextResponse.next();
+  }
+  
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+  
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Du måste logga in' }, { status: 401 });
+  }
+  
+  return NextResponse.redirect(new URL('/login', request.url));
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|ico)$).*)']
+};